@@ -7,6 +7,7 @@ import { App } from './app';
 import { NavbarComponent } from './components/navbar/navbar.component';
 import { SvgGeneratorService } from './services/svg-generator.service';
 import { SeoService } from './services/seo.service';
+import { provideBuiltInShapeGenerators } from './generators';
 
 @NgModule({
   declarations: [
@@ -21,6 +22,7 @@ import { SeoService } from './services/seo.service';
   providers: [
     SvgGeneratorService,
     SeoService,
+    provideBuiltInShapeGenerators(),
     provideBrowserGlobalErrorListeners()
   ],
   bootstrap: [App]
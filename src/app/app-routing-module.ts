@@ -1,14 +1,17 @@
 import { NgModule } from '@angular/core';
 import { RouterModule, Routes } from '@angular/router';
+import { permalinkResolver } from './services/permalink.resolver';
 
 const routes: Routes = [
   { 
     path: '', 
-    loadComponent: () => import('./components/svg-generator/svg-generator.component').then(m => m.SvgGeneratorComponent)
+    loadComponent: () => import('./components/svg-generator/svg-generator.component').then(m => m.SvgGeneratorComponent),
+    resolve: { permalink: permalinkResolver }
   },
   { 
     path: 'generator', 
-    loadComponent: () => import('./components/svg-generator/svg-generator.component').then(m => m.SvgGeneratorComponent)
+    loadComponent: () => import('./components/svg-generator/svg-generator.component').then(m => m.SvgGeneratorComponent),
+    resolve: { permalink: permalinkResolver }
   },
   { path: '**', redirectTo: '' }
 ];
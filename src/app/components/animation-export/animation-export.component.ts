@@ -0,0 +1,123 @@
+import { Component, EventEmitter, OnInit, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import {
+    ANIMATION_EXPORT_FORMATS,
+    ANIMATION_FPS_OPTIONS,
+    AnimationExportFormat,
+    AnimationExportOptions,
+    AnimationExportService,
+    MAX_EXPORT_FRAMES,
+    MAX_EXPORT_WIDTH,
+    MIN_EXPORT_WIDTH,
+} from '../../services/animation-export.service';
+
+@Component({
+    selector: 'app-animation-export',
+    templateUrl: './animation-export.component.html',
+    styleUrls: ['./animation-export.component.scss'],
+    standalone: true,
+    imports: [CommonModule],
+})
+export class AnimationExportComponent implements OnInit {
+    @Output() closed = new EventEmitter<void>();
+
+    readonly formats = ANIMATION_EXPORT_FORMATS;
+    readonly fpsOptions = ANIMATION_FPS_OPTIONS;
+    readonly minWidth = MIN_EXPORT_WIDTH;
+    readonly maxWidth = MAX_EXPORT_WIDTH;
+
+    options: AnimationExportOptions = {
+        format: 'gif',
+        fps: 15,
+        duration: 2,
+        plays: 0,
+        width: 480,
+    };
+    /** Share of the frames encoded so far, null when not exporting */
+    progress: number | null = null;
+    error: string | null = null;
+
+    constructor(private animationExportService: AnimationExportService) {}
+
+    async ngOnInit(): Promise<void> {
+        this.options.duration = await this.animationExportService.getDefaultDuration();
+    }
+
+    get frameCount(): number {
+        return Math.max(1, Math.round(this.options.duration * this.options.fps));
+    }
+
+    get tooManyFrames(): boolean {
+        return this.frameCount > MAX_EXPORT_FRAMES;
+    }
+
+    isFormatSupported(format: AnimationExportFormat): boolean {
+        return this.animationExportService.isFormatSupported(format);
+    }
+
+    setFormat(format: string): void {
+        this.options = { ...this.options, format: format as AnimationExportFormat };
+    }
+
+    setFps(raw: string): void {
+        this.options = { ...this.options, fps: Number(raw) };
+    }
+
+    setDuration(raw: string): void {
+        const duration = Number(raw);
+        if (raw.trim() === '' || !(duration > 0)) return;
+        this.options = { ...this.options, duration };
+    }
+
+    setPlays(raw: string): void {
+        const plays = Number(raw);
+        if (!Number.isInteger(plays) || plays < 0) return;
+        this.options = { ...this.options, plays };
+    }
+
+    setWidth(raw: string): void {
+        const width = Number(raw);
+        if (!Number.isInteger(width) || width < MIN_EXPORT_WIDTH || width > MAX_EXPORT_WIDTH)
+            return;
+        this.options = { ...this.options, width };
+    }
+
+    async export(): Promise<void> {
+        if (this.progress !== null || this.tooManyFrames) return;
+
+        this.error = null;
+        this.progress = 0;
+        try {
+            const blob = await this.animationExportService.exportAnimation(
+                this.options,
+                (done, total) => {
+                    this.progress = done / total;
+                }
+            );
+            const format = this.formats.find((option) => option.value === this.options.format);
+            const extension = format?.extension ?? this.options.format;
+            this.download(blob, `generative-svg-${Date.now()}.${extension}`);
+        } catch (error) {
+            this.error = (error as Error).message;
+        } finally {
+            this.progress = null;
+        }
+    }
+
+    close(): void {
+        if (this.progress === null) {
+            this.closed.emit();
+        }
+    }
+
+    private download(blob: Blob, fileName: string): void {
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = fileName;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
+    }
+}
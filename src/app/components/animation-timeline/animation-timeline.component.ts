@@ -0,0 +1,235 @@
+import { Component } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Observable } from 'rxjs';
+import {
+    AnimationTimeline,
+    AnimatableParameterDefinition,
+    EASING_OPTIONS,
+    getTrackValue,
+    isAnimatableParameter,
+    Keyframe,
+    KeyframeEasing,
+    MAX_DURATION,
+    MAX_FRAME_COUNT,
+    MIN_DURATION,
+    MIN_FRAME_COUNT,
+    ParameterTrack,
+    sortKeyframes,
+} from '../../services/keyframe-animation';
+import { SvgDocument, SvgGeneratorService, SvgLayer } from '../../services/svg-generator.service';
+import { ShapeRegistryService } from '../../services/shape-registry.service';
+import { parseParameterValue } from '../../generators/shape-parameters';
+
+@Component({
+    selector: 'app-animation-timeline',
+    templateUrl: './animation-timeline.component.html',
+    styleUrls: ['./animation-timeline.component.scss'],
+    standalone: true,
+    imports: [CommonModule],
+})
+export class AnimationTimelineComponent {
+    readonly document$: Observable<SvgDocument>;
+    readonly easingOptions = EASING_OPTIONS;
+    readonly minDuration = MIN_DURATION;
+    readonly maxDuration = MAX_DURATION;
+    readonly minFrameCount = MIN_FRAME_COUNT;
+    readonly maxFrameCount = MAX_FRAME_COUNT;
+
+    constructor(
+        private svgGeneratorService: SvgGeneratorService,
+        private shapeRegistry: ShapeRegistryService
+    ) {
+        this.document$ = this.svgGeneratorService.document$;
+    }
+
+    getActiveLayer(document: SvgDocument): SvgLayer | undefined {
+        return document.layers.find((layer) => layer.id === document.activeLayerId);
+    }
+
+    getTimeline(document: SvgDocument): AnimationTimeline {
+        return this.svgGeneratorService.getTimeline(document);
+    }
+
+    /**
+     * Numeric and color parameters of the layer's shape that have no track yet
+     */
+    getUntrackedParameters(layer: SvgLayer): AnimatableParameterDefinition[] {
+        return this.getAnimatableParameters(layer).filter(
+            (definition) => !layer.tracks.some((track) => track.key === definition.key)
+        );
+    }
+
+    getDefinition(
+        layer: SvgLayer,
+        track: ParameterTrack
+    ): AnimatableParameterDefinition | undefined {
+        return this.getAnimatableParameters(layer).find(
+            (definition) => definition.key === track.key
+        );
+    }
+
+    /**
+     * Horizontal position of a keyframe on the track bar, in percent
+     */
+    getKeyframePosition(keyframe: Keyframe, timeline: AnimationTimeline): number {
+        return Math.min((keyframe.time / timeline.duration) * 100, 100);
+    }
+
+    trackByKey(_index: number, track: ParameterTrack): string {
+        return track.key;
+    }
+
+    /**
+     * Start animating a parameter with keyframes at both ends of the timeline holding its current value
+     */
+    addTrack(layer: SvgLayer, key: string, timeline: AnimationTimeline): void {
+        const definition = this.getAnimatableParameters(layer).find(
+            (candidate) => candidate.key === key
+        );
+        if (!definition) return;
+
+        const value = this.getCurrentValue(layer, definition);
+        const track: ParameterTrack = {
+            key: definition.key,
+            keyframes: [
+                { time: 0, value, easing: 'linear' },
+                { time: timeline.duration, value, easing: 'linear' },
+            ],
+        };
+        this.updateTracks(layer, [...layer.tracks, track]);
+    }
+
+    removeTrack(layer: SvgLayer, trackIndex: number): void {
+        this.updateTracks(
+            layer,
+            layer.tracks.filter((_, index) => index !== trackIndex)
+        );
+    }
+
+    /**
+     * Add a keyframe in the middle of the longest gap of a track, holding the value the track has there
+     */
+    addKeyframe(layer: SvgLayer, trackIndex: number, timeline: AnimationTimeline): void {
+        const track = layer.tracks[trackIndex];
+        const definition = this.getDefinition(layer, track);
+        if (!definition) return;
+
+        const times = [
+            0,
+            ...track.keyframes.map((keyframe) => keyframe.time),
+            timeline.duration,
+        ].sort((a, b) => a - b);
+        let time = timeline.duration / 2;
+        let widestGap = 0;
+        times.slice(1).forEach((end, index) => {
+            if (end - times[index] > widestGap) {
+                widestGap = end - times[index];
+                time = parseFloat(((times[index] + end) / 2).toFixed(3));
+            }
+        });
+
+        const value =
+            getTrackValue(track, definition, time) ?? this.getCurrentValue(layer, definition);
+        this.updateKeyframes(layer, trackIndex, [
+            ...track.keyframes,
+            { time, value, easing: 'linear' },
+        ]);
+    }
+
+    removeKeyframe(layer: SvgLayer, trackIndex: number, keyframeIndex: number): void {
+        const keyframes = layer.tracks[trackIndex].keyframes.filter(
+            (_, index) => index !== keyframeIndex
+        );
+        if (keyframes.length === 0) {
+            this.removeTrack(layer, trackIndex);
+        } else {
+            this.updateKeyframes(layer, trackIndex, keyframes);
+        }
+    }
+
+    setKeyframeTime(layer: SvgLayer, trackIndex: number, keyframeIndex: number, raw: string): void {
+        const time = Number(raw);
+        if (raw.trim() === '' || !Number.isFinite(time) || time < 0) return;
+        this.updateKeyframe(layer, trackIndex, keyframeIndex, { time });
+    }
+
+    setKeyframeValue(
+        layer: SvgLayer,
+        trackIndex: number,
+        keyframeIndex: number,
+        raw: string
+    ): void {
+        const definition = this.getDefinition(layer, layer.tracks[trackIndex]);
+        const value = definition ? parseParameterValue(definition, raw) : undefined;
+        if (value === undefined) return;
+        this.updateKeyframe(layer, trackIndex, keyframeIndex, { value: value as number | string });
+    }
+
+    setKeyframeEasing(
+        layer: SvgLayer,
+        trackIndex: number,
+        keyframeIndex: number,
+        easing: string
+    ): void {
+        this.updateKeyframe(layer, trackIndex, keyframeIndex, { easing: easing as KeyframeEasing });
+    }
+
+    setDuration(raw: string): void {
+        const duration = Number(raw);
+        if (raw.trim() === '' || !(duration >= MIN_DURATION && duration <= MAX_DURATION)) return;
+        this.svgGeneratorService.updateTimeline({ duration }, { coalesce: 'timeline:duration' });
+    }
+
+    setLoop(loop: boolean): void {
+        this.svgGeneratorService.updateTimeline({ loop });
+    }
+
+    setFrameCount(raw: string): void {
+        const frameCount = Number(raw);
+        const inRange = frameCount >= MIN_FRAME_COUNT && frameCount <= MAX_FRAME_COUNT;
+        if (!Number.isInteger(frameCount) || !inRange) return;
+        this.svgGeneratorService.updateTimeline(
+            { frameCount },
+            { coalesce: 'timeline:frameCount' }
+        );
+    }
+
+    private getAnimatableParameters(layer: SvgLayer): AnimatableParameterDefinition[] {
+        return this.shapeRegistry
+            .resolve(layer.parameters.shape)
+            .parameters.filter(isAnimatableParameter);
+    }
+
+    private getCurrentValue(
+        layer: SvgLayer,
+        definition: AnimatableParameterDefinition
+    ): number | string {
+        const generator = this.shapeRegistry.resolve(layer.parameters.shape);
+        const value = { ...generator.defaults, ...layer.parameters }[definition.key];
+        if (definition.type === 'color') return typeof value === 'string' ? value : '#000000';
+        return typeof value === 'number' ? value : definition.min;
+    }
+
+    private updateKeyframe(
+        layer: SvgLayer,
+        trackIndex: number,
+        keyframeIndex: number,
+        changes: Partial<Keyframe>
+    ): void {
+        const keyframes = layer.tracks[trackIndex].keyframes.map((keyframe, index) =>
+            index === keyframeIndex ? { ...keyframe, ...changes } : keyframe
+        );
+        this.updateKeyframes(layer, trackIndex, keyframes);
+    }
+
+    private updateKeyframes(layer: SvgLayer, trackIndex: number, keyframes: Keyframe[]): void {
+        const tracks = layer.tracks.map((track, index) =>
+            index === trackIndex ? { ...track, keyframes: sortKeyframes(keyframes) } : track
+        );
+        this.updateTracks(layer, tracks);
+    }
+
+    private updateTracks(layer: SvgLayer, tracks: ParameterTrack[]): void {
+        this.svgGeneratorService.updateLayerSettings(layer.id, { tracks });
+    }
+}
@@ -0,0 +1,153 @@
+import { Component } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Observable } from 'rxjs';
+import {
+    BLEND_MODES,
+    BlendMode,
+    LayerTransform,
+    SvgDocument,
+    SvgGeneratorService,
+    SvgLayer,
+} from '../../services/svg-generator.service';
+import { ShapeRegistryService } from '../../services/shape-registry.service';
+import { BOOLEAN_OPERATIONS, BooleanOperation } from '../../services/path-boolean';
+import { clampRepeatValue, RADIAL_REPEAT_RANGES, RadialRepeat } from '../../services/radial-repeat';
+
+@Component({
+    selector: 'app-layer-panel',
+    templateUrl: './layer-panel.component.html',
+    styleUrls: ['./layer-panel.component.scss'],
+    standalone: true,
+    imports: [CommonModule],
+})
+export class LayerPanelComponent {
+    readonly document$: Observable<SvgDocument>;
+    readonly blendModes = BLEND_MODES;
+    readonly booleanOperations = BOOLEAN_OPERATIONS;
+    readonly repeatRanges = RADIAL_REPEAT_RANGES;
+    readonly repeatFields: { key: keyof RadialRepeat; label: string; step: number }[] = [
+        { key: 'copies', label: 'Copies', step: 1 },
+        { key: 'rings', label: 'Rings', step: 1 },
+        { key: 'radius', label: 'Radius', step: 1 },
+        { key: 'ringSpacing', label: 'Ring spacing', step: 1 },
+        { key: 'rotationOffset', label: 'Ring rotation', step: 1 },
+        { key: 'scaleFalloff', label: 'Scale falloff', step: 0.05 },
+        { key: 'hueStep', label: 'Hue step', step: 5 },
+    ];
+
+    combineOperation: BooleanOperation = 'union';
+    /** Layer combined with the active one, empty to merge the active layer with itself */
+    combineWithId = '';
+    combining = false;
+    combineError: string | null = null;
+
+    constructor(
+        private svgGeneratorService: SvgGeneratorService,
+        private shapeRegistry: ShapeRegistryService
+    ) {
+        this.document$ = this.svgGeneratorService.document$;
+    }
+
+    /**
+     * Layers listed front to back, the way layer panels usually read
+     */
+    getLayersTopDown(document: SvgDocument): SvgLayer[] {
+        return [...document.layers].reverse();
+    }
+
+    getActiveLayer(document: SvgDocument): SvgLayer | undefined {
+        return document.layers.find((layer) => layer.id === document.activeLayerId);
+    }
+
+    getOtherLayers(document: SvgDocument, layer: SvgLayer): SvgLayer[] {
+        return this.getLayersTopDown(document).filter((other) => other.id !== layer.id);
+    }
+
+    getShapeLabel(layer: SvgLayer): string {
+        return this.shapeRegistry.get(layer.parameters.shape)?.label || layer.parameters.shape;
+    }
+
+    trackByLayerId(_index: number, layer: SvgLayer): string {
+        return layer.id;
+    }
+
+    addLayer(): void {
+        this.svgGeneratorService.addLayer();
+    }
+
+    removeLayer(layer: SvgLayer): void {
+        this.svgGeneratorService.removeLayer(layer.id);
+    }
+
+    selectLayer(layer: SvgLayer): void {
+        this.svgGeneratorService.selectLayer(layer.id);
+    }
+
+    moveLayer(layer: SvgLayer, offset: number): void {
+        this.svgGeneratorService.moveLayer(layer.id, offset);
+    }
+
+    toggleVisibility(layer: SvgLayer): void {
+        this.svgGeneratorService.updateLayerSettings(layer.id, { visible: !layer.visible });
+    }
+
+    rename(layer: SvgLayer, name: string): void {
+        if (name.trim() === '' || name === layer.name) return;
+        this.svgGeneratorService.updateLayerSettings(layer.id, { name: name.trim() });
+    }
+
+    setOpacity(layer: SvgLayer, value: string): void {
+        const opacity = Number(value);
+        if (!Number.isFinite(opacity)) return;
+        this.svgGeneratorService.updateLayerSettings(
+            layer.id,
+            { opacity: Math.min(Math.max(opacity, 0), 1) },
+            { coalesce: `layer-panel:${layer.id}:opacity` }
+        );
+    }
+
+    setBlendMode(layer: SvgLayer, value: string): void {
+        this.svgGeneratorService.updateLayerSettings(layer.id, { blendMode: value as BlendMode });
+    }
+
+    setTransform(layer: SvgLayer, key: keyof LayerTransform, value: string): void {
+        const parsed = Number(value);
+        if (value.trim() === '' || !Number.isFinite(parsed)) return;
+        this.svgGeneratorService.updateLayerSettings(
+            layer.id,
+            { transform: { ...layer.transform, [key]: parsed } },
+            { coalesce: `layer-panel:${layer.id}:transform.${key}` }
+        );
+    }
+
+    /**
+     * Update a radial repeat setting, out of range values are clamped
+     */
+    setRepeat(layer: SvgLayer, key: keyof RadialRepeat, value: string): void {
+        const parsed = Number(value);
+        if (value.trim() === '' || !Number.isFinite(parsed)) return;
+        this.svgGeneratorService.updateLayerSettings(
+            layer.id,
+            { repeat: { ...layer.repeat, [key]: clampRepeatValue(key, parsed) } },
+            { coalesce: `layer-panel:${layer.id}:repeat.${key}` }
+        );
+    }
+
+    /**
+     * Add a path layer outlining the active layer combined with the chosen one
+     */
+    async combine(layer: SvgLayer, document: SvgDocument): Promise<void> {
+        const clipId = document.layers.some((other) => other.id === this.combineWithId)
+            ? this.combineWithId
+            : null;
+        this.combining = true;
+        this.combineError = null;
+        try {
+            await this.svgGeneratorService.combineLayers(layer.id, clipId, this.combineOperation);
+        } catch (error) {
+            this.combineError = (error as Error).message;
+        } finally {
+            this.combining = false;
+        }
+    }
+}
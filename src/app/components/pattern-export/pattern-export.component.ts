@@ -0,0 +1,129 @@
+import { Component, EventEmitter, OnDestroy, OnInit, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { TilePatternService } from '../../services/tile-pattern.service';
+import {
+    LATTICE_TYPES,
+    LatticeType,
+    MAX_TILE_JITTER,
+    MIN_TILE_SPACING,
+    TilePattern,
+} from '../../services/tile-pattern';
+import { serializeSvg } from '../../services/svg-dom';
+
+@Component({
+    selector: 'app-pattern-export',
+    templateUrl: './pattern-export.component.html',
+    styleUrls: ['./pattern-export.component.scss'],
+    standalone: true,
+    imports: [CommonModule],
+})
+export class PatternExportComponent implements OnInit, OnDestroy {
+    @Output() closed = new EventEmitter<void>();
+
+    readonly lattices = LATTICE_TYPES;
+    readonly minSpacing = MIN_TILE_SPACING;
+    readonly maxJitter = MAX_TILE_JITTER;
+
+    exporting = false;
+    error: string | null = null;
+    notice: string | null = null;
+
+    constructor(private tilePatternService: TilePatternService) {}
+
+    get settings(): TilePattern {
+        return this.tilePatternService.getSettings();
+    }
+
+    get preview(): boolean {
+        return this.tilePatternService.isPreviewing();
+    }
+
+    ngOnInit(): void {
+        // The preview pane shows the tiles while the pattern is being set up
+        this.tilePatternService.setPreview(true);
+    }
+
+    ngOnDestroy(): void {
+        this.tilePatternService.setPreview(false);
+    }
+
+    setPreview(preview: boolean): void {
+        this.tilePatternService.setPreview(preview);
+    }
+
+    setLattice(lattice: string): void {
+        this.tilePatternService.updateSettings({ lattice: lattice as LatticeType });
+    }
+
+    setNumber(field: Exclude<keyof TilePattern, 'lattice'>, raw: string): void {
+        const value = Number(raw);
+        if (raw.trim() === '' || !Number.isFinite(value)) return;
+
+        switch (field) {
+            case 'spacing':
+                if (value < MIN_TILE_SPACING) return;
+                break;
+            case 'jitter':
+                if (value < 0 || value > MAX_TILE_JITTER) return;
+                break;
+            case 'seed':
+                if (!Number.isInteger(value)) return;
+                break;
+        }
+        this.tilePatternService.updateSettings({ [field]: value });
+    }
+
+    async download(): Promise<void> {
+        const markup = await this.generateMarkup();
+        if (markup === null) return;
+
+        const blob = new Blob([markup], { type: 'image/svg+xml' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `generative-pattern-${Date.now()}.svg`;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
+        this.notice = 'Pattern downloaded';
+    }
+
+    async copy(): Promise<void> {
+        const markup = await this.generateMarkup();
+        if (markup === null) return;
+
+        try {
+            await navigator.clipboard.writeText(markup);
+            this.notice = 'Pattern copied';
+        } catch (error) {
+            this.error = (error as Error).message;
+        }
+    }
+
+    close(): void {
+        if (!this.exporting) {
+            this.closed.emit();
+        }
+    }
+
+    /**
+     * Markup of the pattern document
+     * @returns Markup, or null when it could not be built
+     */
+    private async generateMarkup(): Promise<string | null> {
+        if (this.exporting) return null;
+
+        this.exporting = true;
+        this.error = null;
+        this.notice = null;
+        try {
+            return serializeSvg(await this.tilePatternService.generatePatternDocument());
+        } catch (error) {
+            this.error = (error as Error).message;
+            return null;
+        } finally {
+            this.exporting = false;
+        }
+    }
+}
@@ -0,0 +1,173 @@
+import { Component, EventEmitter, OnInit, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import {
+    fromPixels,
+    MAX_RASTER_SIZE,
+    PRINT_UNITS,
+    PrintUnit,
+    RASTER_FORMATS,
+    RasterExportService,
+    RasterFormat,
+    RasterFormatOption,
+    SCREEN_DPI,
+    toPixels,
+} from '../../services/raster-export.service';
+
+export type RasterSizeMode = 'pixels' | 'print';
+
+@Component({
+    selector: 'app-raster-export',
+    templateUrl: './raster-export.component.html',
+    styleUrls: ['./raster-export.component.scss'],
+    standalone: true,
+    imports: [CommonModule],
+})
+export class RasterExportComponent implements OnInit {
+    @Output() closed = new EventEmitter<void>();
+
+    readonly formats = RASTER_FORMATS;
+    readonly units = PRINT_UNITS;
+    readonly maxSize = MAX_RASTER_SIZE;
+
+    format: RasterFormat = 'png';
+    sizeMode: RasterSizeMode = 'pixels';
+    unit: PrintUnit = 'in';
+    width = 1024;
+    height = 1024;
+    dpi = SCREEN_DPI;
+    keepAspectRatio = true;
+    transparent = true;
+    backgroundColor = '#ffffff';
+    quality = 0.92;
+    exporting = false;
+    error: string | null = null;
+    /** Height over width of the exported region */
+    private aspectRatio = 1;
+
+    constructor(private rasterExportService: RasterExportService) {}
+
+    async ngOnInit(): Promise<void> {
+        const region = await this.rasterExportService.getExportRegion();
+        if (region && region.width > 0 && region.height > 0) {
+            this.aspectRatio = region.height / region.width;
+            this.height = this.clampSize(this.width * this.aspectRatio);
+        }
+    }
+
+    get formatOption(): RasterFormatOption {
+        return this.formats.find((option) => option.value === this.format) ?? this.formats[0];
+    }
+
+    isFormatSupported(format: RasterFormat): boolean {
+        return this.rasterExportService.isFormatSupported(format);
+    }
+
+    /**
+     * Size of the image in the selected print unit, at the current resolution
+     */
+    getPrintSize(pixels: number): number {
+        return parseFloat(fromPixels(pixels, this.unit, this.dpi).toFixed(2));
+    }
+
+    setFormat(format: string): void {
+        this.format = format as RasterFormat;
+    }
+
+    setSizeMode(mode: string): void {
+        this.sizeMode = mode as RasterSizeMode;
+    }
+
+    setUnit(unit: string): void {
+        this.unit = unit as PrintUnit;
+    }
+
+    setPixelSize(side: 'width' | 'height', raw: string): void {
+        const pixels = Number(raw);
+        if (raw.trim() === '' || !(pixels >= 1)) return;
+        this.resize(side, pixels);
+    }
+
+    setPrintSize(side: 'width' | 'height', raw: string): void {
+        const length = Number(raw);
+        if (raw.trim() === '' || !(length > 0)) return;
+        this.resize(side, toPixels(length, this.unit, this.dpi));
+    }
+
+    /**
+     * Change the resolution. Print sizes are kept, so the pixel size follows
+     */
+    setDpi(raw: string): void {
+        const dpi = Number(raw);
+        if (raw.trim() === '' || !(dpi > 0)) return;
+        if (this.sizeMode === 'print') {
+            this.width = this.clampSize((this.width / this.dpi) * dpi);
+            this.height = this.clampSize((this.height / this.dpi) * dpi);
+        }
+        this.dpi = dpi;
+    }
+
+    setKeepAspectRatio(keep: boolean): void {
+        this.keepAspectRatio = keep;
+        if (keep) this.resize('width', this.width);
+    }
+
+    setQuality(raw: string): void {
+        this.quality = Number(raw);
+    }
+
+    async export(): Promise<void> {
+        if (this.exporting) return;
+
+        this.exporting = true;
+        this.error = null;
+        try {
+            const blob = await this.rasterExportService.exportImage({
+                format: this.format,
+                width: this.width,
+                height: this.height,
+                dpi: this.dpi,
+                background:
+                    this.transparent && this.formatOption.alpha ? null : this.backgroundColor,
+                quality: this.quality,
+            });
+            this.download(blob, `generative-svg-${Date.now()}.${this.formatOption.extension}`);
+            this.closed.emit();
+        } catch (error) {
+            this.error = (error as Error).message;
+        } finally {
+            this.exporting = false;
+        }
+    }
+
+    close(): void {
+        if (!this.exporting) {
+            this.closed.emit();
+        }
+    }
+
+    private resize(side: 'width' | 'height', pixels: number): void {
+        const size = this.clampSize(pixels);
+        if (side === 'width') {
+            this.width = size;
+            if (this.keepAspectRatio) this.height = this.clampSize(size * this.aspectRatio);
+        } else {
+            this.height = size;
+            if (this.keepAspectRatio) this.width = this.clampSize(size / this.aspectRatio);
+        }
+    }
+
+    private clampSize(pixels: number): number {
+        return Math.min(Math.max(Math.round(pixels), 1), MAX_RASTER_SIZE);
+    }
+
+    private download(blob: Blob, fileName: string): void {
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = fileName;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
+    }
+}
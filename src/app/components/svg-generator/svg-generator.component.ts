@@ -1,18 +1,31 @@
-import { Component, OnInit } from '@angular/core';
+import { Component, HostListener, OnInit } from '@angular/core';
 import { CommonModule } from '@angular/common';
+import { Observable } from 'rxjs';
+import { LayerPanelComponent } from '../layer-panel/layer-panel.component';
 import { SvgParametersComponent } from '../svg-parameters/svg-parameters.component';
 import { SvgPreviewComponent } from '../svg-preview/svg-preview.component';
+import { AnimationTimelineComponent } from '../animation-timeline/animation-timeline.component';
 import { SeoService } from '../../services/seo.service';
+import { PermalinkService } from '../../services/permalink.service';
+import { SvgGeneratorService } from '../../services/svg-generator.service';
 
 @Component({
   selector: 'app-svg-generator',
   templateUrl: './svg-generator.component.html',
   styleUrls: ['./svg-generator.component.scss'],
   standalone: true,
-  imports: [CommonModule, SvgParametersComponent, SvgPreviewComponent]
+  imports: [CommonModule, LayerPanelComponent, SvgParametersComponent, SvgPreviewComponent, AnimationTimelineComponent]
 })
 export class SvgGeneratorComponent implements OnInit {
-  constructor(private seoService: SeoService) {}
+  readonly permalinkNotice$: Observable<string | null>;
+
+  constructor(
+    private seoService: SeoService,
+    private permalinkService: PermalinkService,
+    private svgGeneratorService: SvgGeneratorService
+  ) {
+    this.permalinkNotice$ = this.permalinkService.notice$;
+  }
 
   ngOnInit(): void {
     // Update SEO for the generator page
@@ -28,4 +41,32 @@ export class SvgGeneratorComponent implements OnInit {
       { name: 'SVG Generator', url: 'https://svg-playground.youmrabti.com/generator' }
     ]);
   }
-}
\ No newline at end of file
+
+  /**
+   * Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS) undo and redo parameter changes
+   */
+  @HostListener('document:keydown', ['$event'])
+  onKeydown(event: KeyboardEvent): void {
+    if (!(event.ctrlKey || event.metaKey) || event.key.toLowerCase() !== 'z') return;
+
+    // Leave editing shortcuts to the browser in fields, only checkboxes and sliders have none
+    const target = event.target as HTMLElement | null;
+    const isEditable =
+      target instanceof HTMLTextAreaElement ||
+      target instanceof HTMLSelectElement ||
+      (target instanceof HTMLInputElement && !['checkbox', 'range'].includes(target.type)) ||
+      !!target?.isContentEditable;
+    if (isEditable) return;
+
+    event.preventDefault();
+    if (event.shiftKey) {
+      this.svgGeneratorService.redo();
+    } else {
+      this.svgGeneratorService.undo();
+    }
+  }
+
+  dismissNotice(): void {
+    this.permalinkService.dismissNotice();
+  }
+}
@@ -1,9 +1,29 @@
 import { Component, OnInit, OnDestroy } from '@angular/core';
-import { FormBuilder, FormGroup, FormControl, ReactiveFormsModule } from '@angular/forms';
-import { Subscription } from 'rxjs';
+import {
+    AbstractControl,
+    FormControl,
+    FormGroup,
+    ReactiveFormsModule,
+    ValidationErrors,
+    ValidatorFn,
+    Validators,
+} from '@angular/forms';
+import { Observable, Subscription } from 'rxjs';
 import { debounceTime } from 'rxjs/operators';
 import { CommonModule } from '@angular/common';
-import { SvgGeneratorService, SvgParameters } from '../../services/svg-generator.service';
+import {
+    HistoryState,
+    SvgGeneratorService,
+    SvgParameters,
+} from '../../services/svg-generator.service';
+import { ShapeRegistryService } from '../../services/shape-registry.service';
+import { ShapeGenerator } from '../../generators/shape-generator';
+import {
+    COLOR_PATTERN,
+    DURATION_PATTERN,
+    isValidSourceUrl,
+    ShapeParameterDefinition,
+} from '../../generators/shape-parameters';
 
 @Component({
     selector: 'app-svg-parameters',
@@ -13,134 +33,219 @@ import { SvgGeneratorService, SvgParameters } from '../../services/svg-generator
     imports: [CommonModule, ReactiveFormsModule],
 })
 export class SvgParametersComponent implements OnInit, OnDestroy {
-    parametersForm: FormGroup;
+    shapeControl: FormControl<string>;
+    parametersForm = new FormGroup<Record<string, AbstractControl>>({});
+    definitions: readonly ShapeParameterDefinition[] = [];
+    shapeOptions: { value: string; label: string }[];
+    history$: Observable<HistoryState>;
+    private generator: ShapeGenerator | undefined;
+    private layerId: string | null = null;
     private subscription = new Subscription();
+    private formSubscription = new Subscription();
 
-    shapeOptions = [
-        { value: 'curved-star', label: 'Curved Star' },
-        { value: 'custom-star', label: 'Custom Star' },
-        { value: 'yinyang', label: 'Yin Yang' },
-        { value: 'gis', label: 'GIS Map' },
-        { value: 'polygon', label: 'Polygon' },
-        { value: 'star', label: 'Star' },
-        { value: 'circle', label: 'Circle' },
-        { value: 'spiral', label: 'Spiral' },
-    ];
-
-    constructor(private fb: FormBuilder, private svgGeneratorService: SvgGeneratorService) {
-        this.parametersForm = this.createForm();
+    constructor(
+        private svgGeneratorService: SvgGeneratorService,
+        private shapeRegistry: ShapeRegistryService
+    ) {
+        const params = this.svgGeneratorService.getCurrentParameters();
+        this.shapeControl = new FormControl(params.shape, { nonNullable: true });
+        this.shapeOptions = this.shapeRegistry
+            .getAll()
+            .map((generator) => ({ value: generator.id, label: generator.label }));
+        this.history$ = this.svgGeneratorService.history$;
+        this.buildForm(params);
     }
 
     ngOnInit(): void {
-        // Subscribe to form changes and update service
         this.subscription.add(
-            this.parametersForm.valueChanges.pipe(debounceTime(100)).subscribe((formValue) => {
-                // Process spin duration - convert empty string to false
-                const processedValue = {
-                    ...formValue,
-                    spinDuration: formValue.spinDuration === '' ? false : formValue.spinDuration
-                };
-                this.svgGeneratorService.updateParameters(processedValue);
+            this.shapeControl.valueChanges.subscribe((shape) => {
+                this.svgGeneratorService.updateParameters({ shape });
             })
         );
 
-        // Subscribe to service parameters to sync form
+        // Subscribe to the active layer to sync form
         this.subscription.add(
-            this.svgGeneratorService.parameters$.subscribe((params: SvgParameters) => {
-                this.parametersForm.patchValue(params, { emitEvent: false });
+            this.svgGeneratorService.document$.subscribe((document) => {
+                const params = this.svgGeneratorService.getCurrentParameters();
+                const layerChanged = this.layerId !== document.activeLayerId;
+                this.layerId = document.activeLayerId;
+                this.shapeControl.setValue(params.shape, { emitEvent: false });
+                // A fresh form drops pending input that belonged to the previously selected layer
+                if (layerChanged || this.generator?.id !== params.shape) {
+                    this.buildForm(params);
+                } else {
+                    this.patchForm(params);
+                }
             })
         );
     }
 
     ngOnDestroy(): void {
         this.subscription.unsubscribe();
+        this.formSubscription.unsubscribe();
     }
 
-    private createForm(): FormGroup {
-        const defaultParams = this.svgGeneratorService.getCurrentParameters();
-
-        return this.fb.group({
-            shape: new FormControl(defaultParams.shape),
-            edgeCount: new FormControl(defaultParams.edgeCount),
-            angle: new FormControl(defaultParams.angle),
-            size: new FormControl(defaultParams.size),
-            strokeWidth: new FormControl(defaultParams.strokeWidth),
-            strokeColor: new FormControl(defaultParams.strokeColor),
-            fillColor: new FormControl(defaultParams.fillColor),
-            radius: new FormControl(defaultParams.radius),
-            centerX: new FormControl(defaultParams.centerX),
-            centerY: new FormControl(defaultParams.centerY),
-            innerRadius: new FormControl(defaultParams.innerRadius),
-            spiralTurns: new FormControl(defaultParams.spiralTurns),
-            rayRatio: new FormControl(defaultParams.rayRatio),
-            curvedNoids: new FormControl(defaultParams.curvedNoids),
-            // custom star parameters
-            minRadius: new FormControl(defaultParams.minRadius),
-            startVertex: new FormControl(defaultParams.startVertex),
-            nested: new FormControl(defaultParams.nested),
-            spinDuration: new FormControl(defaultParams.spinDuration === false ? '' : defaultParams.spinDuration),
-            // yinyang parameters
-            useGradient: new FormControl(defaultParams.useGradient),
-            // gis parameters
-            gisSourceUrl: new FormControl(defaultParams.gisSourceUrl),
-            gisScalingFunction: new FormControl(defaultParams.gisScalingFunction),
-            showBoundingBox: new FormControl(defaultParams.showBoundingBox),
-            useRandomGisColors: new FormControl(defaultParams.useRandomGisColors),
+    /**
+     * Rebuild the form from the parameter schema of the selected shape
+     */
+    private buildForm(params: SvgParameters): void {
+        this.generator = this.shapeRegistry.get(params.shape);
+        this.definitions = this.generator?.parameters || [];
+
+        const controls: Record<string, AbstractControl> = {};
+        const formValue = this.toFormValue(params);
+        this.definitions.forEach((definition) => {
+            controls[definition.key] = new FormControl(
+                formValue[definition.key],
+                this.createValidators(definition)
+            );
         });
+        this.parametersForm = new FormGroup(controls);
+
+        this.formSubscription.unsubscribe();
+        this.formSubscription = this.parametersForm.valueChanges
+            .pipe(debounceTime(100))
+            .subscribe(() => this.submitValidValues());
     }
 
-    resetToDefaults(): void {
-        this.svgGeneratorService.updateParameters({
-            edgeCount: 6,
-            angle: 0,
-            size: 100,
-            strokeWidth: 2,
-            radius: 280,
-            strokeColor: '#333333',
-            fillColor: '#4CAF50',
-            centerX: 0,
-            centerY: 0,
-            shape: 'gis',
-            innerRadius: 50,
-            spiralTurns: 3,
-            rayRatio: 1.5,
-            curvedNoids: 8,
-            minRadius: 50,
-            startVertex: 0,
-            nested: false,
-            spinDuration: false,
-            useGradient: true,
-            gisSourceUrl: '',
-            gisScalingFunction: 'min',
-            showBoundingBox: true,
-            useRandomGisColors: true,
+    /**
+     * Sync the form with the service, leaving invalid input in place so its error stays visible
+     */
+    private patchForm(params: SvgParameters): void {
+        const formValue = this.toFormValue(params);
+        this.definitions.forEach((definition) => {
+            const control = this.parametersForm.get(definition.key);
+            if (control?.valid && control.value !== formValue[definition.key]) {
+                control.setValue(formValue[definition.key], { emitEvent: false });
+            }
+        });
+    }
+
+    /**
+     * Push the valid controls to the service, invalid ones keep their last good value
+     */
+    private submitValidValues(): void {
+        const current = this.svgGeneratorService.getCurrentParameters();
+        const parameters: Record<string, unknown> = {};
+        const changedKeys: string[] = [];
+        this.definitions.forEach((definition) => {
+            const control = this.parametersForm.get(definition.key);
+            if (control?.valid) {
+                parameters[definition.key] = this.fromControlValue(definition, control.value);
+                if (parameters[definition.key] !== current[definition.key]) {
+                    changedKeys.push(definition.key);
+                }
+            }
+        });
+        // Debounced slider drags arrive as a burst of updates, keep each control's as one undo step
+        this.svgGeneratorService.updateParameters(parameters as Partial<SvgParameters>, {
+            coalesce: `parameters:${this.layerId}:${changedKeys.join(',')}`,
+        });
+    }
+
+    private toFormValue(params: SvgParameters): Record<string, unknown> {
+        const value: Record<string, unknown> = {};
+        this.definitions.forEach((definition) => {
+            const current = params[definition.key] ?? this.generator?.defaults[definition.key];
+            // Durations use `false` in the parameters and an empty input in the form
+            value[definition.key] = definition.type === 'duration' && !current ? '' : current;
         });
+        return value;
+    }
+
+    private fromControlValue(definition: ShapeParameterDefinition, value: unknown): unknown {
+        switch (definition.type) {
+            case 'number':
+                return Number(value);
+            case 'duration':
+                return value === '' || value === null ? false : String(value).trim();
+            case 'url':
+            case 'text':
+                return value === null ? '' : String(value).trim();
+            default:
+                return value;
+        }
+    }
+
+    private createValidators(definition: ShapeParameterDefinition): ValidatorFn[] {
+        switch (definition.type) {
+            case 'number':
+                return [Validators.required, Validators.min(definition.min), Validators.max(definition.max)];
+            case 'color':
+                return [Validators.required, Validators.pattern(COLOR_PATTERN)];
+            case 'duration':
+                return [Validators.pattern(DURATION_PATTERN)];
+            case 'url':
+                return [urlValidator];
+            case 'enum': {
+                const values = definition.options.map((option) => option.value);
+                return [(control) => (values.includes(control.value) ? null : { option: true })];
+            }
+            default:
+                return [];
+        }
+    }
+
+    /**
+     * Error message for an invalid control, empty when the control is valid
+     */
+    getError(definition: ShapeParameterDefinition): string {
+        const errors = this.parametersForm.get(definition.key)?.errors;
+        if (!errors) return '';
+
+        if (errors['required']) return `${definition.label} is required`;
+        if (definition.type === 'number' && (errors['min'] || errors['max'])) {
+            return `Must be between ${definition.min} and ${definition.max}`;
+        }
+        if (definition.type === 'duration') return 'Use a duration such as 2s or 500ms';
+        if (definition.type === 'color') return 'Use a hex color such as #4CAF50';
+        if (definition.type === 'url') return 'Enter an absolute http(s) URL or a path starting with /';
+        return 'Invalid value';
+    }
+
+    undo(): void {
+        this.svgGeneratorService.undo();
+    }
+
+    redo(): void {
+        this.svgGeneratorService.redo();
     }
 
+    resetToDefaults(): void {
+        this.svgGeneratorService.resetParameters();
+    }
+
+    /**
+     * Give each parameter of the selected shape a random value within its range or options.
+     * Durations, URLs and texts are kept
+     */
     randomizeParameters(): void {
-        const randomParams: Partial<SvgParameters> = {
-            edgeCount: Math.floor(Math.random() * 10) + 3,
-            angle: Math.floor(Math.random() * 360),
-            size: Math.floor(Math.random() * 150) + 50,
-            strokeWidth: Math.floor(Math.random() * 5) + 1,
-            strokeColor: this.getRandomColor(),
-            fillColor: this.getRandomColor(),
-            innerRadius: Math.floor(Math.random() * 80) + 20,
-            radius: Math.floor(Math.random() * 300) + 50,
-            centerX: Math.floor(Math.random() * 201) - 100,
-            centerY: Math.floor(Math.random() * 201) - 100,
-            spiralTurns: Math.floor(Math.random() * 5) + 1,
-            rayRatio: Math.floor(Math.random() * 4.5) + 1.5,
-            curvedNoids: Math.floor(Math.random() * 12) + 4,
-            minRadius: Math.floor(Math.random() * 50) + 10,
-            startVertex: Math.floor(Math.random() * 8),
-            nested: Math.random() > 0.5,
-            useGradient: Math.random() > 0.5,
-            showBoundingBox: Math.random() > 0.5,
-            useRandomGisColors: Math.random() > 0.5,
-        };
-
-        this.svgGeneratorService.updateParameters(randomParams);
+        const randomParams: Record<string, unknown> = {};
+        this.definitions.forEach((definition) => {
+            switch (definition.type) {
+                case 'number': {
+                    const steps = Math.floor((definition.max - definition.min) / definition.step);
+                    const value = definition.min + Math.floor(Math.random() * (steps + 1)) * definition.step;
+                    const decimals = String(definition.step).split('.')[1]?.length ?? 0;
+                    randomParams[definition.key] = parseFloat(value.toFixed(decimals));
+                    break;
+                }
+                case 'color':
+                    randomParams[definition.key] = this.getRandomColor();
+                    break;
+                case 'boolean':
+                    randomParams[definition.key] = Math.random() > 0.5;
+                    break;
+                case 'enum':
+                    if (definition.options.length > 0) {
+                        const index = Math.floor(Math.random() * definition.options.length);
+                        randomParams[definition.key] = definition.options[index].value;
+                    }
+                    break;
+            }
+        });
+
+        this.svgGeneratorService.updateParameters(randomParams as Partial<SvgParameters>);
     }
 
     private getRandomColor(): string {
@@ -163,33 +268,8 @@ export class SvgParametersComponent implements OnInit, OnDestroy {
         ];
         return colors[Math.floor(Math.random() * colors.length)];
     }
+}
 
-    get isShapeWithEdges(): boolean {
-        const shape = this.parametersForm.get('shape')?.value;
-        return shape === 'polygon' || shape === 'star' || shape === 'custom-star' || shape === 'yinyang';
-    }
-
-    get isStarShape(): boolean {
-        return this.parametersForm.get('shape')?.value === 'star';
-    }
-
-    get isSpiralShape(): boolean {
-        return this.parametersForm.get('shape')?.value === 'spiral';
-    }
-
-    get isCurvedStarShape(): boolean {
-        return this.parametersForm.get('shape')?.value === 'curved-star';
-    }
-
-    get isCustomStarShape(): boolean {
-        return this.parametersForm.get('shape')?.value === 'custom-star';
-    }
-
-    get isYinYangShape(): boolean {
-        return this.parametersForm.get('shape')?.value === 'yinyang';
-    }
-
-    get isGisShape(): boolean {
-        return this.parametersForm.get('shape')?.value === 'gis';
-    }
+function urlValidator(control: AbstractControl): ValidationErrors | null {
+    return isValidSourceUrl(String(control.value ?? '').trim()) ? null : { url: true };
 }
@@ -1,15 +1,70 @@
 import { Component, OnInit, OnDestroy, ElementRef, ViewChild } from '@angular/core';
 import { DomSanitizer, SafeHtml } from '@angular/platform-browser';
-import { Subscription } from 'rxjs';
+import { combineLatest, Subscription } from 'rxjs';
+import { skip } from 'rxjs/operators';
 import { CommonModule } from '@angular/common';
 import { SvgGeneratorService, SvgParameters } from '../../services/svg-generator.service';
+import { PermalinkService } from '../../services/permalink.service';
+import { GeoDataImportService } from '../../services/geo-data-import.service';
+import { GisRenderStats } from '../../services/gis-renderer.service';
+import { GisGenerator } from '../../generators/gis.generator';
+import { ExportRegion, SvgViewportService } from '../../services/svg-viewport.service';
+import { formatViewBox, SvgViewport } from '../../services/svg-fragment';
+import { ShapeRegistryService } from '../../services/shape-registry.service';
+import { serializeSvg, svgElement, SvgElementNode } from '../../services/svg-dom';
+import {
+    dragShapeHandle,
+    getShapeHandles,
+    HandleSnapSettings,
+    ShapeHandle,
+    ShapeHandleKind,
+} from '../../generators/shape-handles';
+import { isAnimated } from '../../services/keyframe-animation';
+import {
+    DEFAULT_OPTIMIZE_OPTIONS,
+    getByteSize,
+    OPTIMIZE_PRECISIONS,
+    optimizeSvg,
+    SvgOptimizeResult,
+} from '../../services/svg-optimizer';
+import { outlineSvgStrokes } from '../../services/stroke-outline';
+import { TilePatternService } from '../../services/tile-pattern.service';
+import { ASSET_CONFIG } from '../../constants/assets.constants';
+import { AnimationExportComponent } from '../animation-export/animation-export.component';
+import { PatternExportComponent } from '../pattern-export/pattern-export.component';
+import { RasterExportComponent } from '../raster-export/raster-export.component';
+import { VectorExportComponent } from '../vector-export/vector-export.component';
+
+type ExportDialog = 'image' | 'print' | 'animation' | 'pattern';
+
+/** Zoom applied by one step of the zoom buttons */
+const ZOOM_STEP = 1.25;
+
+const SVG_NAMESPACE = 'http://www.w3.org/2000/svg';
+
+/** Handle radius and distance of the rotation handle beyond the radius handle, in screen pixels */
+const HANDLE_RADIUS = 6;
+const ROTATION_HANDLE_OFFSET = 30;
+
+const HANDLE_COLORS: Record<ShapeHandleKind, string> = {
+    center: '#007bff',
+    radius: '#28a745',
+    rotation: '#fd7e14',
+    'inner-radius': '#6f42c1',
+};
 
 @Component({
     selector: 'app-svg-preview',
     templateUrl: './svg-preview.component.html',
     styleUrls: ['./svg-preview.component.scss'],
     standalone: true,
-    imports: [CommonModule],
+    imports: [
+        CommonModule,
+        AnimationExportComponent,
+        PatternExportComponent,
+        RasterExportComponent,
+        VectorExportComponent,
+    ],
 })
 export class SvgPreviewComponent implements OnInit, OnDestroy {
     @ViewChild('svgContainer', { static: true }) svgContainer!: ElementRef;
@@ -17,10 +72,47 @@ export class SvgPreviewComponent implements OnInit, OnDestroy {
     svgContent = '';
     safeSvgContent: SafeHtml = '';
     currentParameters: SvgParameters | null = null;
+    gisStats: GisRenderStats | null = null;
     private subscription = new Subscription();
+    private renderId = 0;
+
+    readonly geoFileAccept = ASSET_CONFIG.SUPPORTED_GEO_FORMATS.map((format) => `.${format}`).join(',');
+    isDragOver = false;
+    statusMessage: { text: string; error: boolean } | null = null;
+    readonly exportPrecisions = OPTIMIZE_PRECISIONS;
+    /** Optimize the SVG written by download and copy */
+    optimizeExport = true;
+    exportPrecision = DEFAULT_OPTIMIZE_OPTIONS.precision;
+    /** Replace strokes by filled outlines in the SVG written by download and copy */
+    outlineExportStrokes = false;
+
+    zoom = 1;
+    exportRegion: ExportRegion = 'drawing';
+    /** Pointers currently pressed on the preview, for drag pan and pinch zoom */
+    private pointers = new Map<number, { x: number; y: number }>();
+
+    showHandles = true;
+    handleSnap: HandleSnapSettings = { distance: 1, angle: 1 };
+    readonly distanceSnapOptions = [0, 1, 5, 10, 25, 50];
+    readonly angleSnapOptions = [0, 1, 5, 15, 45];
+    /** Length of the keyframe animation, 0 when no visible layer is animated */
+    animationDuration = 0;
+    animationPaused = false;
+    animationTime = 0;
+    private animationFrame: number | null = null;
+    /** Export dialog shown over the preview */
+    exportDialog: ExportDialog | null = null;
+    private handles: ShapeHandle[] = [];
+    private activeHandle: { handle: ShapeHandle; pointerId: number } | null = null;
 
     constructor(
         private svgGeneratorService: SvgGeneratorService,
+        private permalinkService: PermalinkService,
+        private geoDataImportService: GeoDataImportService,
+        private gisGenerator: GisGenerator,
+        private viewportService: SvgViewportService,
+        private shapeRegistry: ShapeRegistryService,
+        private tilePatternService: TilePatternService,
         private sanitizer: DomSanitizer
     ) {}
 
@@ -28,88 +120,579 @@ export class SvgPreviewComponent implements OnInit, OnDestroy {
         this.subscription.add(
             this.svgGeneratorService.parameters$.subscribe((params: SvgParameters) => {
                 this.currentParameters = params;
+            })
+        );
+        this.subscription.add(
+            this.viewportService.viewport$.subscribe(() => {
+                this.applyViewport();
+            })
+        );
+        this.subscription.add(
+            this.viewportService.exportRegion$.subscribe((region) => {
+                this.exportRegion = region;
+            })
+        );
+        this.subscription.add(
+            this.svgGeneratorService.document$.subscribe(() => {
                 this.generateSvg().then(() => {});
             })
         );
+        this.subscription.add(
+            combineLatest([this.tilePatternService.settings$, this.tilePatternService.preview$])
+                .pipe(skip(1))
+                .subscribe(() => {
+                    this.generateSvg().then(() => {});
+                })
+        );
     }
 
     ngOnDestroy(): void {
         this.subscription.unsubscribe();
+        this.stopAnimationClock();
     }
 
     private async generateSvg(): Promise<void> {
-        this.svgContent = await this.svgGeneratorService.generateSvgElement();
+        const renderId = ++this.renderId;
+        let svgContent: string;
+        try {
+            svgContent = this.tilePatternService.isPreviewing()
+                ? serializeSvg(await this.tilePatternService.generateTilePreview())
+                : await this.svgGeneratorService.generateSvgElement();
+        } catch (error) {
+            if (renderId === this.renderId) {
+                this.statusMessage = { text: (error as Error).message, error: true };
+            }
+            return;
+        }
+        // Layers such as GIS resolve asynchronously, drop results superseded by a newer edit
+        if (renderId !== this.renderId) return;
+
+        this.svgContent = svgContent;
+        // The geometry row describes the active layer, whichever GIS map was drawn last
+        const activeParameters = this.svgGeneratorService.getCurrentParameters();
+        this.gisStats =
+            activeParameters.shape === 'gis' ? this.gisGenerator.getRenderStats(activeParameters) : null;
         this.safeSvgContent = this.sanitizer.bypassSecurityTrustHtml(this.svgContent);
 
         // Update the container directly
         if (this.svgContainer) {
             this.svgContainer.nativeElement.innerHTML = this.svgContent;
+            const viewBox = this.getSvgElement()?.viewBox.baseVal;
+            if (viewBox) {
+                this.viewportService.setDrawingViewport({
+                    x: viewBox.x,
+                    y: viewBox.y,
+                    width: viewBox.width,
+                    height: viewBox.height,
+                });
+            }
+            this.applyViewport();
+            this.syncAnimation();
         }
     }
 
-    downloadSvg(): void {
-        if (!this.svgContent) return;
+    /**
+     * Keep the playback controls in step with the SMIL clock of the freshly rendered document
+     */
+    private syncAnimation(): void {
+        const document = this.svgGeneratorService.getCurrentDocument();
+        const animated = document.layers.some((layer) => layer.visible && isAnimated(layer.tracks));
+        this.animationDuration = animated ? this.svgGeneratorService.getTimeline(document).duration : 0;
+        this.animationTime = Math.min(this.animationTime, this.animationDuration);
 
-        const blob = new Blob([this.svgContent], { type: 'image/svg+xml' });
-        const url = URL.createObjectURL(blob);
-        const link = document.createElement('a');
-        link.href = url;
-        link.download = `generative-svg-${Date.now()}.svg`;
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
-        URL.revokeObjectURL(url);
+        const svg = this.getSvgElement();
+        if (!svg || !animated) {
+            this.stopAnimationClock();
+            return;
+        }
+        // A new document restarts its clock, keep showing the frame picked while paused
+        if (this.animationPaused) {
+            svg.pauseAnimations();
+            svg.setCurrentTime(this.animationTime);
+        } else {
+            this.startAnimationClock();
+        }
     }
 
-    copySvgToClipboard(): void {
-        if (!this.svgContent) return;
+    toggleAnimation(): void {
+        const svg = this.getSvgElement();
+        if (!svg) return;
 
-        navigator.clipboard
-            .writeText(this.svgContent)
-            .then(() => {
-                // You might want to add a toast notification here
-                console.log('SVG copied to clipboard');
-            })
-            .catch((err) => {
-                console.error('Failed to copy SVG: ', err);
-            });
+        this.animationPaused = !this.animationPaused;
+        if (this.animationPaused) {
+            svg.pauseAnimations();
+            this.stopAnimationClock();
+        } else {
+            svg.unpauseAnimations();
+            this.startAnimationClock();
+        }
     }
 
-    exportAsPng(): void {
-        if (!this.svgContent) return;
+    seekAnimation(value: string): void {
+        const svg = this.getSvgElement();
+        if (!svg) return;
+
+        this.animationPaused = true;
+        this.stopAnimationClock();
+        this.animationTime = Number(value);
+        svg.pauseAnimations();
+        svg.setCurrentTime(this.animationTime);
+    }
 
-        const canvas = document.createElement('canvas');
-        const ctx = canvas.getContext('2d');
-        const img = new Image();
-
-        const svgBlob = new Blob([this.svgContent], { type: 'image/svg+xml;charset=utf-8' });
-        const url = URL.createObjectURL(svgBlob);
-
-        img.onload = () => {
-            canvas.width = img.naturalWidth * 10 || 500;
-            canvas.height = img.naturalHeight * 10 || 500;
-
-            if (ctx) {
-                ctx.drawImage(img, 0, 0);
-
-                canvas.toBlob((blob) => {
-                    if (blob) {
-                        const pngUrl = URL.createObjectURL(blob);
-                        const link = document.createElement('a');
-                        link.href = pngUrl;
-                        link.download = `generative-svg-${Date.now()}.png`;
-                        document.body.appendChild(link);
-                        link.click();
-                        document.body.removeChild(link);
-                        URL.revokeObjectURL(pngUrl);
-                    }
-                }, 'image/png');
+    /**
+     * Mirror the running SMIL clock on the time slider
+     */
+    private startAnimationClock(): void {
+        if (this.animationFrame !== null) return;
+
+        const tick = () => {
+            const svg = this.getSvgElement();
+            if (svg && this.animationDuration) {
+                const time = svg.getCurrentTime();
+                const timeline = this.svgGeneratorService.getTimeline();
+                this.animationTime = timeline.loop
+                    ? time % this.animationDuration
+                    : Math.min(time, this.animationDuration);
             }
+            this.animationFrame = requestAnimationFrame(tick);
+        };
+        this.animationFrame = requestAnimationFrame(tick);
+    }
+
+    private stopAnimationClock(): void {
+        if (this.animationFrame !== null) {
+            cancelAnimationFrame(this.animationFrame);
+            this.animationFrame = null;
+        }
+    }
+
+    private getSvgElement(): SVGSVGElement | null {
+        return this.svgContainer?.nativeElement.querySelector('svg') ?? null;
+    }
+
+    /**
+     * Show the stored viewport, or the whole drawing, without rendering the document again
+     */
+    private applyViewport(): void {
+        const svg = this.getSvgElement();
+        const drawing = this.viewportService.getDrawingViewport();
+        const viewport = this.viewportService.getViewport() ?? drawing;
+        if (svg && viewport) {
+            svg.setAttribute('viewBox', formatViewBox(viewport));
+        }
+        this.zoom = this.viewportService.getZoom();
+        // Handles keep their size on screen, redraw them for the new zoom
+        this.renderHandles();
+    }
+
+    /**
+     * Draw the handles of the active layer over the preview. They live in the preview DOM only,
+     * exports never contain them
+     */
+    private renderHandles(): void {
+        const svg = this.getSvgElement();
+        svg?.querySelector('g.shape-handles')?.remove();
+        this.handles = [];
+        if (!svg || !this.showHandles || !this.currentParameters) return;
+
+        const { activeLayerId } = this.svgGeneratorService.getCurrentDocument();
+        const layerGroup = [...svg.querySelectorAll('g[data-layer]')].find(
+            (group) => group.getAttribute('data-layer') === activeLayerId
+        );
+        if (!layerGroup) return;
+
+        // Share the layer transform so handles sit on the shape
+        const overlay = document.createElementNS(SVG_NAMESPACE, 'g');
+        overlay.setAttribute('class', 'shape-handles');
+        const transform = layerGroup.getAttribute('transform');
+        if (transform) overlay.setAttribute('transform', transform);
+        svg.appendChild(overlay);
+
+        const unit = this.getLocalUnitsPerPixel(overlay);
+        const generator = this.shapeRegistry.resolve(this.currentParameters.shape);
+        this.handles = getShapeHandles(
+            generator.parameters,
+            { ...generator.defaults, ...this.currentParameters },
+            ROTATION_HANDLE_OFFSET * unit
+        );
+        overlay.innerHTML = serializeSvg(this.createHandleNodes(this.handles, unit), { pretty: false });
+    }
+
+    private createHandleNodes(handles: ShapeHandle[], unit: number): SvgElementNode[] {
+        const center = handles.find((handle) => handle.kind === 'center');
+        const rotation = handles.find((handle) => handle.kind === 'rotation');
+        const guide =
+            center && rotation
+                ? [
+                      svgElement('line', {
+                          x1: center.x,
+                          y1: center.y,
+                          x2: rotation.x,
+                          y2: rotation.y,
+                          stroke: HANDLE_COLORS.rotation,
+                          'stroke-width': unit,
+                          'stroke-dasharray': `${4 * unit} ${4 * unit}`,
+                          'pointer-events': 'none',
+                      }),
+                  ]
+                : [];
+
+        return [
+            ...guide,
+            ...handles.map((handle, index) =>
+                svgElement(
+                    'circle',
+                    {
+                        'data-handle-index': index,
+                        cx: handle.x,
+                        cy: handle.y,
+                        r: HANDLE_RADIUS * unit,
+                        fill: HANDLE_COLORS[handle.kind],
+                        stroke: '#ffffff',
+                        'stroke-width': 2 * unit,
+                        style: handle.kind === 'rotation' ? 'cursor: crosshair' : 'cursor: move',
+                    },
+                    [svgElement('title', {}, [this.getHandleTitle(handle)])]
+                )
+            ),
+        ];
+    }
+
+    private getHandleTitle(handle: ShapeHandle): string {
+        switch (handle.kind) {
+            case 'center':
+                return 'Drag to move';
+            case 'rotation':
+                return 'Drag to rotate';
+            default:
+                return `Drag to change ${handle.keys[0]}`;
+        }
+    }
+
+    /**
+     * Units of an element's coordinate system per screen pixel
+     */
+    private getLocalUnitsPerPixel(element: SVGGraphicsElement): number {
+        const matrix = element.getScreenCTM();
+        const scale = matrix ? Math.hypot(matrix.a, matrix.b) : 0;
+        return scale > 0 ? 1 / scale : 1;
+    }
+
+    toggleHandles(visible: boolean): void {
+        this.showHandles = visible;
+        this.renderHandles();
+    }
+
+    setSnap(setting: keyof HandleSnapSettings, value: string): void {
+        this.handleSnap = { ...this.handleSnap, [setting]: Number(value) };
+    }
+
+    private getCurrentViewport(): SvgViewport | null {
+        return this.viewportService.getViewport() ?? this.viewportService.getDrawingViewport();
+    }
+
+    /**
+     * Convert a screen position to drawing coordinates
+     */
+    private toDrawingPoint(clientX: number, clientY: number): DOMPoint | null {
+        const matrix = this.getSvgElement()?.getScreenCTM();
+        if (!matrix) return null;
+        return new DOMPoint(clientX, clientY).matrixTransform(matrix.inverse());
+    }
+
+    /**
+     * Drawing units per screen pixel
+     */
+    private getDrawingUnitsPerPixel(): number {
+        const matrix = this.getSvgElement()?.getScreenCTM();
+        return matrix && matrix.a !== 0 ? 1 / matrix.a : 1;
+    }
+
+    onWheel(event: WheelEvent): void {
+        const viewport = this.getCurrentViewport();
+        const point = this.toDrawingPoint(event.clientX, event.clientY);
+        if (!viewport || !point) return;
+
+        event.preventDefault();
+        // Lines and pages scroll much further than pixels
+        const delta = event.deltaY * (event.deltaMode === 0 ? 1 : 16);
+        const factor = Math.exp(delta * 0.0015);
+        this.viewportService.setViewport(this.viewportService.zoomAt(viewport, factor, point.x, point.y));
+    }
+
+    onPointerDown(event: PointerEvent): void {
+        if (event.pointerType === 'mouse' && event.button !== 0) return;
+        (event.currentTarget as HTMLElement).setPointerCapture(event.pointerId);
 
+        const handleIndex = (event.target as Element).closest('[data-handle-index]')?.getAttribute('data-handle-index');
+        const handle = handleIndex != null ? this.handles[Number(handleIndex)] : undefined;
+        if (handle && !this.activeHandle) {
+            this.activeHandle = { handle, pointerId: event.pointerId };
+            return;
+        }
+        this.pointers.set(event.pointerId, { x: event.clientX, y: event.clientY });
+    }
+
+    onPointerMove(event: PointerEvent): void {
+        if (this.activeHandle?.pointerId === event.pointerId) {
+            this.dragHandle(event);
+            return;
+        }
+
+        const previous = this.pointers.get(event.pointerId);
+        const viewport = this.getCurrentViewport();
+        if (!previous || !viewport) return;
+
+        const others = [...this.pointers.entries()].filter(([id]) => id !== event.pointerId);
+        const current = { x: event.clientX, y: event.clientY };
+        const unitsPerPixel = this.getDrawingUnitsPerPixel();
+
+        if (others.length === 0) {
+            this.viewportService.setViewport(
+                this.viewportService.panBy(
+                    viewport,
+                    (previous.x - current.x) * unitsPerPixel,
+                    (previous.y - current.y) * unitsPerPixel
+                )
+            );
+        } else {
+            // Pinch: scale by the change of distance between the fingers, pan by their midpoint
+            const other = others[0][1];
+            const before = Math.hypot(previous.x - other.x, previous.y - other.y);
+            const after = Math.hypot(current.x - other.x, current.y - other.y);
+            const midpoint = this.toDrawingPoint((current.x + other.x) / 2, (current.y + other.y) / 2);
+            if (midpoint && before > 0 && after > 0) {
+                const zoomed = this.viewportService.zoomAt(viewport, before / after, midpoint.x, midpoint.y);
+                this.viewportService.setViewport(
+                    this.viewportService.panBy(
+                        zoomed,
+                        ((previous.x - current.x) / 2) * unitsPerPixel,
+                        ((previous.y - current.y) / 2) * unitsPerPixel
+                    )
+                );
+            }
+        }
+        this.pointers.set(event.pointerId, current);
+    }
+
+    onPointerUp(event: PointerEvent): void {
+        this.pointers.delete(event.pointerId);
+        if (this.activeHandle?.pointerId === event.pointerId) {
+            this.activeHandle = null;
+        }
+    }
+
+    /**
+     * Write the parameters of the dragged handle, history coalesces the updates of one drag
+     */
+    private dragHandle(event: PointerEvent): void {
+        const overlay = this.getSvgElement()?.querySelector<SVGGElement>('g.shape-handles');
+        const matrix = overlay?.getScreenCTM();
+        if (!this.activeHandle || !matrix || !this.currentParameters) return;
+
+        const point = new DOMPoint(event.clientX, event.clientY).matrixTransform(matrix.inverse());
+        const generator = this.shapeRegistry.resolve(this.currentParameters.shape);
+        const layerId = this.svgGeneratorService.getCurrentDocument().activeLayerId;
+        this.svgGeneratorService.updateParameters(
+            dragShapeHandle(
+                this.activeHandle.handle,
+                generator.parameters,
+                { ...generator.defaults, ...this.currentParameters },
+                point.x,
+                point.y,
+                this.handleSnap
+            ),
+            { coalesce: `handle:${layerId}:${this.activeHandle.handle.keys.join(',')}` }
+        );
+    }
+
+    zoomIn(): void {
+        this.zoomAroundCenter(1 / ZOOM_STEP);
+    }
+
+    zoomOut(): void {
+        this.zoomAroundCenter(ZOOM_STEP);
+    }
+
+    private zoomAroundCenter(factor: number): void {
+        const viewport = this.getCurrentViewport();
+        if (!viewport) return;
+        this.viewportService.setViewport(
+            this.viewportService.zoomAt(
+                viewport,
+                factor,
+                viewport.x + viewport.width / 2,
+                viewport.y + viewport.height / 2
+            )
+        );
+    }
+
+    /**
+     * Zoom to the drawn shapes, ignoring the empty margin of the viewBox
+     */
+    fitToContent(): void {
+        const svg = this.getSvgElement();
+        const rootMatrix = svg?.getScreenCTM()?.inverse();
+        if (!svg || !rootMatrix) return;
+
+        const corners: DOMPoint[] = [];
+        svg.querySelectorAll<SVGGraphicsElement>('g[data-layer]').forEach((layer) => {
+            const box = layer.getBBox();
+            const matrix = layer.getScreenCTM();
+            if (!matrix || (box.width === 0 && box.height === 0)) return;
+            // getBBox ignores the layer transform, map its corners to the root coordinates
+            const toRoot = rootMatrix.multiply(matrix);
+            [
+                [box.x, box.y],
+                [box.x + box.width, box.y],
+                [box.x, box.y + box.height],
+                [box.x + box.width, box.y + box.height],
+            ].forEach(([x, y]) => corners.push(new DOMPoint(x, y).matrixTransform(toRoot)));
+        });
+        if (corners.length === 0) return;
+
+        const xMin = Math.min(...corners.map((point) => point.x));
+        const xMax = Math.max(...corners.map((point) => point.x));
+        const yMin = Math.min(...corners.map((point) => point.y));
+        const yMax = Math.max(...corners.map((point) => point.y));
+        const margin = Math.max(xMax - xMin, yMax - yMin) * 0.05;
+        this.viewportService.setViewport({
+            x: xMin - margin,
+            y: yMin - margin,
+            width: xMax - xMin + margin * 2,
+            height: yMax - yMin + margin * 2,
+        });
+    }
+
+    resetView(): void {
+        this.viewportService.resetViewport();
+    }
+
+    onExportRegionChange(region: string): void {
+        this.viewportService.setExportRegion(region as ExportRegion);
+    }
+
+    /**
+     * Markup written by download and copy, cropped to the visible region when that is selected,
+     * with strokes outlined when asked and optimized unless turned off
+     */
+    private async getExportSvg(): Promise<SvgOptimizeResult> {
+        let root = await this.svgGeneratorService.generateSvgDocument(
+            this.viewportService.getExportViewport()
+        );
+        if (this.outlineExportStrokes) {
+            root = outlineSvgStrokes(root);
+        }
+        if (this.optimizeExport) {
+            return optimizeSvg(root, { ...DEFAULT_OPTIMIZE_OPTIONS, precision: this.exportPrecision });
+        }
+        const markup = serializeSvg(root);
+        const size = getByteSize(markup);
+        return { markup, originalSize: size, optimizedSize: size };
+    }
+
+    /**
+     * Report the size of exported markup, and what the optimizer saved
+     */
+    private reportExportSize(action: string, result: SvgOptimizeResult): void {
+        const { originalSize, optimizedSize } = result;
+        const saved = originalSize > 0 ? Math.round((1 - optimizedSize / originalSize) * 100) : 0;
+        const sizes = `${this.formatByteSize(originalSize)} → ${this.formatByteSize(optimizedSize)}`;
+        const text = this.optimizeExport
+            ? `${action}: ${sizes} (${saved}% smaller)`
+            : `${action}: ${this.formatByteSize(optimizedSize)}`;
+        this.statusMessage = { text, error: false };
+    }
+
+    async downloadSvg(): Promise<void> {
+        if (!this.svgContent) return;
+
+        try {
+            const result = await this.getExportSvg();
+            const blob = new Blob([result.markup], { type: 'image/svg+xml' });
+            const url = URL.createObjectURL(blob);
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = `generative-svg-${Date.now()}.svg`;
+            document.body.appendChild(link);
+            link.click();
+            document.body.removeChild(link);
             URL.revokeObjectURL(url);
-        };
+            this.reportExportSize('SVG downloaded', result);
+        } catch (error) {
+            this.statusMessage = { text: `Failed to download SVG: ${(error as Error).message}`, error: true };
+        }
+    }
 
-        img.src = url;
+    async copySvgToClipboard(): Promise<void> {
+        if (!this.svgContent) return;
+
+        try {
+            const result = await this.getExportSvg();
+            await navigator.clipboard.writeText(result.markup);
+            this.reportExportSize('SVG copied', result);
+        } catch (error) {
+            this.statusMessage = { text: `Failed to copy SVG: ${(error as Error).message}`, error: true };
+        }
+    }
+
+    async copyPermalink(): Promise<void> {
+        try {
+            const url = this.permalinkService.buildUrl(this.svgGeneratorService.getCurrentDocument());
+            await navigator.clipboard.writeText(url);
+            this.statusMessage = { text: 'Permalink copied to clipboard', error: false };
+        } catch (error) {
+            this.statusMessage = { text: `Failed to copy permalink: ${(error as Error).message}`, error: true };
+        }
+    }
+
+    onGeoFileSelected(input: HTMLInputElement): void {
+        const file = input.files?.[0];
+        // Reset so picking the same file again fires another change event
+        input.value = '';
+        if (file) {
+            this.importGeoFile(file);
+        }
+    }
+
+    onDragOver(event: DragEvent): void {
+        if (!event.dataTransfer?.types.includes('Files')) return;
+        event.preventDefault();
+        event.dataTransfer.dropEffect = 'copy';
+        this.isDragOver = true;
+    }
+
+    onDragLeave(event: DragEvent): void {
+        const target = event.currentTarget as HTMLElement;
+        if (!target.contains(event.relatedTarget as Node | null)) {
+            this.isDragOver = false;
+        }
+    }
+
+    onDrop(event: DragEvent): void {
+        event.preventDefault();
+        this.isDragOver = false;
+        const file = event.dataTransfer?.files[0];
+        if (file) {
+            this.importGeoFile(file);
+        }
+    }
+
+    /**
+     * Import a GeoJSON or TopoJSON file and show it on the active layer as a GIS map
+     */
+    private async importGeoFile(file: File): Promise<void> {
+        try {
+            const result = await this.geoDataImportService.importFile(file);
+            this.svgGeneratorService.updateParameters({ shape: 'gis', gisSourceUrl: result.sourceUrl });
+            const format = result.convertedFromTopoJson ? 'TopoJSON' : 'GeoJSON';
+            this.statusMessage = {
+                text: `Imported ${result.featureCount} features from ${format} file ${file.name}`,
+                error: false,
+            };
+        } catch (error) {
+            this.statusMessage = { text: (error as Error).message, error: true };
+        }
     }
 
     getParametersInfo(): string {
@@ -136,4 +719,21 @@ export class SvgPreviewComponent implements OnInit, OnDestroy {
 
         return info.join(' • ');
     }
+
+    getGisStatsInfo(): string {
+        if (!this.gisStats) return '';
+
+        const { vertexCountBefore, vertexCountAfter, byteSizeBefore, byteSizeAfter } = this.gisStats;
+        const saved = byteSizeBefore > 0 ? Math.round((1 - byteSizeAfter / byteSizeBefore) * 100) : 0;
+        return (
+            `${vertexCountBefore.toLocaleString()} → ${vertexCountAfter.toLocaleString()} vertices • ` +
+            `${this.formatByteSize(byteSizeBefore)} → ${this.formatByteSize(byteSizeAfter)} (${saved}% smaller)`
+        );
+    }
+
+    private formatByteSize(bytes: number): string {
+        if (bytes < 1024) return `${bytes} B`;
+        if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+        return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+    }
 }
@@ -0,0 +1,99 @@
+import { Component, EventEmitter, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import {
+    PAGE_SIZES,
+    PageOrientation,
+    PageSize,
+    VECTOR_FORMATS,
+    VectorExportService,
+    VectorFormat,
+    VectorFormatOption,
+} from '../../services/vector-export.service';
+
+@Component({
+    selector: 'app-vector-export',
+    templateUrl: './vector-export.component.html',
+    styleUrls: ['./vector-export.component.scss'],
+    standalone: true,
+    imports: [CommonModule],
+})
+export class VectorExportComponent {
+    @Output() closed = new EventEmitter<void>();
+
+    readonly formats = VECTOR_FORMATS;
+    readonly pageSizes = PAGE_SIZES;
+
+    format: VectorFormat = 'pdf';
+    pageSize: PageSize = 'fit';
+    orientation: PageOrientation = 'portrait';
+    /** Margin and bleed in millimeters */
+    margin = 0;
+    bleed = 0;
+    outlineStrokes = false;
+    exporting = false;
+    error: string | null = null;
+
+    constructor(private vectorExportService: VectorExportService) {}
+
+    get formatOption(): VectorFormatOption {
+        return this.formats.find((option) => option.value === this.format) ?? this.formats[0];
+    }
+
+    setFormat(format: string): void {
+        this.format = format as VectorFormat;
+    }
+
+    setPageSize(size: string): void {
+        this.pageSize = size as PageSize;
+    }
+
+    setOrientation(orientation: string): void {
+        this.orientation = orientation as PageOrientation;
+    }
+
+    setLength(field: 'margin' | 'bleed', raw: string): void {
+        const length = Number(raw);
+        if (raw.trim() === '' || !(length >= 0)) return;
+        this[field] = length;
+    }
+
+    async export(): Promise<void> {
+        if (this.exporting) return;
+
+        this.exporting = true;
+        this.error = null;
+        try {
+            const blob = await this.vectorExportService.exportDocument({
+                format: this.format,
+                pageSize: this.pageSize,
+                orientation: this.orientation,
+                margin: this.margin,
+                bleed: this.bleed,
+                outlineStrokes: this.outlineStrokes,
+            });
+            this.download(blob, `generative-svg-${Date.now()}.${this.formatOption.extension}`);
+            this.closed.emit();
+        } catch (error) {
+            this.error = (error as Error).message;
+        } finally {
+            this.exporting = false;
+        }
+    }
+
+    close(): void {
+        if (!this.exporting) {
+            this.closed.emit();
+        }
+    }
+
+    private download(blob: Blob, fileName: string): void {
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = fileName;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
+    }
+}
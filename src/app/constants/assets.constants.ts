@@ -50,6 +50,9 @@ export const ASSET_CONFIG = {
     // Supported image formats
     SUPPORTED_IMAGE_FORMATS: ['png', 'jpg', 'jpeg', 'gif', 'svg', 'webp'],
 
+    // Supported GIS data formats for local import (GeoJSON or TopoJSON)
+    SUPPORTED_GEO_FORMATS: ['geojson', 'json', 'topojson'],
+
     // Asset loading timeout (ms)
     LOAD_TIMEOUT: 5000,
 
@@ -0,0 +1,29 @@
+import { Injectable } from '@angular/core';
+import type { SvgParameters } from '../services/svg-generator.service';
+import { RegularShapeGenerator } from './regular-shape.generator';
+import {
+    POSITION_PARAMETERS,
+    ShapeParameterDefinition,
+    SIZE_PARAMETER,
+    STYLE_PARAMETERS,
+} from './shape-parameters';
+
+@Injectable()
+export class CircleGenerator extends RegularShapeGenerator {
+    readonly id = 'circle';
+    readonly label = 'Circle';
+    readonly parameters: readonly ShapeParameterDefinition[] = [
+        SIZE_PARAMETER,
+        ...POSITION_PARAMETERS,
+        ...STYLE_PARAMETERS,
+    ];
+    readonly defaults: Partial<SvgParameters> = {};
+
+    generatePath(params: SvgParameters): string {
+        return `M ${params.centerX - params.size},${params.centerY}
+            A ${params.size},${params.size} 0 1,1 ${params.centerX + params.size},${params.centerY}
+            A ${params.size},${params.size} 0 1,1 ${params.centerX - params.size},${
+            params.centerY
+        } Z`;
+    }
+}
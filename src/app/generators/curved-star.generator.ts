@@ -0,0 +1,106 @@
+import { Injectable } from '@angular/core';
+import type { SvgParameters } from '../services/svg-generator.service';
+import { SvgFragment, SvgSubPath } from '../services/svg-fragment';
+import { CurvedStarParameters, CurvedStarService } from '../services/curved-star.service';
+import { polarPoints } from '../services/polar';
+import { ShapeGenerator } from './shape-generator';
+import {
+    ANGLE_PARAMETER,
+    POSITION_PARAMETERS,
+    ShapeParameterDefinition,
+    SIZE_PARAMETER,
+    STYLE_PARAMETERS,
+} from './shape-parameters';
+
+@Injectable()
+export class CurvedStarGenerator implements ShapeGenerator {
+    readonly id = 'curved-star';
+    readonly label = 'Curved Star';
+    readonly parameters: readonly ShapeParameterDefinition[] = [
+        { ...SIZE_PARAMETER, help: 'Width of the viewBox' },
+        {
+            key: 'radius',
+            label: 'Radius',
+            type: 'number',
+            min: 10,
+            max: 350,
+            step: 5,
+            slider: true,
+        },
+        {
+            key: 'curvedNoids',
+            label: 'Star Points',
+            type: 'number',
+            min: 4,
+            max: 16,
+            step: 1,
+            slider: true,
+            integer: true,
+        },
+        {
+            key: 'rayRatio',
+            label: 'Curve Ratio',
+            type: 'number',
+            min: 0.1,
+            max: 10,
+            step: 0.1,
+            slider: true,
+            help: 'Arc radius relative to the star radius',
+        },
+        ANGLE_PARAMETER,
+        ...POSITION_PARAMETERS,
+        ...STYLE_PARAMETERS,
+    ];
+    readonly defaults: Partial<SvgParameters> = { radius: 280, curvedNoids: 8, rayRatio: 1.5 };
+
+    constructor(private curvedStarService: CurvedStarService) {}
+
+    generatePath(params: SvgParameters): string {
+        const points = polarPoints(
+            params.curvedNoids || params.edgeCount || 8,
+            params.size,
+            params.centerX,
+            params.centerY,
+            params.angle
+        );
+
+        return this.curvedStarService.drawCurvedStar(
+            points,
+            () => 1,
+            params.rayRatio || 1.5,
+            'evenodd',
+            params.fillColor
+        );
+    }
+
+    generateSubPaths(params: SvgParameters): SvgSubPath[] {
+        return [
+            {
+                name: this.id,
+                d: this.generatePath(params),
+                fill: params.fillColor,
+                fillRule: 'evenodd',
+            },
+        ];
+    }
+
+    generateFragment(params: SvgParameters): SvgFragment {
+        const curvedParams: CurvedStarParameters = {
+            noids: params.curvedNoids || params.edgeCount || 8,
+            radius: params.radius,
+            rayRatio: params.rayRatio || 1.5,
+            viewBoxSize: params.size,
+            // adjustements
+            dx: params.centerX,
+            dy: params.centerY,
+            initialAngle: params.angle,
+            // styles
+            fillColor: params.fillColor,
+            strokeColor: params.strokeColor,
+            strokeWidth: params.strokeWidth,
+            fillRule: 'evenodd' as const,
+        };
+
+        return this.curvedStarService.generateCurvedStarFragment(curvedParams);
+    }
+}
@@ -0,0 +1,102 @@
+import { Injectable } from '@angular/core';
+import type { SvgParameters } from '../services/svg-generator.service';
+import { joinSubPaths, SvgFragment, SvgSubPath } from '../services/svg-fragment';
+import { StarGeneratorParameters, StarGeneratorService } from '../services/star-generator.service';
+import { ShapeGenerator } from './shape-generator';
+import {
+    ANGLE_PARAMETER,
+    EDGE_COUNT_PARAMETER,
+    POSITION_PARAMETERS,
+    ShapeParameterDefinition,
+    SIZE_PARAMETER,
+    SPIN_DURATION_PARAMETER,
+    STYLE_PARAMETERS,
+} from './shape-parameters';
+
+@Injectable()
+export class CustomStarGenerator implements ShapeGenerator {
+    readonly id = 'custom-star';
+    readonly label = 'Custom Star';
+    readonly parameters: readonly ShapeParameterDefinition[] = [
+        SIZE_PARAMETER,
+        EDGE_COUNT_PARAMETER,
+        {
+            key: 'minRadius',
+            label: 'Minimum Radius',
+            type: 'number',
+            min: 10,
+            max: 200,
+            step: 5,
+            slider: true,
+            help: 'Nesting stops once a star gets smaller than this radius',
+        },
+        {
+            key: 'startVertex',
+            label: 'Starting Vertex',
+            type: 'number',
+            min: 0,
+            max: 20,
+            step: 1,
+            slider: true,
+            integer: true,
+        },
+        { key: 'nested', label: 'Create Nested Stars', type: 'boolean' },
+        SPIN_DURATION_PARAMETER,
+        ANGLE_PARAMETER,
+        ...POSITION_PARAMETERS,
+        ...STYLE_PARAMETERS,
+    ];
+    readonly defaults: Partial<SvgParameters> = {
+        edgeCount: 6,
+        minRadius: 50,
+        startVertex: 0,
+        nested: false,
+        spinDuration: false,
+    };
+
+    constructor(private starGeneratorService: StarGeneratorService) {}
+
+    generatePath(params: SvgParameters): string {
+        return joinSubPaths(this.generateSubPaths(params));
+    }
+
+    generateSubPaths(params: SvgParameters): SvgSubPath[] {
+        const starPaths = this.starGeneratorService.generateStarPaths(
+            params.edgeCount,
+            params.size,
+            params.centerX,
+            params.centerY,
+            params.angle
+        );
+
+        return starPaths.map((pathArray, index) => ({
+            name: `star-${index + 1}`,
+            d: this.starGeneratorService.pointsToPathString(pathArray),
+            fill: params.fillColor,
+            fillRule: 'evenodd',
+        }));
+    }
+
+    generateFragment(params: SvgParameters): SvgFragment {
+        return this.starGeneratorService.generateStarFragment(this.toStarParameters(params));
+    }
+
+    private toStarParameters(params: SvgParameters): StarGeneratorParameters {
+        return {
+            noids: params.edgeCount,
+            radius: params.size,
+            minRadius: params.minRadius || 50,
+            dx: params.centerX,
+            dy: params.centerY,
+            initialAngle: params.angle,
+            startVertex: params.startVertex || 0,
+            nested: params.nested || false,
+            spinDuration: params.spinDuration || false,
+            fillColor: params.fillColor,
+            strokeColor: params.strokeColor,
+            strokeWidth: params.strokeWidth,
+            fillRule: 'evenodd' as const,
+            viewBoxSize: Math.max(params.size * 2.5, 600),
+        };
+    }
+}
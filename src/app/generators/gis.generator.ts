@@ -0,0 +1,425 @@
+import { Injectable } from '@angular/core';
+import type { SvgParameters } from '../services/svg-generator.service';
+import { joinSubPaths, SvgFragment, SvgSubPath } from '../services/svg-fragment';
+import {
+    ChoroplethClassification,
+    CLASSIFICATION_OPTIONS,
+    COLOR_RAMPS,
+    ColorRampName,
+} from '../services/choropleth';
+import {
+    defaultGisParameters,
+    GisMarkerShape,
+    GisRendererParameters,
+    GisRendererService,
+    GisRenderStats,
+} from '../services/gis-renderer.service';
+import { MAP_PROJECTION_OPTIONS, MapProjectionType } from '../services/map-projection';
+import { SIMPLIFICATION_OPTIONS, SimplificationAlgorithm } from '../services/geometry-simplify';
+import {
+    LABEL_FONT_OPTIONS,
+    LABEL_PLACEMENT_OPTIONS,
+    LabelPlacement,
+} from '../services/label-placement';
+import { GeoDataImportService, LOCAL_GEO_SOURCE_PREFIX } from '../services/geo-data-import.service';
+import { ShapeGenerator } from './shape-generator';
+import {
+    POSITION_PARAMETERS,
+    ShapeParameterDefinition,
+    SIZE_PARAMETER,
+    STYLE_PARAMETERS,
+} from './shape-parameters';
+
+/**
+ * Parameters of GIS map layers, stored in the layer parameters next to the shared ones
+ */
+export type GisShapeParameters = {
+    gisSourceUrl: string; // GeoJSON source URL
+    gisScalingFunction: 'min' | 'max' | 'width' | 'height'; // scaling function
+    showBoundingBox: boolean; // show bounding box
+    useRandomGisColors: boolean; // use random colors for GIS features
+    gisMarkerShape: GisMarkerShape; // marker drawn for Point and MultiPoint geometries
+    gisMarkerSize: number; // marker size in output units
+    gisProjection: MapProjectionType; // map projection applied before fitting
+    gisCenterLon: number; // projection central meridian
+    gisCenterLat: number; // projection latitude of origin
+    gisStandardParallel1: number; // first standard parallel of conic projections
+    gisStandardParallel2: number; // second standard parallel of conic projections
+    gisColorProperty: string; // feature property driving the choropleth, empty for none
+    gisClassification: ChoroplethClassification; // how property values are grouped into classes
+    gisClassCount: number; // number of classes for numeric classifications
+    gisColorRamp: ColorRampName; // colors of the classes
+    gisShowLegend: boolean; // draw the choropleth legend
+    gisSimplification: SimplificationAlgorithm; // line simplification applied to lines and rings
+    gisSimplifyTolerance: number; // simplification tolerance in output units
+    gisCoordinatePrecision: number; // decimals written for output coordinates
+    gisShowGraticule: boolean; // draw meridians and parallels
+    gisGraticuleStep: number; // degrees between graticule lines
+    gisShowScaleBar: boolean; // draw a scale bar for the current projection and scale
+    gisShowNorthArrow: boolean; // draw an arrow pointing north
+    gisLabelProperty: string; // feature property used as label text, empty for no labels
+    gisLabelPlacement: LabelPlacement; // where labels sit inside polygons
+    gisLabelFont: string; // label font family
+    gisLabelSize: number; // label font size in output units
+    gisLabelColor: string; // label text color
+    gisLabelHaloColor: string; // color of the outline around labels
+    gisLabelHaloWidth: number; // width of the outline around labels, 0 for none
+};
+
+@Injectable()
+export class GisGenerator implements ShapeGenerator {
+    readonly id = 'gis';
+    readonly label = 'GIS Map';
+    readonly parameters: readonly ShapeParameterDefinition[] = [
+        SIZE_PARAMETER,
+        {
+            key: 'gisSourceUrl',
+            label: 'GeoJSON Source URL',
+            type: 'url',
+            placeholder: 'http://example.com/data.geojson',
+            help: 'Leave empty to use sample data, or drop a GeoJSON/TopoJSON file on the preview',
+        },
+        {
+            key: 'gisScalingFunction',
+            label: 'Scaling Function',
+            type: 'enum',
+            options: [
+                { value: 'min', label: 'Minimum (Fit)' },
+                { value: 'max', label: 'Maximum (Fill)' },
+                { value: 'width', label: 'Width' },
+                { value: 'height', label: 'Height' },
+            ],
+        },
+        {
+            key: 'gisProjection',
+            label: 'Projection',
+            type: 'enum',
+            options: MAP_PROJECTION_OPTIONS,
+        },
+        {
+            key: 'gisCenterLon',
+            label: 'Center Longitude',
+            type: 'number',
+            min: -180,
+            max: 180,
+            step: 1,
+            halfWidth: true,
+        },
+        {
+            key: 'gisCenterLat',
+            label: 'Center Latitude',
+            type: 'number',
+            min: -90,
+            max: 90,
+            step: 1,
+            halfWidth: true,
+        },
+        {
+            key: 'gisStandardParallel1',
+            label: 'Standard Parallel 1',
+            type: 'number',
+            min: -90,
+            max: 90,
+            step: 0.5,
+            halfWidth: true,
+            help: 'Used by the conic projections',
+        },
+        {
+            key: 'gisStandardParallel2',
+            label: 'Standard Parallel 2',
+            type: 'number',
+            min: -90,
+            max: 90,
+            step: 0.5,
+            halfWidth: true,
+        },
+        {
+            key: 'gisMarkerShape',
+            label: 'Point Marker',
+            type: 'enum',
+            halfWidth: true,
+            options: [
+                { value: 'circle', label: 'Circle' },
+                { value: 'square', label: 'Square' },
+                { value: 'triangle', label: 'Triangle' },
+                { value: 'diamond', label: 'Diamond' },
+            ],
+        },
+        {
+            key: 'gisMarkerSize',
+            label: 'Marker Size',
+            type: 'number',
+            min: 1,
+            max: 50,
+            step: 1,
+            halfWidth: true,
+        },
+        {
+            key: 'gisColorProperty',
+            label: 'Color By Property',
+            type: 'text',
+            placeholder: 'e.g., population',
+            help: 'Feature property used for choropleth colors, leave empty for a single color',
+        },
+        {
+            key: 'gisClassification',
+            label: 'Classification',
+            type: 'enum',
+            options: CLASSIFICATION_OPTIONS,
+        },
+        {
+            key: 'gisClassCount',
+            label: 'Classes',
+            type: 'number',
+            min: 2,
+            max: 9,
+            step: 1,
+            halfWidth: true,
+            integer: true,
+        },
+        {
+            key: 'gisColorRamp',
+            label: 'Color Ramp',
+            type: 'enum',
+            halfWidth: true,
+            options: (Object.keys(COLOR_RAMPS) as ColorRampName[]).map((value) => ({
+                value,
+                label: COLOR_RAMPS[value].label,
+            })),
+        },
+        { key: 'gisShowLegend', label: 'Show Legend', type: 'boolean' },
+        {
+            key: 'gisLabelProperty',
+            label: 'Label By Property',
+            type: 'text',
+            placeholder: 'e.g., name',
+            help: 'Feature property shown as a label, overlapping labels are dropped',
+        },
+        {
+            key: 'gisLabelPlacement',
+            label: 'Label Placement',
+            type: 'enum',
+            options: LABEL_PLACEMENT_OPTIONS,
+        },
+        {
+            key: 'gisLabelFont',
+            label: 'Label Font',
+            type: 'enum',
+            halfWidth: true,
+            options: LABEL_FONT_OPTIONS,
+        },
+        {
+            key: 'gisLabelSize',
+            label: 'Label Size',
+            type: 'number',
+            min: 4,
+            max: 72,
+            step: 1,
+            halfWidth: true,
+        },
+        { key: 'gisLabelColor', label: 'Label Color', type: 'color', halfWidth: true },
+        { key: 'gisLabelHaloColor', label: 'Halo Color', type: 'color', halfWidth: true },
+        {
+            key: 'gisLabelHaloWidth',
+            label: 'Halo Width',
+            type: 'number',
+            min: 0,
+            max: 10,
+            step: 0.5,
+        },
+        {
+            key: 'gisSimplification',
+            label: 'Simplification',
+            type: 'enum',
+            options: SIMPLIFICATION_OPTIONS,
+            help: 'Shared borders are simplified once so neighbouring features stay joined',
+        },
+        {
+            key: 'gisSimplifyTolerance',
+            label: 'Tolerance',
+            type: 'number',
+            min: 0,
+            max: 20,
+            step: 0.1,
+            slider: true,
+            help: 'Largest deviation from the original lines, in output units',
+        },
+        {
+            key: 'gisCoordinatePrecision',
+            label: 'Coordinate Decimals',
+            type: 'number',
+            min: 0,
+            max: 6,
+            step: 1,
+            integer: true,
+        },
+        { key: 'useRandomGisColors', label: 'Vary Feature Colors', type: 'boolean' },
+        { key: 'showBoundingBox', label: 'Show Bounding Box', type: 'boolean' },
+        { key: 'gisShowGraticule', label: 'Show Graticule', type: 'boolean' },
+        {
+            key: 'gisGraticuleStep',
+            label: 'Graticule Interval',
+            type: 'number',
+            min: 1,
+            max: 90,
+            step: 1,
+            help: 'Degrees between meridians and between parallels',
+        },
+        { key: 'gisShowScaleBar', label: 'Show Scale Bar', type: 'boolean' },
+        { key: 'gisShowNorthArrow', label: 'Show North Arrow', type: 'boolean' },
+        ...POSITION_PARAMETERS,
+        ...STYLE_PARAMETERS,
+    ];
+    readonly defaults: GisShapeParameters = {
+        gisSourceUrl: '',
+        gisScalingFunction: 'min',
+        showBoundingBox: true,
+        useRandomGisColors: true,
+        gisMarkerShape: 'circle',
+        gisMarkerSize: 6,
+        gisProjection: 'equirectangular',
+        gisCenterLon: 0,
+        gisCenterLat: 0,
+        gisStandardParallel1: 29.5,
+        gisStandardParallel2: 45.5,
+        gisColorProperty: '',
+        gisClassification: 'quantile',
+        gisClassCount: 5,
+        gisColorRamp: 'blues',
+        gisShowLegend: true,
+        gisSimplification: 'none',
+        gisSimplifyTolerance: 1,
+        gisCoordinatePrecision: 3,
+        gisShowGraticule: false,
+        gisGraticuleStep: 10,
+        gisShowScaleBar: false,
+        gisShowNorthArrow: false,
+        gisLabelProperty: '',
+        gisLabelPlacement: 'pole',
+        gisLabelFont: 'sans-serif',
+        gisLabelSize: 12,
+        gisLabelColor: '#222222',
+        gisLabelHaloColor: '#ffffff',
+        gisLabelHaloWidth: 2,
+    };
+
+    constructor(
+        private gisRendererService: GisRendererService,
+        private geoDataImportService: GeoDataImportService
+    ) {}
+
+    async generatePath(params: SvgParameters): Promise<string> {
+        return joinSubPaths(await this.generateSubPaths(params));
+    }
+
+    async generateSubPaths(params: SvgParameters): Promise<SvgSubPath[]> {
+        const gisParams = this.toGisParameters(params);
+        if (gisParams.sourceUrl && this.geoDataImportService.isLocalSource(gisParams.sourceUrl)) {
+            const imported = this.geoDataImportService.getDataset(gisParams.sourceUrl);
+            if (!imported) {
+                throw new Error(
+                    `Imported file ${gisParams.sourceUrl.slice(LOCAL_GEO_SOURCE_PREFIX.length)} is not loaded`
+                );
+            }
+            return this.gisRendererService.generateGisSubPathsFromData(imported, gisParams);
+        }
+        if (!gisParams.sourceUrl) {
+            const sampleData = this.gisRendererService.generateSampleGeoJson();
+            return this.gisRendererService.generateGisSubPathsFromData(sampleData, gisParams);
+        }
+
+        return await this.gisRendererService.generateGisSubPaths(gisParams);
+    }
+
+    async generateFragment(params: SvgParameters): Promise<SvgFragment> {
+        const gisParams = this.toGisParameters(params);
+        if (gisParams.sourceUrl && this.geoDataImportService.isLocalSource(gisParams.sourceUrl)) {
+            const imported = this.geoDataImportService.getDataset(gisParams.sourceUrl);
+            return imported
+                ? this.gisRendererService.generateGisFragmentFromData(imported, gisParams)
+                : this.gisRendererService.createErrorFragment(
+                      `Imported file ${gisParams.sourceUrl.slice(LOCAL_GEO_SOURCE_PREFIX.length)} is not loaded`,
+                      'Imported files are not shared by links, import the file again'
+                  );
+        }
+        if (!gisParams.sourceUrl) {
+            // Return sample GIS data if no URL provided
+            const sampleData = this.gisRendererService.generateSampleGeoJson();
+            return this.gisRendererService.generateGisFragmentFromData(sampleData, gisParams);
+        }
+
+        return await this.gisRendererService.generateGisFragment(gisParams);
+    }
+
+    /**
+     * Statistics of the last render of a layer's map
+     * @param params Layer parameters
+     * @returns Vertex counts and sizes before and after simplification, null before it is drawn
+     */
+    getRenderStats(params: SvgParameters): GisRenderStats | null {
+        return this.gisRendererService.getRenderStats(
+            this.toGisParameters({ ...this.defaults, ...params })
+        );
+    }
+
+    /**
+     * Map layer parameters to renderer parameters, the GIS ones are filled from `defaults` by
+     * SvgGeneratorService
+     */
+    private toGisParameters(params: SvgParameters): GisRendererParameters {
+        const gis = params as SvgParameters & GisShapeParameters;
+        return {
+            sourceUrl: gis.gisSourceUrl,
+            scalingFunction: gis.gisScalingFunction,
+            translateX: gis.centerX,
+            translateY: gis.centerY,
+            fillColor: gis.fillColor,
+            scale: gis.size / 200,
+            strokeColor: gis.strokeColor,
+            strokeWidth: gis.strokeWidth,
+            fillColors: defaultGisParameters.fillColors,
+            useRandomColors: gis.useRandomGisColors,
+            choropleth: gis.gisColorProperty
+                ? {
+                      property: gis.gisColorProperty,
+                      classification: gis.gisClassification,
+                      classCount: gis.gisClassCount,
+                      colorRamp: gis.gisColorRamp,
+                  }
+                : null,
+            showLegend: gis.gisShowLegend,
+            showBoundingBox: gis.showBoundingBox,
+            boundingBoxColor: gis.strokeColor,
+            showGraticule: gis.gisShowGraticule,
+            graticuleStep: gis.gisGraticuleStep,
+            showScaleBar: gis.gisShowScaleBar,
+            showNorthArrow: gis.gisShowNorthArrow,
+            markerShape: gis.gisMarkerShape,
+            markerSize: gis.gisMarkerSize,
+            projection: {
+                type: gis.gisProjection,
+                centerLon: gis.gisCenterLon,
+                centerLat: gis.gisCenterLat,
+                standardParallel1: gis.gisStandardParallel1,
+                standardParallel2: gis.gisStandardParallel2,
+            },
+            simplification: {
+                algorithm: gis.gisSimplification,
+                tolerance: gis.gisSimplifyTolerance,
+            },
+            labels: gis.gisLabelProperty
+                ? {
+                      property: gis.gisLabelProperty,
+                      placement: gis.gisLabelPlacement,
+                      fontFamily: gis.gisLabelFont,
+                      fontSize: gis.gisLabelSize,
+                      color: gis.gisLabelColor,
+                      haloColor: gis.gisLabelHaloColor,
+                      haloWidth: gis.gisLabelHaloWidth,
+                  }
+                : null,
+            coordinatePrecision: gis.gisCoordinatePrecision,
+            viewBoxSize: Math.max(gis.size * 2.5, 600),
+        };
+    }
+}
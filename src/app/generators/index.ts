@@ -0,0 +1,31 @@
+import { Provider } from '@angular/core';
+import { CircleGenerator } from './circle.generator';
+import { CurvedStarGenerator } from './curved-star.generator';
+import { CustomStarGenerator } from './custom-star.generator';
+import { GisGenerator } from './gis.generator';
+import { PathGenerator } from './path.generator';
+import { PolygonGenerator } from './polygon.generator';
+import { provideShapeGenerator } from './shape-generator';
+import { SpiralGenerator } from './spiral.generator';
+import { StarGenerator } from './star.generator';
+import { YinYangGenerator } from './yinyang.generator';
+
+export * from './shape-generator';
+export * from './shape-parameters';
+
+/**
+ * Providers for the shapes shipped with the application, in selector order
+ */
+export function provideBuiltInShapeGenerators(): Provider[] {
+    return [
+        provideShapeGenerator(CurvedStarGenerator),
+        provideShapeGenerator(CustomStarGenerator),
+        provideShapeGenerator(YinYangGenerator),
+        provideShapeGenerator(GisGenerator),
+        provideShapeGenerator(PolygonGenerator),
+        provideShapeGenerator(StarGenerator),
+        provideShapeGenerator(CircleGenerator),
+        provideShapeGenerator(SpiralGenerator),
+        provideShapeGenerator(PathGenerator),
+    ];
+}
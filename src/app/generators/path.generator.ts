@@ -0,0 +1,49 @@
+import { Injectable } from '@angular/core';
+import type { SvgParameters } from '../services/svg-generator.service';
+import { SvgFragment } from '../services/svg-fragment';
+import { formatPathData, getPathBounds, parsePathData, transformPath } from '../services/svg-path';
+import { RegularShapeGenerator } from './regular-shape.generator';
+import {
+    POSITION_PARAMETERS,
+    ShapeParameterDefinition,
+    STYLE_PARAMETERS,
+} from './shape-parameters';
+
+/**
+ * Free outline given as path data, such as the result of a boolean operation between layers
+ */
+@Injectable()
+export class PathGenerator extends RegularShapeGenerator {
+    readonly id = 'path';
+    readonly label = 'Path';
+    readonly parameters: readonly ShapeParameterDefinition[] = [
+        {
+            key: 'pathData',
+            label: 'Path Data',
+            type: 'text',
+            placeholder: 'M -100,-100 H 100 V 100 H -100 Z',
+            help: 'SVG path data, moved by the center position',
+        },
+        ...POSITION_PARAMETERS,
+        ...STYLE_PARAMETERS,
+    ];
+    readonly defaults: Partial<SvgParameters> = {
+        pathData: 'M-100 -100H100V100H-100Z',
+    };
+
+    generatePath(params: SvgParameters): string {
+        const segments = parsePathData(params.pathData || '');
+        return formatPathData(
+            transformPath(segments, [1, 0, 0, 1, params.centerX, params.centerY])
+        );
+    }
+
+    override generateFragment(params: SvgParameters): SvgFragment {
+        const fragment = super.generateFragment(params);
+        const bounds = getPathBounds(parsePathData(this.generatePath(params)));
+        const reach = bounds
+            ? Math.max(-bounds.minX, -bounds.minY, bounds.maxX, bounds.maxY, 0)
+            : 0;
+        return { ...fragment, viewBoxSize: (reach + 50) * 2 };
+    }
+}
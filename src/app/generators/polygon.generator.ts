@@ -0,0 +1,40 @@
+import { Injectable } from '@angular/core';
+import type { SvgParameters } from '../services/svg-generator.service';
+import { RegularShapeGenerator } from './regular-shape.generator';
+import {
+    ANGLE_PARAMETER,
+    EDGE_COUNT_PARAMETER,
+    POSITION_PARAMETERS,
+    ShapeParameterDefinition,
+    SIZE_PARAMETER,
+    STYLE_PARAMETERS,
+} from './shape-parameters';
+
+@Injectable()
+export class PolygonGenerator extends RegularShapeGenerator {
+    readonly id = 'polygon';
+    readonly label = 'Polygon';
+    readonly parameters: readonly ShapeParameterDefinition[] = [
+        SIZE_PARAMETER,
+        EDGE_COUNT_PARAMETER,
+        ANGLE_PARAMETER,
+        ...POSITION_PARAMETERS,
+        ...STYLE_PARAMETERS,
+    ];
+    readonly defaults: Partial<SvgParameters> = { edgeCount: 6 };
+
+    generatePath(params: SvgParameters): string {
+        const points: string[] = [];
+        const angleStep = (2 * Math.PI) / params.edgeCount;
+        const startAngle = (params.angle * Math.PI) / 180;
+
+        for (let i = 0; i < params.edgeCount; i++) {
+            const angle = startAngle + i * angleStep;
+            const x = params.centerX + params.size * Math.cos(angle);
+            const y = params.centerY + params.size * Math.sin(angle);
+            points.push(`${x.toFixed(2)},${y.toFixed(2)}`);
+        }
+
+        return `M ${points[0]} L ${points.slice(1).join(' L ')} Z`;
+    }
+}
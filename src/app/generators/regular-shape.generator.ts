@@ -0,0 +1,74 @@
+import type { SvgParameters } from '../services/svg-generator.service';
+import { svgElement } from '../services/svg-dom';
+import { createLinearGradient, SvgFragment, SvgSubPath } from '../services/svg-fragment';
+import { ShapeGenerator } from './shape-generator';
+import { ShapeParameterDefinition } from './shape-parameters';
+
+/**
+ * Base class for shapes made of a single path wrapped in a gradient filled SVG
+ */
+export abstract class RegularShapeGenerator implements ShapeGenerator {
+    abstract readonly id: string;
+    abstract readonly label: string;
+    abstract readonly parameters: readonly ShapeParameterDefinition[];
+    abstract readonly defaults: Partial<SvgParameters>;
+
+    abstract generatePath(params: SvgParameters): string;
+
+    generateSubPaths(params: SvgParameters): SvgSubPath[] {
+        return [
+            {
+                name: this.id,
+                d: this.generatePath(params),
+                fill: params.fillColor,
+                fillRule: 'nonzero',
+            },
+        ];
+    }
+
+    generateFragment(params: SvgParameters): SvgFragment {
+        const path = this.generatePath(params);
+        const viewBoxSize =
+            Math.max(params.centerX + params.size + 50, params.centerY + params.size + 50) * 2;
+
+        return {
+            defs: [
+                createLinearGradient('gradient', [
+                    { offset: 0, color: params.fillColor, opacity: 1 },
+                    { offset: 100, color: this.lightenColor(params.fillColor, 40), opacity: 1 },
+                ]),
+            ],
+            content: [
+                svgElement('path', {
+                    d: path,
+                    fill: 'url(#gradient)',
+                    stroke: params.strokeColor,
+                    'stroke-width': params.strokeWidth,
+                    'stroke-linejoin': 'round',
+                    'stroke-linecap': 'round',
+                }),
+            ],
+            viewBoxSize,
+        };
+    }
+
+    protected lightenColor(color: string, percent: number): string {
+        // Simple color lightening function
+        const num = parseInt(color.replace('#', ''), 16);
+        const amt = Math.round(2.55 * percent);
+        const R = (num >> 16) + amt;
+        const G = ((num >> 8) & 0x00ff) + amt;
+        const B = (num & 0x0000ff) + amt;
+        return (
+            '#' +
+            (
+                0x1000000 +
+                (R < 255 ? (R < 1 ? 0 : R) : 255) * 0x10000 +
+                (G < 255 ? (G < 1 ? 0 : G) : 255) * 0x100 +
+                (B < 255 ? (B < 1 ? 0 : B) : 255)
+            )
+                .toString(16)
+                .slice(1)
+        );
+    }
+}
@@ -0,0 +1,54 @@
+import { InjectionToken, Provider, Type } from '@angular/core';
+import type { SvgParameters } from '../services/svg-generator.service';
+import { SvgFragment, SvgSubPath } from '../services/svg-fragment';
+import { ShapeParameterDefinition } from './shape-parameters';
+
+/**
+ * Contract implemented by every shape that can be rendered by SvgGeneratorService
+ */
+export interface ShapeGenerator {
+    /** Unique id stored in `SvgParameters.shape` */
+    readonly id: string;
+    /** Label displayed in the shape selector */
+    readonly label: string;
+    /** Parameter schema rendered by the parameters panel, in display order */
+    readonly parameters: readonly ShapeParameterDefinition[];
+    /** Values applied on reset and used to fill parameters the state does not define */
+    readonly defaults: Partial<SvgParameters>;
+
+    /**
+     * Generate SVG path data for the shape
+     * @param params Current SVG parameters
+     * @returns SVG path string, or a promise resolving to it for shapes loading their data
+     */
+    generatePath(params: SvgParameters): string | Promise<string>;
+
+    /**
+     * Generate the shape as named sub-paths with their fill styles, together drawing the same
+     * geometry as `generatePath`
+     * @param params Current SVG parameters
+     * @returns Sub-paths in drawing order, or a promise resolving to them
+     */
+    generateSubPaths(params: SvgParameters): SvgSubPath[] | Promise<SvgSubPath[]>;
+
+    /**
+     * Generate the shape markup, composed into a document by SvgGeneratorService
+     * @param params Current SVG parameters
+     * @returns SVG fragment or a promise resolving to it
+     */
+    generateFragment(params: SvgParameters): SvgFragment | Promise<SvgFragment>;
+}
+
+/**
+ * Multi provider token collecting all registered shape generators
+ */
+export const SHAPE_GENERATORS = new InjectionToken<ShapeGenerator[]>('SHAPE_GENERATORS');
+
+/**
+ * Register a shape generator class so it appears in the shape registry
+ * @param generator Injectable class implementing ShapeGenerator
+ * @returns Providers to add to a module or component
+ */
+export function provideShapeGenerator(generator: Type<ShapeGenerator>): Provider[] {
+    return [generator, { provide: SHAPE_GENERATORS, useExisting: generator, multi: true }];
+}
@@ -0,0 +1,152 @@
+import type { SvgParameters } from '../services/svg-generator.service';
+import {
+    NumberParameterDefinition,
+    ShapeParameterDefinition,
+    ShapeParameterKey,
+} from './shape-parameters';
+
+export type ShapeHandleKind = 'center' | 'radius' | 'rotation' | 'inner-radius';
+
+/**
+ * Draggable point drawn over the preview, in the coordinates of the shape
+ */
+export interface ShapeHandle {
+    kind: ShapeHandleKind;
+    x: number;
+    y: number;
+    /** Parameters written when the handle is dragged */
+    keys: ShapeParameterKey[];
+}
+
+/**
+ * Increments handles snap to, 0 disables snapping
+ */
+export interface HandleSnapSettings {
+    /** Step of positions and radii, in drawing units */
+    distance: number;
+    /** Step of angles, in degrees */
+    angle: number;
+}
+
+/** Parameters each radius handle can drive, the first one the shape declares is used */
+const RADIUS_KEYS: ShapeParameterKey[] = ['radius', 'size'];
+const INNER_RADIUS_KEYS: ShapeParameterKey[] = ['innerRadius', 'minRadius'];
+
+/**
+ * Find the handles a shape supports from its parameter schema: a center handle when it declares
+ * `centerX`/`centerY`, radius and inner radius handles for its radius parameters and a rotation
+ * handle for `angle`
+ * @param definitions Parameter schema of the shape
+ * @param params Current parameters
+ * @param rotationOffset Distance between the radius and rotation handles, in drawing units
+ * @returns Handles at their current positions
+ */
+export function getShapeHandles(
+    definitions: readonly ShapeParameterDefinition[],
+    params: SvgParameters,
+    rotationOffset: number
+): ShapeHandle[] {
+    const { centerX, centerY } = params;
+    const angleDefinition = findNumberDefinition(definitions, ['angle']);
+    const radiusDefinition = findNumberDefinition(definitions, RADIUS_KEYS);
+    const innerDefinition = findNumberDefinition(definitions, INNER_RADIUS_KEYS);
+    const direction = angleDefinition ? toRadians(params.angle) : 0;
+    const at = (distance: number, angle: number) => ({
+        x: centerX + distance * Math.cos(angle),
+        y: centerY + distance * Math.sin(angle),
+    });
+
+    const handles: ShapeHandle[] = [];
+    if (
+        findNumberDefinition(definitions, ['centerX']) &&
+        findNumberDefinition(definitions, ['centerY'])
+    ) {
+        handles.push({ kind: 'center', x: centerX, y: centerY, keys: ['centerX', 'centerY'] });
+    }
+
+    const radius = radiusDefinition ? getNumber(params, radiusDefinition.key) : 0;
+    if (radiusDefinition) {
+        handles.push({ kind: 'radius', ...at(radius, direction), keys: [radiusDefinition.key] });
+    }
+    if (angleDefinition) {
+        handles.push({
+            kind: 'rotation',
+            ...at(radius + rotationOffset, direction),
+            keys: ['angle'],
+        });
+    }
+    if (innerDefinition) {
+        // Star inner vertices sit halfway between the outer ones
+        const offset = params.edgeCount > 0 ? Math.PI / params.edgeCount : Math.PI / 2;
+        const innerRadius = getNumber(params, innerDefinition.key) || radius * 0.5;
+        handles.push({
+            kind: 'inner-radius',
+            ...at(innerRadius, direction + offset),
+            keys: [innerDefinition.key],
+        });
+    }
+    return handles;
+}
+
+/**
+ * Compute the parameters written when a handle is dragged to a position
+ * @param handle Dragged handle
+ * @param definitions Parameter schema of the shape, providing the limits of each value
+ * @param params Parameters when the drag started
+ * @param x Pointer position in the coordinates of the shape
+ * @param y Pointer position in the coordinates of the shape
+ * @param snap Snapping increments
+ * @returns Parameters to update
+ */
+export function dragShapeHandle(
+    handle: ShapeHandle,
+    definitions: readonly ShapeParameterDefinition[],
+    params: SvgParameters,
+    x: number,
+    y: number,
+    snap: HandleSnapSettings
+): Partial<SvgParameters> {
+    const limit = (key: ShapeParameterKey, value: number, step: number) => {
+        const definition = findNumberDefinition(definitions, [key]);
+        const snapped = step > 0 ? Math.round(value / step) * step : value;
+        const rounded = parseFloat(snapped.toFixed(2));
+        return definition ? Math.min(Math.max(rounded, definition.min), definition.max) : rounded;
+    };
+    const distance = Math.hypot(x - params.centerX, y - params.centerY);
+
+    switch (handle.kind) {
+        case 'center':
+            return {
+                centerX: limit('centerX', x, snap.distance),
+                centerY: limit('centerY', y, snap.distance),
+            };
+        case 'rotation': {
+            const degrees = (Math.atan2(y - params.centerY, x - params.centerX) * 180) / Math.PI;
+            const angle = limit('angle', (degrees + 360) % 360, snap.angle);
+            return { angle: angle === 360 ? 0 : angle };
+        }
+        case 'radius':
+        case 'inner-radius':
+            return { [handle.keys[0]]: limit(handle.keys[0], distance, snap.distance) };
+    }
+}
+
+function findNumberDefinition(
+    definitions: readonly ShapeParameterDefinition[],
+    keys: ShapeParameterKey[]
+): NumberParameterDefinition | undefined {
+    for (const key of keys) {
+        const definition = definitions.find((candidate) => candidate.key === key);
+        if (definition?.type === 'number') return definition;
+    }
+    return undefined;
+}
+
+function getNumber(params: SvgParameters, key: ShapeParameterKey): number {
+    const value = params[key];
+    return typeof value === 'number' ? value : 0;
+}
+
+function toRadians(degrees: number): number {
+    return (degrees * Math.PI) / 180;
+}
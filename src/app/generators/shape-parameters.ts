@@ -0,0 +1,177 @@
+import { LOCAL_GEO_SOURCE_PREFIX } from '../services/geo-data-import.service';
+import type { SvgParameters } from '../services/svg-generator.service';
+
+/**
+ * Keys of `SvgParameters` that a shape can declare in its parameter schema
+ */
+export type ShapeParameterKey = Exclude<keyof SvgParameters & string, 'shape'>;
+
+interface BaseParameterDefinition {
+    key: ShapeParameterKey;
+    label: string;
+    /** Hint displayed under the control */
+    help?: string;
+    /** Render the control at half width so two of them share a row */
+    halfWidth?: boolean;
+}
+
+export interface NumberParameterDefinition extends BaseParameterDefinition {
+    type: 'number';
+    min: number;
+    max: number;
+    step: number;
+    /** Show a range slider next to the number input */
+    slider?: boolean;
+    /** The value counts things, animations round it to whole numbers */
+    integer?: boolean;
+}
+
+export interface ColorParameterDefinition extends BaseParameterDefinition {
+    type: 'color';
+}
+
+export interface BooleanParameterDefinition extends BaseParameterDefinition {
+    type: 'boolean';
+}
+
+export interface EnumParameterDefinition extends BaseParameterDefinition {
+    type: 'enum';
+    options: { value: string; label: string }[];
+}
+
+/**
+ * CSS/SMIL clock value such as `2s` or `500ms`, empty means disabled (`false`)
+ */
+export interface DurationParameterDefinition extends BaseParameterDefinition {
+    type: 'duration';
+    placeholder?: string;
+}
+
+export interface UrlParameterDefinition extends BaseParameterDefinition {
+    type: 'url';
+    placeholder?: string;
+}
+
+export interface TextParameterDefinition extends BaseParameterDefinition {
+    type: 'text';
+    placeholder?: string;
+}
+
+export type ShapeParameterDefinition =
+    | NumberParameterDefinition
+    | ColorParameterDefinition
+    | BooleanParameterDefinition
+    | EnumParameterDefinition
+    | DurationParameterDefinition
+    | UrlParameterDefinition
+    | TextParameterDefinition;
+
+export const DURATION_PATTERN = /^\d+(\.\d+)?(ms|s)$/;
+export const COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+/**
+ * Accept empty values, absolute http(s) URLs, paths relative to the site origin and imported files
+ * @param value URL to check
+ * @returns True if the URL can be used as a data source
+ */
+export function isValidSourceUrl(value: string): boolean {
+    if (!value || value.startsWith('/') || value.startsWith(LOCAL_GEO_SOURCE_PREFIX)) return true;
+
+    try {
+        const url = new URL(value);
+        return url.protocol === 'http:' || url.protocol === 'https:';
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Parse a raw string, such as a query parameter, according to a parameter definition
+ * @param definition Parameter definition
+ * @param raw Raw string value
+ * @returns Parsed value, or undefined when the string is not valid for the definition
+ */
+export function parseParameterValue(definition: ShapeParameterDefinition, raw: string): unknown {
+    const value = raw.trim();
+    switch (definition.type) {
+        case 'number': {
+            const parsed = Number(value);
+            const inRange = parsed >= definition.min && parsed <= definition.max;
+            return value !== '' && Number.isFinite(parsed) && inRange ? parsed : undefined;
+        }
+        case 'color':
+            return COLOR_PATTERN.test(value) ? value : undefined;
+        case 'boolean':
+            return value === 'true' ? true : value === 'false' ? false : undefined;
+        case 'enum':
+            return definition.options.some((option) => option.value === value) ? value : undefined;
+        case 'duration':
+            if (value === '') return false;
+            return DURATION_PATTERN.test(value) ? value : undefined;
+        case 'url':
+            return isValidSourceUrl(value) ? value : undefined;
+        case 'text':
+            return value;
+    }
+}
+
+/**
+ * Shared definitions reused by the built-in shapes
+ */
+export const SIZE_PARAMETER: NumberParameterDefinition = {
+    key: 'size',
+    label: 'Size',
+    type: 'number',
+    min: 20,
+    max: 1080,
+    step: 5,
+    slider: true,
+};
+
+export const EDGE_COUNT_PARAMETER: NumberParameterDefinition = {
+    key: 'edgeCount',
+    label: 'Edge Count',
+    type: 'number',
+    min: 2,
+    max: 20,
+    step: 1,
+    slider: true,
+    integer: true,
+};
+
+export const SPIN_DURATION_PARAMETER: DurationParameterDefinition = {
+    key: 'spinDuration',
+    label: 'Spin Duration',
+    type: 'duration',
+    placeholder: 'e.g., 2s, 500ms',
+    help: 'Leave empty for no spin',
+};
+
+export const ANGLE_PARAMETER: NumberParameterDefinition = {
+    key: 'angle',
+    label: 'Rotation Angle (degrees)',
+    type: 'number',
+    min: 0,
+    max: 360,
+    step: 1,
+    slider: true,
+};
+
+export const POSITION_PARAMETERS: ShapeParameterDefinition[] = [
+    { key: 'centerX', label: 'Center X', type: 'number', min: -450, max: 450, step: 1, halfWidth: true },
+    { key: 'centerY', label: 'Center Y', type: 'number', min: -450, max: 450, step: 1, halfWidth: true },
+];
+
+export const STYLE_PARAMETERS: ShapeParameterDefinition[] = [
+    {
+        key: 'strokeWidth',
+        label: 'Stroke Width',
+        type: 'number',
+        min: 0,
+        max: 10,
+        step: 0.5,
+        slider: true,
+    },
+    { key: 'strokeColor', label: 'Stroke Color', type: 'color' },
+    { key: 'fillColor', label: 'Fill Color', type: 'color' },
+];
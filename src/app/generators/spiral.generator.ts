@@ -0,0 +1,56 @@
+import { Injectable } from '@angular/core';
+import type { SvgParameters } from '../services/svg-generator.service';
+import { RegularShapeGenerator } from './regular-shape.generator';
+import {
+    ANGLE_PARAMETER,
+    POSITION_PARAMETERS,
+    ShapeParameterDefinition,
+    SIZE_PARAMETER,
+    STYLE_PARAMETERS,
+} from './shape-parameters';
+
+@Injectable()
+export class SpiralGenerator extends RegularShapeGenerator {
+    readonly id = 'spiral';
+    readonly label = 'Spiral';
+    readonly parameters: readonly ShapeParameterDefinition[] = [
+        SIZE_PARAMETER,
+        {
+            key: 'spiralTurns',
+            label: 'Spiral Turns',
+            type: 'number',
+            min: 1,
+            max: 10,
+            step: 0.5,
+            slider: true,
+        },
+        ANGLE_PARAMETER,
+        ...POSITION_PARAMETERS,
+        ...STYLE_PARAMETERS,
+    ];
+    readonly defaults: Partial<SvgParameters> = { spiralTurns: 3 };
+
+    generatePath(params: SvgParameters): string {
+        const points: string[] = [];
+        const turns = params.spiralTurns || 3;
+        const steps = turns * 20; // 20 points per turn
+        const maxRadius = params.size;
+        const startAngle = (params.angle * Math.PI) / 180;
+
+        for (let i = 0; i <= steps; i++) {
+            const progress = i / steps;
+            const angle = startAngle + progress * turns * 2 * Math.PI;
+            const radius = maxRadius * progress;
+            const x = params.centerX + radius * Math.cos(angle);
+            const y = params.centerY + radius * Math.sin(angle);
+
+            if (i === 0) {
+                points.push(`M ${x.toFixed(2)},${y.toFixed(2)}`);
+            } else {
+                points.push(`L ${x.toFixed(2)},${y.toFixed(2)}`);
+            }
+        }
+
+        return points.join(' ');
+    }
+}
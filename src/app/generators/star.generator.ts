@@ -0,0 +1,52 @@
+import { Injectable } from '@angular/core';
+import type { SvgParameters } from '../services/svg-generator.service';
+import { RegularShapeGenerator } from './regular-shape.generator';
+import {
+    ANGLE_PARAMETER,
+    EDGE_COUNT_PARAMETER,
+    POSITION_PARAMETERS,
+    ShapeParameterDefinition,
+    SIZE_PARAMETER,
+    STYLE_PARAMETERS,
+} from './shape-parameters';
+
+@Injectable()
+export class StarGenerator extends RegularShapeGenerator {
+    readonly id = 'star';
+    readonly label = 'Star';
+    readonly parameters: readonly ShapeParameterDefinition[] = [
+        SIZE_PARAMETER,
+        EDGE_COUNT_PARAMETER,
+        {
+            key: 'innerRadius',
+            label: 'Inner Radius',
+            type: 'number',
+            min: 10,
+            max: 200,
+            step: 5,
+            slider: true,
+        },
+        ANGLE_PARAMETER,
+        ...POSITION_PARAMETERS,
+        ...STYLE_PARAMETERS,
+    ];
+    readonly defaults: Partial<SvgParameters> = { edgeCount: 6, innerRadius: 50 };
+
+    generatePath(params: SvgParameters): string {
+        const points: string[] = [];
+        const outerRadius = params.size;
+        const innerRadius = params.innerRadius || params.size * 0.5;
+        const angleStep = Math.PI / params.edgeCount;
+        const startAngle = (params.angle * Math.PI) / 180;
+
+        for (let i = 0; i < params.edgeCount * 2; i++) {
+            const angle = startAngle + i * angleStep;
+            const radius = i % 2 === 0 ? outerRadius : innerRadius;
+            const x = params.centerX + radius * Math.cos(angle);
+            const y = params.centerY + radius * Math.sin(angle);
+            points.push(`${x.toFixed(2)},${y.toFixed(2)}`);
+        }
+
+        return `M ${points[0]} L ${points.slice(1).join(' L ')} Z`;
+    }
+}
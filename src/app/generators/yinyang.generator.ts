@@ -0,0 +1,68 @@
+import { Injectable } from '@angular/core';
+import type { SvgParameters } from '../services/svg-generator.service';
+import { joinSubPaths, SvgFragment, SvgSubPath } from '../services/svg-fragment';
+import { YinYangGeneratorService, YinYangParameters } from '../services/yinyang-generator.service';
+import { ShapeGenerator } from './shape-generator';
+import {
+    ANGLE_PARAMETER,
+    EDGE_COUNT_PARAMETER,
+    POSITION_PARAMETERS,
+    ShapeParameterDefinition,
+    SIZE_PARAMETER,
+    SPIN_DURATION_PARAMETER,
+    STYLE_PARAMETERS,
+} from './shape-parameters';
+
+@Injectable()
+export class YinYangGenerator implements ShapeGenerator {
+    readonly id = 'yinyang';
+    readonly label = 'Yin Yang';
+    readonly parameters: readonly ShapeParameterDefinition[] = [
+        SIZE_PARAMETER,
+        EDGE_COUNT_PARAMETER,
+        { key: 'useGradient', label: 'Use Gradient Colors', type: 'boolean' },
+        SPIN_DURATION_PARAMETER,
+        ANGLE_PARAMETER,
+        ...POSITION_PARAMETERS,
+        ...STYLE_PARAMETERS,
+    ];
+    readonly defaults: Partial<SvgParameters> = {
+        edgeCount: 6,
+        useGradient: true,
+        spinDuration: false,
+    };
+
+    constructor(private yinYangGeneratorService: YinYangGeneratorService) {}
+
+    generatePath(params: SvgParameters): string {
+        return joinSubPaths(this.generateSubPaths(params));
+    }
+
+    generateSubPaths(params: SvgParameters): SvgSubPath[] {
+        return this.yinYangGeneratorService.generateYinYangSubPaths(
+            this.toYinYangParameters(params)
+        );
+    }
+
+    generateFragment(params: SvgParameters): SvgFragment {
+        return this.yinYangGeneratorService.generateYinYangFragment(
+            this.toYinYangParameters(params)
+        );
+    }
+
+    private toYinYangParameters(params: SvgParameters): YinYangParameters {
+        return {
+            noids: params.edgeCount,
+            radius: params.size,
+            dx: params.centerX,
+            dy: params.centerY,
+            initialAngle: params.angle,
+            spinDuration: params.spinDuration || false,
+            baseColor: params.fillColor,
+            strokeColor: params.strokeColor,
+            strokeWidth: params.strokeWidth,
+            useGradient: params.useGradient || true,
+            viewBoxSize: Math.max(params.size * 2.5, 600),
+        };
+    }
+}
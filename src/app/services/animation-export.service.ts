@@ -0,0 +1,165 @@
+import { Injectable } from '@angular/core';
+import { SvgGeneratorService } from './svg-generator.service';
+import { SvgViewportService } from './svg-viewport.service';
+import { parseViewBox, SvgViewport } from './svg-fragment';
+import { loadSvgImage } from './svg-raster';
+import { getAnimationDuration, isAnimated } from './keyframe-animation';
+import { FrameEncoder, FrameEncoderOptions } from './frame-encoder';
+import { GifEncoder } from './gif-encoder';
+import { ApngEncoder } from './apng-encoder';
+import { isWebmSupported, WebmEncoder } from './webm-encoder';
+
+export type AnimationExportFormat = 'gif' | 'apng' | 'webm';
+
+export interface AnimationExportFormatOption {
+    value: AnimationExportFormat;
+    label: string;
+    extension: string;
+}
+
+export const ANIMATION_EXPORT_FORMATS: AnimationExportFormatOption[] = [
+    { value: 'gif', label: 'GIF', extension: 'gif' },
+    { value: 'apng', label: 'APNG', extension: 'png' },
+    { value: 'webm', label: 'WebM video', extension: 'webm' },
+];
+
+export const ANIMATION_FPS_OPTIONS = [10, 12, 15, 24, 25, 30, 50, 60];
+
+/** Longest export, in frames, so encoding stays within the browser's memory */
+export const MAX_EXPORT_FRAMES = 1800;
+export const MIN_EXPORT_WIDTH = 16;
+export const MAX_EXPORT_WIDTH = 2048;
+
+/** Duration offered for documents without any animation */
+const DEFAULT_EXPORT_DURATION = 2;
+
+export interface AnimationExportOptions {
+    format: AnimationExportFormat;
+    /** Frames per second */
+    fps: number;
+    /** Seconds of animation to record */
+    duration: number;
+    /** Times the animation plays, 0 for forever. Video has no loop flag, frames are repeated */
+    plays: number;
+    /** Width in pixels, the height follows the exported region */
+    width: number;
+}
+
+/**
+ * Renders the document into animated GIF, APNG or WebM files. Every frame is a still SVG
+ * rendered at an exact time, so exports never depend on the speed of the browser
+ */
+@Injectable({
+    providedIn: 'root',
+})
+export class AnimationExportService {
+    constructor(
+        private svgGeneratorService: SvgGeneratorService,
+        private viewportService: SvgViewportService
+    ) {}
+
+    isFormatSupported(format: AnimationExportFormat): boolean {
+        return format !== 'webm' || isWebmSupported();
+    }
+
+    /**
+     * Length of one cycle of the document's animations, covering the keyframe timeline and the
+     * spin animation
+     * @returns Seconds, a short default when nothing moves
+     */
+    async getDefaultDuration(): Promise<number> {
+        const document = this.svgGeneratorService.getCurrentDocument();
+        const timeline = document.layers.some((layer) => layer.visible && isAnimated(layer.tracks))
+            ? this.svgGeneratorService.getTimeline(document).duration
+            : 0;
+        const root = await this.svgGeneratorService.generateSvgDocument();
+        return Math.max(timeline, getAnimationDuration(root)) || DEFAULT_EXPORT_DURATION;
+    }
+
+    /**
+     * Render and encode the animation
+     * @param options Export settings
+     * @param onProgress Called after each encoded frame
+     * @returns Encoded file
+     */
+    async exportAnimation(
+        options: AnimationExportOptions,
+        onProgress?: (done: number, total: number) => void
+    ): Promise<Blob> {
+        const { format, fps, duration, plays } = options;
+        const frameCount = Math.max(1, Math.round(duration * fps));
+        if (frameCount > MAX_EXPORT_FRAMES) {
+            throw new Error(
+                `Exports are limited to ${MAX_EXPORT_FRAMES} frames, lower the fps or duration`
+            );
+        }
+
+        const viewport = this.viewportService.getExportViewport();
+        const { width, height } = await this.getFrameSize(options, viewport);
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        const ctx = canvas.getContext('2d', { willReadFrequently: true });
+        if (!ctx) throw new Error('Canvas rendering is not available');
+
+        // Video repeats the frames since WebM cannot loop by itself
+        const repeats = format === 'webm' ? Math.max(plays, 1) : 1;
+        const total = frameCount * repeats;
+        const encoder = this.createEncoder(format, {
+            width,
+            height,
+            fps,
+            frameCount: total,
+            plays,
+        });
+
+        for (let index = 0; index < total; index++) {
+            const time = (index % frameCount) / fps;
+            const root = await this.svgGeneratorService.generateSvgDocument(viewport, time);
+            ctx.clearRect(0, 0, width, height);
+            if (format === 'webm') {
+                // Video has no transparency
+                ctx.fillStyle = '#ffffff';
+                ctx.fillRect(0, 0, width, height);
+            }
+            ctx.drawImage(await loadSvgImage(root, width, height), 0, 0, width, height);
+
+            await encoder.addFrame(ctx.getImageData(0, 0, width, height));
+            onProgress?.(index + 1, total);
+        }
+
+        return encoder.finish();
+    }
+
+    private createEncoder(
+        format: AnimationExportFormat,
+        options: FrameEncoderOptions
+    ): FrameEncoder {
+        switch (format) {
+            case 'gif':
+                return new GifEncoder(options);
+            case 'apng':
+                return new ApngEncoder(options);
+            case 'webm':
+                return new WebmEncoder(options);
+        }
+    }
+
+    /**
+     * Pixel size of the frames, keeping the aspect ratio of the exported region. Video codecs
+     * need even sizes
+     */
+    private async getFrameSize(
+        options: AnimationExportOptions,
+        viewport: SvgViewport | null
+    ): Promise<{ width: number; height: number }> {
+        const region =
+            viewport ??
+            parseViewBox((await this.svgGeneratorService.generateSvgDocument()).attrs['viewBox']);
+        const ratio = region && region.width > 0 ? region.height / region.width : 1;
+        const width = Math.round(options.width);
+        const height = Math.max(1, Math.round(width * ratio));
+        if (options.format !== 'webm') return { width, height };
+        return { width: width + (width % 2), height: height + (height % 2) };
+    }
+}
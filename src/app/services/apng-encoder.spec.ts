@@ -0,0 +1,134 @@
+import { ApngEncoder } from './apng-encoder';
+import { FrameEncoderOptions } from './frame-encoder';
+import { crc32, PNG_SIGNATURE } from './png';
+
+interface PngChunk {
+    type: string;
+    data: Uint8Array<ArrayBuffer>;
+    crcValid: boolean;
+}
+
+/**
+ * Split a PNG file into its chunks, checking the CRC of each one
+ */
+function readChunks(bytes: Uint8Array<ArrayBuffer>): PngChunk[] {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const chunks: PngChunk[] = [];
+    let offset = PNG_SIGNATURE.length;
+    while (offset < bytes.length) {
+        const length = view.getUint32(offset);
+        const typeAndData = bytes.slice(offset + 4, offset + 8 + length);
+        chunks.push({
+            type: String.fromCharCode(...typeAndData.subarray(0, 4)),
+            data: typeAndData.slice(4),
+            crcValid: crc32(typeAndData) === view.getUint32(offset + 8 + length),
+        });
+        offset += length + 12;
+    }
+    return chunks;
+}
+
+function u32(data: Uint8Array, offset: number): number {
+    return new DataView(data.buffer, data.byteOffset, data.byteLength).getUint32(offset);
+}
+
+/**
+ * Inflate a frame and undo the Sub filter of its scanlines
+ */
+async function readPixels(data: Uint8Array<ArrayBuffer>, width: number): Promise<number[]> {
+    const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate'));
+    const filtered = new Uint8Array(await new Response(stream).arrayBuffer());
+    const stride = width * 4;
+    const pixels: number[] = [];
+    for (let row = 0; row < filtered.length; row += stride + 1) {
+        expect(filtered[row]).toBe(1);
+        for (let x = 0; x < stride; x++) {
+            const left = x >= 4 ? pixels[pixels.length - 4] : 0;
+            pixels.push((filtered[row + 1 + x] + left) & 0xff);
+        }
+    }
+    return pixels;
+}
+
+function createFrame(width: number, height: number, colorAt: (x: number, y: number) => number[]) {
+    const data = new Uint8ClampedArray(width * height * 4);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            data.set(colorAt(x, y), (y * width + x) * 4);
+        }
+    }
+    return new ImageData(data, width, height);
+}
+
+async function encode(options: FrameEncoderOptions, frames: ImageData[]) {
+    const encoder = new ApngEncoder(options);
+    for (const frame of frames) {
+        await encoder.addFrame(frame);
+    }
+    const blob = await encoder.finish();
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    return { blob, bytes, chunks: readChunks(bytes) };
+}
+
+describe('ApngEncoder', () => {
+    const options: FrameEncoderOptions = { width: 3, height: 2, fps: 25, frameCount: 3, plays: 2 };
+    const frames = [
+        [255, 0, 0, 255],
+        [0, 128, 0, 64],
+        [0, 0, 0, 0],
+    ].map((color) => createFrame(3, 2, () => color));
+
+    it('writes a PNG file with the animation control chunk', async () => {
+        const { blob, bytes, chunks } = await encode(options, frames);
+
+        expect(blob.type).toBe('image/apng');
+        expect([...bytes.subarray(0, 8)]).toEqual([...PNG_SIGNATURE]);
+        expect(chunks[0].type).toBe('IHDR');
+        expect([u32(chunks[0].data, 0), u32(chunks[0].data, 4)]).toEqual([3, 2]);
+        // 8-bit RGBA
+        expect([chunks[0].data[8], chunks[0].data[9]]).toEqual([8, 6]);
+        expect(chunks[1].type).toBe('acTL');
+        expect([u32(chunks[1].data, 0), u32(chunks[1].data, 4)]).toEqual([3, 2]);
+        expect(chunks[chunks.length - 1].type).toBe('IEND');
+        expect(chunks.every((chunk) => chunk.crcValid)).toBe(true);
+    });
+
+    it('stores the first frame as IDAT and the others as fdAT', async () => {
+        const { chunks } = await encode(options, frames);
+        const types = chunks.map((chunk) => chunk.type);
+
+        expect(types).toEqual([
+            'IHDR',
+            'acTL',
+            'fcTL',
+            'IDAT',
+            'fcTL',
+            'fdAT',
+            'fcTL',
+            'fdAT',
+            'IEND',
+        ]);
+    });
+
+    it('numbers the frame chunks in sequence and delays each by one frame', async () => {
+        const { chunks } = await encode(options, frames);
+        const sequenced = chunks.filter((chunk) => chunk.type === 'fcTL' || chunk.type === 'fdAT');
+        const controls = chunks.filter((chunk) => chunk.type === 'fcTL');
+
+        expect(sequenced.map((chunk) => u32(chunk.data, 0))).toEqual([0, 1, 2, 3, 4]);
+        controls.forEach(({ data }) => {
+            const view = new DataView(data.buffer);
+            expect([view.getUint16(20), view.getUint16(22)]).toEqual([1, 25]);
+        });
+    });
+
+    it('keeps the exact pixels of every frame', async () => {
+        const frame = createFrame(3, 2, (x, y) => [x * 100, y * 200, 50, 255 - x * 80]);
+        const { chunks } = await encode({ ...options, frameCount: 2 }, [frames[0], frame]);
+        const first = chunks.find((chunk) => chunk.type === 'IDAT')!;
+        const second = chunks.find((chunk) => chunk.type === 'fdAT')!;
+
+        expect(await readPixels(first.data, 3)).toEqual([...frames[0].data]);
+        expect(await readPixels(second.data.slice(4), 3)).toEqual([...frame.data]);
+    });
+});
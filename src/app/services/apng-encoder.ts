@@ -0,0 +1,77 @@
+import { ByteWriter, deflate } from './byte-writer';
+import { FrameEncoder, FrameEncoderOptions } from './frame-encoder';
+import { PNG_SIGNATURE, writePngChunk } from './png';
+
+/**
+ * Animated PNG encoder keeping full 8-bit RGBA. Frames are filtered and deflated with the
+ * browser's CompressionStream as they arrive
+ */
+export class ApngEncoder implements FrameEncoder {
+    private writer = new ByteWriter();
+    /** Sequence number shared by the fcTL and fdAT chunks */
+    private sequence = 0;
+
+    constructor(private options: FrameEncoderOptions) {
+        const { width, height, frameCount, plays } = options;
+        this.writer.bytes(PNG_SIGNATURE);
+        // 8-bit RGBA, no interlacing
+        this.writeChunk(
+            'IHDR',
+            new ByteWriter().u32be(width).u32be(height).u8(8).u8(6).u8(0).u8(0).u8(0)
+        );
+        this.writeChunk('acTL', new ByteWriter().u32be(frameCount).u32be(plays));
+    }
+
+    async addFrame(frame: ImageData): Promise<void> {
+        const { width, height, fps } = this.options;
+        // Each frame covers the canvas and replaces the previous one
+        this.writeChunk(
+            'fcTL',
+            new ByteWriter()
+                .u32be(this.sequence++)
+                .u32be(width)
+                .u32be(height)
+                .u32be(0)
+                .u32be(0)
+                .u16be(1)
+                .u16be(fps)
+                .u8(0)
+                .u8(0)
+        );
+
+        const data = await deflate(filterScanlines(frame));
+        if (this.sequence === 1) {
+            // The first frame doubles as the still image shown by viewers without APNG support
+            this.writeChunk('IDAT', new ByteWriter().bytes(data));
+        } else {
+            this.writeChunk('fdAT', new ByteWriter().u32be(this.sequence++).bytes(data));
+        }
+    }
+
+    async finish(): Promise<Blob> {
+        this.writeChunk('IEND', new ByteWriter());
+        return new Blob([this.writer.toUint8Array()], { type: 'image/apng' });
+    }
+
+    private writeChunk(type: string, data: ByteWriter): void {
+        writePngChunk(this.writer, type, data.toUint8Array());
+    }
+}
+
+/**
+ * Prefix every scanline with the Sub filter, which predicts each byte from the pixel on its left
+ */
+function filterScanlines(frame: ImageData): Uint8Array<ArrayBuffer> {
+    const stride = frame.width * 4;
+    const output = new Uint8Array((stride + 1) * frame.height);
+    for (let y = 0; y < frame.height; y++) {
+        const row = y * stride;
+        const target = y * (stride + 1);
+        output[target] = 1;
+        for (let x = 0; x < stride; x++) {
+            const left = x >= 4 ? frame.data[row + x - 4] : 0;
+            output[target + 1 + x] = (frame.data[row + x] - left) & 0xff;
+        }
+    }
+    return output;
+}
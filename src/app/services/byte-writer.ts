@@ -0,0 +1,69 @@
+/**
+ * Growable byte buffer for writing binary file formats
+ */
+export class ByteWriter {
+    private buffer = new Uint8Array(1024);
+    private length = 0;
+
+    get size(): number {
+        return this.length;
+    }
+
+    u8(value: number): this {
+        this.ensure(1);
+        this.buffer[this.length++] = value & 0xff;
+        return this;
+    }
+
+    u16le(value: number): this {
+        return this.u8(value).u8(value >> 8);
+    }
+
+    u16be(value: number): this {
+        return this.u8(value >> 8).u8(value);
+    }
+
+    u32be(value: number): this {
+        return this.u8(value >>> 24)
+            .u8(value >>> 16)
+            .u8(value >>> 8)
+            .u8(value);
+    }
+
+    /**
+     * Write the characters of an ASCII string
+     */
+    ascii(text: string): this {
+        for (let i = 0; i < text.length; i++) this.u8(text.charCodeAt(i));
+        return this;
+    }
+
+    bytes(data: Uint8Array): this {
+        this.ensure(data.length);
+        this.buffer.set(data, this.length);
+        this.length += data.length;
+        return this;
+    }
+
+    toUint8Array(): Uint8Array<ArrayBuffer> {
+        return this.buffer.slice(0, this.length);
+    }
+
+    private ensure(extra: number): void {
+        if (this.length + extra <= this.buffer.length) return;
+
+        let capacity = this.buffer.length * 2;
+        while (capacity < this.length + extra) capacity *= 2;
+        const grown = new Uint8Array(capacity);
+        grown.set(this.buffer.subarray(0, this.length));
+        this.buffer = grown;
+    }
+}
+
+/**
+ * Compress data in the zlib format, as PNG and PDF expect
+ */
+export async function deflate(data: Uint8Array<ArrayBuffer>): Promise<Uint8Array> {
+    const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+}
@@ -0,0 +1,26 @@
+import { createChoroplethStyle, NO_DATA_COLOR } from './choropleth';
+
+describe('createChoroplethStyle', () => {
+    const options = { property: 'value', classCount: 5, colorRamp: 'blues' as const };
+
+    (['quantile', 'equal-interval', 'jenks'] as const).forEach((classification) => {
+        it(`makes one class labelled with the value when all values are equal (${classification})`, () => {
+            [[5], [5, 5, 5]].forEach((values) => {
+                const style = createChoroplethStyle(values, { ...options, classification });
+
+                expect(style.legend).toEqual([{ color: jasmine.any(String), label: '5' }]);
+                expect(style.colorFor(5)).toBe(style.legend[0].color);
+            });
+        });
+    });
+
+    it('keeps the no data entry next to a single class', () => {
+        const style = createChoroplethStyle([5, null, 5], {
+            ...options,
+            classification: 'quantile',
+        });
+
+        expect(style.legend.map((entry) => entry.label)).toEqual(['5', 'No data']);
+        expect(style.colorFor(null)).toBe(NO_DATA_COLOR);
+    });
+});
@@ -0,0 +1,262 @@
+export type ChoroplethClassification = 'quantile' | 'equal-interval' | 'jenks' | 'categorical';
+
+export type ColorRampName = 'blues' | 'greens' | 'reds' | 'purples' | 'viridis' | 'spectral';
+
+export interface ChoroplethOptions {
+    /** Key in `feature.properties` holding the value to map */
+    property: string;
+    classification: ChoroplethClassification;
+    /** Number of classes for numeric classifications */
+    classCount: number;
+    colorRamp: ColorRampName;
+}
+
+export interface LegendEntry {
+    color: string;
+    label: string;
+}
+
+export interface ChoroplethStyle {
+    /** Fill color for a property value */
+    colorFor(value: unknown): string;
+    legend: LegendEntry[];
+}
+
+export const CLASSIFICATION_OPTIONS: { value: ChoroplethClassification; label: string }[] = [
+    { value: 'quantile', label: 'Quantile' },
+    { value: 'equal-interval', label: 'Equal Interval' },
+    { value: 'jenks', label: 'Jenks Natural Breaks' },
+    { value: 'categorical', label: 'Categorical' },
+];
+
+export const COLOR_RAMPS: Record<ColorRampName, { label: string; colors: string[] }> = {
+    blues: { label: 'Blues', colors: ['#eff3ff', '#6baed6', '#08519c'] },
+    greens: { label: 'Greens', colors: ['#edf8e9', '#74c476', '#006d2c'] },
+    reds: { label: 'Reds', colors: ['#fee5d9', '#fb6a4a', '#a50f15'] },
+    purples: { label: 'Purples', colors: ['#f2f0f7', '#9e9ac8', '#54278f'] },
+    viridis: { label: 'Viridis', colors: ['#440154', '#3b528b', '#21918c', '#5ec962', '#fde725'] },
+    spectral: {
+        label: 'Spectral',
+        colors: ['#d53e4f', '#fc8d59', '#fee08b', '#e6f598', '#99d594', '#3288bd'],
+    },
+};
+
+export const NO_DATA_COLOR = '#cccccc';
+
+/**
+ * Build the fill colors and legend of a choropleth from the property values of the features
+ * @param values Property value of every feature
+ * @param options Classification options
+ * @returns Style mapping values to colors, numeric classifications fall back to categorical
+ * when no value is numeric
+ */
+export function createChoroplethStyle(
+    values: unknown[],
+    options: ChoroplethOptions
+): ChoroplethStyle {
+    const numbers = values.map(toNumber).filter((value): value is number => value !== null);
+    const hasMissing = values.some(
+        (value) => value === null || value === undefined || value === ''
+    );
+
+    if (options.classification === 'categorical' || numbers.length === 0) {
+        return createCategoricalStyle(values, options.colorRamp, hasMissing);
+    }
+
+    const breaks = getClassBreaks(numbers, options.classification, options.classCount);
+    // Equal values leave a single break, they form one class labelled with the value
+    const single = breaks.length < 2;
+    const colors = sampleColorRamp(
+        COLOR_RAMPS[options.colorRamp].colors,
+        single ? 1 : breaks.length - 1
+    );
+    const legend = colors.map((color, index) => ({
+        color,
+        label: single
+            ? formatBreak(breaks[0])
+            : `${formatBreak(breaks[index])} – ${formatBreak(breaks[index + 1])}`,
+    }));
+    if (numbers.length < values.length) {
+        legend.push({ color: NO_DATA_COLOR, label: 'No data' });
+    }
+
+    return {
+        colorFor(value: unknown): string {
+            const number = toNumber(value);
+            if (number === null) return NO_DATA_COLOR;
+            // Upper bounds are inclusive so the maximum lands in the last class
+            const index = breaks.findIndex((limit, i) => i > 0 && number <= limit);
+            return colors[index === -1 ? colors.length - 1 : Math.max(index - 1, 0)];
+        },
+        legend,
+    };
+}
+
+/**
+ * Compute class limits, including the minimum and the maximum
+ * @param values Numeric values
+ * @param classification Numeric classification method
+ * @param classCount Requested number of classes, reduced when there are fewer distinct values
+ * @returns Ascending breaks, one more than the number of classes
+ */
+export function getClassBreaks(
+    values: number[],
+    classification: Exclude<ChoroplethClassification, 'categorical'>,
+    classCount: number
+): number[] {
+    const sorted = [...values].sort((a, b) => a - b);
+    const distinct = new Set(sorted).size;
+    const count = Math.max(1, Math.min(Math.round(classCount), distinct));
+    const min = sorted[0];
+    const max = sorted[sorted.length - 1];
+
+    let breaks: number[];
+    switch (classification) {
+        case 'equal-interval':
+            breaks = [...Array(count + 1)].map((_, i) => min + ((max - min) * i) / count);
+            break;
+        case 'jenks':
+            breaks = jenksBreaks(sorted, count);
+            break;
+        default:
+            breaks = [...Array(count + 1)].map((_, i) => quantile(sorted, i / count));
+    }
+    // Repeated values can produce equal breaks, keep each class non-empty
+    return breaks.filter((limit, i) => i === 0 || limit > breaks[i - 1]);
+}
+
+/**
+ * Interpolate a color ramp into evenly spaced colors
+ * @param stops Ramp colors as hex strings
+ * @param count Number of colors
+ * @returns Hex colors from the start to the end of the ramp
+ */
+export function sampleColorRamp(stops: string[], count: number): string[] {
+    if (count <= 1) return [stops[stops.length - 1]];
+
+    return [...Array(count)].map((_, i) => {
+        const position = (i / (count - 1)) * (stops.length - 1);
+        const index = Math.min(Math.floor(position), stops.length - 2);
+        return mixColors(stops[index], stops[index + 1], position - index);
+    });
+}
+
+function createCategoricalStyle(
+    values: unknown[],
+    rampName: ColorRampName,
+    hasMissing: boolean
+): ChoroplethStyle {
+    const categories = [
+        ...new Set(
+            values
+                .filter((value) => value !== null && value !== undefined && value !== '')
+                .map(String)
+        ),
+    ].sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+    const colors = sampleColorRamp(COLOR_RAMPS[rampName].colors, Math.max(categories.length, 1));
+    const colorByCategory = new Map(categories.map((category, index) => [category, colors[index]]));
+    const legend = categories.map((category) => ({
+        color: colorByCategory.get(category)!,
+        label: category,
+    }));
+    if (hasMissing) {
+        legend.push({ color: NO_DATA_COLOR, label: 'No data' });
+    }
+
+    return {
+        colorFor: (value: unknown) =>
+            value === null || value === undefined
+                ? NO_DATA_COLOR
+                : colorByCategory.get(String(value)) || NO_DATA_COLOR,
+        legend,
+    };
+}
+
+/**
+ * Fisher-Jenks natural breaks, minimizing the variance within each class
+ * @param sorted Values in ascending order
+ * @param classCount Number of classes
+ * @returns Breaks including the minimum and the maximum
+ */
+function jenksBreaks(sorted: number[], classCount: number): number[] {
+    const n = sorted.length;
+    // lowerClassLimits[l][k]: index (1-based) where class k starts when classifying the first l values
+    const lowerClassLimits = [...Array(n + 1)].map(() => new Array<number>(classCount + 1).fill(0));
+    const variance = [...Array(n + 1)].map(() => new Array<number>(classCount + 1).fill(Infinity));
+    for (let k = 1; k <= classCount; k++) {
+        lowerClassLimits[1][k] = 1;
+        variance[1][k] = 0;
+    }
+
+    for (let l = 2; l <= n; l++) {
+        let sum = 0;
+        let sumSquares = 0;
+        let weight = 0;
+        let classVariance = 0;
+        for (let m = 1; m <= l; m++) {
+            const lowerIndex = l - m + 1;
+            const value = sorted[lowerIndex - 1];
+            weight++;
+            sum += value;
+            sumSquares += value * value;
+            classVariance = sumSquares - (sum * sum) / weight;
+            if (lowerIndex > 1) {
+                for (let k = 2; k <= classCount; k++) {
+                    const candidate = classVariance + variance[lowerIndex - 1][k - 1];
+                    if (variance[l][k] >= candidate) {
+                        lowerClassLimits[l][k] = lowerIndex;
+                        variance[l][k] = candidate;
+                    }
+                }
+            }
+        }
+        lowerClassLimits[l][1] = 1;
+        variance[l][1] = classVariance;
+    }
+
+    const breaks = new Array<number>(classCount + 1);
+    breaks[classCount] = sorted[n - 1];
+    breaks[0] = sorted[0];
+    let upper = n;
+    for (let k = classCount; k >= 2; k--) {
+        const lower = lowerClassLimits[upper][k] - 1;
+        breaks[k - 1] = sorted[lower - 1];
+        upper = lower;
+    }
+    return breaks;
+}
+
+function quantile(sorted: number[], p: number): number {
+    const position = (sorted.length - 1) * p;
+    const lower = Math.floor(position);
+    const upper = Math.ceil(position);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+function toNumber(value: unknown): number | null {
+    if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+    if (typeof value === 'string' && value.trim() !== '') {
+        const parsed = Number(value);
+        return Number.isFinite(parsed) ? parsed : null;
+    }
+    return null;
+}
+
+function formatBreak(value: number): string {
+    return Number.isInteger(value) ? String(value) : value.toFixed(Math.abs(value) < 10 ? 2 : 1);
+}
+
+/**
+ * Blend two hex colors channel by channel
+ * @param t Position between the colors, 0 gives `from` and 1 gives `to`
+ */
+export function mixColors(from: string, to: string, t: number): string {
+    const a = parseInt(from.slice(1), 16);
+    const b = parseInt(to.slice(1), 16);
+    const channel = (shift: number) => {
+        const start = (a >> shift) & 0xff;
+        const end = (b >> shift) & 0xff;
+        return Math.round(start + (end - start) * t);
+    };
+    return '#' + [16, 8, 0].map((shift) => channel(shift).toString(16).padStart(2, '0')).join('');
+}
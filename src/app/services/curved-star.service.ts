@@ -1,4 +1,7 @@
 import { Injectable } from '@angular/core';
+import { svgElement } from './svg-dom';
+import { createGlowFilter, createLinearGradient, SvgFragment, wrapSvgFragment } from './svg-fragment';
+import { polarPoints } from './polar';
 
 export interface CurvedStarParameters {
     noids: number;
@@ -32,23 +35,8 @@ export const defaultCurvedStarParameters: CurvedStarParameters = {
     providedIn: 'root',
 })
 export class CurvedStarService {
-    private readonly PI = Math.PI;
-
     constructor() {}
 
-    /**
-     * Generate curved star points
-     */
-    starPoints(noids: number, r: number, dx: number, dy: number, initialAngle: number): number[][] {
-        return [...Array(noids)].map((_, i) => {
-            let angle = (360 / noids) * i - initialAngle;
-            let angra = (angle * this.PI) / 180;
-            let coss = Math.cos(angra) * r + dx;
-            let sinn = Math.sin(angra) * r + dy;
-            return [parseFloat(coss.toFixed(2)), parseFloat(sinn.toFixed(2))];
-        });
-    }
-
     /**
      * Create path with step calculation
      */
@@ -126,7 +114,14 @@ export class CurvedStarService {
      * Generate curved star SVG
      */
     generateCurvedStar(params: CurvedStarParameters): string {
-        const points = this.starPoints(
+        return wrapSvgFragment(this.generateCurvedStarFragment(params));
+    }
+
+    /**
+     * Generate curved star markup that can be composed into another SVG
+     */
+    generateCurvedStarFragment(params: CurvedStarParameters): SvgFragment {
+        const points = polarPoints(
             params.noids,
             params.radius,
             params.dx,
@@ -154,7 +149,7 @@ export class CurvedStarService {
                 params.fillColor
             );
 
-            return this.createSvgElement([evenPath, oddPath], params);
+            return this.createFragment([evenPath, oddPath], params);
         } else {
             const path = this.drawCurvedStar(
                 points,
@@ -163,55 +158,37 @@ export class CurvedStarService {
                 params.fillRule,
                 params.fillColor
             );
-            return this.createSvgElement([path], params);
+            return this.createFragment([path], params);
         }
     }
 
     /**
-     * Create complete SVG element
+     * Create SVG fragment from path data
      */
-    private createSvgElement(paths: string[], params: CurvedStarParameters): string {
-        const pathElements = paths
-            .map(
-                (pathData, index) =>
-                    `<path 
-        d="${pathData}" 
-        fill="${params.fillColor}" 
-        fill-rule="${params.fillRule}" 
-        stroke="${params.strokeColor}" 
-        stroke-width="${params.strokeWidth}"
-        opacity="${0.8 + index * 0.1}"
-      />`
-            )
-            .join('\n        ');
+    private createFragment(paths: string[], params: CurvedStarParameters): SvgFragment {
+        const pathElements = paths.map((pathData, index) =>
+            svgElement('path', {
+                d: pathData,
+                fill: params.fillColor,
+                'fill-rule': params.fillRule,
+                stroke: params.strokeColor,
+                'stroke-width': params.strokeWidth,
+                opacity: 0.8 + index * 0.1,
+            })
+        );
 
-        return `
-      <svg width="100%" height="100%" viewBox="${-params.viewBoxSize / 2} ${
-            -params.viewBoxSize / 2
-        } ${params.viewBoxSize} ${params.viewBoxSize}" xmlns="http://www.w3.org/2000/svg">
-        <defs>
-          <linearGradient id="curvedGradient" x1="0%" y1="0%" x2="100%" y2="100%">
-            <stop offset="0%" style="stop-color:${params.fillColor};stop-opacity:1" />
-            <stop offset="100%" style="stop-color:${this.lightenColor(
-                params.fillColor,
-                40
-            )};stop-opacity:0.8" />
-          </linearGradient>
-          <filter id="glow">
-            <feGaussianBlur stdDeviation="3" result="coloredBlur"/>
-            <feMerge> 
-              <feMergeNode in="coloredBlur"/>
-              <feMergeNode in="SourceGraphic"/>
-            </feMerge>
-          </filter>
-        </defs>
-        <rect width="${params.viewBoxSize}" height="${params.viewBoxSize}" x="${
-            -params.viewBoxSize / 2
-        }" y="${-params.viewBoxSize / 2}" 
-              stroke="rgba(0,0,0,0.1)" fill="none" stroke-width="1" stroke-dasharray="5,5"/>
-        ${pathElements}
-      </svg>
-    `;
+        return {
+            defs: [
+                createLinearGradient('curvedGradient', [
+                    { offset: 0, color: params.fillColor, opacity: 1 },
+                    { offset: 100, color: this.lightenColor(params.fillColor, 40), opacity: 0.8 },
+                ]),
+                createGlowFilter('glow', 3),
+            ],
+            content: pathElements,
+            viewBoxSize: params.viewBoxSize,
+            frame: true,
+        };
     }
 
     /**
@@ -0,0 +1,208 @@
+import { Matrix, multiplyMatrix, PathSegment } from './svg-path';
+import {
+    layoutStandardText,
+    VectorPage,
+    VectorPaint,
+    VectorPath,
+    VectorStyle,
+    VectorText,
+} from './vector-document';
+import {
+    formatGradientFunction,
+    formatNumber,
+    formatShadingGeometry,
+    getGradientMiddleColor,
+} from './pdf-writer';
+import { getStandardFontName } from './standard-fonts';
+
+const LINE_JOINS = { miter: 0, round: 1, bevel: 2 };
+const LINE_CAPS = { butt: 0, round: 1, square: 2 };
+
+/**
+ * Write an Encapsulated PostScript file. Paths, fill rules, joins and gradients (as level 3
+ * shadings) are kept like in PDF exports, but PostScript has no transparency, so translucent
+ * shapes are painted opaque and gradient stop opacities are ignored
+ * @param page Page content and geometry, the bounding box covers the bleed
+ * @param title Document title
+ * @returns EPS file
+ */
+export function writeEps(page: VectorPage, title: string): Blob {
+    const lines = [
+        '%!PS-Adobe-3.0 EPSF-3.0',
+        `%%BoundingBox: 0 0 ${Math.ceil(page.width)} ${Math.ceil(page.height)}`,
+        `%%HiResBoundingBox: 0 0 ${formatNumber(page.width)} ${formatNumber(page.height)}`,
+        `%%Title: ${toDscText(title)}`,
+        '%%Creator: svg-playground',
+        `%%CreationDate: ${new Date().toISOString()}`,
+        '%%LanguageLevel: 3',
+        '%%Pages: 1',
+        '%%EndComments',
+        '%%BeginProlog',
+        '/M /moveto load def /L /lineto load def /C /curveto load def /Z /closepath load def',
+        // Latin-1 versions of the standard fonts, for accented characters
+        '/reencode { findfont dup length dict begin { 1 index /FID ne { def } { pop pop } ifelse } forall',
+        '  /Encoding ISOLatin1Encoding def currentdict end definefont pop } bind def',
+        ...[false, true].map((bold) => {
+            const font = getStandardFontName(bold);
+            return `/${font}-Latin1 /${font} reencode`;
+        }),
+        '%%EndProlog',
+        '%%Page: 1 1',
+        'save',
+    ];
+
+    const { x, y, width, height } = page.clip;
+    lines.push(
+        'gsave newpath',
+        `${formatNumber(x)} ${formatNumber(y)} ${formatNumber(width)} ${formatNumber(height)} rectclip`
+    );
+    page.items.forEach((item) => {
+        if (item.style.fillOpacity <= 0 && item.style.strokeOpacity <= 0) return;
+        lines.push('gsave', `${formatMatrix(multiplyMatrix(page.matrix, item.matrix))} concat`);
+        lines.push(...(item.type === 'path' ? writePath(item) : writeText(item)));
+        lines.push('grestore');
+    });
+    lines.push('grestore', 'restore', 'showpage', '%%EOF', '');
+
+    return new Blob([lines.join('\n')], { type: 'application/postscript' });
+}
+
+function writePath(item: VectorPath): string[] {
+    const { style } = item;
+    const fill = style.fillOpacity > 0 ? style.fill : null;
+    const stroke = style.strokeOpacity > 0 ? style.stroke : null;
+    const path = `newpath ${formatPath(item.segments)}`;
+    const evenOdd = style.fillRule === 'evenodd';
+    const lines: string[] = [];
+
+    const paintFill = () => {
+        if (!fill) return;
+        if (fill.type === 'color') {
+            lines.push(`${formatColor(fill)} setrgbcolor`, path, evenOdd ? 'eofill' : 'fill');
+        } else {
+            // Clip to the shape and fill the clip with the shading
+            const color = formatGradientFunction(fill.stops, ({ color }) => [
+                color.r,
+                color.g,
+                color.b,
+            ]);
+            lines.push(
+                'gsave',
+                path,
+                evenOdd ? 'eoclip' : 'clip',
+                `${formatMatrix(fill.matrix)} concat`,
+                `<< ${formatShadingGeometry(fill)} /ColorSpace /DeviceRGB /Function ${color} >> shfill`,
+                'grestore'
+            );
+        }
+    };
+    const paintStroke = () => {
+        if (!stroke) return;
+        lines.push(...writeStrokeStyle(style), path, 'stroke');
+    };
+
+    if (style.strokeFirst) {
+        paintStroke();
+        paintFill();
+    } else {
+        paintFill();
+        paintStroke();
+    }
+    return lines;
+}
+
+function writeText(item: VectorText): string[] {
+    const { style } = item;
+    const fill = style.fillOpacity > 0 ? style.fill : null;
+    const stroke = style.strokeOpacity > 0 ? style.stroke : null;
+    const { text, x, y } = layoutStandardText(item);
+    const font = getStandardFontName(item.bold);
+    // The document is y-down, flip back so glyphs stay upright
+    const place = `${formatNumber(x)} ${formatNumber(y)} translate 1 -1 scale 0 0 moveto`;
+    const lines = [`/${font}-Latin1 findfont ${formatNumber(item.fontSize)} scalefont setfont`];
+
+    const paintFill = () => {
+        if (!fill) return;
+        lines.push(
+            'gsave',
+            `${formatColor(fill)} setrgbcolor`,
+            place,
+            `${formatString(text)} show`,
+            'grestore'
+        );
+    };
+    const paintStroke = () => {
+        if (!stroke) return;
+        lines.push(
+            'gsave',
+            ...writeStrokeStyle(style),
+            place,
+            `${formatString(text)} false charpath stroke`,
+            'grestore'
+        );
+    };
+
+    if (style.strokeFirst) {
+        paintStroke();
+        paintFill();
+    } else {
+        paintFill();
+        paintStroke();
+    }
+    return lines;
+}
+
+function writeStrokeStyle(style: VectorStyle): string[] {
+    return [
+        `${style.stroke ? formatColor(style.stroke) : '0 0 0'} setrgbcolor`,
+        `${formatNumber(style.strokeWidth)} setlinewidth ${LINE_JOINS[style.lineJoin]} setlinejoin ` +
+            `${LINE_CAPS[style.lineCap]} setlinecap ${formatNumber(style.miterLimit)} setmiterlimit`,
+        `[${style.dashArray.map(formatNumber).join(' ')}] ${formatNumber(style.dashOffset)} setdash`,
+    ];
+}
+
+function formatPath(segments: readonly PathSegment[]): string {
+    return segments
+        .map((segment) => {
+            switch (segment.type) {
+                case 'M':
+                    return `${formatNumber(segment.x)} ${formatNumber(segment.y)} M`;
+                case 'L':
+                    return `${formatNumber(segment.x)} ${formatNumber(segment.y)} L`;
+                case 'C': {
+                    const { x1, y1, x2, y2, x, y } = segment;
+                    return `${[x1, y1, x2, y2, x, y].map(formatNumber).join(' ')} C`;
+                }
+                case 'Z':
+                    return 'Z';
+            }
+        })
+        .join(' ');
+}
+
+function formatMatrix(matrix: Matrix): string {
+    return `[${matrix.map(formatNumber).join(' ')}]`;
+}
+
+function formatColor(paint: VectorPaint): string {
+    const { r, g, b } = getGradientMiddleColor(paint);
+    return [r, g, b].map(formatNumber).join(' ');
+}
+
+/**
+ * PostScript string. Characters beyond ASCII are written as octal escapes of their Latin-1
+ * codes, matching the reencoded fonts
+ */
+function formatString(text: string): string {
+    const escaped = text.replace(/[\\()]|[^\x20-\x7e]/g, (char) =>
+        /[\\()]/.test(char) ? `\\${char}` : `\\${char.charCodeAt(0).toString(8).padStart(3, '0')}`
+    );
+    return `(${escaped})`;
+}
+
+/**
+ * Text allowed in a DSC comment: a single line of ASCII
+ */
+function toDscText(text: string): string {
+    return text.replace(/[^\x20-\x7e]/g, '?');
+}
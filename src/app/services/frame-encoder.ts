@@ -0,0 +1,45 @@
+/**
+ * Settings shared by the animated image and video encoders
+ */
+export interface FrameEncoderOptions {
+    width: number;
+    height: number;
+    /** Frames per second */
+    fps: number;
+    /** Number of frames that will be added */
+    frameCount: number;
+    /** Times the animation plays, 0 for forever */
+    plays: number;
+}
+
+/**
+ * Encoder receiving the frames of an animation one at a time, so they never all sit in memory
+ */
+export interface FrameEncoder {
+    /**
+     * Append a frame
+     * @param frame Pixels of the frame, sized like the encoder
+     */
+    addFrame(frame: ImageData): Promise<void>;
+
+    /**
+     * Finish the file once every frame was added
+     * @returns Encoded file
+     */
+    finish(): Promise<Blob>;
+}
+
+/**
+ * Split a duration into whole units without accumulating rounding errors, e.g. GIF delays in
+ * hundredths of a second at 30 fps alternate 3 and 4
+ * @param index Frame index
+ * @param fps Frames per second
+ * @param unitsPerSecond Resolution of the target format
+ * @returns Length of the frame in units
+ */
+export function getFrameDuration(index: number, fps: number, unitsPerSecond: number): number {
+    return (
+        Math.round(((index + 1) * unitsPerSecond) / fps) -
+        Math.round((index * unitsPerSecond) / fps)
+    );
+}
@@ -0,0 +1,138 @@
+import { Injectable } from '@angular/core';
+import { ASSET_CONFIG, getFileExtension } from '../constants/assets.constants';
+import { GeoJsonData, GisRendererService } from './gis-renderer.service';
+import { isTopoJson, topoJsonToGeoJson } from './topojson';
+
+/** Prefix of `gisSourceUrl` values pointing at an imported file instead of a URL */
+export const LOCAL_GEO_SOURCE_PREFIX = 'local:';
+
+export interface GeoDataImportResult {
+    /** Value to store in `gisSourceUrl` */
+    sourceUrl: string;
+    featureCount: number;
+    /** Whether the file was TopoJSON converted to GeoJSON */
+    convertedFromTopoJson: boolean;
+}
+
+/**
+ * Keeps GeoJSON and TopoJSON files imported from the user's disk in memory so the GIS shape can
+ * render them without hosting them first
+ */
+@Injectable({
+    providedIn: 'root',
+})
+export class GeoDataImportService {
+    private datasets = new Map<string, GeoJsonData>();
+
+    constructor(private gisRendererService: GisRendererService) {}
+
+    /**
+     * Read, convert and validate a local file
+     * @param file File picked or dropped by the user
+     * @returns Import result, rejects with a descriptive error when the file cannot be used
+     */
+    async importFile(file: File): Promise<GeoDataImportResult> {
+        const extension = getFileExtension(file.name);
+        if (!(ASSET_CONFIG.SUPPORTED_GEO_FORMATS as readonly string[]).includes(extension)) {
+            throw new Error(
+                `Unsupported file type ".${extension}", use ${ASSET_CONFIG.SUPPORTED_GEO_FORMATS.map(
+                    (format) => `.${format}`
+                ).join(', ')}`
+            );
+        }
+        if (file.size > ASSET_CONFIG.MAX_FILE_SIZE) {
+            const limit = ASSET_CONFIG.MAX_FILE_SIZE / (1024 * 1024);
+            throw new Error(`${file.name} is larger than the ${limit}MB limit`);
+        }
+
+        let parsed: any;
+        try {
+            parsed = JSON.parse(await file.text());
+        } catch (error) {
+            throw new Error(`${file.name} is not valid JSON: ${(error as Error).message}`);
+        }
+
+        const convertedFromTopoJson = isTopoJson(parsed);
+        let data: any;
+        try {
+            data = convertedFromTopoJson
+                ? topoJsonToGeoJson(parsed)
+                : this.toFeatureCollection(parsed);
+        } catch (error) {
+            throw new Error(`${file.name} is not a valid TopoJSON: ${(error as Error).message}`);
+        }
+        const validation = this.gisRendererService.validateGeoJsonData(data);
+        if (!validation.valid) {
+            throw new Error(
+                `${file.name} has ${validation.issues.length} invalid ${
+                    validation.issues.length === 1 ? 'entry' : 'entries'
+                }: ${this.gisRendererService.formatValidationIssues(validation.issues)}`
+            );
+        }
+
+        const sourceUrl = this.createSourceUrl(file.name);
+        this.datasets.set(sourceUrl, data);
+        return { sourceUrl, featureCount: data.features.length, convertedFromTopoJson };
+    }
+
+    /**
+     * Get an imported dataset
+     * @param sourceUrl `gisSourceUrl` returned by importFile
+     * @returns Dataset, or undefined if it was imported in another session
+     */
+    getDataset(sourceUrl: string): GeoJsonData | undefined {
+        return this.datasets.get(sourceUrl);
+    }
+
+    /**
+     * Drop the imported datasets no longer used as a source
+     * @param sourceUrls Source URLs still in use
+     */
+    retainDatasets(sourceUrls: string[]): void {
+        const retained = new Set(sourceUrls);
+        [...this.datasets.keys()]
+            .filter((sourceUrl) => !retained.has(sourceUrl))
+            .forEach((sourceUrl) => this.datasets.delete(sourceUrl));
+    }
+
+    isLocalSource(sourceUrl: string): boolean {
+        return sourceUrl.startsWith(LOCAL_GEO_SOURCE_PREFIX);
+    }
+
+    /**
+     * Wrap a bare Feature or geometry into a FeatureCollection, other values are left to validation
+     */
+    private toFeatureCollection(data: any): any {
+        if (data && data.type === 'Feature') {
+            return { type: 'FeatureCollection', features: [data] };
+        }
+        const geometryTypes = [
+            'Point',
+            'MultiPoint',
+            'LineString',
+            'MultiLineString',
+            'Polygon',
+            'MultiPolygon',
+            'GeometryCollection',
+        ];
+        if (data && geometryTypes.includes(data.type)) {
+            return {
+                type: 'FeatureCollection',
+                features: [{ type: 'Feature', properties: {}, geometry: data }],
+            };
+        }
+        return data;
+    }
+
+    /**
+     * Unique source for each import, so importing a file again re-renders the map
+     */
+    private createSourceUrl(fileName: string): string {
+        const base = `${LOCAL_GEO_SOURCE_PREFIX}${fileName}`;
+        let sourceUrl = base;
+        for (let copy = 2; this.datasets.has(sourceUrl); copy++) {
+            sourceUrl = `${base} (${copy})`;
+        }
+        return sourceUrl;
+    }
+}
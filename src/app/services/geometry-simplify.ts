@@ -0,0 +1,351 @@
+import type { GeoJsonPosition } from './gis-renderer.service';
+
+export type SimplificationAlgorithm = 'none' | 'douglas-peucker' | 'visvalingam';
+
+export interface SimplificationOptions {
+    algorithm: SimplificationAlgorithm;
+    /**
+     * Largest deviation allowed, in output units. Douglas–Peucker compares it to the distance of a
+     * vertex from the simplified line, Visvalingam–Whyatt compares its square to triangle areas
+     */
+    tolerance: number;
+}
+
+/**
+ * Simplify a projected line or ring
+ * @param positions Source positions, used to recognise vertices shared with other lines
+ * @param points Output coordinates of the positions, same length
+ * @param closed Whether the line is a polygon ring whose last position repeats the first
+ * @returns Simplified output coordinates
+ */
+export type LineSimplifier = (
+    positions: GeoJsonPosition[],
+    points: number[][],
+    closed: boolean
+) => number[][];
+
+export const SIMPLIFICATION_OPTIONS: { value: SimplificationAlgorithm; label: string }[] = [
+    { value: 'none', label: 'None' },
+    { value: 'douglas-peucker', label: 'Douglas–Peucker' },
+    { value: 'visvalingam', label: 'Visvalingam–Whyatt' },
+];
+
+export const defaultSimplificationOptions: SimplificationOptions = {
+    algorithm: 'none',
+    tolerance: 0,
+};
+
+/** Minimum distinct vertices of a ring, fewer would collapse it */
+const MIN_RING_VERTICES = 3;
+
+const positionKey = (position: GeoJsonPosition) => `${position[0]},${position[1]}`;
+
+/**
+ * Create a topology-preserving simplifier for a dataset. Vertices where lines meet, split or end
+ * are never removed, and the borders between them are simplified the same way whichever feature
+ * they belong to, so neighbouring polygons stay joined. Rings keep at least three vertices
+ * @param lines Open lines of the dataset, in source coordinates
+ * @param rings Polygon rings of the dataset, in source coordinates
+ * @param options Algorithm and tolerance
+ * @returns Simplifier applied to each line while rendering
+ */
+export function createLineSimplifier(
+    lines: GeoJsonPosition[][],
+    rings: GeoJsonPosition[][],
+    options: SimplificationOptions
+): LineSimplifier {
+    if (options.algorithm === 'none' || !(options.tolerance > 0)) {
+        return (_positions, points) => points;
+    }
+
+    const junctions = findJunctions(lines, rings);
+    const threshold =
+        options.algorithm === 'visvalingam'
+            ? options.tolerance * options.tolerance
+            : options.tolerance;
+    const rank =
+        options.algorithm === 'visvalingam' ? visvalingamImportance : douglasPeuckerImportance;
+
+    return (positions, points, closed) => {
+        const keys = positions.map(positionKey);
+        if (closed) {
+            return simplifyRing(keys, points, junctions, (piece, minKept) =>
+                keepImportant(piece, rank(piece), threshold, minKept)
+            );
+        }
+
+        const fixed = keys.map((key, i) => i === 0 || i === keys.length - 1 || junctions.has(key));
+        return simplifyPieces(keys, points, fixed, (piece) =>
+            keepImportant(piece, rank(piece), threshold, 0)
+        );
+    };
+}
+
+/**
+ * Find the vertices where lines meet: line ends, and vertices with more than two distinct
+ * neighbours across the dataset
+ */
+function findJunctions(lines: GeoJsonPosition[][], rings: GeoJsonPosition[][]): Set<string> {
+    const neighbours = new Map<string, Set<string>>();
+    const junctions = new Set<string>();
+    const link = (a: string, b: string) => {
+        if (a === b) return;
+        if (!neighbours.has(a)) neighbours.set(a, new Set());
+        if (!neighbours.has(b)) neighbours.set(b, new Set());
+        neighbours.get(a)!.add(b);
+        neighbours.get(b)!.add(a);
+    };
+
+    lines.forEach((line) => {
+        const keys = line.map(positionKey);
+        keys.slice(1).forEach((key, i) => link(keys[i], key));
+        if (keys.length > 0) {
+            junctions.add(keys[0]);
+            junctions.add(keys[keys.length - 1]);
+        }
+    });
+    rings.forEach((ring) => {
+        const keys = ring.map(positionKey);
+        keys.slice(1).forEach((key, i) => link(keys[i], key));
+    });
+
+    neighbours.forEach((set, key) => {
+        if (set.size > 2) junctions.add(key);
+    });
+    return junctions;
+}
+
+/**
+ * Simplify a closed ring. It is split at its junctions, or at its smallest vertex when it has
+ * none so that a ring shared whole by two polygons starts at the same vertex in both
+ */
+function simplifyRing(
+    keys: string[],
+    points: number[][],
+    junctions: Set<string>,
+    simplifyPiece: (piece: number[][], minKept: number) => number[][]
+): number[][] {
+    // Work on the open ring, the closing vertex is added back below
+    const isClosed = keys.length > 1 && keys[0] === keys[keys.length - 1];
+    const count = isClosed ? keys.length - 1 : keys.length;
+    if (count <= MIN_RING_VERTICES) return points;
+
+    let fixedIndexes = [...Array(count).keys()].filter((i) => junctions.has(keys[i]));
+    if (fixedIndexes.length === 0) {
+        let smallest = 0;
+        for (let i = 1; i < count; i++) {
+            if (keys[i] < keys[smallest]) smallest = i;
+        }
+        fixedIndexes = [smallest];
+    }
+
+    const start = fixedIndexes[0];
+    const order = [...Array(count + 1).keys()].map((i) => (start + i) % count);
+    const fixedSet = new Set(fixedIndexes);
+    const minKept = Math.ceil(
+        Math.max(MIN_RING_VERTICES - fixedIndexes.length, 0) / fixedIndexes.length
+    );
+
+    return simplifyPieces(
+        order.map((i) => keys[i]),
+        order.map((i) => points[i]),
+        order.map((i, position) => position === 0 || position === count || fixedSet.has(i)),
+        (piece) => simplifyPiece(piece, minKept)
+    );
+}
+
+/**
+ * Simplify the pieces between fixed vertices independently. Each piece is processed in a
+ * canonical direction so a border shared by two features gives identical results in both
+ */
+function simplifyPieces(
+    keys: string[],
+    points: number[][],
+    fixed: boolean[],
+    simplifyPiece: (piece: number[][]) => number[][]
+): number[][] {
+    const result: number[][] = [points[0]];
+    let pieceStart = 0;
+    for (let i = 1; i < points.length; i++) {
+        if (!fixed[i]) continue;
+
+        const pieceKeys = keys.slice(pieceStart, i + 1);
+        const piece = points.slice(pieceStart, i + 1);
+        const simplified = isCanonicalDirection(pieceKeys)
+            ? simplifyPiece(piece)
+            : simplifyPiece([...piece].reverse()).reverse();
+        result.push(...simplified.slice(1));
+        pieceStart = i;
+    }
+    return result;
+}
+
+function isCanonicalDirection(keys: string[]): boolean {
+    for (let i = 0, j = keys.length - 1; i < j; i++, j--) {
+        if (keys[i] !== keys[j]) return keys[i] < keys[j];
+    }
+    return true;
+}
+
+/**
+ * Keep the end points and the vertices whose importance exceeds the threshold
+ * @param points Piece to simplify
+ * @param importance Importance of each vertex, end points are Infinity
+ * @param threshold Importance a vertex needs to be kept
+ * @param minKept Number of interior vertices kept regardless of the threshold, most important first
+ * @returns Kept vertices in their original order
+ */
+function keepImportant(
+    points: number[][],
+    importance: number[],
+    threshold: number,
+    minKept: number
+): number[][] {
+    const forced = new Set(
+        [...Array(points.length).keys()]
+            .slice(1, -1)
+            .sort((a, b) => importance[b] - importance[a])
+            .slice(0, minKept)
+    );
+    return points.filter((_, i) => importance[i] > threshold || forced.has(i));
+}
+
+/**
+ * Douglas–Peucker importance: the distance at which each vertex is selected, capped by the
+ * importance of the vertex that split its range so keeping is monotonic in the tolerance
+ */
+function douglasPeuckerImportance(points: number[][]): number[] {
+    const importance = new Array<number>(points.length).fill(0);
+    if (points.length === 0) return importance;
+    importance[0] = Infinity;
+    importance[points.length - 1] = Infinity;
+
+    const stack: [number, number, number][] = [[0, points.length - 1, Infinity]];
+    while (stack.length > 0) {
+        const [first, last, cap] = stack.pop()!;
+        let farthest = -1;
+        let maxDistance = -1;
+        for (let i = first + 1; i < last; i++) {
+            const distance = segmentDistance(points[i], points[first], points[last]);
+            if (distance > maxDistance) {
+                maxDistance = distance;
+                farthest = i;
+            }
+        }
+        if (farthest === -1) continue;
+
+        const value = Math.min(maxDistance, cap);
+        importance[farthest] = value;
+        stack.push([first, farthest, value], [farthest, last, value]);
+    }
+    return importance;
+}
+
+/**
+ * Visvalingam–Whyatt importance: the effective area of each vertex, the area of the triangle
+ * it forms with its neighbours when it would be removed
+ */
+function visvalingamImportance(points: number[][]): number[] {
+    const count = points.length;
+    const importance = new Array<number>(count).fill(Infinity);
+    if (count < 3) return importance;
+
+    const previous = [...Array(count).keys()].map((i) => i - 1);
+    const next = [...Array(count).keys()].map((i) => i + 1);
+    const version = new Array<number>(count).fill(0);
+    const heap = new MinHeap<{ index: number; area: number; version: number }>(
+        (a, b) => a.area - b.area
+    );
+    const areaAt = (i: number) => triangleArea(points[previous[i]], points[i], points[next[i]]);
+    for (let i = 1; i < count - 1; i++) {
+        heap.push({ index: i, area: areaAt(i), version: 0 });
+    }
+
+    let lastArea = 0;
+    while (heap.size > 0) {
+        const entry = heap.pop()!;
+        if (entry.version !== version[entry.index]) continue;
+
+        // Never rank a vertex below one removed before it
+        lastArea = Math.max(lastArea, entry.area);
+        importance[entry.index] = lastArea;
+        const before = previous[entry.index];
+        const after = next[entry.index];
+        next[before] = after;
+        previous[after] = before;
+        [before, after].forEach((neighbour) => {
+            if (neighbour > 0 && neighbour < count - 1) {
+                version[neighbour]++;
+                heap.push({
+                    index: neighbour,
+                    area: areaAt(neighbour),
+                    version: version[neighbour],
+                });
+            }
+        });
+    }
+    return importance;
+}
+
+function segmentDistance([x, y]: number[], [x1, y1]: number[], [x2, y2]: number[]): number {
+    const dx = x2 - x1;
+    const dy = y2 - y1;
+    const lengthSquared = dx * dx + dy * dy;
+    const t =
+        lengthSquared === 0
+            ? 0
+            : Math.max(0, Math.min(1, ((x - x1) * dx + (y - y1) * dy) / lengthSquared));
+    return Math.hypot(x - (x1 + t * dx), y - (y1 + t * dy));
+}
+
+function triangleArea([ax, ay]: number[], [bx, by]: number[], [cx, cy]: number[]): number {
+    return Math.abs((bx - ax) * (cy - ay) - (cx - ax) * (by - ay)) / 2;
+}
+
+/**
+ * Binary heap returning the smallest item first according to the comparator
+ */
+export class MinHeap<T> {
+    private items: T[] = [];
+
+    constructor(private compare: (a: T, b: T) => number) {}
+
+    get size(): number {
+        return this.items.length;
+    }
+
+    push(item: T): void {
+        const items = this.items;
+        items.push(item);
+        let i = items.length - 1;
+        while (i > 0) {
+            const parent = (i - 1) >> 1;
+            if (this.compare(items[i], items[parent]) >= 0) break;
+            [items[i], items[parent]] = [items[parent], items[i]];
+            i = parent;
+        }
+    }
+
+    pop(): T | undefined {
+        const items = this.items;
+        const top = items[0];
+        const last = items.pop();
+        if (items.length > 0 && last !== undefined) {
+            items[0] = last;
+            let i = 0;
+            for (;;) {
+                const left = i * 2 + 1;
+                const right = left + 1;
+                let smallest = i;
+                if (left < items.length && this.compare(items[left], items[smallest]) < 0)
+                    smallest = left;
+                if (right < items.length && this.compare(items[right], items[smallest]) < 0)
+                    smallest = right;
+                if (smallest === i) break;
+                [items[i], items[smallest]] = [items[smallest], items[i]];
+                i = smallest;
+            }
+        }
+        return top;
+    }
+}
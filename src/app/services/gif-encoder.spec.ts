@@ -0,0 +1,205 @@
+import { GifEncoder } from './gif-encoder';
+import { FrameEncoderOptions } from './frame-encoder';
+
+interface GifFrame {
+    delay: number;
+    transparentIndex: number;
+    width: number;
+    height: number;
+    palette: number[][];
+    indices: number[];
+    /** Times the LZW dictionary was started over, the first clear code included */
+    clearCodes: number;
+}
+
+/**
+ * Read back the parts of a GIF file the encoder writes
+ */
+function readGif(bytes: Uint8Array) {
+    const u16 = (offset: number) => bytes[offset] | (bytes[offset + 1] << 8);
+    const readSubBlocks = (start: number) => {
+        const data: number[] = [];
+        let offset = start;
+        while (bytes[offset] !== 0) {
+            data.push(...bytes.subarray(offset + 1, offset + 1 + bytes[offset]));
+            offset += bytes[offset] + 1;
+        }
+        return { data, end: offset + 1 };
+    };
+
+    const signature = String.fromCharCode(...bytes.subarray(0, 6));
+    const frames: GifFrame[] = [];
+    let loopCount: number | null = null;
+    let control = { delay: 0, transparentIndex: -1 };
+    let offset = 13;
+    while (bytes[offset] !== 0x3b) {
+        if (bytes[offset] === 0x21 && bytes[offset + 1] === 0xf9) {
+            control = { delay: u16(offset + 4), transparentIndex: bytes[offset + 6] };
+            offset = readSubBlocks(offset + 2).end;
+        } else if (bytes[offset] === 0x21) {
+            const { data, end } = readSubBlocks(offset + 2);
+            if (String.fromCharCode(...data.slice(0, 11)) === 'NETSCAPE2.0') {
+                loopCount = data[12] | (data[13] << 8);
+            }
+            offset = end;
+        } else if (bytes[offset] === 0x2c) {
+            const width = u16(offset + 5);
+            const height = u16(offset + 7);
+            const tableSize = 2 << (bytes[offset + 9] & 7);
+            const palette: number[][] = [];
+            for (let i = 0; i < tableSize; i++) {
+                const entry = offset + 10 + i * 3;
+                palette.push([bytes[entry], bytes[entry + 1], bytes[entry + 2]]);
+            }
+            const codeStart = offset + 10 + tableSize * 3;
+            const { data, end } = readSubBlocks(codeStart + 1);
+            const { indices, clearCodes } = lzwDecode(data, bytes[codeStart]);
+            frames.push({ ...control, width, height, palette, indices, clearCodes });
+            offset = end;
+        } else {
+            throw new Error(`Unexpected block 0x${bytes[offset].toString(16)} at ${offset}`);
+        }
+    }
+    return {
+        signature,
+        width: u16(6),
+        height: u16(8),
+        loopCount,
+        frames,
+        trailerAt: offset,
+    };
+}
+
+function lzwDecode(data: number[], minCodeSize: number) {
+    const clearCode = 1 << minCodeSize;
+    const endCode = clearCode + 1;
+    let codeSize = minCodeSize + 1;
+    let dictionary: number[][] = [];
+    const reset = () => {
+        dictionary = [...Array(clearCode + 2)].map((_, index) => [index]);
+        codeSize = minCodeSize + 1;
+    };
+    reset();
+
+    const output: number[] = [];
+    let clearCodes = 0;
+    let previous: number[] | null = null;
+    let bits = 0;
+    let bitCount = 0;
+    for (const byte of data) {
+        bits |= byte << bitCount;
+        bitCount += 8;
+        while (bitCount >= codeSize) {
+            const code = bits & ((1 << codeSize) - 1);
+            bits >>>= codeSize;
+            bitCount -= codeSize;
+            if (code === clearCode) {
+                clearCodes++;
+                reset();
+                previous = null;
+                continue;
+            }
+            if (code === endCode) return { indices: output, clearCodes };
+
+            const entry: number[] =
+                code < dictionary.length ? dictionary[code] : [...previous!, previous![0]];
+            output.push(...entry);
+            if (previous && dictionary.length < 4096) {
+                dictionary.push([...previous, entry[0]]);
+                if (dictionary.length === 1 << codeSize && codeSize < 12) codeSize++;
+            }
+            previous = entry;
+        }
+    }
+    return { indices: output, clearCodes };
+}
+
+function createFrame(width: number, height: number, colorAt: (x: number, y: number) => number[]) {
+    const data = new Uint8ClampedArray(width * height * 4);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            data.set(colorAt(x, y), (y * width + x) * 4);
+        }
+    }
+    return new ImageData(data, width, height);
+}
+
+async function encode(options: FrameEncoderOptions, frames: ImageData[]) {
+    const encoder = new GifEncoder(options);
+    for (const frame of frames) {
+        await encoder.addFrame(frame);
+    }
+    const blob = await encoder.finish();
+    return { blob, gif: readGif(new Uint8Array(await blob.arrayBuffer())) };
+}
+
+describe('GifEncoder', () => {
+    const options: FrameEncoderOptions = { width: 4, height: 2, fps: 30, frameCount: 3, plays: 0 };
+    const red = [255, 0, 0, 255];
+    const blue = [0, 0, 255, 255];
+    const clear = [0, 0, 0, 0];
+
+    it('writes a GIF89a file with one image per frame', async () => {
+        const frames = [red, blue, clear].map((color) => createFrame(4, 2, () => color));
+        const { blob, gif } = await encode(options, frames);
+
+        expect(blob.type).toBe('image/gif');
+        expect(gif.signature).toBe('GIF89a');
+        expect([gif.width, gif.height]).toEqual([4, 2]);
+        expect(gif.frames.length).toBe(3);
+        expect(gif.frames.every((frame) => frame.width === 4 && frame.height === 2)).toBe(true);
+    });
+
+    it('splits the frame delays without drifting', async () => {
+        const frames = [...Array(3)].map(() => createFrame(4, 2, () => red));
+        const { gif } = await encode(options, frames);
+
+        expect(gif.frames.map((frame) => frame.delay)).toEqual([3, 4, 3]);
+    });
+
+    it('loops forever unless a number of plays is given', async () => {
+        const frame = createFrame(4, 2, () => red);
+
+        expect((await encode(options, [frame])).gif.loopCount).toBe(0);
+        expect((await encode({ ...options, plays: 3 }, [frame])).gif.loopCount).toBe(2);
+        expect((await encode({ ...options, plays: 1 }, [frame])).gif.loopCount).toBeNull();
+    });
+
+    it('keeps the colors and the transparent pixels of each frame', async () => {
+        const frame = createFrame(4, 2, (x, y) => (y === 1 ? clear : x < 2 ? red : blue));
+        const { gif } = await encode(options, [frame]);
+        const [decoded] = gif.frames;
+
+        expect(decoded.indices.length).toBe(8);
+        expect(decoded.indices.slice(4)).toEqual([0, 0, 0, 0]);
+        expect(decoded.transparentIndex).toBe(0);
+        decoded.indices.slice(0, 4).forEach((index, x) => {
+            const expected = x < 2 ? red : blue;
+            decoded.palette[index].forEach((channel, c) =>
+                expect(Math.abs(channel - expected[c])).toBeLessThanOrEqual(8)
+            );
+        });
+    });
+
+    it('restarts the LZW dictionary on frames with many patterns', async () => {
+        // Pseudo random levels fill the 4096 codes several times, centres of the 15-bit color
+        // bins come back unchanged
+        const size = 128;
+        let seed = 1;
+        const levels = [...Array(size * size)].map(() => {
+            seed = (seed * 1103515245 + 12345) % 2147483648;
+            return (seed >> 16) % 16;
+        });
+        const frame = createFrame(size, size, (x, y) => {
+            const gray = levels[y * size + x] * 16 + 4;
+            return [gray, gray, gray, 255];
+        });
+        const { gif } = await encode({ ...options, width: size, height: size }, [frame]);
+        const [decoded] = gif.frames;
+
+        expect(decoded.clearCodes).toBeGreaterThan(1);
+        expect(decoded.indices.map((index) => decoded.palette[index][0])).toEqual(
+            levels.map((level) => level * 16 + 4)
+        );
+    });
+});
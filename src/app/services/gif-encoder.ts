@@ -0,0 +1,262 @@
+import { ByteWriter } from './byte-writer';
+import { FrameEncoder, FrameEncoderOptions, getFrameDuration } from './frame-encoder';
+
+/** Palette index reserved for transparent pixels */
+const TRANSPARENT_INDEX = 0;
+/** Colors available to each frame besides transparency */
+const MAX_COLORS = 255;
+/** Pixels with a lower alpha become transparent, GIF has no partial transparency */
+const ALPHA_THRESHOLD = 128;
+const MAX_CODE_SIZE = 12;
+
+/**
+ * Colors sharing a 15-bit key, the unit the palette is built from
+ */
+interface ColorBin {
+    key: number;
+    r: number;
+    g: number;
+    b: number;
+    count: number;
+}
+
+/**
+ * Animated GIF encoder. Each frame gets its own 255 color palette built by median cut, plus a
+ * transparent entry, so frames are quantized as they arrive
+ */
+export class GifEncoder implements FrameEncoder {
+    private writer = new ByteWriter();
+    private frameIndex = 0;
+
+    constructor(private options: FrameEncoderOptions) {
+        const { width, height, plays } = options;
+        this.writer.ascii('GIF89a').u16le(width).u16le(height);
+        // No global color table, 8 bits per primary color
+        this.writer.u8(0x70).u8(0).u8(0);
+
+        // Playing once is the default, otherwise the NETSCAPE extension counts repeats
+        if (plays !== 1) {
+            this.writer
+                .u8(0x21)
+                .u8(0xff)
+                .u8(11)
+                .ascii('NETSCAPE2.0')
+                .u8(3)
+                .u8(1)
+                .u16le(plays === 0 ? 0 : Math.min(plays - 1, 0xffff))
+                .u8(0);
+        }
+    }
+
+    async addFrame(frame: ImageData): Promise<void> {
+        const { palette, indices } = quantize(frame.data);
+        const delay = getFrameDuration(this.frameIndex++, this.options.fps, 100);
+
+        // Graphic control: restore to background after the frame, transparent index 0
+        this.writer
+            .u8(0x21)
+            .u8(0xf9)
+            .u8(4)
+            .u8((2 << 2) | 1)
+            .u16le(delay)
+            .u8(TRANSPARENT_INDEX)
+            .u8(0);
+
+        // Image descriptor with a 256 entry local color table
+        this.writer.u8(0x2c).u16le(0).u16le(0).u16le(frame.width).u16le(frame.height).u8(0x87);
+        for (let i = 0; i < 256; i++) {
+            const color = palette[i] ?? [0, 0, 0];
+            this.writer.u8(color[0]).u8(color[1]).u8(color[2]);
+        }
+
+        this.writer.u8(8);
+        writeSubBlocks(this.writer, lzwEncode(indices, 8));
+    }
+
+    async finish(): Promise<Blob> {
+        this.writer.u8(0x3b);
+        return new Blob([this.writer.toUint8Array()], { type: 'image/gif' });
+    }
+}
+
+/**
+ * Reduce a frame to palette indices
+ * @param data RGBA pixels
+ * @returns Palette, whose first entry stands for transparency, and the index of every pixel
+ */
+function quantize(data: Uint8ClampedArray): { palette: number[][]; indices: Uint8Array } {
+    const counts = new Uint32Array(32768);
+    const toKey = (i: number) =>
+        ((data[i] >> 3) << 10) | ((data[i + 1] >> 3) << 5) | (data[i + 2] >> 3);
+    for (let i = 0; i < data.length; i += 4) {
+        if (data[i + 3] >= ALPHA_THRESHOLD) counts[toKey(i)]++;
+    }
+
+    const bins: ColorBin[] = [];
+    counts.forEach((count, key) => {
+        if (count === 0) return;
+        // Centre of the 8-value range the key covers
+        bins.push({
+            key,
+            r: ((key >> 10) << 3) | 4,
+            g: (((key >> 5) & 31) << 3) | 4,
+            b: ((key & 31) << 3) | 4,
+            count,
+        });
+    });
+    const colors = medianCut(bins, MAX_COLORS);
+    const palette = [[0, 0, 0], ...colors];
+
+    // Nearest palette entry of each key, computed the first time the key is met
+    const lookup = new Int16Array(32768).fill(-1);
+    const indices = new Uint8Array(data.length / 4);
+    for (let i = 0, pixel = 0; i < data.length; i += 4, pixel++) {
+        if (data[i + 3] < ALPHA_THRESHOLD) {
+            indices[pixel] = TRANSPARENT_INDEX;
+            continue;
+        }
+        const key = toKey(i);
+        if (lookup[key] === -1) {
+            lookup[key] = findNearest(colors, data[i], data[i + 1], data[i + 2]) + 1;
+        }
+        indices[pixel] = lookup[key];
+    }
+    return { palette, indices };
+}
+
+/**
+ * Split the color bins into boxes along their widest channel until there are enough boxes,
+ * each box becomes the weighted average of its colors
+ */
+function medianCut(bins: ColorBin[], maxColors: number): number[][] {
+    if (bins.length === 0) return [];
+
+    const boxes: ColorBin[][] = [bins];
+    while (boxes.length < maxColors) {
+        let target = -1;
+        let largest = 0;
+        boxes.forEach((box, index) => {
+            if (box.length < 2) return;
+            const score =
+                getWidestChannel(box).range * box.reduce((sum, bin) => sum + bin.count, 0);
+            if (score > largest) {
+                largest = score;
+                target = index;
+            }
+        });
+        if (target === -1) break;
+
+        const box = boxes[target];
+        const { channel } = getWidestChannel(box);
+        box.sort((a, b) => a[channel] - b[channel]);
+        const half = box.reduce((sum, bin) => sum + bin.count, 0) / 2;
+        let split = 1;
+        for (let seen = box[0].count; split < box.length - 1 && seen < half; split++) {
+            seen += box[split].count;
+        }
+        boxes.splice(target, 1, box.slice(0, split), box.slice(split));
+    }
+
+    return boxes.map((box) => {
+        const total = box.reduce((sum, bin) => sum + bin.count, 0);
+        return (['r', 'g', 'b'] as const).map((channel) =>
+            Math.round(box.reduce((sum, bin) => sum + bin[channel] * bin.count, 0) / total)
+        );
+    });
+}
+
+function getWidestChannel(box: ColorBin[]): { channel: 'r' | 'g' | 'b'; range: number } {
+    let widest: { channel: 'r' | 'g' | 'b'; range: number } = { channel: 'r', range: -1 };
+    (['r', 'g', 'b'] as const).forEach((channel) => {
+        let min = 255;
+        let max = 0;
+        box.forEach((bin) => {
+            min = Math.min(min, bin[channel]);
+            max = Math.max(max, bin[channel]);
+        });
+        if (max - min > widest.range) widest = { channel, range: max - min };
+    });
+    return widest;
+}
+
+function findNearest(colors: number[][], r: number, g: number, b: number): number {
+    let nearest = 0;
+    let best = Infinity;
+    colors.forEach(([cr, cg, cb], index) => {
+        const distance = (cr - r) ** 2 + (cg - g) ** 2 + (cb - b) ** 2;
+        if (distance < best) {
+            best = distance;
+            nearest = index;
+        }
+    });
+    return nearest;
+}
+
+/**
+ * GIF flavoured LZW: variable code sizes up to 12 bits, packed least significant bit first,
+ * with a clear code whenever the dictionary fills up
+ */
+function lzwEncode(indices: Uint8Array, minCodeSize: number): Uint8Array {
+    const output = new ByteWriter();
+    const clearCode = 1 << minCodeSize;
+    const endCode = clearCode + 1;
+    let codeSize = minCodeSize + 1;
+    let nextCode = endCode + 1;
+    let dictionary = new Map<number, number>();
+    let bits = 0;
+    let bitCount = 0;
+    const emit = (code: number) => {
+        bits |= code << bitCount;
+        bitCount += codeSize;
+        while (bitCount >= 8) {
+            output.u8(bits);
+            bits >>>= 8;
+            bitCount -= 8;
+        }
+    };
+
+    emit(clearCode);
+    if (indices.length === 0) {
+        emit(endCode);
+        if (bitCount > 0) output.u8(bits);
+        return output.toUint8Array();
+    }
+
+    let current = indices[0];
+    for (let i = 1; i < indices.length; i++) {
+        const index = indices[i];
+        const key = (current << 8) | index;
+        const existing = dictionary.get(key);
+        if (existing !== undefined) {
+            current = existing;
+            continue;
+        }
+
+        emit(current);
+        if (nextCode === 1 << MAX_CODE_SIZE) {
+            emit(clearCode);
+            dictionary = new Map();
+            codeSize = minCodeSize + 1;
+            nextCode = endCode + 1;
+        } else {
+            if (nextCode >= 1 << codeSize) codeSize++;
+            dictionary.set(key, nextCode++);
+        }
+        current = index;
+    }
+    emit(current);
+    emit(endCode);
+    if (bitCount > 0) output.u8(bits);
+    return output.toUint8Array();
+}
+
+/**
+ * Write data as GIF sub-blocks of at most 255 bytes, followed by the block terminator
+ */
+function writeSubBlocks(writer: ByteWriter, data: Uint8Array): void {
+    for (let offset = 0; offset < data.length; offset += 255) {
+        const block = data.subarray(offset, offset + 255);
+        writer.u8(block.length).bytes(block);
+    }
+    writer.u8(0);
+}
@@ -1,4 +1,35 @@
 import { Injectable } from '@angular/core';
+import {
+    createMapProjection,
+    defaultMapProjectionOptions,
+    EARTH_RADIUS_KM,
+    MapProjection,
+    MapProjectionOptions,
+} from './map-projection';
+import { ChoroplethOptions, createChoroplethStyle, LegendEntry } from './choropleth';
+import {
+    createLineSimplifier,
+    defaultSimplificationOptions,
+    SimplificationOptions,
+} from './geometry-simplify';
+import {
+    estimateLabelSize,
+    LabelCandidate,
+    LabelPlacement,
+    placeLabels,
+    poleOfInaccessibility,
+    polygonCentroid,
+    ringArea,
+} from './label-placement';
+import { SvgElementNode, svgElement } from './svg-dom';
+import {
+    createGlowFilter,
+    createLinearGradient,
+    SvgFragment,
+    SvgSubPath,
+    wrapSvgFragment,
+} from './svg-fragment';
+import { getElementPathData } from './svg-path';
 
 export interface GisRendererParameters {
     sourceUrl: string;
@@ -9,27 +40,131 @@ export interface GisRendererParameters {
     strokeColor: string;
     fillColor: string;
     strokeWidth: number;
+    /** Palette cycled through the features when `useRandomColors` is set and no choropleth applies */
     fillColors: string[];
+    useRandomColors: boolean;
+    /** Data-driven fill colors, null paints every feature with the fill color(s) */
+    choropleth: ChoroplethOptions | null;
+    showLegend: boolean;
+    /** Outline of the data extent in lon/lat, curved by the projection */
     showBoundingBox: boolean;
     boundingBoxColor: string;
+    showGraticule: boolean;
+    /** Degrees between graticule lines */
+    graticuleStep: number;
+    showScaleBar: boolean;
+    showNorthArrow: boolean;
+    markerShape: GisMarkerShape;
+    markerSize: number;
+    projection: MapProjectionOptions;
+    simplification: SimplificationOptions;
+    /** Feature labels, null draws none */
+    labels: GisLabelOptions | null;
+    /** Decimals written for output coordinates, null keeps full precision */
+    coordinatePrecision: number | null;
     viewBoxSize: number;
 }
 
+export interface GisLabelOptions {
+    /** Key in `feature.properties` holding the label text */
+    property: string;
+    placement: LabelPlacement;
+    fontFamily: string;
+    fontSize: number;
+    color: string;
+    haloColor: string;
+    /** Width of the outline drawn behind the text, 0 for none */
+    haloWidth: number;
+}
+
+/**
+ * Size of a rendered map with and without simplification and coordinate rounding
+ */
+export interface GisRenderStats {
+    vertexCountBefore: number;
+    vertexCountAfter: number;
+    /** Bytes of the SVG document at full detail and precision */
+    byteSizeBefore: number;
+    byteSizeAfter: number;
+}
+
+export type GisMarkerShape = 'circle' | 'square' | 'triangle' | 'diamond';
+
+/** [lon, lat] with an optional altitude that is ignored */
+export type GeoJsonPosition = number[];
+
+export interface GeoJsonPoint {
+    type: 'Point';
+    coordinates: GeoJsonPosition;
+}
+
+export interface GeoJsonMultiPoint {
+    type: 'MultiPoint';
+    coordinates: GeoJsonPosition[];
+}
+
+export interface GeoJsonLineString {
+    type: 'LineString';
+    coordinates: GeoJsonPosition[];
+}
+
+export interface GeoJsonMultiLineString {
+    type: 'MultiLineString';
+    coordinates: GeoJsonPosition[][];
+}
+
+/** Exterior ring first, the following rings are holes */
+export interface GeoJsonPolygon {
+    type: 'Polygon';
+    coordinates: GeoJsonPosition[][];
+}
+
+export interface GeoJsonMultiPolygon {
+    type: 'MultiPolygon';
+    coordinates: GeoJsonPosition[][][];
+}
+
+export interface GeoJsonGeometryCollection {
+    type: 'GeometryCollection';
+    geometries: GeoJsonGeometry[];
+}
+
+export type GeoJsonGeometry =
+    | GeoJsonPoint
+    | GeoJsonMultiPoint
+    | GeoJsonLineString
+    | GeoJsonMultiLineString
+    | GeoJsonPolygon
+    | GeoJsonMultiPolygon
+    | GeoJsonGeometryCollection;
+
 export interface GeoJsonFeature {
-    type: string;
-    geometry: {
-        type: string;
-        coordinates: number[][][][]; // Polygon coordinates: [[[lon, lat], ...]]
-    };
+    type: 'Feature';
+    id?: string | number;
+    /** Features without geometry are allowed by the spec and skipped when rendering */
+    geometry: GeoJsonGeometry | null;
     properties: any;
 }
 
 export interface GeoJsonData {
-    type: string;
+    type: 'FeatureCollection';
     bbox?: number[];
     features: GeoJsonFeature[];
 }
 
+export interface GeoJsonValidationIssue {
+    /** Index of the invalid feature, undefined for problems with the collection itself */
+    featureIndex?: number;
+    /** Path of the offending value, e.g. `features[3].geometry.coordinates[0]` */
+    path: string;
+    message: string;
+}
+
+export interface GeoJsonValidationResult {
+    valid: boolean;
+    issues: GeoJsonValidationIssue[];
+}
+
 export interface BoundingBox {
     xMin: number;
     xMax: number;
@@ -49,36 +184,93 @@ export const defaultGisParameters: GisRendererParameters = {
     strokeColor: '#333333',
     strokeWidth: 1,
     fillColors: ['#4CAF50', '#2196F3', '#FF9800', '#E91E63', '#9C27B0'],
+    useRandomColors: false,
+    choropleth: null,
+    showLegend: true,
     showBoundingBox: true,
     boundingBoxColor: '#FF0000',
+    showGraticule: false,
+    graticuleStep: 10,
+    showScaleBar: false,
+    showNorthArrow: false,
+    markerShape: 'circle',
+    markerSize: 6,
+    projection: defaultMapProjectionOptions,
+    simplification: defaultSimplificationOptions,
+    labels: null,
+    coordinatePrecision: 3,
     viewBoxSize: 600,
 };
 
+/**
+ * Project positions to output coordinates, lines and rings are simplified, points are not
+ */
+type GeometryProjector = (coordinates: GeoJsonPosition[], kind?: 'line' | 'ring') => number[][];
+
+/** Fill color of each feature and the legend of the choropleth, if any */
+interface FeatureStyle {
+    fillFor: (feature: GeoJsonFeature, index: number) => string;
+    legend: LegendEntry[] | null;
+}
+
+/** Open lines and polygon rings of a geometry */
+interface GeometryLines {
+    lines: GeoJsonPosition[][];
+    rings: GeoJsonPosition[][];
+}
+
+/** Nesting depth of the positions in the coordinates of each geometry type */
+const COORDINATE_DEPTHS: Record<Exclude<GeoJsonGeometry['type'], 'GeometryCollection'>, number> = {
+    Point: 0,
+    MultiPoint: 1,
+    LineString: 1,
+    MultiLineString: 2,
+    Polygon: 2,
+    MultiPolygon: 3,
+};
+
+/** Entries kept by the caches of render statistics and full detail sizes */
+const RENDER_CACHE_SIZE = 20;
+
 @Injectable({
     providedIn: 'root',
 })
 export class GisRendererService {
+    /** Parsed GeoJSON of each fetched URL, pending requests included so renders share them */
+    private geoJsonCache = new Map<string, Promise<GeoJsonData>>();
+
+    /** Statistics of the last render of each source at each simplification, see `getRenderStats` */
+    private renderStats = new Map<string, GisRenderStats>();
+
+    /** Size of each data set rendered at full detail, by the settings it was drawn with */
+    private fullDetailSizes = new WeakMap<GeoJsonData, Map<string, number>>();
+
     constructor() {}
 
     /**
-     * Calculate bounding box from GeoJSON features
+     * Calculate the bounding box of GeoJSON features after projection
      * @param features Array of GeoJSON features
-     * @returns Calculated bounding box
-     */
-    private calculateBoundingBox(features: GeoJsonFeature[]): BoundingBox {
-        const bounds = features.reduce(
-            (prev, curr) => {
-                const coordinates = curr.geometry.coordinates[0][0];
-                coordinates.forEach((point: number[]) => {
-                    if (point[0] < prev[0]) prev[0] = point[0]; // xMin
-                    if (point[0] > prev[2]) prev[2] = point[0]; // xMax
-                    if (point[1] < prev[1]) prev[1] = point[1]; // yMin
-                    if (point[1] > prev[3]) prev[3] = point[1]; // yMax
-                });
-                return prev;
-            },
-            [Infinity, Infinity, -Infinity, -Infinity]
-        );
+     * @param projection Projection applied to the positions
+     * @param bbox Optional GeoJSON `bbox` in lon/lat, its projected outline is included
+     * @returns Calculated bounding box in projected units
+     */
+    private calculateBoundingBox(
+        features: GeoJsonFeature[],
+        projection: MapProjection,
+        bbox?: number[]
+    ): BoundingBox {
+        const positions = features.flatMap((feature) => this.getPositions(feature.geometry));
+        if (bbox && bbox.length >= 4) {
+            positions.push(...this.getBoundingBoxOutline(bbox));
+        }
+
+        const bounds = [Infinity, Infinity, -Infinity, -Infinity];
+        this.projectPositions(positions, projection).forEach((point) => {
+            if (point[0] < bounds[0]) bounds[0] = point[0]; // xMin
+            if (point[0] > bounds[2]) bounds[2] = point[0]; // xMax
+            if (point[1] < bounds[1]) bounds[1] = point[1]; // yMin
+            if (point[1] > bounds[3]) bounds[3] = point[1]; // yMax
+        });
 
         return {
             xMin: bounds[0],
@@ -91,21 +283,123 @@ export class GisRendererService {
     }
 
     /**
-     * Generate rectangle points for bounding box
-     * @param bbox Bounding box coordinates
-     * @returns Rectangle points string
+     * Densify the edges of a lon/lat bbox, straight edges become curves in most projections
+     * @param bbox GeoJSON bbox, 2D or 3D
+     * @returns Closed ring along the outline, counter-clockwise from the south-west corner
      */
-    private generateRectanglePoints(bbox: number[]): string {
-        const [xMin, yMin, xMax, yMax] = bbox;
-        const halfX = (xMin + xMax) / 2;
-        const halfY = (yMin + yMax) / 2;
-
+    private getBoundingBoxOutline(bbox: number[]): GeoJsonPosition[] {
+        const [xMin, yMin, xMax, yMax] = this.toPlanarBbox(bbox);
+        const steps = 16;
+        const edge = (from: number[], to: number[]) =>
+            [...Array(steps).keys()].map((i) => [
+                from[0] + ((to[0] - from[0]) * i) / steps,
+                from[1] + ((to[1] - from[1]) * i) / steps,
+            ]);
         return [
-            `${(xMin - halfX).toFixed(3)} ${(yMin - halfY).toFixed(3)}`,
-            `${(xMin - halfX).toFixed(3)} ${(yMax - halfY).toFixed(3)}`,
-            `${(xMax - halfX).toFixed(3)} ${(yMax - halfY).toFixed(3)}`,
-            `${(xMax - halfX).toFixed(3)} ${(yMin - halfY).toFixed(3)}`,
-        ].join(' ');
+            ...edge([xMin, yMin], [xMax, yMin]),
+            ...edge([xMax, yMin], [xMax, yMax]),
+            ...edge([xMax, yMax], [xMin, yMax]),
+            ...edge([xMin, yMax], [xMin, yMin]),
+            [xMin, yMin],
+        ];
+    }
+
+    /**
+     * Drop the altitude of a 3D GeoJSON bbox
+     * @returns [west, south, east, north]
+     */
+    private toPlanarBbox(bbox: number[]): number[] {
+        return bbox.length >= 6 ? [bbox[0], bbox[1], bbox[3], bbox[4]] : bbox.slice(0, 4);
+    }
+
+    /**
+     * Lon/lat extent of the data, its own `bbox` when it declares one
+     * @param geoJsonData GeoJSON data
+     * @returns [west, south, east, north]
+     */
+    private getGeographicExtent(geoJsonData: GeoJsonData): number[] {
+        if (geoJsonData.bbox && geoJsonData.bbox.length >= 4) {
+            return this.toPlanarBbox(geoJsonData.bbox);
+        }
+
+        const extent = [Infinity, Infinity, -Infinity, -Infinity];
+        geoJsonData.features.forEach((feature) =>
+            this.getPositions(feature.geometry).forEach(([lon, lat]) => {
+                extent[0] = Math.min(extent[0], lon);
+                extent[1] = Math.min(extent[1], lat);
+                extent[2] = Math.max(extent[2], lon);
+                extent[3] = Math.max(extent[3], lat);
+            })
+        );
+        return extent;
+    }
+
+    /**
+     * Project lon/lat positions, dropping the ones the projection cannot show
+     * @param positions GeoJSON positions
+     * @param projection Map projection
+     * @returns Projected [x, y] pairs, y pointing north
+     */
+    private projectPositions(positions: GeoJsonPosition[], projection: MapProjection): number[][] {
+        const projected: number[][] = [];
+        positions.forEach(([lon, lat]) => {
+            const point = projection(lon, lat);
+            if (point) projected.push(point);
+        });
+        return projected;
+    }
+
+    /**
+     * Flatten all positions of a geometry, including nested collections
+     * @param geometry GeoJSON geometry
+     * @returns Positions in document order
+     */
+    private getPositions(geometry: GeoJsonGeometry | null): GeoJsonPosition[] {
+        if (!geometry) return [];
+        switch (geometry.type) {
+            case 'Point':
+                return [geometry.coordinates];
+            case 'MultiPoint':
+            case 'LineString':
+                return geometry.coordinates;
+            case 'MultiLineString':
+            case 'Polygon':
+                return geometry.coordinates.flat();
+            case 'MultiPolygon':
+                return geometry.coordinates.flat(2);
+            case 'GeometryCollection':
+                return geometry.geometries.flatMap((child) => this.getPositions(child));
+        }
+    }
+
+    /**
+     * Split a geometry into its open lines and polygon rings, used to find shared vertices
+     * @param geometry GeoJSON geometry
+     * @param target Lines and rings collected so far
+     * @returns The target, with the lines and rings of the geometry added
+     */
+    private collectLines(
+        geometry: GeoJsonGeometry | null,
+        target: GeometryLines = { lines: [], rings: [] }
+    ): GeometryLines {
+        switch (geometry?.type) {
+            case 'LineString':
+                target.lines.push(geometry.coordinates);
+                break;
+            case 'MultiLineString':
+                target.lines.push(...geometry.coordinates);
+                break;
+            case 'Polygon':
+                target.rings.push(...geometry.coordinates);
+                break;
+            case 'MultiPolygon':
+                target.rings.push(...geometry.coordinates.flat());
+                break;
+            case 'GeometryCollection':
+                geometry.geometries.forEach((child) => this.collectLines(child, target));
+                break;
+        }
+        return target;
     }
 
     /**
@@ -131,8 +425,8 @@ export class GisRendererService {
     }
 
     /**
-     * Transform coordinates based on bounding box and scale
-     * @param coordinates Original coordinates
+     * Transform projected coordinates based on bounding box and scale, flipping Y to SVG orientation
+     * @param coordinates Projected coordinates
      * @param boundingBox Bounding box information
      * @param scale Scale factor
      * @param translateX X translation
@@ -156,94 +450,717 @@ export class GisRendererService {
      * Generate SVG paths from GeoJSON data
      * @param geoJsonData GeoJSON data
      * @param params Rendering parameters
-     * @returns Array of SVG path elements
+     * @param fillFor Fill color of a feature
+     * @returns One group per feature, the label candidates, the scale bar and north arrow, and
+     * the vertex count before and after simplification
      */
     private generateGeoJsonPaths(
         geoJsonData: GeoJsonData,
-        params: GisRendererParameters
-    ): string[] {
-        const paths: string[] = [];
-
-        // Calculate or use existing bounding box
-        const bboxData = geoJsonData.bbox || this.calculateBoundingBox(geoJsonData.features);
-        const boundingBox = Array.isArray(bboxData)
-            ? {
-                  xMin: bboxData[0],
-                  yMin: bboxData[1],
-                  xMax: bboxData[2],
-                  yMax: bboxData[3],
-                  centerX: (bboxData[0] + bboxData[2]) / 2,
-                  centerY: (bboxData[1] + bboxData[3]) / 2,
-              }
-            : (bboxData as BoundingBox);
-
-        // Calculate scale factors
+        params: GisRendererParameters,
+        fillFor: (feature: GeoJsonFeature, index: number) => string
+    ): {
+        paths: SvgElementNode[];
+        labels: LabelCandidate[];
+        overlays: SvgElementNode[];
+        vertexCountBefore: number;
+        vertexCountAfter: number;
+    } {
+        const paths: SvgElementNode[] = [];
+
+        // Fit runs on projected coordinates so every projection fills the viewBox the same way
+        const projection = createMapProjection(params.projection);
+        const boundingBox = this.calculateBoundingBox(
+            geoJsonData.features,
+            projection,
+            geoJsonData.bbox
+        );
+
+        // Calculate scale factors, a single point or a straight line has no extent on some axis
         const dx = 280;
         const dy = 280;
         const widthScale = dx / (boundingBox.xMax - boundingBox.centerX);
         const heightScale = dy / (boundingBox.yMax - boundingBox.centerY);
-        const scale =
-            this.applyScalingFunction(widthScale, heightScale, params.scalingFunction) *
-            params.scale;
-
-        // Add bounding box if enabled
-        if (params.showBoundingBox) {
-            const bboxPoints = this.generateRectanglePoints(
-                [boundingBox.xMin, boundingBox.yMin, boundingBox.xMax, boundingBox.yMax].map(
-                    (coord, index) => index * scale + dx
-                )
+        const fitScale = this.applyScalingFunction(widthScale, heightScale, params.scalingFunction);
+        const finiteScale = Number.isFinite(fitScale)
+            ? fitScale
+            : ([widthScale, heightScale].find((value) => Number.isFinite(value)) ?? 1);
+        const scale = finiteScale * params.scale;
+        const toOutput = (coordinates: GeoJsonPosition[]) =>
+            this.transformCoordinates(
+                this.projectPositions(coordinates, projection),
+                boundingBox,
+                scale,
+                params.translateX,
+                params.translateY
+            );
+
+        // Map furniture drawn under the features
+        const extent = this.getGeographicExtent(geoJsonData);
+        const hasExtent = extent.every((value) => Number.isFinite(value));
+        if (params.showGraticule && hasExtent) {
+            paths.push(this.createGraticule(extent, toOutput, params));
+        }
+        if (params.showBoundingBox && hasExtent) {
+            paths.push(
+                svgElement('path', {
+                    class: 'gis-bounding-box',
+                    d: this.toPathData(
+                        this.splitVisibleRuns(this.getBoundingBoxOutline(extent), toOutput),
+                        false,
+                        params.coordinatePrecision
+                    ),
+                    fill: 'none',
+                    stroke: params.boundingBoxColor,
+                    'stroke-width': params.strokeWidth,
+                })
             );
+        }
 
-            paths.push(`
-        <polygon 
-          points="${bboxPoints}" 
-          fill="none" 
-          stroke="${params.boundingBoxColor}" 
-          stroke-width="${params.strokeWidth}"
-        />`);
+        const overlays: SvgElementNode[] = [];
+        if (params.showScaleBar && hasExtent) {
+            const scaleBar = this.createScaleBar(extent, projection, scale, params);
+            if (scaleBar) overlays.push(scaleBar);
+        }
+        if (params.showNorthArrow && hasExtent) {
+            const northArrow = this.createNorthArrow(extent, projection, params);
+            if (northArrow) overlays.push(northArrow);
         }
 
+        // Simplify in output units, so the tolerance means the same for every projection and zoom
+        const { lines, rings } = geoJsonData.features.reduce(
+            (target, feature) => this.collectLines(feature.geometry, target),
+            { lines: [], rings: [] } as GeometryLines
+        );
+        const simplify = createLineSimplifier(lines, rings, params.simplification);
+        let vertexCountBefore = 0;
+        let vertexCountAfter = 0;
+
         // Process each feature
-        geoJsonData.features.forEach((feature, index) => {
-            const coordinates = feature.geometry.coordinates[0][0] as number[][];
-            const transformedCoords = this.transformCoordinates(
-                coordinates,
+        const project: GeometryProjector = (coordinates, kind) => {
+            // Project each position once, keeping the positions the projection can show
+            const visible: GeoJsonPosition[] = [];
+            const projected: number[][] = [];
+            coordinates.forEach((position) => {
+                const point = projection(position[0], position[1]);
+                if (point) {
+                    visible.push(position);
+                    projected.push(point);
+                }
+            });
+            const points = this.transformCoordinates(
+                projected,
                 boundingBox,
                 scale,
                 params.translateX,
                 params.translateY
             );
+            const output = kind ? simplify(visible, points, kind === 'ring') : points;
+            vertexCountBefore += points.length;
+            vertexCountAfter += output.length;
+            return output;
+        };
+        const labels: LabelCandidate[] = [];
+        geoJsonData.features.forEach((feature, index) => {
+            if (!feature.geometry) return;
+
+            const labelText = this.getLabelText(feature, params.labels);
+            const elements = this.renderGeometry(
+                feature.geometry,
+                project,
+                params,
+                fillFor(feature, index)
+            );
+            paths.push(
+                svgElement('g', { class: 'gis-feature' }, [
+                    svgElement('title', {}, [
+                        this.getFeatureTitle(feature, index, labelText, params),
+                    ]),
+                    ...elements,
+                ])
+            );
+
+            if (params.labels && labelText) {
+                const anchor = this.getLabelAnchor(feature.geometry, toOutput, params);
+                if (anchor) {
+                    labels.push({
+                        text: labelText,
+                        ...anchor,
+                        ...estimateLabelSize(
+                            labelText,
+                            params.labels.fontSize,
+                            params.labels.haloWidth
+                        ),
+                    });
+                }
+            }
+        });
+
+        return { paths, labels, overlays, vertexCountBefore, vertexCountAfter };
+    }
 
-            const pointsString = transformedCoords.map((coord) => coord.join(',')).join(' ');
+    /**
+     * Convert a lon/lat line to output coordinates, splitting it where the projection cannot
+     * show it, such as across the horizon of the orthographic projection
+     * @param positions Lon/lat positions
+     * @param toOutput Converts positions to output coordinates
+     * @returns Visible runs of the line
+     */
+    private splitVisibleRuns(
+        positions: GeoJsonPosition[],
+        toOutput: (coordinates: GeoJsonPosition[]) => number[][]
+    ): number[][][] {
+        const runs: number[][][] = [[]];
+        positions.forEach((position) => {
+            const [point] = toOutput([position]);
+            if (point) {
+                runs[runs.length - 1].push(point);
+            } else if (runs[runs.length - 1].length > 0) {
+                runs.push([]);
+            }
+        });
+        return runs.filter((run) => run.length > 1);
+    }
 
-            
+    /**
+     * Create meridians and parallels every `graticuleStep` degrees over the data extent
+     * @param extent Lon/lat extent [west, south, east, north]
+     * @param toOutput Converts positions to output coordinates
+     * @param params Rendering parameters
+     * @returns Graticule path
+     */
+    private createGraticule(
+        extent: number[],
+        toOutput: (coordinates: GeoJsonPosition[]) => number[][],
+        params: GisRendererParameters
+    ): SvgElementNode {
+        const step = Math.max(params.graticuleStep, 0.1);
+        const snap = (value: number, round: (value: number) => number, limit: number) =>
+            Math.max(Math.min(round(value / step) * step, limit), -limit);
+        const west = snap(extent[0], Math.floor, 180);
+        const east = snap(extent[2], Math.ceil, 180);
+        const south = snap(extent[1], Math.floor, 90);
+        const north = snap(extent[3], Math.ceil, 90);
+
+        // Densify so meridians and parallels curve with the projection
+        const samples = (from: number, to: number) => {
+            const count = Math.max(Math.ceil(((to - from) / step) * 16), 1);
+            return [...Array(count + 1).keys()].map((i) => from + ((to - from) * i) / count);
+        };
+        const lines: GeoJsonPosition[][] = [];
+        for (let lon = west; lon <= east + 1e-9; lon += step) {
+            lines.push(samples(south, north).map((lat) => [lon, lat]));
+        }
+        for (let lat = south; lat <= north + 1e-9; lat += step) {
+            lines.push(samples(west, east).map((lon) => [lon, lat]));
+        }
 
-            paths.push(`
-        <polygon 
-          points="${pointsString}" 
-          fill="${params.fillColor}" 
-          stroke="${params.strokeColor}" 
-          stroke-width="${params.strokeWidth}"
-          opacity="0.8"
-        />`);
+        return svgElement('path', {
+            class: 'gis-graticule',
+            d: this.toPathData(
+                lines.flatMap((line) => this.splitVisibleRuns(line, toOutput)),
+                false,
+                params.coordinatePrecision
+            ),
+            fill: 'none',
+            stroke: '#999999',
+            'stroke-width': 0.5,
+            'stroke-opacity': 0.7,
         });
+    }
+
+    /**
+     * Create a scale bar in the bottom right corner. Its length is measured along the parallel
+     * through the middle of the data, where the current projection and scale are evaluated
+     * @param extent Lon/lat extent [west, south, east, north]
+     * @param projection Map projection
+     * @param scale Output units per projected unit
+     * @param params Rendering parameters
+     * @returns Scale bar group, or null if the projection cannot show the middle of the data
+     */
+    private createScaleBar(
+        extent: number[],
+        projection: MapProjection,
+        scale: number,
+        params: GisRendererParameters
+    ): SvgElementNode | null {
+        const lon = (extent[0] + extent[2]) / 2;
+        const lat = (extent[1] + extent[3]) / 2;
+        const delta = 0.01;
+        const west = projection(lon - delta / 2, lat);
+        const east = projection(lon + delta / 2, lat);
+        if (!west || !east) return null;
+
+        const outputDistance = Math.hypot(east[0] - west[0], east[1] - west[1]) * scale;
+        const groundDistance =
+            EARTH_RADIUS_KM * ((delta * Math.PI) / 180) * Math.cos((lat * Math.PI) / 180);
+        if (!(outputDistance > 0) || !(groundDistance > 0)) return null;
+
+        const kmPerUnit = groundDistance / outputDistance;
+        const lengthKm = this.getNiceLength(params.viewBoxSize * 0.25 * kmPerUnit);
+        const width = lengthKm / kmPerUnit;
+        const label =
+            lengthKm >= 1 ? `${lengthKm} km` : `${parseFloat((lengthKm * 1000).toPrecision(6))} m`;
 
-        return paths;
+        const segments = 4;
+        const height = 6;
+        const x = params.viewBoxSize / 2 - 20 - width;
+        const y = params.viewBoxSize / 2 - 20 - height;
+        return svgElement(
+            'g',
+            { class: 'gis-scale-bar', 'font-family': 'sans-serif', 'font-size': 11 },
+            [
+                ...[...Array(segments).keys()].map((i) =>
+                    svgElement('rect', {
+                        x: this.formatNumber(x + (width * i) / segments, 2),
+                        y,
+                        width: this.formatNumber(width / segments, 2),
+                        height,
+                        fill: i % 2 === 0 ? '#333333' : '#ffffff',
+                        stroke: '#333333',
+                        'stroke-width': 0.5,
+                    })
+                ),
+                svgElement(
+                    'text',
+                    {
+                        x: this.formatNumber(x, 2),
+                        y: y - 4,
+                        'text-anchor': 'middle',
+                        fill: '#333333',
+                    },
+                    ['0']
+                ),
+                svgElement(
+                    'text',
+                    {
+                        x: this.formatNumber(x + width, 2),
+                        y: y - 4,
+                        'text-anchor': 'middle',
+                        fill: '#333333',
+                    },
+                    [label]
+                ),
+            ]
+        );
     }
 
     /**
-     * Fetch GeoJSON data from URL
+     * Round a length down to 1, 2 or 5 times a power of ten
+     */
+    private getNiceLength(maximum: number): number {
+        const magnitude = Math.pow(10, Math.floor(Math.log10(maximum)));
+        const nice = [5, 2, 1].find((factor) => factor * magnitude <= maximum) ?? 1;
+        return parseFloat((nice * magnitude).toPrecision(12));
+    }
+
+    /**
+     * Create a north arrow in the top right corner, rotated towards the pole as seen at the middle
+     * of the data so it stays correct for conic and orthographic projections
+     * @param extent Lon/lat extent [west, south, east, north]
+     * @param projection Map projection
+     * @param params Rendering parameters
+     * @returns North arrow group, or null if the projection cannot show the middle of the data
+     */
+    private createNorthArrow(
+        extent: number[],
+        projection: MapProjection,
+        params: GisRendererParameters
+    ): SvgElementNode | null {
+        const lon = (extent[0] + extent[2]) / 2;
+        const lat = Math.min((extent[1] + extent[3]) / 2, 89.99);
+        const here = projection(lon, lat);
+        const north = projection(lon, lat + 0.01);
+        if (!here || !north) return null;
+
+        // Projected y points north, output y points down
+        const angle = (Math.atan2(north[0] - here[0], north[1] - here[1]) * 180) / Math.PI;
+        const x = params.viewBoxSize / 2 - 30;
+        const y = -params.viewBoxSize / 2 + 40;
+        return svgElement(
+            'g',
+            {
+                class: 'gis-north-arrow',
+                transform: `translate(${x} ${y}) rotate(${this.formatNumber(angle, 2)})`,
+            },
+            [
+                svgElement('path', {
+                    d: 'M 0,-16 L 8,12 L 0,6 L -8,12 Z',
+                    fill: '#333333',
+                    stroke: '#ffffff',
+                    'stroke-width': 1,
+                }),
+                svgElement(
+                    'text',
+                    {
+                        x: 0,
+                        y: -20,
+                        'text-anchor': 'middle',
+                        'font-family': 'sans-serif',
+                        'font-size': 12,
+                        'font-weight': 'bold',
+                        fill: '#333333',
+                    },
+                    ['N']
+                ),
+            ]
+        );
+    }
+
+    /**
+     * Read the label of a feature
+     * @returns Label text, or null when labels are off or the feature has no value
+     */
+    private getLabelText(feature: GeoJsonFeature, labels: GisLabelOptions | null): string | null {
+        const property = labels?.property.trim();
+        const value = property ? feature.properties?.[property] : undefined;
+        return value === null || value === undefined || value === '' ? null : String(value);
+    }
+
+    /**
+     * Build the tooltip of a feature: its label, name or id, and the value it is colored by
+     */
+    private getFeatureTitle(
+        feature: GeoJsonFeature,
+        index: number,
+        labelText: string | null,
+        params: GisRendererParameters
+    ): string {
+        const name = labelText ?? feature.properties?.name ?? feature.id ?? `Feature ${index + 1}`;
+        const property = params.choropleth?.property.trim();
+        const value = property ? feature.properties?.[property] : undefined;
+        return value === undefined || value === null
+            ? String(name)
+            : `${name}\n${property}: ${value}`;
+    }
+
+    /**
+     * Choose where the label of a geometry goes: inside its largest polygon, halfway along its
+     * longest line, or above its first point
+     * @param geometry GeoJSON geometry
+     * @param toOutput Converts positions to output coordinates, without simplification
+     * @param params Rendering parameters
+     * @returns Label centre and priority, larger features first, or null if nothing is visible
+     */
+    private getLabelAnchor(
+        geometry: GeoJsonGeometry,
+        toOutput: (coordinates: GeoJsonPosition[]) => number[][],
+        params: GisRendererParameters
+    ): { x: number; y: number; priority: number } | null {
+        const polygons = this.collectPolygons(geometry)
+            .map((polygon) => polygon.map(toOutput).filter((ring) => ring.length > 0))
+            .filter((polygon) => polygon.length > 0);
+        if (polygons.length > 0) {
+            const areas = polygons.map((polygon) => Math.abs(ringArea(polygon[0])));
+            const largest = areas.indexOf(Math.max(...areas));
+            const [x, y] =
+                params.labels?.placement === 'centroid'
+                    ? polygonCentroid(polygons[largest])
+                    : poleOfInaccessibility(polygons[largest]);
+            return { x, y, priority: areas[largest] };
+        }
+
+        const { lines } = this.collectLines(geometry);
+        const outputLines = lines.map(toOutput).filter((line) => line.length > 1);
+        if (outputLines.length > 0) {
+            const lengths = outputLines.map((line) => this.getLineLength(line));
+            const longest = lengths.indexOf(Math.max(...lengths));
+            const [x, y] = this.getPointAlong(outputLines[longest], lengths[longest] / 2);
+            return { x, y, priority: lengths[longest] };
+        }
+
+        const [point] = toOutput(this.getPositions(geometry));
+        if (!point) return null;
+        const offset = params.markerSize / 2 + (params.labels?.fontSize ?? 0) * 0.75;
+        return { x: point[0], y: point[1] - offset, priority: 0 };
+    }
+
+    /**
+     * List the polygons of a geometry, each as its rings
+     */
+    private collectPolygons(geometry: GeoJsonGeometry): GeoJsonPosition[][][] {
+        switch (geometry.type) {
+            case 'Polygon':
+                return [geometry.coordinates];
+            case 'MultiPolygon':
+                return geometry.coordinates;
+            case 'GeometryCollection':
+                return geometry.geometries.flatMap((child) => this.collectPolygons(child));
+            default:
+                return [];
+        }
+    }
+
+    private getLineLength(line: number[][]): number {
+        return line
+            .slice(1)
+            .reduce((length, [x, y], i) => length + Math.hypot(x - line[i][0], y - line[i][1]), 0);
+    }
+
+    private getPointAlong(line: number[][], distance: number): number[] {
+        let remaining = distance;
+        for (let i = 1; i < line.length; i++) {
+            const [x1, y1] = line[i - 1];
+            const [x2, y2] = line[i];
+            const segment = Math.hypot(x2 - x1, y2 - y1);
+            if (segment >= remaining && segment > 0) {
+                const t = remaining / segment;
+                return [x1 + (x2 - x1) * t, y1 + (y2 - y1) * t];
+            }
+            remaining -= segment;
+        }
+        return line[line.length - 1];
+    }
+
+    /**
+     * Draw the labels that fit, a label overlapping a larger feature's label is dropped
+     * @param candidates Label candidates
+     * @param labels Label style
+     * @returns Labels group
+     */
+    private createLabels(candidates: LabelCandidate[], labels: GisLabelOptions): SvgElementNode {
+        const halo =
+            labels.haloWidth > 0
+                ? {
+                      stroke: labels.haloColor,
+                      'stroke-width': labels.haloWidth * 2,
+                      'stroke-linejoin': 'round',
+                      'paint-order': 'stroke',
+                  }
+                : {};
+
+        return svgElement(
+            'g',
+            {
+                class: 'gis-labels',
+                'font-family': labels.fontFamily,
+                'font-size': labels.fontSize,
+                fill: labels.color,
+                'text-anchor': 'middle',
+                'dominant-baseline': 'central',
+                ...halo,
+            },
+            placeLabels(candidates).map((label) =>
+                svgElement(
+                    'text',
+                    { x: this.formatNumber(label.x, 2), y: this.formatNumber(label.y, 2) },
+                    [label.text]
+                )
+            )
+        );
+    }
+
+    /**
+     * Render one geometry: polygons become `evenodd` paths whose interior rings are holes,
+     * lines become stroked paths and points become markers
+     * @param geometry GeoJSON geometry
+     * @param project Converts positions to output coordinates, simplifying lines and rings
+     * @param params Rendering parameters
+     * @param fill Fill color of polygons and markers
+     * @returns SVG elements of the geometry
+     */
+    private renderGeometry(
+        geometry: GeoJsonGeometry,
+        project: GeometryProjector,
+        params: GisRendererParameters,
+        fill: string
+    ): SvgElementNode[] {
+        switch (geometry.type) {
+            case 'Point':
+                return project([geometry.coordinates]).map((point) =>
+                    this.createMarker(point, params, fill)
+                );
+            case 'MultiPoint':
+                return project(geometry.coordinates).map((point) =>
+                    this.createMarker(point, params, fill)
+                );
+            case 'LineString':
+                return [this.createLinePath([project(geometry.coordinates, 'line')], params)];
+            case 'MultiLineString':
+                return [
+                    this.createLinePath(
+                        geometry.coordinates.map((line) => project(line, 'line')),
+                        params
+                    ),
+                ];
+            case 'Polygon':
+                return [
+                    this.createPolygonPath(
+                        geometry.coordinates.map((ring) => project(ring, 'ring')),
+                        params,
+                        fill
+                    ),
+                ];
+            case 'MultiPolygon':
+                return [
+                    this.createPolygonPath(
+                        geometry.coordinates.flat().map((ring) => project(ring, 'ring')),
+                        params,
+                        fill
+                    ),
+                ];
+            case 'GeometryCollection':
+                return geometry.geometries.flatMap((child) =>
+                    this.renderGeometry(child, project, params, fill)
+                );
+        }
+    }
+
+    /**
+     * Convert projected lines or rings to path data
+     * @param lines Lines in output coordinates
+     * @param close Close each line, used for polygon rings
+     * @param precision Decimals written, null keeps full precision
+     * @returns SVG path data
+     */
+    private toPathData(lines: number[][][], close: boolean, precision: number | null): string {
+        return lines
+            .filter((line) => line.length > 0)
+            .map((line) => {
+                const points = line.map(
+                    ([x, y]) =>
+                        `${this.formatNumber(x, precision)},${this.formatNumber(y, precision)}`
+                );
+                return `M ${points.join(' L ')}${close ? ' Z' : ''}`;
+            })
+            .join(' ');
+    }
+
+    private createPolygonPath(
+        rings: number[][][],
+        params: GisRendererParameters,
+        fill: string
+    ): SvgElementNode {
+        return svgElement('path', {
+            d: this.toPathData(rings, true, params.coordinatePrecision),
+            fill,
+            'fill-rule': 'evenodd',
+            stroke: params.strokeColor,
+            'stroke-width': params.strokeWidth,
+            'stroke-linejoin': 'round',
+            opacity: 0.8,
+        });
+    }
+
+    private createLinePath(lines: number[][][], params: GisRendererParameters): SvgElementNode {
+        return svgElement('path', {
+            d: this.toPathData(lines, false, params.coordinatePrecision),
+            fill: 'none',
+            stroke: params.strokeColor,
+            'stroke-width': params.strokeWidth,
+            'stroke-linejoin': 'round',
+            'stroke-linecap': 'round',
+        });
+    }
+
+    /**
+     * Create a point marker centred on a projected position
+     * @param point Position in output coordinates
+     * @param params Rendering parameters providing the marker shape and size
+     * @param fill Marker fill color
+     * @returns Marker element
+     */
+    private createMarker(
+        [x, y]: number[],
+        params: GisRendererParameters,
+        fill: string
+    ): SvgElementNode {
+        const r = params.markerSize / 2;
+        const style = {
+            fill,
+            stroke: params.strokeColor,
+            'stroke-width': params.strokeWidth,
+        };
+        const polygon = (points: number[][]) =>
+            svgElement('path', {
+                d: this.toPathData([points], true, params.coordinatePrecision),
+                ...style,
+            });
+
+        switch (params.markerShape) {
+            case 'square':
+                return polygon([
+                    [x - r, y - r],
+                    [x + r, y - r],
+                    [x + r, y + r],
+                    [x - r, y + r],
+                ]);
+            case 'triangle':
+                return polygon([
+                    [x, y - r],
+                    [x + r, y + r],
+                    [x - r, y + r],
+                ]);
+            case 'diamond':
+                return polygon([
+                    [x, y - r],
+                    [x + r, y],
+                    [x, y + r],
+                    [x - r, y],
+                ]);
+            default:
+                return svgElement('circle', {
+                    cx: this.formatNumber(x, params.coordinatePrecision),
+                    cy: this.formatNumber(y, params.coordinatePrecision),
+                    r,
+                    ...style,
+                });
+        }
+    }
+
+    private formatNumber(value: number, precision: number | null): number {
+        return precision === null ? value : parseFloat(value.toFixed(precision));
+    }
+
+    /**
+     * Fetch GeoJSON data from URL, once per URL until `retainGeoJsonSources` drops it
      * @param url URL to fetch from
      * @returns Promise resolving to GeoJSON data
      */
-    async fetchGeoJsonData(url: string): Promise<GeoJsonData> {
+    fetchGeoJsonData(url: string): Promise<GeoJsonData> {
+        const resolvedUrl = this.resolveSourceUrl(url);
+        let data = this.geoJsonCache.get(resolvedUrl);
+        if (!data) {
+            const request = this.loadGeoJsonData(resolvedUrl);
+            // Failed requests are not kept, the next render tries again
+            request.catch(() => {
+                if (this.geoJsonCache.get(resolvedUrl) === request) {
+                    this.geoJsonCache.delete(resolvedUrl);
+                }
+            });
+            this.geoJsonCache.set(resolvedUrl, request);
+            data = request;
+        }
+        return data;
+    }
+
+    /**
+     * Drop the fetched data of the URLs no longer used as a source
+     * @param urls Source URLs still in use
+     */
+    retainGeoJsonSources(urls: string[]): void {
+        const retained = new Set(urls.map((url) => this.resolveSourceUrl(url)));
+        [...this.geoJsonCache.keys()]
+            .filter((url) => !retained.has(url))
+            .forEach((url) => this.geoJsonCache.delete(url));
+    }
+
+    private resolveSourceUrl(url: string): string {
+        return url.startsWith('/') ? `${window.location.origin}${url}` : url;
+    }
+
+    private async loadGeoJsonData(resolvedUrl: string): Promise<GeoJsonData> {
         try {
-            const resolvedUrl = url.startsWith('/') ? `${window.location.origin}${url}` : url;
             const response = await fetch(resolvedUrl);
             if (!response.ok) {
                 throw new Error(`HTTP error! status: ${response.status}`);
             }
             const geoJsonResponse = await response.json();
+            const validation = this.validateGeoJsonData(geoJsonResponse);
+            if (!validation.valid) {
+                throw new Error(
+                    `Invalid GeoJSON: ${this.formatValidationIssues(validation.issues)}`
+                );
+            }
             return geoJsonResponse;
         } catch (error) {
             console.warn(error);
@@ -257,13 +1174,21 @@ export class GisRendererService {
      * @returns Promise resolving to SVG string
      */
     async generateGisMap(params: GisRendererParameters): Promise<string> {
+        return wrapSvgFragment(await this.generateGisFragment(params));
+    }
+
+    /**
+     * Generate GIS map markup that can be composed into another SVG
+     * @param params GIS rendering parameters
+     * @returns Promise resolving to an SVG fragment, an error fragment if loading fails
+     */
+    async generateGisFragment(params: GisRendererParameters): Promise<SvgFragment> {
         try {
             const geoJsonData = await this.fetchGeoJsonData(params.sourceUrl);
-            const paths = this.generateGeoJsonPaths(geoJsonData, params);
-            return this.createSvgElement(paths, params);
+            return this.generateGisFragmentFromData(geoJsonData, params);
         } catch (error) {
             console.log(error);
-            return this.createErrorSvg(`Error loading GIS data: ${error}`);
+            return this.createErrorFragment(`Error loading GIS data: ${error}`);
         }
     }
 
@@ -274,91 +1199,494 @@ export class GisRendererService {
      * @returns SVG string
      */
     generateGisMapFromData(geoJsonData: GeoJsonData, params: GisRendererParameters): string {
-        const paths = this.generateGeoJsonPaths(geoJsonData, params);
-        return this.createSvgElement(paths, params);
+        return wrapSvgFragment(this.generateGisFragmentFromData(geoJsonData, params));
+    }
+
+    /**
+     * Generate GIS map markup from provided GeoJSON data
+     * @param geoJsonData GeoJSON data object
+     * @param params GIS rendering parameters
+     * @returns SVG fragment
+     */
+    generateGisFragmentFromData(
+        geoJsonData: GeoJsonData,
+        params: GisRendererParameters
+    ): SvgFragment {
+        const style = this.createFeatureStyle(geoJsonData.features, params);
+        const fragment = this.renderFragment(geoJsonData, params, style);
+        const byteSizeAfter = this.getByteSize(wrapSvgFragment(fragment.fragment));
+        this.setCacheEntry(this.renderStats, this.getRenderStatsKey(params), {
+            vertexCountBefore: fragment.vertexCountBefore,
+            vertexCountAfter: fragment.vertexCountAfter,
+            byteSizeBefore: this.getFullDetailByteSize(geoJsonData, params, style, byteSizeAfter),
+            byteSizeAfter,
+        });
+        return fragment.fragment;
+    }
+
+    /**
+     * Statistics of the last map rendered from the same source with the same simplification and
+     * precision, so layers and animation frames drawn from other sources do not interfere
+     * @param params GIS rendering parameters
+     * @returns Statistics, null if no such map was rendered from data yet
+     */
+    getRenderStats(params: GisRendererParameters): GisRenderStats | null {
+        return this.renderStats.get(this.getRenderStatsKey(params)) ?? null;
+    }
+
+    private getRenderStatsKey(params: GisRendererParameters): string {
+        return JSON.stringify([
+            params.sourceUrl,
+            params.simplification,
+            params.coordinatePrecision,
+        ]);
     }
 
     /**
-     * Create complete SVG element
+     * Size of the map at full detail and precision, to report what simplification and rounding
+     * saved. The full detail size is kept per data set and settings other than the simplification
+     * @param byteSizeAfter Size of the map as rendered, reused when nothing is simplified
+     */
+    private getFullDetailByteSize(
+        geoJsonData: GeoJsonData,
+        params: GisRendererParameters,
+        style: FeatureStyle,
+        byteSizeAfter: number
+    ): number {
+        const fullDetailParams: GisRendererParameters = {
+            ...params,
+            simplification: defaultSimplificationOptions,
+            coordinatePrecision: null,
+        };
+        const key = JSON.stringify(fullDetailParams);
+        if (key === JSON.stringify(params)) return byteSizeAfter;
+
+        let sizes = this.fullDetailSizes.get(geoJsonData);
+        if (!sizes) {
+            sizes = new Map();
+            this.fullDetailSizes.set(geoJsonData, sizes);
+        }
+        let byteSize = sizes.get(key);
+        if (byteSize === undefined) {
+            const original = this.renderFragment(geoJsonData, fullDetailParams, style);
+            byteSize = this.getByteSize(wrapSvgFragment(original.fragment));
+        }
+        this.setCacheEntry(sizes, key, byteSize);
+        return byteSize;
+    }
+
+    /**
+     * Store a value as the most recent entry of a cache, dropping the oldest beyond the limit
+     */
+    private setCacheEntry<T>(cache: Map<string, T>, key: string, value: T): void {
+        cache.delete(key);
+        cache.set(key, value);
+        if (cache.size > RENDER_CACHE_SIZE) {
+            cache.delete(cache.keys().next().value!);
+        }
+    }
+
+    /**
+     * Generate the projected features as path data, without the map furniture
+     * @param params GIS rendering parameters
+     * @returns Promise resolving to the sub-paths of each feature
+     */
+    async generateGisSubPaths(params: GisRendererParameters): Promise<SvgSubPath[]> {
+        const geoJsonData = await this.fetchGeoJsonData(params.sourceUrl);
+        return this.generateGisSubPathsFromData(geoJsonData, params);
+    }
+
+    /**
+     * Generate the projected features of provided GeoJSON data as path data. Each feature gives
+     * one sub-path per fill style, named after its tooltip
+     * @param geoJsonData GeoJSON data object
+     * @param params GIS rendering parameters
+     * @returns Sub-paths in painting order
+     */
+    generateGisSubPathsFromData(
+        geoJsonData: GeoJsonData,
+        params: GisRendererParameters
+    ): SvgSubPath[] {
+        const style = this.createFeatureStyle(geoJsonData.features, params);
+        const { paths } = this.generateGeoJsonPaths(geoJsonData, params, style.fillFor);
+
+        return paths
+            .filter((group) => group.attrs['class'] === 'gis-feature')
+            .flatMap((group) => {
+                const [title, ...elements] = group.children;
+                const name =
+                    title?.type === 'element' && title.children[0]?.type === 'text'
+                        ? title.children[0].value.split('\n')[0]
+                        : 'feature';
+
+                // Markers and rings painted alike are merged into one sub-path
+                const subPaths: SvgSubPath[] = [];
+                elements.forEach((element) => {
+                    if (element.type !== 'element') return;
+                    const d = getElementPathData(element);
+                    if (!d) return;
+                    const fill = String(element.attrs['fill'] ?? params.fillColor);
+                    const fillRule =
+                        element.attrs['fill-rule'] === 'evenodd' ? 'evenodd' : 'nonzero';
+                    const last = subPaths[subPaths.length - 1];
+                    if (last && last.fill === fill && last.fillRule === fillRule) {
+                        last.d = `${last.d} ${d}`;
+                    } else {
+                        subPaths.push({ name, d, fill, fillRule });
+                    }
+                });
+                return subPaths.length > 1
+                    ? subPaths.map((subPath, index) => ({
+                          ...subPath,
+                          name: `${name} ${index + 1}`,
+                      }))
+                    : subPaths;
+            });
+    }
+
+    /**
+     * Render the features, then stack labels, scale bar, north arrow and legend above them
+     * @returns Fragment and the vertex count before and after simplification
+     */
+    private renderFragment(
+        geoJsonData: GeoJsonData,
+        params: GisRendererParameters,
+        style: FeatureStyle
+    ): { fragment: SvgFragment; vertexCountBefore: number; vertexCountAfter: number } {
+        const rendered = this.generateGeoJsonPaths(geoJsonData, params, style.fillFor);
+        const fragment = this.createFragment(rendered.paths, params);
+        if (params.labels) {
+            fragment.content.push(this.createLabels(rendered.labels, params.labels));
+        }
+        fragment.content.push(...rendered.overlays);
+        if (style.legend && params.showLegend) {
+            fragment.content.push(this.createLegend(style.legend, params));
+        }
+        return {
+            fragment,
+            vertexCountBefore: rendered.vertexCountBefore,
+            vertexCountAfter: rendered.vertexCountAfter,
+        };
+    }
+
+    private getByteSize(markup: string): number {
+        return new TextEncoder().encode(markup).length;
+    }
+
+    /**
+     * Choose how features are filled: by choropleth class, cycling through the palette, or plain
+     * @param features GeoJSON features
+     * @param params GIS rendering parameters
+     * @returns Fill color of each feature and the legend of the choropleth, if any
+     */
+    private createFeatureStyle(
+        features: GeoJsonFeature[],
+        params: GisRendererParameters
+    ): FeatureStyle {
+        const property = params.choropleth?.property.trim();
+        if (params.choropleth && property) {
+            const valueOf = (feature: GeoJsonFeature) => feature.properties?.[property];
+            const choropleth = createChoroplethStyle(features.map(valueOf), {
+                ...params.choropleth,
+                property,
+            });
+            return {
+                fillFor: (feature) => choropleth.colorFor(valueOf(feature)),
+                legend: choropleth.legend,
+            };
+        }
+
+        if (params.useRandomColors && params.fillColors.length > 0) {
+            return {
+                fillFor: (_feature, index) => params.fillColors[index % params.fillColors.length],
+                legend: null,
+            };
+        }
+        return { fillFor: () => params.fillColor, legend: null };
+    }
+
+    /**
+     * Create the choropleth legend in the bottom left corner of the viewBox
+     * @param entries Legend entries
+     * @param params GIS rendering parameters
+     * @returns Legend group
+     */
+    private createLegend(entries: LegendEntry[], params: GisRendererParameters): SvgElementNode {
+        const swatch = 14;
+        const lineHeight = 20;
+        const padding = 8;
+        const title = params.choropleth?.property || '';
+        const width =
+            padding * 3 +
+            swatch +
+            Math.max(title.length, ...entries.map((entry) => entry.label.length)) * 7;
+        const height = padding * 2 + lineHeight * (entries.length + 1);
+        const x = -params.viewBoxSize / 2 + 10;
+        const y = params.viewBoxSize / 2 - 10 - height;
+
+        return svgElement(
+            'g',
+            { class: 'gis-legend', 'font-family': 'sans-serif', 'font-size': 12 },
+            [
+                svgElement('rect', {
+                    x,
+                    y,
+                    width,
+                    height,
+                    rx: 4,
+                    fill: '#ffffff',
+                    'fill-opacity': 0.85,
+                    stroke: '#cccccc',
+                }),
+                svgElement(
+                    'text',
+                    { x: x + padding, y: y + padding + 12, 'font-weight': 'bold', fill: '#333333' },
+                    [title]
+                ),
+                ...entries.flatMap((entry, index) => {
+                    const rowY = y + padding + lineHeight * (index + 1);
+                    return [
+                        svgElement('rect', {
+                            x: x + padding,
+                            y: rowY + 3,
+                            width: swatch,
+                            height: swatch,
+                            fill: entry.color,
+                            stroke: params.strokeColor,
+                            'stroke-width': 0.5,
+                        }),
+                        svgElement(
+                            'text',
+                            { x: x + padding * 2 + swatch, y: rowY + 15, fill: '#333333' },
+                            [entry.label]
+                        ),
+                    ];
+                }),
+            ]
+        );
+    }
+
+    /**
+     * Create SVG fragment from path elements
      * @param paths Array of path elements
      * @param params GIS parameters
-     * @returns Complete SVG string
-     */
-    private createSvgElement(paths: string[], params: GisRendererParameters): string {
-        const pathElements = paths.join('\n        ');
-
-        return `
-      <svg width="100%" height="100%" viewBox="${-params.viewBoxSize / 2} ${
-            -params.viewBoxSize / 2
-        } ${params.viewBoxSize} ${params.viewBoxSize}" xmlns="http://www.w3.org/2000/svg">
-        <defs>
-          <linearGradient id="gisGradient" x1="0%" y1="0%" x2="100%" y2="100%">
-            <stop offset="0%" style="stop-color:#4CAF50;stop-opacity:1" />
-            <stop offset="50%" style="stop-color:#2196F3;stop-opacity:0.8" />
-            <stop offset="100%" style="stop-color:#FF9800;stop-opacity:0.6" />
-          </linearGradient>
-          <filter id="gisGlow">
-            <feGaussianBlur stdDeviation="1" result="coloredBlur"/>
-            <feMerge> 
-              <feMergeNode in="coloredBlur"/>
-              <feMergeNode in="SourceGraphic"/>
-            </feMerge>
-          </filter>
-          <filter id="gisShadow">
-            <feDropShadow dx="1" dy="1" stdDeviation="2" flood-color="rgba(0,0,0,0.2)"/>
-          </filter>
-        </defs>
-        <rect width="${params.viewBoxSize}" height="${params.viewBoxSize}" 
-              x="${-params.viewBoxSize / 2}" y="${-params.viewBoxSize / 2}" 
-              stroke="rgba(0,0,0,0.1)" fill="none" stroke-width="1" stroke-dasharray="5,5"/>
-        <g filter="url(#gisShadow)">
-          ${pathElements}
-        </g>
-      </svg>
-    `;
-    }
-
-    /**
-     * Create error SVG when data loading fails
+     * @returns SVG fragment
+     */
+    private createFragment(paths: SvgElementNode[], params: GisRendererParameters): SvgFragment {
+        return {
+            defs: [
+                createLinearGradient('gisGradient', [
+                    { offset: 0, color: '#4CAF50', opacity: 1 },
+                    { offset: 50, color: '#2196F3', opacity: 0.8 },
+                    { offset: 100, color: '#FF9800', opacity: 0.6 },
+                ]),
+                createGlowFilter('gisGlow', 1),
+                svgElement('filter', { id: 'gisShadow' }, [
+                    svgElement('feDropShadow', {
+                        dx: 1,
+                        dy: 1,
+                        stdDeviation: 2,
+                        'flood-color': 'rgba(0,0,0,0.2)',
+                    }),
+                ]),
+            ],
+            content: [svgElement('g', { filter: 'url(#gisShadow)' }, paths)],
+            viewBoxSize: params.viewBoxSize,
+            frame: true,
+        };
+    }
+
+    /**
+     * Create error fragment when data loading fails
      * @param errorMessage Error message to display
-     * @returns Error SVG string
-     */
-    private createErrorSvg(errorMessage: string): string {
-        return `
-      <svg width="100%" height="100%" viewBox="-300 -300 600 600" xmlns="http://www.w3.org/2000/svg">
-        <rect x="-280" y="-280" width="560" height="560" fill="#ffebee" stroke="#f44336" stroke-width="2"/>
-        <text x="0" y="-50" text-anchor="middle" fill="#f44336" font-size="18" font-weight="bold">
-          GIS Loading Error
-        </text>
-        <text x="0" y="0" text-anchor="middle" fill="#666" font-size="12">
-          ${errorMessage}
-        </text>
-        <text x="0" y="50" text-anchor="middle" fill="#999" font-size="10">
-          Check the URL and try again
-        </text>
-      </svg>
-    `;
-    }
-
-    /**
-     * Validate GeoJSON data structure
+     * @param hint Suggestion displayed under the message
+     * @returns Error SVG fragment
+     */
+    createErrorFragment(errorMessage: string, hint = 'Check the URL and try again'): SvgFragment {
+        const text = (y: number, fill: string, fontSize: number, value: string, bold = false) =>
+            svgElement(
+                'text',
+                {
+                    x: 0,
+                    y,
+                    'text-anchor': 'middle',
+                    fill,
+                    'font-size': fontSize,
+                    'font-weight': bold ? 'bold' : null,
+                },
+                [value]
+            );
+
+        return {
+            defs: [],
+            content: [
+                svgElement('rect', {
+                    x: -280,
+                    y: -280,
+                    width: 560,
+                    height: 560,
+                    fill: '#ffebee',
+                    stroke: '#f44336',
+                    'stroke-width': 2,
+                }),
+                text(-50, '#f44336', 18, 'GIS Loading Error', true),
+                text(0, '#666', 12, errorMessage),
+                text(50, '#999', 10, hint),
+            ],
+            viewBoxSize: 600,
+        };
+    }
+
+    /**
+     * Validate GeoJSON data structure, reporting every invalid feature
      * @param data Data to validate
-     * @returns True if valid GeoJSON
-     */
-    validateGeoJsonData(data: any): data is GeoJsonData {
-        return (
-            data &&
-            data.type === 'FeatureCollection' &&
-            Array.isArray(data.features) &&
-            data.features.every(
-                (feature: any) =>
-                    feature.geometry &&
-                    feature.geometry.coordinates &&
-                    Array.isArray(feature.geometry.coordinates)
-            )
+     * @returns Validation result listing the problems found
+     */
+    validateGeoJsonData(data: any): GeoJsonValidationResult {
+        const issues: GeoJsonValidationIssue[] = [];
+        if (!data || typeof data !== 'object') {
+            issues.push({ path: '', message: 'Data is not a JSON object' });
+        } else if (data.type !== 'FeatureCollection') {
+            issues.push({
+                path: 'type',
+                message: `Expected "FeatureCollection" but found ${JSON.stringify(data.type)}`,
+            });
+        } else if (!Array.isArray(data.features)) {
+            issues.push({ path: 'features', message: 'Features must be an array' });
+        } else {
+            data.features.forEach((feature: any, featureIndex: number) => {
+                const path = `features[${featureIndex}]`;
+                const message = this.findFeatureIssue(feature);
+                if (message) {
+                    issues.push({
+                        featureIndex,
+                        path: `${path}${message.path}`,
+                        message: message.text,
+                    });
+                }
+            });
+        }
+
+        return { valid: issues.length === 0, issues };
+    }
+
+    /**
+     * Summarize validation issues for display
+     * @param issues Validation issues
+     * @param limit Maximum number of issues listed
+     * @returns Human readable summary
+     */
+    formatValidationIssues(issues: GeoJsonValidationIssue[], limit = 5): string {
+        const listed = issues
+            .slice(0, limit)
+            .map((issue) => (issue.path ? `${issue.path}: ${issue.message}` : issue.message));
+        if (issues.length > limit) {
+            listed.push(`and ${issues.length - limit} more`);
+        }
+        return listed.join('; ');
+    }
+
+    /**
+     * Find the first problem of a feature
+     * @returns Path relative to the feature and message, or null if the feature is valid
+     */
+    private findFeatureIssue(feature: any): { path: string; text: string } | null {
+        if (!feature || typeof feature !== 'object') {
+            return { path: '', text: 'Feature is not an object' };
+        }
+        if (feature.type !== 'Feature') {
+            return {
+                path: '.type',
+                text: `Expected "Feature" but found ${JSON.stringify(feature.type)}`,
+            };
+        }
+        if (feature.geometry === null) return null;
+        if (feature.geometry === undefined) {
+            return {
+                path: '.geometry',
+                text: 'Geometry is missing, use null for features without one',
+            };
+        }
+
+        return this.findGeometryIssue(feature.geometry, '.geometry');
+    }
+
+    /**
+     * Check a geometry type and the nesting of its coordinates
+     * @param geometry Geometry to check
+     * @param path Path of the geometry, prefixed to the returned path
+     * @returns First problem found, or null if the geometry is valid
+     */
+    private findGeometryIssue(geometry: any, path: string): { path: string; text: string } | null {
+        if (!geometry || typeof geometry !== 'object') {
+            return { path, text: 'Geometry is not an object' };
+        }
+        if (geometry.type === 'GeometryCollection') {
+            if (!Array.isArray(geometry.geometries)) {
+                return { path: `${path}.geometries`, text: 'Geometries must be an array' };
+            }
+            for (let i = 0; i < geometry.geometries.length; i++) {
+                const issue = this.findGeometryIssue(
+                    geometry.geometries[i],
+                    `${path}.geometries[${i}]`
+                );
+                if (issue) return issue;
+            }
+            return null;
+        }
+
+        const depth = COORDINATE_DEPTHS[geometry.type as keyof typeof COORDINATE_DEPTHS];
+        if (depth === undefined) {
+            return {
+                path: `${path}.type`,
+                text: `Unknown geometry type ${JSON.stringify(geometry.type)}`,
+            };
+        }
+        return this.findCoordinatesIssue(
+            geometry.coordinates,
+            depth,
+            `${path}.coordinates`,
+            geometry.type
         );
     }
 
+    private findCoordinatesIssue(
+        value: any,
+        depth: number,
+        path: string,
+        type: GeoJsonGeometry['type']
+    ): { path: string; text: string } | null {
+        if (!Array.isArray(value)) {
+            return {
+                path,
+                text: depth === 0 ? 'Position must be an array' : 'Coordinates must be an array',
+            };
+        }
+        if (depth === 0) {
+            const isPosition =
+                value.length >= 2 && value.every((coordinate) => Number.isFinite(coordinate));
+            return isPosition
+                ? null
+                : { path, text: 'Position must hold at least two finite numbers' };
+        }
+
+        // Lines are lists of positions, rings are lines one level deeper in polygons
+        const isLine = depth === 1 && (type === 'LineString' || type === 'MultiLineString');
+        const isRing = depth === 1 && (type === 'Polygon' || type === 'MultiPolygon');
+        if (isLine && value.length < 2) {
+            return { path, text: 'A line needs at least 2 positions' };
+        }
+        if (isRing && value.length < 4) {
+            return { path, text: 'A polygon ring needs at least 4 positions' };
+        }
+
+        for (let i = 0; i < value.length; i++) {
+            const issue = this.findCoordinatesIssue(value[i], depth - 1, `${path}[${i}]`, type);
+            if (issue) return issue;
+        }
+        return null;
+    }
+
     /**
      * Generate sample GeoJSON data for testing
      * @returns Sample GeoJSON data
@@ -374,13 +1702,11 @@ export class GisRendererService {
                         type: 'Polygon',
                         coordinates: [
                             [
-                                [
-                                    [-1, -1],
-                                    [-1, 1],
-                                    [0, 1],
-                                    [0, -1],
-                                    [-1, -1],
-                                ],
+                                [-1, -1],
+                                [-1, 1],
+                                [0, 1],
+                                [0, -1],
+                                [-1, -1],
                             ],
                         ],
                     },
@@ -392,13 +1718,11 @@ export class GisRendererService {
                         type: 'Polygon',
                         coordinates: [
                             [
-                                [
-                                    [0, -1],
-                                    [0, 1],
-                                    [1, 1],
-                                    [1, -1],
-                                    [0, -1],
-                                ],
+                                [0, -1],
+                                [0, 1],
+                                [1, 1],
+                                [1, -1],
+                                [0, -1],
                             ],
                         ],
                     },
@@ -0,0 +1,514 @@
+import type { SvgParameters } from './svg-generator.service';
+import type {
+    ColorParameterDefinition,
+    NumberParameterDefinition,
+    ShapeParameterDefinition,
+    ShapeParameterKey,
+} from '../generators/shape-parameters';
+import { mixColors } from './choropleth';
+import { namespaceIds, SvgAttributes, SvgElementNode, svgElement, SvgNode } from './svg-dom';
+import { SvgFragment } from './svg-fragment';
+
+/**
+ * Easing of the segment leaving a keyframe, `hold` keeps the value until the next keyframe
+ */
+export type KeyframeEasing = 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out' | 'hold';
+
+export interface Keyframe {
+    /** Seconds from the start of the timeline */
+    time: number;
+    value: number | string;
+    easing: KeyframeEasing;
+}
+
+/**
+ * Keyframes of one parameter of a layer
+ */
+export interface ParameterTrack {
+    key: ShapeParameterKey;
+    keyframes: Keyframe[];
+}
+
+/**
+ * Timing shared by the tracks of every layer
+ */
+export interface AnimationTimeline {
+    /** Length of one cycle in seconds */
+    duration: number;
+    /** Restart when the cycle ends, otherwise hold the last frame */
+    loop: boolean;
+    /** Frames sampled over one cycle, the exported animation interpolates between them */
+    frameCount: number;
+}
+
+export type AnimatableParameterDefinition = NumberParameterDefinition | ColorParameterDefinition;
+
+export const EASING_OPTIONS: { value: KeyframeEasing; label: string }[] = [
+    { value: 'linear', label: 'Linear' },
+    { value: 'ease-in', label: 'Ease In' },
+    { value: 'ease-out', label: 'Ease Out' },
+    { value: 'ease-in-out', label: 'Ease In Out' },
+    { value: 'hold', label: 'Hold' },
+];
+
+export const defaultAnimationTimeline: AnimationTimeline = {
+    duration: 2,
+    loop: true,
+    frameCount: 30,
+};
+
+export const MIN_FRAME_COUNT = 2;
+export const MAX_FRAME_COUNT = 120;
+/** Limits of the timeline duration, in seconds */
+export const MIN_DURATION = 0.1;
+export const MAX_DURATION = 3600;
+
+/** Control points of the CSS easing curves */
+const EASING_CURVES: Record<
+    'ease-in' | 'ease-out' | 'ease-in-out',
+    [number, number, number, number]
+> = {
+    'ease-in': [0.42, 0, 1, 1],
+    'ease-out': [0, 0, 0.58, 1],
+    'ease-in-out': [0.42, 0, 0.58, 1],
+};
+
+const ANIMATION_ELEMENTS = new Set(['animate', 'animateTransform']);
+
+/** Attributes SMIL `<animate>` cannot drive, frames differing in them are stacked instead */
+const STATIC_ATTRIBUTES = new Set(['id', 'class', 'style', 'transform', 'href', 'xlink:href']);
+
+const NUMBER_PATTERN = /[-+]?(?:\d*\.\d+|\d+\.?)(?:e[-+]?\d+)?/gi;
+const INTERPOLABLE_PATTERN =
+    /^(?:[-+]?(?:\d*\.\d+|\d+\.?)(?:e[-+]?\d+)?|#[0-9a-f]{3}|#[0-9a-f]{6})$/i;
+
+export function isAnimatableParameter(
+    definition: ShapeParameterDefinition
+): definition is AnimatableParameterDefinition {
+    return definition.type === 'number' || definition.type === 'color';
+}
+
+/**
+ * Whether the tracks change anything over time, a track with a single keyframe only overrides
+ * its parameter
+ */
+export function isAnimated(tracks: readonly ParameterTrack[]): boolean {
+    return tracks.some((track) =>
+        track.keyframes.some((keyframe) => keyframe.value !== track.keyframes[0].value)
+    );
+}
+
+/**
+ * Value of a track at a time, held before the first and after the last keyframe
+ * @param track Parameter track, keyframes in any order
+ * @param definition Schema of the parameter, counts are rounded to integers
+ * @param time Seconds from the start of the timeline
+ * @returns Interpolated value, or undefined for a track without keyframes
+ */
+export function getTrackValue(
+    track: ParameterTrack,
+    definition: AnimatableParameterDefinition,
+    time: number
+): number | string | undefined {
+    const keyframes = sortKeyframes(track.keyframes);
+    if (keyframes.length === 0) return undefined;
+
+    const nextIndex = keyframes.findIndex((keyframe) => keyframe.time > time);
+    if (nextIndex === 0) return keyframes[0].value;
+    if (nextIndex === -1) return keyframes[keyframes.length - 1].value;
+
+    const from = keyframes[nextIndex - 1];
+    const to = keyframes[nextIndex];
+    const progress = applyEasing(from.easing, (time - from.time) / (to.time - from.time));
+    if (definition.type === 'color') {
+        return mixColors(String(from.value), String(to.value), progress);
+    }
+
+    const value = Number(from.value) + (Number(to.value) - Number(from.value)) * progress;
+    return definition.integer ? Math.round(value) : parseFloat(value.toFixed(4));
+}
+
+/**
+ * Apply the tracks of a layer to its parameters
+ * @param params Parameters of the layer
+ * @param tracks Tracks of the layer
+ * @param definitions Parameter schema of the shape, tracks of parameters it lacks are ignored
+ * @param time Seconds from the start of the timeline
+ * @returns Parameters at that time
+ */
+export function getParametersAt(
+    params: SvgParameters,
+    tracks: readonly ParameterTrack[],
+    definitions: readonly ShapeParameterDefinition[],
+    time: number
+): SvgParameters {
+    const animated: Record<string, unknown> = { ...params };
+    tracks.forEach((track) => {
+        const definition = definitions.find((candidate) => candidate.key === track.key);
+        if (!definition || !isAnimatableParameter(definition)) return;
+
+        const value = getTrackValue(track, definition, time);
+        if (value !== undefined) animated[track.key] = value;
+    });
+    return animated as unknown as SvgParameters;
+}
+
+export function sortKeyframes(keyframes: readonly Keyframe[]): Keyframe[] {
+    return [...keyframes].sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Times at which frames are sampled, from the start to the end of one cycle
+ */
+export function getFrameTimes(timeline: AnimationTimeline): number[] {
+    const count = Math.min(
+        Math.max(Math.round(timeline.frameCount), MIN_FRAME_COUNT),
+        MAX_FRAME_COUNT
+    );
+    return [...Array(count).keys()].map((i) => (timeline.duration * i) / (count - 1));
+}
+
+/**
+ * Combine frames sampled at `getFrameTimes` into one animated fragment. When the frames share
+ * their element structure, the first frame is kept and every attribute that changes gets an
+ * `<animate>` with the sampled values: numbers, colors and paths with the same commands are
+ * interpolated, other values switch. Otherwise each frame is shown in turn
+ * @param frames Fragments in time order
+ * @param timeline Timing of the animation
+ * @returns Animated fragment
+ */
+export function animateFragments(frames: SvgFragment[], timeline: AnimationTimeline): SvgFragment {
+    const keyTimes = frames.map((_, i) => (frames.length > 1 ? i / (frames.length - 1) : 0));
+    const timing = createTiming(timeline);
+    const viewBoxSize = Math.max(...frames.map((frame) => frame.viewBoxSize));
+    const frame = frames.some((fragment) => fragment.frame);
+
+    const defsCount = frames[0].defs.length;
+    const sameDefs = frames.every((fragment) => fragment.defs.length === defsCount);
+    const merged = sameDefs
+        ? mergeNodeLists(
+              frames.map((fragment) => [...fragment.defs, ...fragment.content]),
+              keyTimes,
+              timing
+          )
+        : null;
+    if (merged) {
+        return {
+            defs: merged.slice(0, defsCount),
+            content: merged.slice(defsCount),
+            viewBoxSize,
+            frame,
+        };
+    }
+    return { ...stackFrames(frames, keyTimes, timing), viewBoxSize, frame };
+}
+
+/**
+ * Position in the timeline reached after playing for some time
+ * @param timeline Animation timing
+ * @param time Seconds since the animation started
+ * @returns Seconds from the start of the timeline
+ */
+export function getTimelineTime(timeline: AnimationTimeline, time: number): number {
+    return timeline.loop ? time % timeline.duration : Math.min(time, timeline.duration);
+}
+
+/**
+ * Longest cycle of the SMIL animations in a tree, such as the spin animation
+ * @returns Duration in seconds, 0 when the tree is static
+ */
+export function getAnimationDuration(node: SvgNode): number {
+    if (node.type === 'text') return 0;
+
+    const own = ANIMATION_ELEMENTS.has(node.name) ? parseClockValue(node.attrs['dur']) : 0;
+    return Math.max(own, ...node.children.map(getAnimationDuration));
+}
+
+/**
+ * Replace the SMIL animations of a tree by the values they reach at a time, giving a still
+ * frame whatever the renderer. Handles `<animate>` and `<animateTransform>` with `values`,
+ * `keyTimes`, linear or discrete interpolation, `repeatCount` and `fill="freeze"`
+ * @param node Root of the tree, left untouched
+ * @param time Seconds since the document started
+ * @returns Copy of the tree without animation elements
+ */
+export function freezeAnimations(node: SvgElementNode, time: number): SvgElementNode {
+    const attrs: SvgAttributes = { ...node.attrs };
+    const children: SvgNode[] = [];
+    node.children.forEach((child) => {
+        if (child.type === 'text') {
+            children.push(child);
+            return;
+        }
+        if (!ANIMATION_ELEMENTS.has(child.name)) {
+            children.push(freezeAnimations(child, time));
+            return;
+        }
+
+        const attributeName = String(child.attrs['attributeName'] ?? '');
+        const value = getAnimationValue(child, time);
+        if (!attributeName || value === null) return;
+        if (child.name === 'animateTransform') {
+            const transform = `${child.attrs['type'] ?? 'translate'}(${value})`;
+            const base = attrs[attributeName];
+            attrs[attributeName] =
+                child.attrs['additive'] === 'sum' && base ? `${base} ${transform}` : transform;
+        } else {
+            attrs[attributeName] = value;
+        }
+    });
+    return { ...node, attrs, children };
+}
+
+function applyEasing(easing: KeyframeEasing, t: number): number {
+    const progress = Math.min(Math.max(t, 0), 1);
+    switch (easing) {
+        case 'linear':
+            return progress;
+        case 'hold':
+            return 0;
+        default:
+            return cubicBezier(EASING_CURVES[easing], progress);
+    }
+}
+
+/**
+ * Evaluate a CSS cubic-bezier easing, solving its x polynomial by bisection
+ */
+function cubicBezier([x1, y1, x2, y2]: [number, number, number, number], x: number): number {
+    const sample = (a: number, b: number, t: number) =>
+        3 * a * t * (1 - t) * (1 - t) + 3 * b * t * t * (1 - t) + t * t * t;
+    let low = 0;
+    let high = 1;
+    let t = x;
+    for (let i = 0; i < 30; i++) {
+        if (sample(x1, x2, t) < x) low = t;
+        else high = t;
+        t = (low + high) / 2;
+    }
+    return sample(y1, y2, t);
+}
+
+/**
+ * Value of an animation element at a time
+ * @returns Value, or null when the animation is not in effect
+ */
+function getAnimationValue(animation: SvgElementNode, time: number): string | null {
+    const duration = parseClockValue(animation.attrs['dur']);
+    const values = String(animation.attrs['values'] ?? '')
+        .split(';')
+        .map((value) => value.trim())
+        .filter((value) => value !== '');
+    if (!(duration > 0) || values.length === 0) return null;
+
+    const repeatCount = animation.attrs['repeatCount'];
+    const cycles =
+        repeatCount === 'indefinite' ? Infinity : Number(repeatCount) > 0 ? Number(repeatCount) : 1;
+    let progress = (time % duration) / duration;
+    if (time >= duration * cycles) {
+        if (animation.attrs['fill'] !== 'freeze') return null;
+        progress = 1;
+    }
+
+    const keyTimes = animation.attrs['keyTimes']
+        ? String(animation.attrs['keyTimes']).split(';').map(Number)
+        : values.map((_, i) => (values.length > 1 ? i / (values.length - 1) : 0));
+    const next = keyTimes.findIndex((keyTime) => keyTime > progress);
+    if (next === -1) return values[values.length - 1];
+    if (next === 0) return values[0];
+    if (animation.attrs['calcMode'] === 'discrete') return values[next - 1];
+
+    const local = (progress - keyTimes[next - 1]) / (keyTimes[next] - keyTimes[next - 1]);
+    return interpolateValue(values[next - 1], values[next], local);
+}
+
+/**
+ * Interpolate colors or strings made of numbers in the same layout, such as path data or
+ * rotation values. Other values switch at the end of the interval, as SMIL does
+ */
+function interpolateValue(from: string, to: string, t: number): string {
+    const isColor = (value: string) => /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.test(value);
+    if (isColor(from) && isColor(to)) {
+        return mixColors(expandHexColor(from), expandHexColor(to), t);
+    }
+    if (getPathSignature(from) !== getPathSignature(to)) return from;
+
+    const targets = to.match(NUMBER_PATTERN) ?? [];
+    let index = 0;
+    return from.replace(NUMBER_PATTERN, (match) => {
+        const start = Number(match);
+        const value = start + (Number(targets[index++]) - start) * t;
+        return String(parseFloat(value.toFixed(3)));
+    });
+}
+
+function expandHexColor(color: string): string {
+    return color.length === 4
+        ? `#${[...color.slice(1)].map((digit) => digit + digit).join('')}`
+        : color;
+}
+
+/**
+ * Parse a SMIL clock value such as `2s`, `500ms` or `1.5`
+ * @returns Seconds, 0 when invalid
+ */
+function parseClockValue(value: unknown): number {
+    const match = /^\s*(\d+(?:\.\d+)?)(ms|s|min|h)?\s*$/.exec(String(value ?? ''));
+    if (!match) return 0;
+    const scale = { ms: 0.001, s: 1, min: 60, h: 3600 }[match[2] ?? 's'] ?? 1;
+    return Number(match[1]) * scale;
+}
+
+/**
+ * Timing attributes shared by all the animations of a document
+ */
+function createTiming(timeline: AnimationTimeline): SvgAttributes {
+    return {
+        dur: `${parseFloat(timeline.duration.toFixed(3))}s`,
+        repeatCount: timeline.loop ? 'indefinite' : null,
+        fill: timeline.loop ? null : 'freeze',
+    };
+}
+
+function mergeNodeLists(
+    lists: SvgNode[][],
+    keyTimes: number[],
+    timing: SvgAttributes
+): SvgNode[] | null {
+    const length = lists[0].length;
+    if (lists.some((list) => list.length !== length)) return null;
+
+    const merged: SvgNode[] = [];
+    for (let i = 0; i < length; i++) {
+        const node = mergeNodes(
+            lists.map((list) => list[i]),
+            keyTimes,
+            timing
+        );
+        if (!node) return null;
+        merged.push(node);
+    }
+    return merged;
+}
+
+/**
+ * Merge the same node of every frame, null when the frames differ in structure
+ */
+function mergeNodes(nodes: SvgNode[], keyTimes: number[], timing: SvgAttributes): SvgNode | null {
+    const [first] = nodes;
+    if (first.type === 'text') {
+        return nodes.every((node) => node.type === 'text' && node.value === first.value)
+            ? first
+            : null;
+    }
+
+    const elements = nodes.filter((node): node is SvgElementNode => node.type === 'element');
+    const keys = getAttributeKeys(first);
+    const sameShape = elements.every(
+        (element) =>
+            element.name === first.name &&
+            element.children.length === first.children.length &&
+            getAttributeKeys(element) === keys
+    );
+    if (elements.length !== nodes.length || !sameShape) return null;
+
+    const animations: SvgElementNode[] = [];
+    for (const key of Object.keys(first.attrs)) {
+        const values = elements.map((element) => String(element.attrs[key] ?? ''));
+        if (values.every((value) => value === values[0])) continue;
+        if (STATIC_ATTRIBUTES.has(key)) return null;
+        animations.push(createAnimation(key, values, keyTimes, timing));
+    }
+
+    const children = mergeNodeLists(
+        elements.map((element) => element.children),
+        keyTimes,
+        timing
+    );
+    return children ? { ...first, children: [...children, ...animations] } : null;
+}
+
+function getAttributeKeys(element: SvgElementNode): string {
+    return Object.keys(element.attrs)
+        .filter((key) => element.attrs[key] !== null && element.attrs[key] !== undefined)
+        .sort()
+        .join(' ');
+}
+
+/**
+ * Create the `<animate>` of one attribute. Runs of equal values are shortened to their ends
+ */
+function createAnimation(
+    attributeName: string,
+    values: string[],
+    keyTimes: number[],
+    timing: SvgAttributes
+): SvgElementNode {
+    const calcMode = canInterpolate(attributeName, values) ? 'linear' : 'discrete';
+    const kept = values
+        .map((_, i) => i)
+        .filter(
+            (i) =>
+                i === 0 ||
+                i === values.length - 1 ||
+                values[i] !== values[i - 1] ||
+                (calcMode === 'linear' && values[i] !== values[i + 1])
+        );
+    return svgElement('animate', {
+        attributeName,
+        values: kept.map((i) => values[i]).join(';'),
+        keyTimes: kept.map((i) => parseFloat(keyTimes[i].toFixed(4))).join(';'),
+        calcMode,
+        ...timing,
+    });
+}
+
+/**
+ * Numbers and colors interpolate, path data only when every frame uses the same commands
+ */
+function canInterpolate(attributeName: string, values: string[]): boolean {
+    if (attributeName === 'd') {
+        const signature = getPathSignature(values[0]);
+        return values.every((value) => getPathSignature(value) === signature);
+    }
+    return values.every((value) => INTERPOLABLE_PATTERN.test(value.trim()));
+}
+
+function getPathSignature(d: string): string {
+    return d.replace(NUMBER_PATTERN, '#').replace(/[\s,]+/g, '');
+}
+
+/**
+ * Fallback for frames that do not share their structure: every frame is drawn in its own group,
+ * shown during its slice of the cycle. Ids are namespaced per frame
+ */
+function stackFrames(
+    frames: SvgFragment[],
+    keyTimes: number[],
+    timing: SvgAttributes
+): { defs: SvgNode[]; content: SvgNode[] } {
+    const defs: SvgNode[] = [];
+    const content = frames.map((fragment, i) => {
+        const nodes = namespaceIds([...fragment.defs, ...fragment.content], `frame${i + 1}-`);
+        defs.push(...nodes.slice(0, fragment.defs.length));
+
+        const last = frames.length - 1;
+        const visibility =
+            i === 0
+                ? { values: 'inline;none', keyTimes: [0, keyTimes[1]] }
+                : i === last
+                  ? { values: 'none;inline', keyTimes: [0, 1] }
+                  : { values: 'none;inline;none', keyTimes: [0, keyTimes[i], keyTimes[i + 1]] };
+        return svgElement('g', { display: i === 0 ? null : 'none' }, [
+            ...nodes.slice(fragment.defs.length),
+            svgElement('animate', {
+                attributeName: 'display',
+                values: visibility.values,
+                keyTimes: visibility.keyTimes.map((time) => parseFloat(time.toFixed(4))).join(';'),
+                calcMode: 'discrete',
+                ...timing,
+            }),
+        ]);
+    });
+    return { defs, content };
+}
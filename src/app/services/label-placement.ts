@@ -0,0 +1,204 @@
+import { MinHeap } from './geometry-simplify';
+
+export type LabelPlacement = 'pole' | 'centroid';
+
+export const LABEL_PLACEMENT_OPTIONS: { value: LabelPlacement; label: string }[] = [
+    { value: 'pole', label: 'Pole of Inaccessibility' },
+    { value: 'centroid', label: 'Centroid' },
+];
+
+export const LABEL_FONT_OPTIONS: { value: string; label: string }[] = [
+    { value: 'sans-serif', label: 'Sans Serif' },
+    { value: 'serif', label: 'Serif' },
+    { value: 'monospace', label: 'Monospace' },
+    { value: 'Georgia, serif', label: 'Georgia' },
+    { value: 'Verdana, sans-serif', label: 'Verdana' },
+];
+
+/**
+ * Label waiting for placement, centred on (x, y)
+ */
+export interface LabelCandidate {
+    text: string;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    /** Candidates with a higher priority are placed first, e.g. larger features */
+    priority: number;
+}
+
+/**
+ * Estimate the box of a single line label, glyphs average about 0.6em wide
+ * @param text Label text
+ * @param fontSize Font size in output units
+ * @param halo Halo width, added around the text
+ * @returns Width and height in output units
+ */
+export function estimateLabelSize(
+    text: string,
+    fontSize: number,
+    halo: number
+): { width: number; height: number } {
+    return {
+        width: text.length * fontSize * 0.6 + halo * 2,
+        height: fontSize * 1.2 + halo * 2,
+    };
+}
+
+/**
+ * Greedily keep labels by priority, dropping the ones overlapping a label already kept
+ * @param candidates Labels to place
+ * @returns Kept labels, highest priority first
+ */
+export function placeLabels<T extends LabelCandidate>(candidates: T[]): T[] {
+    const placed: T[] = [];
+    [...candidates]
+        .sort((a, b) => b.priority - a.priority)
+        .forEach((candidate) => {
+            const overlaps = placed.some(
+                (other) =>
+                    Math.abs(candidate.x - other.x) * 2 < candidate.width + other.width &&
+                    Math.abs(candidate.y - other.y) * 2 < candidate.height + other.height
+            );
+            if (!overlaps) placed.push(candidate);
+        });
+    return placed;
+}
+
+/**
+ * Signed area of a ring, positive when counter-clockwise in a y-up system
+ */
+export function ringArea(ring: number[][]): number {
+    let area = 0;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+        area += ring[j][0] * ring[i][1] - ring[i][0] * ring[j][1];
+    }
+    return area / 2;
+}
+
+/**
+ * Area-weighted centroid of a polygon, holes are subtracted
+ * @param rings Exterior ring followed by holes
+ * @returns Centroid, or the first vertex of a degenerate polygon
+ */
+export function polygonCentroid(rings: number[][][]): [number, number] {
+    let area = 0;
+    let x = 0;
+    let y = 0;
+    rings.forEach((ring, index) => {
+        // Holes count negatively whatever their winding
+        const sign = (Math.sign(ringArea(ring)) || 1) * (index === 0 ? 1 : -1);
+        for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+            const cross = (ring[j][0] * ring[i][1] - ring[i][0] * ring[j][1]) * sign;
+            area += cross;
+            x += (ring[j][0] + ring[i][0]) * cross;
+            y += (ring[j][1] + ring[i][1]) * cross;
+        }
+    });
+
+    if (area === 0) {
+        const [first] = rings[0];
+        return first ? [first[0], first[1]] : [0, 0];
+    }
+    return [x / (3 * area), y / (3 * area)];
+}
+
+interface Cell {
+    x: number;
+    y: number;
+    /** Half of the cell side */
+    half: number;
+    /** Distance from the cell centre to the polygon outline, negative outside */
+    distance: number;
+    /** Largest distance a point inside the cell can reach */
+    potential: number;
+}
+
+/**
+ * Find the interior point farthest from the outline, where a label has the most room. Quadtree
+ * search in the manner of Mapbox polylabel
+ * @param rings Exterior ring followed by holes
+ * @param precision Search stops when no cell can improve the result by more than this distance
+ * @returns Pole of inaccessibility
+ */
+export function poleOfInaccessibility(rings: number[][][], precision = 1): [number, number] {
+    const outer = rings[0];
+    if (!outer || outer.length === 0) return [0, 0];
+
+    const xs = outer.map(([x]) => x);
+    const ys = outer.map(([, y]) => y);
+    const minX = Math.min(...xs);
+    const minY = Math.min(...ys);
+    const width = Math.max(...xs) - minX;
+    const height = Math.max(...ys) - minY;
+    const cellSize = Math.min(width, height);
+    if (cellSize === 0) return [minX, minY];
+
+    const createCell = (x: number, y: number, half: number): Cell => {
+        const distance = signedDistanceToPolygon(x, y, rings);
+        return { x, y, half, distance, potential: distance + half * Math.SQRT2 };
+    };
+    const queue = new MinHeap<Cell>((a, b) => b.potential - a.potential);
+    for (let x = minX; x < minX + width; x += cellSize) {
+        for (let y = minY; y < minY + height; y += cellSize) {
+            queue.push(createCell(x + cellSize / 2, y + cellSize / 2, cellSize / 2));
+        }
+    }
+
+    // Start from the centroid, which is often good enough, or the bbox centre
+    const [centroidX, centroidY] = polygonCentroid(rings);
+    let best = createCell(centroidX, centroidY, 0);
+    const center = createCell(minX + width / 2, minY + height / 2, 0);
+    if (center.distance > best.distance) best = center;
+
+    while (queue.size > 0) {
+        const cell = queue.pop()!;
+        if (cell.distance > best.distance) best = cell;
+        if (cell.potential - best.distance <= precision) continue;
+
+        const half = cell.half / 2;
+        queue.push(createCell(cell.x - half, cell.y - half, half));
+        queue.push(createCell(cell.x + half, cell.y - half, half));
+        queue.push(createCell(cell.x - half, cell.y + half, half));
+        queue.push(createCell(cell.x + half, cell.y + half, half));
+    }
+    return [best.x, best.y];
+}
+
+function signedDistanceToPolygon(x: number, y: number, rings: number[][][]): number {
+    let inside = false;
+    let minDistanceSquared = Infinity;
+    rings.forEach((ring) => {
+        for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+            const [ax, ay] = ring[i];
+            const [bx, by] = ring[j];
+            if (ay > y !== by > y && x < ((bx - ax) * (y - ay)) / (by - ay) + ax) {
+                inside = !inside;
+            }
+            minDistanceSquared = Math.min(
+                minDistanceSquared,
+                segmentDistanceSquared(x, y, ring[i], ring[j])
+            );
+        }
+    });
+    return (inside ? 1 : -1) * Math.sqrt(minDistanceSquared);
+}
+
+function segmentDistanceSquared(
+    x: number,
+    y: number,
+    [ax, ay]: number[],
+    [bx, by]: number[]
+): number {
+    const dx = bx - ax;
+    const dy = by - ay;
+    const lengthSquared = dx * dx + dy * dy;
+    const t =
+        lengthSquared === 0
+            ? 0
+            : Math.max(0, Math.min(1, ((x - ax) * dx + (y - ay) * dy) / lengthSquared));
+    const px = ax + t * dx - x;
+    const py = ay + t * dy - y;
+    return px * px + py * py;
+}
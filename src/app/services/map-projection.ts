@@ -0,0 +1,141 @@
+export type MapProjectionType =
+    | 'equirectangular'
+    | 'mercator'
+    | 'lambert-conformal-conic'
+    | 'albers'
+    | 'orthographic';
+
+export interface MapProjectionOptions {
+    type: MapProjectionType;
+    /** Central meridian, in degrees */
+    centerLon: number;
+    /** Latitude of origin, also the point facing the viewer in orthographic */
+    centerLat: number;
+    /** First standard parallel of the conic projections, in degrees */
+    standardParallel1: number;
+    /** Second standard parallel of the conic projections, in degrees */
+    standardParallel2: number;
+}
+
+/**
+ * Converts [lon, lat] in degrees to planar [x, y] with y pointing north, in units of the
+ * sphere radius. Returns null for positions the projection cannot show, such as the far side
+ * of the globe in orthographic
+ */
+export type MapProjection = (lon: number, lat: number) => [number, number] | null;
+
+export const MAP_PROJECTION_OPTIONS: { value: MapProjectionType; label: string }[] = [
+    { value: 'equirectangular', label: 'Equirectangular' },
+    { value: 'mercator', label: 'Web Mercator' },
+    { value: 'lambert-conformal-conic', label: 'Lambert Conformal Conic' },
+    { value: 'albers', label: 'Albers Equal-Area' },
+    { value: 'orthographic', label: 'Orthographic' },
+];
+
+export const defaultMapProjectionOptions: MapProjectionOptions = {
+    type: 'equirectangular',
+    centerLon: 0,
+    centerLat: 0,
+    standardParallel1: 29.5,
+    standardParallel2: 45.5,
+};
+
+/** Mean radius of the Earth, the projections work on a sphere */
+export const EARTH_RADIUS_KM = 6371.0088;
+
+/** Web Mercator cuts the map here so the poles do not go to infinity */
+const MERCATOR_MAX_LATITUDE = 85.0511287798;
+/** Conic projections diverge at the pole opposite their apex */
+const CONIC_MAX_LATITUDE = 89.9;
+const EPSILON = 1e-9;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const clamp = (value: number, limit: number) => Math.min(Math.max(value, -limit), limit);
+
+/**
+ * Difference between a longitude and the central meridian, wrapped to [-PI, PI]
+ */
+function relativeLongitude(lon: number, centerLon: number): number {
+    const delta = toRadians(lon - centerLon);
+    return delta - 2 * Math.PI * Math.floor((delta + Math.PI) / (2 * Math.PI));
+}
+
+function mercatorY(lat: number): number {
+    const phi = toRadians(clamp(lat, MERCATOR_MAX_LATITUDE));
+    return Math.log(Math.tan(Math.PI / 4 + phi / 2));
+}
+
+/**
+ * Create a projection function for the given options
+ * @param options Projection type, center and standard parallels
+ * @returns Projection function
+ */
+export function createMapProjection(options: MapProjectionOptions): MapProjection {
+    const { centerLon, centerLat } = options;
+
+    switch (options.type) {
+        case 'mercator': {
+            const y0 = mercatorY(centerLat);
+            return (lon, lat) => [relativeLongitude(lon, centerLon), mercatorY(lat) - y0];
+        }
+
+        case 'lambert-conformal-conic': {
+            const phi1 = toRadians(options.standardParallel1);
+            const phi2 = toRadians(options.standardParallel2);
+            const t = (phi: number) => Math.tan(Math.PI / 4 + phi / 2);
+            const n =
+                Math.abs(phi1 - phi2) < EPSILON
+                    ? Math.sin(phi1)
+                    : Math.log(Math.cos(phi1) / Math.cos(phi2)) / Math.log(t(phi2) / t(phi1));
+            // Parallels symmetric around the equator make the cone a cylinder
+            if (Math.abs(n) < EPSILON) {
+                return createMapProjection({ ...options, type: 'mercator' });
+            }
+
+            const f = (Math.cos(phi1) * Math.pow(t(phi1), n)) / n;
+            const rho = (lat: number) => f / Math.pow(t(toRadians(clamp(lat, CONIC_MAX_LATITUDE))), n);
+            const rho0 = rho(centerLat);
+            return (lon, lat) => {
+                const theta = n * relativeLongitude(lon, centerLon);
+                const r = rho(lat);
+                return [r * Math.sin(theta), rho0 - r * Math.cos(theta)];
+            };
+        }
+
+        case 'albers': {
+            const phi1 = toRadians(options.standardParallel1);
+            const phi2 = toRadians(options.standardParallel2);
+            const n = (Math.sin(phi1) + Math.sin(phi2)) / 2;
+            if (Math.abs(n) < EPSILON) {
+                return createMapProjection({ ...options, type: 'equirectangular' });
+            }
+
+            const c = Math.cos(phi1) * Math.cos(phi1) + 2 * n * Math.sin(phi1);
+            const rho = (lat: number) => Math.sqrt(Math.max(c - 2 * n * Math.sin(toRadians(lat)), 0)) / n;
+            const rho0 = rho(centerLat);
+            return (lon, lat) => {
+                const theta = n * relativeLongitude(lon, centerLon);
+                const r = rho(lat);
+                return [r * Math.sin(theta), rho0 - r * Math.cos(theta)];
+            };
+        }
+
+        case 'orthographic': {
+            const phi0 = toRadians(centerLat);
+            return (lon, lat) => {
+                const phi = toRadians(lat);
+                const lambda = relativeLongitude(lon, centerLon);
+                const cosC =
+                    Math.sin(phi0) * Math.sin(phi) + Math.cos(phi0) * Math.cos(phi) * Math.cos(lambda);
+                if (cosC < 0) return null;
+                return [
+                    Math.cos(phi) * Math.sin(lambda),
+                    Math.cos(phi0) * Math.sin(phi) - Math.sin(phi0) * Math.cos(phi) * Math.cos(lambda),
+                ];
+            };
+        }
+
+        default:
+            return (lon, lat) => [relativeLongitude(lon, centerLon), toRadians(lat - centerLat)];
+    }
+}
@@ -0,0 +1,69 @@
+import { BooleanOperation, combinePaths, flattenPath, PathRegion, Point } from './path-boolean';
+import { parsePathData, PathSegment } from './svg-path';
+
+/**
+ * Area covered by a combined outline, holes wind the other way and count negatively
+ */
+function getArea(segments: PathSegment[]): number {
+    const signedArea = (ring: Point[]) =>
+        ring.reduce((sum, point, index) => {
+            const next = ring[(index + 1) % ring.length];
+            return sum + (point.x * next.y - next.x * point.y) / 2;
+        }, 0);
+    return Math.abs(flattenPath(segments).reduce((sum, ring) => sum + signedArea(ring), 0));
+}
+
+function square(x: number, y: number, size: number): PathRegion {
+    return {
+        segments: parsePathData(`M${x} ${y}h${size}v${size}h${-size}Z`),
+        fillRule: 'nonzero',
+    };
+}
+
+describe('combinePaths', () => {
+    const first = square(0, 0, 10);
+    const second = square(5, 5, 10);
+
+    const expectedAreas: [BooleanOperation, number][] = [
+        ['union', 175],
+        ['intersection', 25],
+        ['difference', 75],
+        ['xor', 150],
+    ];
+    expectedAreas.forEach(([operation, area]) => {
+        it(`covers the ${operation} of two overlapping squares`, () => {
+            const result = combinePaths([first], [second], operation);
+
+            expect(getArea(result)).toBeCloseTo(area, 6);
+        });
+    });
+
+    it('returns nothing when the squares do not intersect', () => {
+        const result = combinePaths([first], [square(20, 20, 10)], 'intersection');
+
+        expect(result).toEqual([]);
+    });
+
+    it('cuts a hole when the clip lies inside the subject', () => {
+        const result = combinePaths([square(0, 0, 30)], [square(10, 10, 10)], 'difference');
+
+        expect(flattenPath(result).length).toBe(2);
+        expect(getArea(result)).toBeCloseTo(800, 6);
+    });
+
+    it('resolves the overlaps of a shape merged with itself', () => {
+        const result = combinePaths([first, second], [], 'union');
+
+        expect(flattenPath(result).length).toBe(1);
+        expect(getArea(result)).toBeCloseTo(175, 6);
+    });
+
+    it('follows the even-odd rule of the regions', () => {
+        const nested: PathRegion = {
+            segments: parsePathData('M0 0h30v30h-30Z M10 10h10v10h-10Z'),
+            fillRule: 'evenodd',
+        };
+
+        expect(getArea(combinePaths([nested], [], 'union'))).toBeCloseTo(800, 6);
+    });
+});
@@ -0,0 +1,484 @@
+import { Bounds, getPathBounds, PathSegment } from './svg-path';
+
+export type BooleanOperation = 'union' | 'intersection' | 'difference' | 'xor';
+
+export const BOOLEAN_OPERATIONS: { value: BooleanOperation; label: string }[] = [
+    { value: 'union', label: 'Union' },
+    { value: 'intersection', label: 'Intersection' },
+    { value: 'difference', label: 'Difference' },
+    { value: 'xor', label: 'Exclusion (XOR)' },
+];
+
+export type FillRule = 'nonzero' | 'evenodd';
+
+/**
+ * Filled area of a path. A shape made of several paths covers the union of their regions
+ */
+export interface PathRegion {
+    segments: readonly PathSegment[];
+    fillRule: FillRule;
+}
+
+export interface Point {
+    x: number;
+    y: number;
+}
+
+/** Largest distance between a curve and the lines replacing it, in user units */
+export const DEFAULT_FLATTEN_TOLERANCE = 0.1;
+
+/** Most lines a single curve is split into */
+const MAX_CURVE_STEPS = 64;
+
+interface Edge {
+    a: Point;
+    b: Point;
+}
+
+/**
+ * Line by line version of a subpath
+ */
+export interface Polyline {
+    points: Point[];
+    /** Ended by `Z`, so strokes join its ends instead of capping them */
+    closed: boolean;
+}
+
+interface FlatRegion {
+    rings: { points: Point[]; bounds: Bounds }[];
+    fillRule: FillRule;
+}
+
+/**
+ * Replace the curves of a path by lines, each subpath becoming a polyline. Subpaths made of a
+ * single move draw nothing and are left out
+ * @param segments Path segments
+ * @param tolerance Largest distance between a curve and its lines
+ * @returns Polylines, closed ones without repeating the first point at the end
+ */
+export function flattenPolylines(
+    segments: readonly PathSegment[],
+    tolerance = DEFAULT_FLATTEN_TOLERANCE
+): Polyline[] {
+    const polylines: Polyline[] = [];
+    let points: Point[] = [];
+    let drawn = false;
+    let current: Point = { x: 0, y: 0 };
+    const finish = (closed: boolean) => {
+        if (closed && points.length > 1 && samePoint(points[0], points[points.length - 1])) {
+            points.pop();
+        }
+        if (drawn || closed) polylines.push({ points, closed });
+        points = [];
+        drawn = false;
+    };
+
+    segments.forEach((segment) => {
+        switch (segment.type) {
+            case 'M':
+                if (points.length > 0) finish(false);
+                current = { x: segment.x, y: segment.y };
+                points.push(current);
+                break;
+            case 'L':
+                if (points.length === 0) points.push(current);
+                current = { x: segment.x, y: segment.y };
+                points.push(current);
+                drawn = true;
+                break;
+            case 'C': {
+                if (points.length === 0) points.push(current);
+                const { x1, y1, x2, y2, x, y } = segment;
+                // Wang's formula bounds the steps keeping the curve within the tolerance
+                const deviation = Math.max(
+                    Math.hypot(current.x - 2 * x1 + x2, current.y - 2 * y1 + y2),
+                    Math.hypot(x1 - 2 * x2 + x, y1 - 2 * y2 + y)
+                );
+                const steps = Math.min(
+                    Math.max(Math.ceil(Math.sqrt((0.75 * deviation) / tolerance)), 1),
+                    MAX_CURVE_STEPS
+                );
+                const start = current;
+                for (let step = 1; step <= steps; step++) {
+                    const t = step / steps;
+                    const mt = 1 - t;
+                    const a = mt * mt * mt;
+                    const b = 3 * mt * mt * t;
+                    const c = 3 * mt * t * t;
+                    const d = t * t * t;
+                    points.push({
+                        x: a * start.x + b * x1 + c * x2 + d * x,
+                        y: a * start.y + b * y1 + c * y2 + d * y,
+                    });
+                }
+                current = { x, y };
+                drawn = true;
+                break;
+            }
+            case 'Z': {
+                const first = points[0] ?? current;
+                if (points.length === 0) points.push(current);
+                finish(true);
+                current = first;
+                break;
+            }
+        }
+    });
+    if (points.length > 0) finish(false);
+    return polylines;
+}
+
+/**
+ * Replace the curves of a path by lines, each subpath becoming a ring. Open subpaths are
+ * closed the way filling closes them
+ * @param segments Path segments
+ * @param tolerance Largest distance between a curve and its lines
+ * @returns Rings of points, without repeating the first point at the end
+ */
+export function flattenPath(
+    segments: readonly PathSegment[],
+    tolerance = DEFAULT_FLATTEN_TOLERANCE
+): Point[][] {
+    return flattenPolylines(segments, tolerance)
+        .map(({ points }) =>
+            points.length > 1 && samePoint(points[0], points[points.length - 1])
+                ? points.slice(0, -1)
+                : points
+        )
+        .filter((ring) => ring.length > 2);
+}
+
+/**
+ * Combine the areas of two shapes into one outline. Curves are flattened to lines, overlaps
+ * and self-intersections are resolved, so the result draws the same with either fill rule and
+ * has no overlapping edges, as laser cutters and icon fonts expect
+ * @param subject Regions of the first shape
+ * @param clip Regions of the second shape, empty to only merge the first shape with itself
+ * @param operation How the areas combine, difference removes the clip from the subject
+ * @param tolerance Largest distance between a curve and its lines
+ * @returns Closed polygons, outer rings and holes winding in opposite directions
+ */
+export function combinePaths(
+    subject: readonly PathRegion[],
+    clip: readonly PathRegion[],
+    operation: BooleanOperation,
+    tolerance = DEFAULT_FLATTEN_TOLERANCE
+): PathSegment[] {
+    const flatten = (regions: readonly PathRegion[]): FlatRegion[] =>
+        regions.map((region) => ({
+            rings: flattenPath(region.segments, tolerance).map((points) => ({
+                points,
+                bounds: getRingBounds(points),
+            })),
+            fillRule: region.fillRule,
+        }));
+    const subjectRegions = flatten(subject);
+    const clipRegions = flatten(clip);
+
+    const bounds = getPathBounds([...subject, ...clip].flatMap((region) => region.segments));
+    if (!bounds) return [];
+    const extent = Math.max(bounds.maxX - bounds.minX, bounds.maxY - bounds.minY, 1);
+    const epsilon = extent * 1e-9;
+
+    const inside = (point: Point) => {
+        const a = isInside(subjectRegions, point);
+        const b = isInside(clipRegions, point);
+        switch (operation) {
+            case 'union':
+                return a || b;
+            case 'intersection':
+                return a && b;
+            case 'difference':
+                return a && !b;
+            case 'xor':
+                return a !== b;
+        }
+    };
+
+    // Keep the pieces with the result on one side only, turned so it lies on their left
+    const offset = extent * 1e-7;
+    const boundary = splitEdges(
+        [...subjectRegions, ...clipRegions].flatMap((region) =>
+            region.rings.flatMap((ring) => getEdges(ring.points))
+        ),
+        epsilon
+    ).flatMap((edge): Edge[] => {
+        const length = Math.hypot(edge.b.x - edge.a.x, edge.b.y - edge.a.y);
+        const normal = {
+            x: (-(edge.b.y - edge.a.y) / length) * offset,
+            y: ((edge.b.x - edge.a.x) / length) * offset,
+        };
+        const middle = { x: (edge.a.x + edge.b.x) / 2, y: (edge.a.y + edge.b.y) / 2 };
+        const left = inside({ x: middle.x + normal.x, y: middle.y + normal.y });
+        const right = inside({ x: middle.x - normal.x, y: middle.y - normal.y });
+        if (left === right) return [];
+        return [left ? edge : { a: edge.b, b: edge.a }];
+    });
+
+    return linkRings(boundary, epsilon)
+        .map((ring) => removeCollinearPoints(ring, epsilon))
+        .filter((ring) => ring.length > 2 && Math.abs(getRingArea(ring)) > epsilon * extent)
+        .flatMap((ring): PathSegment[] => [
+            { type: 'M', ...ring[0] },
+            ...ring.slice(1).map((point): PathSegment => ({ type: 'L', ...point })),
+            { type: 'Z' },
+        ]);
+}
+
+/**
+ * Edges of a closed ring, skipping repeated points
+ */
+function getEdges(ring: Point[]): Edge[] {
+    return ring
+        .map((point, index) => ({ a: point, b: ring[(index + 1) % ring.length] }))
+        .filter((edge) => !samePoint(edge.a, edge.b));
+}
+
+/**
+ * Split edges where they cross or touch each other, so pieces only meet at their ends.
+ * Pieces covering the same stretch twice are kept once
+ */
+function splitEdges(edges: Edge[], epsilon: number): Edge[] {
+    const cuts: { t: number; point: Point }[][] = edges.map(() => []);
+    const boxes = edges.map(({ a, b }) => ({
+        minX: Math.min(a.x, b.x) - epsilon,
+        minY: Math.min(a.y, b.y) - epsilon,
+        maxX: Math.max(a.x, b.x) + epsilon,
+        maxY: Math.max(a.y, b.y) + epsilon,
+    }));
+
+    // Sweep from left to right, only edges overlapping horizontally can meet
+    const order = edges.map((_edge, index) => index).sort((a, b) => boxes[a].minX - boxes[b].minX);
+    for (let first = 0; first < order.length; first++) {
+        const i = order[first];
+        const box = boxes[i];
+        for (let second = first + 1; second < order.length; second++) {
+            const j = order[second];
+            const other = boxes[j];
+            if (other.minX > box.maxX) break;
+            if (box.maxY < other.minY || other.maxY < box.minY) continue;
+            intersectEdges(edges[i], edges[j], epsilon).forEach(({ t, u, point }) => {
+                // The same point object goes to both edges so their pieces meet exactly
+                cuts[i].push({ t, point });
+                cuts[j].push({ t: u, point });
+            });
+        }
+    }
+
+    const seen = new Set<string>();
+    const pieces: Edge[] = [];
+    edges.forEach((edge, index) => {
+        const points = [
+            edge.a,
+            ...cuts[index]
+                .filter(({ t }) => t > 0 && t < 1)
+                .sort((first, second) => first.t - second.t)
+                .map(({ point }) => point),
+            edge.b,
+        ];
+        for (let k = 1; k < points.length; k++) {
+            const a = points[k - 1];
+            const b = points[k];
+            if (Math.hypot(b.x - a.x, b.y - a.y) <= epsilon) continue;
+            const keys = [pointKey(a, epsilon), pointKey(b, epsilon)].sort();
+            const key = keys.join('|');
+            if (seen.has(key)) continue;
+            seen.add(key);
+            pieces.push({ a, b });
+        }
+    });
+    return pieces;
+}
+
+/**
+ * Points where two edges meet, with their positions along each edge from 0 to 1. Collinear
+ * edges meet at the ends of their overlap
+ */
+function intersectEdges(
+    first: Edge,
+    second: Edge,
+    epsilon: number
+): { t: number; u: number; point: Point }[] {
+    const r = { x: first.b.x - first.a.x, y: first.b.y - first.a.y };
+    const s = { x: second.b.x - second.a.x, y: second.b.y - second.a.y };
+    const q = { x: second.a.x - first.a.x, y: second.a.y - first.a.y };
+    const denominator = cross(r, s);
+    const lengthR = Math.hypot(r.x, r.y);
+    const lengthS = Math.hypot(s.x, s.y);
+
+    if (Math.abs(denominator) > 1e-12 * lengthR * lengthS) {
+        const t = cross(q, s) / denominator;
+        const u = cross(q, r) / denominator;
+        const slackT = epsilon / lengthR;
+        const slackU = epsilon / lengthS;
+        if (t < -slackT || t > 1 + slackT || u < -slackU || u > 1 + slackU) return [];
+        // Reuse an end point when the edges only touch there
+        const point =
+            Math.abs(u) <= slackU
+                ? second.a
+                : Math.abs(u - 1) <= slackU
+                  ? second.b
+                  : Math.abs(t) <= slackT
+                    ? first.a
+                    : Math.abs(t - 1) <= slackT
+                      ? first.b
+                      : { x: first.a.x + t * r.x, y: first.a.y + t * r.y };
+        return [{ t, u, point }];
+    }
+
+    // Parallel edges only meet when they lie on the same line
+    if (Math.abs(cross(q, r)) > epsilon * lengthR) return [];
+    const along = (point: Point, origin: Point, direction: Point, length: number) =>
+        ((point.x - origin.x) * direction.x + (point.y - origin.y) * direction.y) /
+        (length * length);
+    return [
+        { t: along(second.a, first.a, r, lengthR), u: 0, point: second.a },
+        { t: along(second.b, first.a, r, lengthR), u: 1, point: second.b },
+        { t: 0, u: along(first.a, second.a, s, lengthS), point: first.a },
+        { t: 1, u: along(first.b, second.a, s, lengthS), point: first.b },
+    ].filter(({ t, u }) => t >= 0 && t <= 1 && u >= 0 && u <= 1);
+}
+
+/**
+ * Whether a point lies in any region, by the fill rule of each
+ */
+function isInside(regions: FlatRegion[], point: Point): boolean {
+    return regions.some((region) => {
+        // Rings wind zero times around points outside their bounds
+        const winding = region.rings.reduce(
+            (total, { points, bounds }) =>
+                point.x < bounds.minX ||
+                point.x > bounds.maxX ||
+                point.y < bounds.minY ||
+                point.y > bounds.maxY
+                    ? total
+                    : total + getWinding(points, point),
+            0
+        );
+        return region.fillRule === 'evenodd' ? winding % 2 !== 0 : winding !== 0;
+    });
+}
+
+/**
+ * Winding number of a ring around a point
+ */
+function getWinding(ring: Point[], point: Point): number {
+    let winding = 0;
+    ring.forEach((a, index) => {
+        const b = ring[(index + 1) % ring.length];
+        const side = cross({ x: b.x - a.x, y: b.y - a.y }, { x: point.x - a.x, y: point.y - a.y });
+        if (a.y <= point.y) {
+            if (b.y > point.y && side > 0) winding++;
+        } else if (b.y <= point.y && side < 0) {
+            winding--;
+        }
+    });
+    return winding;
+}
+
+/**
+ * Chain edges end to start into closed rings. Where several edges leave the same point, the
+ * one turning most towards the inside is followed, so shapes touching at a corner stay apart
+ */
+function linkRings(edges: Edge[], epsilon: number): Point[][] {
+    const outgoing = new Map<string, number[]>();
+    edges.forEach((edge, index) => {
+        const key = pointKey(edge.a, epsilon);
+        outgoing.set(key, [...(outgoing.get(key) ?? []), index]);
+    });
+
+    const used = new Set<number>();
+    const rings: Point[][] = [];
+    edges.forEach((first, firstIndex) => {
+        if (used.has(firstIndex)) return;
+        used.add(firstIndex);
+        const ring = [first.a];
+        const startKey = pointKey(first.a, epsilon);
+        let edge = first;
+
+        while (pointKey(edge.b, epsilon) !== startKey) {
+            const direction = { x: edge.b.x - edge.a.x, y: edge.b.y - edge.a.y };
+            const candidates = (outgoing.get(pointKey(edge.b, epsilon)) ?? []).filter(
+                (index) => !used.has(index)
+            );
+            if (candidates.length === 0) break;
+            const turn = (index: number) => {
+                const next = edges[index];
+                const nextDirection = { x: next.b.x - next.a.x, y: next.b.y - next.a.y };
+                return Math.atan2(cross(direction, nextDirection), dot(direction, nextDirection));
+            };
+            const nextIndex = candidates.reduce((best, index) =>
+                turn(index) > turn(best) ? index : best
+            );
+            used.add(nextIndex);
+            ring.push(edge.b);
+            edge = edges[nextIndex];
+        }
+        rings.push(ring);
+    });
+    return rings;
+}
+
+/**
+ * Drop points lying on the straight line between their neighbours
+ */
+function removeCollinearPoints(ring: Point[], epsilon: number): Point[] {
+    let points = ring;
+    let changed = true;
+    while (changed && points.length > 2) {
+        changed = false;
+        const kept = points.filter((point, index) => {
+            const previous = points[(index - 1 + points.length) % points.length];
+            const next = points[(index + 1) % points.length];
+            const a = { x: point.x - previous.x, y: point.y - previous.y };
+            const b = { x: next.x - point.x, y: next.y - point.y };
+            // Distance from the point to the line joining its neighbours
+            const distance = Math.abs(cross(a, b)) / Math.hypot(a.x + b.x, a.y + b.y);
+            return !(distance <= epsilon && dot(a, b) > 0);
+        });
+        changed = kept.length !== points.length;
+        points = kept;
+    }
+    return points;
+}
+
+/**
+ * Signed area of a ring, positive when it turns clockwise in y-down coordinates
+ */
+function getRingArea(ring: Point[]): number {
+    return (
+        ring.reduce((total, point, index) => {
+            const next = ring[(index + 1) % ring.length];
+            return total + point.x * next.y - next.x * point.y;
+        }, 0) / 2
+    );
+}
+
+function getRingBounds(points: Point[]): Bounds {
+    return points.reduce(
+        (bounds, { x, y }) => ({
+            minX: Math.min(bounds.minX, x),
+            minY: Math.min(bounds.minY, y),
+            maxX: Math.max(bounds.maxX, x),
+            maxY: Math.max(bounds.maxY, y),
+        }),
+        { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity }
+    );
+}
+
+function pointKey(point: Point, epsilon: number): string {
+    const grid = epsilon * 10;
+    return `${Math.round(point.x / grid)},${Math.round(point.y / grid)}`;
+}
+
+function samePoint(a: Point, b: Point): boolean {
+    return a.x === b.x && a.y === b.y;
+}
+
+function cross(a: Point, b: Point): number {
+    return a.x * b.y - a.y * b.x;
+}
+
+function dot(a: Point, b: Point): number {
+    return a.x * b.x + a.y * b.y;
+}
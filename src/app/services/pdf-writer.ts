@@ -0,0 +1,522 @@
+import { ByteWriter, deflate } from './byte-writer';
+import { Matrix, multiplyMatrix, PathSegment } from './svg-path';
+import {
+    GradientStop,
+    RgbColor,
+    layoutStandardText,
+    VectorPage,
+    VectorPaint,
+    VectorPath,
+    VectorStyle,
+    VectorText,
+} from './vector-document';
+import { getStandardFontName, toLatin1 } from './standard-fonts';
+
+/** PDF names of the CSS blend modes, the separable and non-separable ones PDF 1.4 defines */
+const BLEND_MODES: Record<string, string> = {
+    multiply: 'Multiply',
+    screen: 'Screen',
+    overlay: 'Overlay',
+    darken: 'Darken',
+    lighten: 'Lighten',
+    'color-dodge': 'ColorDodge',
+    'color-burn': 'ColorBurn',
+    'hard-light': 'HardLight',
+    'soft-light': 'SoftLight',
+    difference: 'Difference',
+    exclusion: 'Exclusion',
+    hue: 'Hue',
+    saturation: 'Saturation',
+    color: 'Color',
+    luminosity: 'Luminosity',
+};
+
+const LINE_JOINS = { miter: 0, round: 1, bevel: 2 };
+const LINE_CAPS = { butt: 0, round: 1, square: 2 };
+
+/** Extent of the soft mask forms of translucent gradients, in gradient space */
+const MASK_EXTENT = 1e5;
+
+type GradientPaint = Exclude<VectorPaint, { type: 'color' }>;
+
+interface PdfResourceEntry {
+    name: string;
+    source: string;
+    /** Gradient whose stop opacities the graphics state masks with */
+    mask?: GradientPaint;
+}
+
+/**
+ * Metadata written into the document information dictionary
+ */
+export interface PdfMetadata {
+    title: string;
+    creator: string;
+}
+
+/**
+ * Write a single page vector PDF. Paths keep their curves, fill rules, joins, caps and
+ * dashes, gradients become smooth shadings and opacity becomes PDF transparency. Text is set
+ * in the standard Helvetica font
+ * @param page Page content and geometry
+ * @param metadata Document information
+ * @returns PDF file
+ */
+export async function writePdf(page: VectorPage, metadata: PdfMetadata): Promise<Blob> {
+    const builder = new PdfBuilder();
+    const resources = new PdfResources(builder);
+    const content = new PdfContentWriter(resources);
+    content.writePage(page);
+
+    const contentRef = await builder.addStream('', encodeLatin1(content.toString()));
+    const pagesRef = builder.reserve();
+    const box = (inset: number) =>
+        `[${[inset, inset, page.width - inset, page.height - inset].map(formatNumber).join(' ')}]`;
+    const pageRef = builder.add(
+        `<< /Type /Page /Parent ${pagesRef} 0 R /MediaBox ${box(0)} /BleedBox ${box(0)} ` +
+            `/TrimBox ${box(page.bleed)} /ArtBox ${box(page.bleed)} /Contents ${contentRef} 0 R ` +
+            `/Resources ${await resources.write()}` +
+            (resources.usesTransparency ? ' /Group << /S /Transparency /CS /DeviceRGB >>' : '') +
+            ' >>'
+    );
+    builder.set(pagesRef, `<< /Type /Pages /Kids [${pageRef} 0 R] /Count 1 >>`);
+    const catalogRef = builder.add(`<< /Type /Catalog /Pages ${pagesRef} 0 R >>`);
+    const infoRef = builder.add(
+        `<< /Title ${formatString(metadata.title)} /Creator ${formatString(metadata.creator)} ` +
+            `/Producer ${formatString(metadata.creator)} /CreationDate ${formatString(formatDate(new Date()))} >>`
+    );
+    return new Blob([builder.finish(catalogRef, infoRef)], { type: 'application/pdf' });
+}
+
+/**
+ * Numbers as PDF and PostScript accept them: no exponents, at most 4 decimals
+ */
+export function formatNumber(value: number): string {
+    const rounded = parseFloat(value.toFixed(4));
+    return Object.is(rounded, -0) ? '0' : String(rounded);
+}
+
+/**
+ * Function dictionary interpolating the colors of gradient stops, shared by PDF and
+ * PostScript level 3 shadings
+ * @param stops Gradient stops
+ * @param channel Maps a stop to its color components, e.g. its RGB color or its opacity
+ * @returns Function dictionary source
+ */
+export function formatGradientFunction(
+    stops: readonly GradientStop[],
+    channel: (stop: GradientStop) => number[]
+): string {
+    // Shadings cover 0 to 1, the end colors extend to the missing ends
+    const padded = [
+        { ...stops[0], offset: 0 },
+        ...stops,
+        { ...stops[stops.length - 1], offset: 1 },
+    ];
+    const functions: string[] = [];
+    const bounds: number[] = [];
+    for (let i = 1; i < padded.length; i++) {
+        if (i > 1) bounds.push(padded[i - 1].offset);
+        const from = channel(padded[i - 1])
+            .map(formatNumber)
+            .join(' ');
+        const to = channel(padded[i]).map(formatNumber).join(' ');
+        functions.push(`<< /FunctionType 2 /Domain [0 1] /C0 [${from}] /C1 [${to}] /N 1 >>`);
+    }
+    return (
+        `<< /FunctionType 3 /Domain [0 1] /Functions [${functions.join(' ')}] ` +
+        `/Bounds [${bounds.map(formatNumber).join(' ')}] ` +
+        `/Encode [${functions.map(() => '0 1').join(' ')}] >>`
+    );
+}
+
+/**
+ * Shading dictionary entries of a gradient, without the function
+ */
+export function formatShadingGeometry(paint: GradientPaint): string {
+    if (paint.type === 'linear-gradient') {
+        const coords = [paint.x1, paint.y1, paint.x2, paint.y2].map(formatNumber).join(' ');
+        return `/ShadingType 2 /Coords [${coords}] /Extend [true true]`;
+    }
+    const coords = [paint.fx, paint.fy, 0, paint.cx, paint.cy, paint.r].map(formatNumber).join(' ');
+    return `/ShadingType 3 /Coords [${coords}] /Extend [true true]`;
+}
+
+/**
+ * Color standing in for a gradient where shadings cannot be used, such as strokes and text
+ */
+export function getGradientMiddleColor(paint: VectorPaint): RgbColor {
+    if (paint.type === 'color') return paint.color;
+    return paint.stops[Math.floor((paint.stops.length - 1) / 2)].color;
+}
+
+/**
+ * Collects the indirect objects of a PDF and writes them with their cross-reference table
+ */
+class PdfBuilder {
+    private objects: (Uint8Array | null)[] = [];
+
+    reserve(): number {
+        this.objects.push(null);
+        return this.objects.length;
+    }
+
+    add(source: string): number {
+        const ref = this.reserve();
+        this.set(ref, source);
+        return ref;
+    }
+
+    set(ref: number, source: string): void {
+        this.objects[ref - 1] = encodeLatin1(source);
+    }
+
+    /**
+     * Add a compressed stream object
+     * @param dictionary Extra dictionary entries
+     * @param data Uncompressed stream data
+     */
+    async addStream(dictionary: string, data: Uint8Array<ArrayBuffer>): Promise<number> {
+        const compressed = await deflate(data);
+        const ref = this.reserve();
+        this.objects[ref - 1] = new ByteWriter()
+            .bytes(
+                encodeLatin1(
+                    `<< ${dictionary} /Filter /FlateDecode /Length ${compressed.length} >>\nstream\n`
+                )
+            )
+            .bytes(compressed)
+            .bytes(encodeLatin1('\nendstream'))
+            .toUint8Array();
+        return ref;
+    }
+
+    finish(catalogRef: number, infoRef: number): Uint8Array<ArrayBuffer> {
+        const writer = new ByteWriter();
+        // The binary comment tells transfer tools the file is not plain text
+        writer.bytes(encodeLatin1('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n'));
+
+        const offsets = this.objects.map((object, index) => {
+            const offset = writer.size;
+            writer.bytes(encodeLatin1(`${index + 1} 0 obj\n`));
+            writer.bytes(object ?? encodeLatin1('null'));
+            writer.bytes(encodeLatin1('\nendobj\n'));
+            return offset;
+        });
+
+        const xref = writer.size;
+        const entries = offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`);
+        writer.bytes(
+            encodeLatin1(
+                `xref\n0 ${this.objects.length + 1}\n0000000000 65535 f \n${entries.join('')}` +
+                    `trailer\n<< /Size ${this.objects.length + 1} /Root ${catalogRef} 0 R /Info ${infoRef} 0 R >>\n` +
+                    `startxref\n${xref}\n%%EOF\n`
+            )
+        );
+        return writer.toUint8Array();
+    }
+}
+
+/**
+ * Named resources used by the page content: fonts, graphics states and shadings
+ */
+class PdfResources {
+    usesTransparency = false;
+    private fonts = new Map<string, string>();
+    private graphicsStates = new Map<string, PdfResourceEntry>();
+    private shadings = new Map<string, PdfResourceEntry>();
+
+    constructor(private builder: PdfBuilder) {}
+
+    getFont(bold: boolean): string {
+        const baseFont = getStandardFontName(bold);
+        let name = this.fonts.get(baseFont);
+        if (!name) {
+            name = `F${this.fonts.size + 1}`;
+            this.fonts.set(baseFont, name);
+        }
+        return name;
+    }
+
+    /**
+     * Graphics state for the opacity and blend mode of a shape
+     * @returns Resource name, or null when the defaults apply
+     */
+    getGraphicsState(fillOpacity: number, strokeOpacity: number, blendMode: string): string | null {
+        const blend = BLEND_MODES[blendMode];
+        if (fillOpacity >= 1 && strokeOpacity >= 1 && !blend) return null;
+
+        this.usesTransparency = true;
+        const source =
+            `<< /Type /ExtGState /ca ${formatNumber(fillOpacity)} /CA ${formatNumber(strokeOpacity)}` +
+            (blend ? ` /BM /${blend}` : '') +
+            ' >>';
+        return this.register(this.graphicsStates, source, 'GS');
+    }
+
+    /**
+     * Graphics state masking a gradient with the opacity of its stops
+     */
+    getGradientMask(paint: GradientPaint): string {
+        this.usesTransparency = true;
+        const opacity = formatGradientFunction(paint.stops, (stop) => [stop.opacity]);
+        return this.register(
+            this.graphicsStates,
+            `mask ${formatShadingGeometry(paint)} ${opacity}`,
+            'GS',
+            paint
+        );
+    }
+
+    getShading(paint: GradientPaint): string {
+        const source =
+            `<< ${formatShadingGeometry(paint)} /ColorSpace /DeviceRGB ` +
+            `/Function ${formatGradientFunction(paint.stops, ({ color }) => [color.r, color.g, color.b])} >>`;
+        return this.register(this.shadings, source, 'Sh');
+    }
+
+    /**
+     * Write the objects the resources need
+     * @returns Resource dictionary
+     */
+    async write(): Promise<string> {
+        const fonts = [...this.fonts].map(([baseFont, name]) => {
+            const ref = this.builder.add(
+                `<< /Type /Font /Subtype /Type1 /BaseFont /${baseFont} /Encoding /WinAnsiEncoding >>`
+            );
+            return `/${name} ${ref} 0 R`;
+        });
+
+        const states: string[] = [];
+        for (const { name, source, mask } of this.graphicsStates.values()) {
+            const ref = mask
+                ? this.builder.add(await this.createMaskState(mask))
+                : this.builder.add(source);
+            states.push(`/${name} ${ref} 0 R`);
+        }
+
+        const shadings = [...this.shadings.values()].map(({ name, source }) => {
+            return `/${name} ${this.builder.add(source)} 0 R`;
+        });
+
+        return (
+            '<< /ProcSet [/PDF /Text]' +
+            (fonts.length ? ` /Font << ${fonts.join(' ')} >>` : '') +
+            (states.length ? ` /ExtGState << ${states.join(' ')} >>` : '') +
+            (shadings.length ? ` /Shading << ${shadings.join(' ')} >>` : '') +
+            ' >>'
+        );
+    }
+
+    /**
+     * Soft mask whose luminosity is the gradient's opacity, painted by a form of the same shading in gray
+     */
+    private async createMaskState(paint: GradientPaint): Promise<string> {
+        const shading =
+            `<< ${formatShadingGeometry(paint)} /ColorSpace /DeviceGray ` +
+            `/Function ${formatGradientFunction(paint.stops, (stop) => [stop.opacity])} >>`;
+        const extent = formatNumber(MASK_EXTENT);
+        const form = await this.builder.addStream(
+            `/Type /XObject /Subtype /Form /BBox [-${extent} -${extent} ${extent} ${extent}] ` +
+                `/Group << /S /Transparency /CS /DeviceGray >> /Resources << /Shading << /Sh ${shading} >> >>`,
+            encodeLatin1('/Sh sh')
+        );
+        return `<< /Type /ExtGState /SMask << /Type /Mask /S /Luminosity /G ${form} 0 R >> >>`;
+    }
+
+    /**
+     * Name of a resource, registering it the first time it is used
+     * @param key Source of the resource, identical resources share a name
+     */
+    private register(
+        registry: Map<string, PdfResourceEntry>,
+        key: string,
+        prefix: string,
+        mask?: GradientPaint
+    ): string {
+        let entry = registry.get(key);
+        if (!entry) {
+            entry = { name: `${prefix}${registry.size + 1}`, source: key, mask };
+            registry.set(key, entry);
+        }
+        return entry.name;
+    }
+}
+
+/**
+ * Builds the content stream of a page
+ */
+class PdfContentWriter {
+    private operators: string[] = [];
+
+    constructor(private resources: PdfResources) {}
+
+    writePage(page: VectorPage): void {
+        const { x, y, width, height } = page.clip;
+        this.push(`q ${[x, y, width, height].map(formatNumber).join(' ')} re W n`);
+        page.items.forEach((item) => {
+            this.push('q');
+            this.push(`${formatMatrix(multiplyMatrix(page.matrix, item.matrix))} cm`);
+            if (item.type === 'path') {
+                this.writePath(item);
+            } else {
+                this.writeText(item);
+            }
+            this.push('Q');
+        });
+        this.push('Q');
+    }
+
+    toString(): string {
+        return this.operators.join('\n');
+    }
+
+    private writePath(item: VectorPath): void {
+        const { style } = item;
+        const fill = style.fillOpacity > 0 ? style.fill : null;
+        const stroke = style.strokeOpacity > 0 ? style.stroke : null;
+        if (!fill && !stroke) return;
+
+        const state = this.resources.getGraphicsState(
+            fill ? style.fillOpacity : 1,
+            stroke ? style.strokeOpacity : 1,
+            style.blendMode
+        );
+        if (state) this.push(`/${state} gs`);
+        if (stroke) this.writeStrokeStyle(style, stroke);
+
+        const path = formatPath(item.segments);
+        const evenOdd = style.fillRule === 'evenodd';
+        const paintFill = () => {
+            if (!fill) return;
+            if (fill.type === 'color') {
+                this.push(`${formatColor(fill.color)} rg`, path, evenOdd ? 'f*' : 'f');
+            } else {
+                this.writeGradientFill(path, evenOdd, fill);
+            }
+        };
+        const paintStroke = () => {
+            if (stroke) this.push(path, 'S');
+        };
+
+        if (fill?.type === 'color' && stroke && !style.strokeFirst) {
+            // Fill and stroke in one go
+            this.push(`${formatColor(fill.color)} rg`, path, evenOdd ? 'B*' : 'B');
+        } else if (style.strokeFirst) {
+            paintStroke();
+            paintFill();
+        } else {
+            paintFill();
+            paintStroke();
+        }
+    }
+
+    private writeText(item: VectorText): void {
+        const { style } = item;
+        const fill = style.fillOpacity > 0 ? style.fill : null;
+        const stroke = style.strokeOpacity > 0 ? style.stroke : null;
+        if (!fill && !stroke) return;
+
+        const state = this.resources.getGraphicsState(
+            fill ? style.fillOpacity : 1,
+            stroke ? style.strokeOpacity : 1,
+            style.blendMode
+        );
+        if (state) this.push(`/${state} gs`);
+        if (fill) this.push(`${formatColor(getGradientMiddleColor(fill))} rg`);
+        if (stroke) this.writeStrokeStyle(style, stroke);
+
+        const { text, x, y } = layoutStandardText(item);
+        const font = this.resources.getFont(item.bold);
+        // The document is y-down, flip the text matrix so glyphs stay upright
+        const show = (mode: number) =>
+            this.push(
+                `BT /${font} ${formatNumber(item.fontSize)} Tf ${mode} Tr ` +
+                    `1 0 0 -1 ${formatNumber(x)} ${formatNumber(y)} Tm ${formatString(text)} Tj ET`
+            );
+
+        if (fill && stroke) {
+            if (style.strokeFirst) {
+                show(1);
+                show(0);
+            } else {
+                show(2);
+            }
+        } else {
+            show(fill ? 0 : 1);
+        }
+    }
+
+    private writeStrokeStyle(style: VectorStyle, stroke: VectorPaint): void {
+        this.push(
+            `${formatColor(getGradientMiddleColor(stroke))} RG`,
+            `${formatNumber(style.strokeWidth)} w ${LINE_JOINS[style.lineJoin]} j ` +
+                `${LINE_CAPS[style.lineCap]} J ${formatNumber(style.miterLimit)} M`,
+            `[${style.dashArray.map(formatNumber).join(' ')}] ${formatNumber(style.dashOffset)} d`
+        );
+    }
+
+    /**
+     * Clip to the shape and paint the gradient's shading, masked by the stop opacities
+     */
+    private writeGradientFill(path: string, evenOdd: boolean, paint: GradientPaint): void {
+        const shading = this.resources.getShading(paint);
+        this.push('q', path, evenOdd ? 'W* n' : 'W n', `${formatMatrix(paint.matrix)} cm`);
+        if (paint.stops.some((stop) => stop.opacity < 1)) {
+            this.push(`/${this.resources.getGradientMask(paint)} gs`);
+        }
+        this.push(`/${shading} sh`, 'Q');
+    }
+
+    private push(...operators: string[]): void {
+        this.operators.push(...operators);
+    }
+}
+
+function formatPath(segments: readonly PathSegment[]): string {
+    return segments
+        .map((segment) => {
+            switch (segment.type) {
+                case 'M':
+                    return `${formatNumber(segment.x)} ${formatNumber(segment.y)} m`;
+                case 'L':
+                    return `${formatNumber(segment.x)} ${formatNumber(segment.y)} l`;
+                case 'C': {
+                    const { x1, y1, x2, y2, x, y } = segment;
+                    return `${[x1, y1, x2, y2, x, y].map(formatNumber).join(' ')} c`;
+                }
+                case 'Z':
+                    return 'h';
+            }
+        })
+        .join(' ');
+}
+
+function formatMatrix(matrix: Matrix): string {
+    return matrix.map(formatNumber).join(' ');
+}
+
+function formatColor({ r, g, b }: RgbColor): string {
+    return [r, g, b].map(formatNumber).join(' ');
+}
+
+/**
+ * Literal string, escaping the delimiters. Characters must already be Latin-1
+ */
+function formatString(text: string): string {
+    return `(${toLatin1(text).replace(/[\\()]/g, (char) => `\\${char}`)})`;
+}
+
+function formatDate(date: Date): string {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return (
+        `D:${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+        `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`
+    );
+}
+
+function encodeLatin1(text: string): Uint8Array<ArrayBuffer> {
+    const bytes = new Uint8Array(text.length);
+    for (let i = 0; i < text.length; i++) bytes[i] = text.charCodeAt(i) & 0xff;
+    return bytes;
+}
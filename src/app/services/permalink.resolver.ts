@@ -0,0 +1,26 @@
+import { inject } from '@angular/core';
+import { ResolveFn } from '@angular/router';
+import { PermalinkRestoreResult, PermalinkService } from './permalink.service';
+import { SvgGeneratorService } from './svg-generator.service';
+
+/**
+ * Route resolver applying the document encoded in the URL before the generator renders
+ */
+export const permalinkResolver: ResolveFn<PermalinkRestoreResult | null> = (route) => {
+    const permalinkService = inject(PermalinkService);
+    const svgGeneratorService = inject(SvgGeneratorService);
+    const result = permalinkService.restore(route.queryParamMap);
+    if (result) {
+        const layers = result.layers.map(({ parameters, ...settings }) =>
+            svgGeneratorService.createLayer(parameters, settings)
+        );
+        svgGeneratorService.setDocument(
+            { layers, activeLayerId: layers[result.activeLayerIndex].id, timeline: result.timeline },
+            { skipHistory: true }
+        );
+    } else {
+        // Keep the address bar describing the design when navigating without a permalink
+        permalinkService.write(svgGeneratorService.getCurrentDocument());
+    }
+    return result;
+};
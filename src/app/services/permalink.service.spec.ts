@@ -0,0 +1,208 @@
+import { Location } from '@angular/common';
+import { convertToParamMap } from '@angular/router';
+import { GisGenerator } from '../generators/gis.generator';
+import { PolygonGenerator } from '../generators/polygon.generator';
+import { GeoDataImportService } from './geo-data-import.service';
+import { GisRendererService } from './gis-renderer.service';
+import { PermalinkService } from './permalink.service';
+import { ShapeRegistryService } from './shape-registry.service';
+import {
+    defaultLayerTransform,
+    defaultSvgParameters,
+    SvgDocument,
+    SvgLayer,
+    SvgParameters,
+} from './svg-generator.service';
+import { defaultRadialRepeat } from './radial-repeat';
+
+/**
+ * Location stand-in whose path the specs move to another page
+ */
+class FakeLocation {
+    currentPath = '/generator';
+    replaced: string[] = [];
+
+    path(): string {
+        return this.currentPath;
+    }
+
+    replaceState(path: string, query: string): void {
+        this.replaced.push(`${path}?${query}`);
+    }
+}
+
+function createService(location = new FakeLocation()): PermalinkService {
+    // Decoding only reads the schemas and defaults, the renderers stay unused
+    const gis = new GisGenerator({} as GisRendererService, {} as GeoDataImportService);
+    const registry = new ShapeRegistryService([new PolygonGenerator(), gis]);
+    return new PermalinkService(location as unknown as Location, registry);
+}
+
+function createLayer(id: string, parameters: Partial<SvgParameters>): SvgLayer {
+    return {
+        id,
+        name: `Layer ${id}`,
+        parameters: { ...defaultSvgParameters, shape: 'polygon', edgeCount: 6, ...parameters },
+        visible: true,
+        opacity: 1,
+        blendMode: 'normal',
+        transform: { ...defaultLayerTransform },
+        repeat: { ...defaultRadialRepeat },
+        tracks: [],
+    };
+}
+
+describe('PermalinkService', () => {
+    it('writes a plain layer as flat parameters that differ from the defaults', () => {
+        const service = createService();
+        const layer = createLayer('1', { size: 120, fillColor: '#ff0000' });
+        const document: SvgDocument = { layers: [layer], activeLayerId: '1' };
+
+        expect(service.encode(document)).toEqual({
+            shape: 'polygon',
+            size: '120',
+            fillColor: '#ff0000',
+        });
+    });
+
+    it('restores the parameters of a single layer link', () => {
+        const service = createService();
+        const layer = createLayer('1', { size: 120, fillColor: '#ff0000', edgeCount: 9 });
+        const query = service.encode({ layers: [layer], activeLayerId: '1' });
+        const result = service.decode(convertToParamMap(query))!;
+
+        expect(result.rejectedKeys).toEqual([]);
+        expect(result.activeLayerIndex).toBe(0);
+        expect(result.layers[0].parameters).toEqual(layer.parameters);
+    });
+
+    it('restores parameters defaulted by their shape module', () => {
+        const service = createService();
+        const gis = new GisGenerator({} as GisRendererService, {} as GeoDataImportService);
+        const layer = createLayer('1', {
+            ...gis.defaults,
+            shape: 'gis',
+            gisSourceUrl: 'https://example.com/world.geojson',
+            gisProjection: 'albers',
+            gisCenterLon: 12.5,
+        });
+        const query = service.encode({ layers: [layer], activeLayerId: '1' });
+        const result = service.decode(convertToParamMap(query))!;
+
+        expect(query['gisScalingFunction']).toBeUndefined();
+        expect(query['gisCenterLon']).toBe('12.5');
+        expect(result.rejectedKeys).toEqual([]);
+        expect(result.layers[0].parameters).toEqual(layer.parameters);
+    });
+
+    it('restores every layer setting, the tracks and the timeline of a multi-layer link', () => {
+        const service = createService();
+        const bottom = createLayer('1', { size: 80 });
+        const top: SvgLayer = {
+            ...createLayer('2', { strokeColor: '#0000ff' }),
+            visible: false,
+            opacity: 0.5,
+            blendMode: 'multiply',
+            transform: { translateX: 10, translateY: -20, rotate: 45, scale: 2 },
+            repeat: { ...defaultRadialRepeat, copies: 6, radius: 120, hueStep: 30 },
+            tracks: [
+                {
+                    key: 'size',
+                    keyframes: [
+                        { time: 0, value: 100, easing: 'linear' },
+                        { time: 1.5, value: 200, easing: 'ease-in-out' },
+                    ],
+                },
+            ],
+        };
+        const timeline = { duration: 3, loop: false, frameCount: 24 };
+        const query = service.encode({ layers: [bottom, top], activeLayerId: '2', timeline });
+        const result = service.decode(convertToParamMap(query))!;
+
+        expect(result.rejectedKeys).toEqual([]);
+        expect(result.activeLayerIndex).toBe(1);
+        expect(result.timeline).toEqual(timeline);
+        expect(result.layers).toEqual([bottom, top].map(({ id, ...layer }) => layer));
+    });
+
+    it('resets invalid and unknown values of a single layer link and names them', () => {
+        const service = createService();
+        const query = convertToParamMap({
+            shape: 'polygon',
+            size: 'large',
+            fillColor: 'not-a-color',
+            edgeCount: '7',
+            unknownKey: '1',
+        });
+        const result = service.restore(query)!;
+        const notice = jasmine.createSpy('notice');
+        service.notice$.subscribe(notice);
+
+        expect(result.rejectedKeys).toEqual(['size', 'fillColor', 'unknownKey']);
+        expect(result.layers[0].parameters['size']).toBe(defaultSvgParameters.size);
+        expect(result.layers[0].parameters['edgeCount']).toBe(7);
+        expect(notice).toHaveBeenCalledWith(
+            'Some link values were invalid and reset to defaults: size, fillColor, unknownKey'
+        );
+    });
+
+    it('names the rejected settings of a multi-layer link by layer', () => {
+        const service = createService();
+        const layers = [
+            { parameters: { shape: 'polygon', size: '-5' }, opacity: 2 },
+            {
+                parameters: { shape: 'unknown-shape' },
+                blendMode: 'glow',
+                tracks: [{ key: 'shape' }],
+            },
+        ];
+        const packed = btoa(JSON.stringify(layers)).replace(/=+$/, '');
+        const result = service.decode(convertToParamMap({ layers: packed, layer: '5' }))!;
+
+        expect(result.rejectedKeys).toEqual([
+            'layers[0].size',
+            'layers[0].opacity',
+            'layers[1].shape',
+            'layers[1].blendMode',
+            'layers[1].tracks[0]',
+            'layer',
+        ]);
+        expect(result.activeLayerIndex).toBe(0);
+        expect(result.layers[0].opacity).toBe(1);
+    });
+
+    it('clears the notice when a link holds only valid values', () => {
+        const service = createService();
+        const notice = jasmine.createSpy('notice');
+        service.notice$.subscribe(notice);
+        service.restore(convertToParamMap({ shape: 'polygon', unknownKey: '1' }));
+        service.restore(convertToParamMap({ shape: 'polygon', size: '120' }));
+
+        expect(notice.calls.mostRecent().args).toEqual([null]);
+    });
+
+    describe('write', () => {
+        beforeEach(() => jasmine.clock().install());
+        afterEach(() => jasmine.clock().uninstall());
+
+        it('rewrites the URL of the page once the edits settle', () => {
+            const location = new FakeLocation();
+            const service = createService(location);
+            service.write({ layers: [createLayer('1', { size: 100 })], activeLayerId: '1' });
+            service.write({ layers: [createLayer('1', { size: 120 })], activeLayerId: '1' });
+            jasmine.clock().tick(300);
+
+            expect(location.replaced).toEqual(['/generator?shape=polygon&size=120']);
+        });
+
+        it('leaves the URL alone when the page changed before the write', () => {
+            const location = new FakeLocation();
+            const service = createService(location);
+            service.write({ layers: [createLayer('1', { size: 120 })], activeLayerId: '1' });
+            location.currentPath = '/gallery';
+            jasmine.clock().tick(300);
+
+            expect(location.replaced).toEqual([]);
+        });
+    });
+});
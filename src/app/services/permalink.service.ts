@@ -0,0 +1,459 @@
+import { Injectable } from '@angular/core';
+import { Location } from '@angular/common';
+import { ParamMap } from '@angular/router';
+import { BehaviorSubject } from 'rxjs';
+import { parseParameterValue } from '../generators/shape-parameters';
+import { ShapeRegistryService } from './shape-registry.service';
+import {
+    BLEND_MODES,
+    BlendMode,
+    defaultLayerTransform,
+    defaultSvgParameters,
+    LayerTransform,
+    SvgDocument,
+    SvgLayer,
+    SvgParameters,
+} from './svg-generator.service';
+import {
+    AnimationTimeline,
+    defaultAnimationTimeline,
+    EASING_OPTIONS,
+    isAnimatableParameter,
+    Keyframe,
+    MAX_DURATION,
+    MAX_FRAME_COUNT,
+    MIN_DURATION,
+    MIN_FRAME_COUNT,
+    ParameterTrack,
+} from './keyframe-animation';
+import { clampRepeatValue, defaultRadialRepeat, RadialRepeat } from './radial-repeat';
+
+/**
+ * Layer restored from a link, ids are assigned by the generator service
+ */
+export type PermalinkLayer = Omit<SvgLayer, 'id'>;
+
+export interface PermalinkRestoreResult {
+    layers: PermalinkLayer[];
+    activeLayerIndex: number;
+    /** Animation timing, present when the link holds keyframes */
+    timeline?: AnimationTimeline;
+    /** Query parameters that were unknown or invalid and fell back to their default, e.g. `layers[1].opacity` */
+    rejectedKeys: string[];
+}
+
+/**
+ * Layer as stored in the `layers` query parameter, parameters use the same encoding as single-layer links
+ */
+interface EncodedLayer {
+    name?: string;
+    visible?: boolean;
+    opacity?: number;
+    blendMode?: string;
+    transform?: Partial<Record<keyof LayerTransform, number>>;
+    repeat?: Partial<Record<keyof RadialRepeat, number>>;
+    parameters?: Record<string, string>;
+    tracks?: ParameterTrack[];
+}
+
+@Injectable({
+    providedIn: 'root',
+})
+export class PermalinkService {
+    /** Delay before the URL is rewritten, keeps slider drags from hammering `replaceState` */
+    private readonly WRITE_DELAY = 300;
+    private writeTimer: ReturnType<typeof setTimeout> | null = null;
+    private noticeSubject = new BehaviorSubject<string | null>(null);
+    public notice$ = this.noticeSubject.asObservable();
+
+    constructor(private location: Location, private shapeRegistry: ShapeRegistryService) {}
+
+    /**
+     * Encode a document as query parameters. A single plain layer is written as flat parameters,
+     * several layers are packed into a base64url JSON `layers` parameter
+     * @param document SVG document
+     * @returns Query parameter map
+     */
+    encode(document: SvgDocument): Record<string, string> {
+        const activeIndex = Math.max(
+            0,
+            document.layers.findIndex((layer) => layer.id === document.activeLayerId)
+        );
+        if (document.layers.length === 1 && this.hasDefaultSettings(document.layers[0])) {
+            return this.encodeParameters(document.layers[0].parameters);
+        }
+
+        const layers: EncodedLayer[] = document.layers.map((layer) => ({
+            name: layer.name,
+            visible: layer.visible,
+            opacity: layer.opacity,
+            blendMode: layer.blendMode,
+            transform: layer.transform,
+            repeat: layer.repeat,
+            parameters: this.encodeParameters(layer.parameters),
+            tracks: layer.tracks.length > 0 ? layer.tracks : undefined,
+        }));
+        const query: Record<string, string> = {
+            layers: this.toBase64Url(JSON.stringify(layers)),
+            layer: String(activeIndex),
+        };
+        if (document.timeline && document.layers.some((layer) => layer.tracks.length > 0)) {
+            query['timeline'] = this.toBase64Url(JSON.stringify(document.timeline));
+        }
+        return query;
+    }
+
+    /**
+     * Encode parameters as query parameters, omitting values equal to the defaults
+     * @param params SVG parameters
+     * @returns Query parameter map
+     */
+    encodeParameters(params: SvgParameters): Record<string, string> {
+        const query: Record<string, string> = { shape: params.shape };
+        const defaults: Partial<SvgParameters> = {
+            ...defaultSvgParameters,
+            ...this.shapeRegistry.get(params.shape)?.defaults,
+        };
+        Object.keys(params).forEach((key) => {
+            const value = params[key];
+            if (key === 'shape' || value === undefined || value === defaults[key]) return;
+            // Disabled durations are stored as `false` and written as an empty value
+            query[key] = value === false && typeof defaults[key] !== 'boolean' ? '' : String(value);
+        });
+        return query;
+    }
+
+    /**
+     * Decode query parameters field by field, falling back to the defaults for invalid values
+     * @param query Query parameters of the current route
+     * @returns Decoded layers and the rejected keys, or null if the URL holds no state
+     */
+    decode(query: ParamMap): PermalinkRestoreResult | null {
+        if (query.keys.length === 0) return null;
+
+        const packedLayers = query.get('layers');
+        if (packedLayers === null) {
+            const entries = query.keys.map((key): [string, string] => [key, query.get(key) ?? '']);
+            const { parameters, rejectedKeys } = this.decodeParameters(entries);
+            return { layers: [this.createLayer(parameters)], activeLayerIndex: 0, rejectedKeys };
+        }
+
+        const encodedLayers = this.parseLayers(packedLayers);
+        if (!encodedLayers) {
+            const { parameters } = this.decodeParameters([]);
+            return { layers: [this.createLayer(parameters)], activeLayerIndex: 0, rejectedKeys: ['layers'] };
+        }
+
+        const rejectedKeys: string[] = [];
+        const layers = encodedLayers.map((encoded, index) =>
+            this.decodeLayer(encoded, index, `layers[${index}]`, rejectedKeys)
+        );
+        const requestedIndex = Number(query.get('layer') ?? 0);
+        const activeLayerIndex =
+            Number.isInteger(requestedIndex) && requestedIndex >= 0 && requestedIndex < layers.length
+                ? requestedIndex
+                : 0;
+        if (activeLayerIndex !== requestedIndex) {
+            rejectedKeys.push('layer');
+        }
+        const packedTimeline = query.get('timeline');
+        const timeline = packedTimeline === null ? undefined : this.decodeTimeline(packedTimeline, rejectedKeys);
+        return { layers, activeLayerIndex, timeline, rejectedKeys };
+    }
+
+    /**
+     * Decode the parameters of one layer
+     * @param entries Key/value pairs in query parameter encoding
+     * @param prefix Prefix added to rejected keys, identifies the layer in multi-layer links
+     * @returns Decoded parameters and the rejected keys
+     */
+    private decodeParameters(
+        entries: [string, string][],
+        prefix = ''
+    ): { parameters: SvgParameters; rejectedKeys: string[] } {
+        const rejectedKeys: string[] = [];
+        const requestedShape = entries.find(([key]) => key === 'shape')?.[1] ?? null;
+        const shape =
+            requestedShape && this.shapeRegistry.get(requestedShape) ? requestedShape : defaultSvgParameters.shape;
+        if (requestedShape !== null && shape !== requestedShape) {
+            rejectedKeys.push(`${prefix}shape`);
+        }
+
+        const parameters: Record<string, unknown> = {
+            ...defaultSvgParameters,
+            ...this.shapeRegistry.resolve(shape).defaults,
+            shape,
+        };
+
+        entries
+            .filter(([key]) => key !== 'shape')
+            .forEach(([key, raw]) => {
+                const value = this.decodeValue(key, raw, shape);
+                if (value === undefined) {
+                    rejectedKeys.push(`${prefix}${key}`);
+                } else {
+                    parameters[key] = value;
+                }
+            });
+
+        return { parameters: parameters as unknown as SvgParameters, rejectedKeys };
+    }
+
+    /**
+     * Decode one layer of a multi-layer link, invalid settings fall back to their defaults
+     */
+    private decodeLayer(
+        encoded: EncodedLayer,
+        index: number,
+        prefix: string,
+        rejectedKeys: string[]
+    ): PermalinkLayer {
+        const layer = this.createLayer(defaultSvgParameters, `Layer ${index + 1}`);
+        const rawParameters =
+            encoded.parameters && typeof encoded.parameters === 'object' ? encoded.parameters : {};
+        const entries = Object.entries(rawParameters).map(([key, value]): [string, string] => [key, String(value)]);
+        const decoded = this.decodeParameters(entries, `${prefix}.`);
+        layer.parameters = decoded.parameters;
+        rejectedKeys.push(...decoded.rejectedKeys);
+
+        if (encoded.name !== undefined) {
+            if (typeof encoded.name === 'string' && encoded.name.trim() !== '') layer.name = encoded.name;
+            else rejectedKeys.push(`${prefix}.name`);
+        }
+        if (encoded.visible !== undefined) {
+            if (typeof encoded.visible === 'boolean') layer.visible = encoded.visible;
+            else rejectedKeys.push(`${prefix}.visible`);
+        }
+        if (encoded.opacity !== undefined) {
+            if (this.isNumberInRange(encoded.opacity, 0, 1)) layer.opacity = encoded.opacity;
+            else rejectedKeys.push(`${prefix}.opacity`);
+        }
+        if (encoded.blendMode !== undefined) {
+            if (BLEND_MODES.includes(encoded.blendMode as BlendMode)) layer.blendMode = encoded.blendMode as BlendMode;
+            else rejectedKeys.push(`${prefix}.blendMode`);
+        }
+        if (encoded.tracks !== undefined) {
+            if (Array.isArray(encoded.tracks)) {
+                encoded.tracks.forEach((track, trackIndex) => {
+                    const decodedTrack = this.decodeTrack(track, layer.parameters.shape);
+                    if (decodedTrack) layer.tracks.push(decodedTrack);
+                    else rejectedKeys.push(`${prefix}.tracks[${trackIndex}]`);
+                });
+            } else {
+                rejectedKeys.push(`${prefix}.tracks`);
+            }
+        }
+        if (encoded.transform !== undefined) {
+            (Object.keys(defaultLayerTransform) as (keyof LayerTransform)[]).forEach((key) => {
+                const value = encoded.transform?.[key];
+                if (value === undefined) return;
+                if (this.isNumberInRange(value, -Infinity, Infinity)) layer.transform[key] = value;
+                else rejectedKeys.push(`${prefix}.transform.${key}`);
+            });
+        }
+        if (encoded.repeat !== undefined) {
+            (Object.keys(defaultRadialRepeat) as (keyof RadialRepeat)[]).forEach((key) => {
+                const value = encoded.repeat?.[key];
+                if (value === undefined) return;
+                if (this.isNumberInRange(value, -Infinity, Infinity) && clampRepeatValue(key, value) === value) {
+                    layer.repeat[key] = value;
+                } else {
+                    rejectedKeys.push(`${prefix}.repeat.${key}`);
+                }
+            });
+        }
+        return layer;
+    }
+
+    /**
+     * Decode a keyframe track, it must target an animatable parameter of the shape and hold only
+     * valid keyframes
+     * @returns Track, or null when invalid
+     */
+    private decodeTrack(encoded: unknown, shape: string): ParameterTrack | null {
+        if (!encoded || typeof encoded !== 'object') return null;
+
+        const { key, keyframes } = encoded as Partial<Record<keyof ParameterTrack, unknown>>;
+        const definition = this.shapeRegistry
+            .resolve(shape)
+            .parameters.find((parameter) => parameter.key === key);
+        if (!definition || !isAnimatableParameter(definition) || !Array.isArray(keyframes)) return null;
+
+        const decoded = keyframes.map((keyframe: Partial<Keyframe>): Keyframe | null => {
+            const value =
+                keyframe && keyframe.value !== undefined
+                    ? parseParameterValue(definition, String(keyframe.value))
+                    : undefined;
+            const validEasing = EASING_OPTIONS.some((option) => option.value === keyframe?.easing);
+            if (value === undefined || !validEasing || !this.isNumberInRange(keyframe.time, 0, Infinity)) {
+                return null;
+            }
+            return { time: keyframe.time, value: value as number | string, easing: keyframe.easing! };
+        });
+        return decoded.every((keyframe) => keyframe !== null)
+            ? { key: definition.key, keyframes: decoded as Keyframe[] }
+            : null;
+    }
+
+    /**
+     * Decode the packed `timeline` parameter, invalid fields fall back to their defaults
+     */
+    private decodeTimeline(packed: string, rejectedKeys: string[]): AnimationTimeline {
+        const timeline = { ...defaultAnimationTimeline };
+        let encoded: Partial<Record<keyof AnimationTimeline, unknown>>;
+        try {
+            encoded = JSON.parse(this.fromBase64Url(packed)) ?? {};
+        } catch {
+            rejectedKeys.push('timeline');
+            return timeline;
+        }
+
+        if (encoded.duration !== undefined) {
+            if (this.isNumberInRange(encoded.duration, MIN_DURATION, MAX_DURATION)) timeline.duration = encoded.duration;
+            else rejectedKeys.push('timeline.duration');
+        }
+        if (encoded.loop !== undefined) {
+            if (typeof encoded.loop === 'boolean') timeline.loop = encoded.loop;
+            else rejectedKeys.push('timeline.loop');
+        }
+        if (encoded.frameCount !== undefined) {
+            if (
+                this.isNumberInRange(encoded.frameCount, MIN_FRAME_COUNT, MAX_FRAME_COUNT) &&
+                Number.isInteger(encoded.frameCount)
+            ) {
+                timeline.frameCount = encoded.frameCount;
+            } else {
+                rejectedKeys.push('timeline.frameCount');
+            }
+        }
+        return timeline;
+    }
+
+    private createLayer(parameters: SvgParameters, name = 'Layer 1'): PermalinkLayer {
+        return {
+            name,
+            parameters,
+            visible: true,
+            opacity: 1,
+            blendMode: 'normal',
+            transform: { ...defaultLayerTransform },
+            repeat: { ...defaultRadialRepeat },
+            tracks: [],
+        };
+    }
+
+    private hasDefaultSettings(layer: SvgLayer): boolean {
+        const { translateX, translateY, rotate, scale } = layer.transform;
+        return (
+            layer.visible &&
+            layer.tracks.length === 0 &&
+            layer.opacity === 1 &&
+            layer.blendMode === 'normal' &&
+            translateX === defaultLayerTransform.translateX &&
+            translateY === defaultLayerTransform.translateY &&
+            rotate === defaultLayerTransform.rotate &&
+            scale === defaultLayerTransform.scale &&
+            (Object.keys(defaultRadialRepeat) as (keyof RadialRepeat)[]).every(
+                (key) => layer.repeat[key] === defaultRadialRepeat[key]
+            )
+        );
+    }
+
+    private isNumberInRange(value: unknown, min: number, max: number): value is number {
+        return typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+    }
+
+    /**
+     * Parse the packed `layers` parameter
+     * @returns Encoded layers, or null if the value is not a non-empty JSON array
+     */
+    private parseLayers(packed: string): EncodedLayer[] | null {
+        try {
+            const layers = JSON.parse(this.fromBase64Url(packed));
+            if (!Array.isArray(layers) || layers.length === 0) return null;
+            return layers.map((layer) => (layer && typeof layer === 'object' ? layer : {}));
+        } catch {
+            return null;
+        }
+    }
+
+    private toBase64Url(text: string): string {
+        const bytes = new TextEncoder().encode(text);
+        const binary = Array.from(bytes, (byte) => String.fromCharCode(byte)).join('');
+        return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+    }
+
+    private fromBase64Url(value: string): string {
+        const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+        return new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)));
+    }
+
+    /**
+     * Decode one query parameter using the shape schemas, or the default's type for unlisted keys
+     */
+    private decodeValue(key: string, raw: string, shape: string): unknown {
+        const definition = this.shapeRegistry.findParameterDefinition(key, shape);
+        if (definition) return parseParameterValue(definition, raw);
+        if (!(key in defaultSvgParameters)) return undefined;
+
+        switch (typeof defaultSvgParameters[key]) {
+            case 'number': {
+                const parsed = Number(raw);
+                return raw.trim() !== '' && Number.isFinite(parsed) ? parsed : undefined;
+            }
+            case 'boolean':
+                return raw === 'true' ? true : raw === 'false' ? false : undefined;
+            default:
+                return raw;
+        }
+    }
+
+    /**
+     * Restore the document from the URL, publishing a notice when some values were rejected
+     * @param query Query parameters of the current route
+     * @returns Restore result, or null if the URL holds no state
+     */
+    restore(query: ParamMap): PermalinkRestoreResult | null {
+        const result = this.decode(query);
+        this.noticeSubject.next(
+            result && result.rejectedKeys.length > 0
+                ? `Some link values were invalid and reset to defaults: ${result.rejectedKeys.join(', ')}`
+                : null
+        );
+        return result;
+    }
+
+    /**
+     * Replace the current URL with one describing the document, without adding history entries.
+     * The write is skipped if the page changed before it happens
+     * @param document SVG document
+     */
+    write(document: SvgDocument): void {
+        if (this.writeTimer) {
+            clearTimeout(this.writeTimer);
+        }
+        const path = this.location.path().split('?')[0];
+        this.writeTimer = setTimeout(() => {
+            this.writeTimer = null;
+            // The user may have left the generator page in the meantime, its URL is not ours to change
+            if (this.location.path().split('?')[0] !== path) return;
+            const query = new URLSearchParams(this.encode(document)).toString();
+            this.location.replaceState(path, query);
+        }, this.WRITE_DELAY);
+    }
+
+    /**
+     * Build an absolute link to the current page describing the document
+     * @param document SVG document
+     * @returns Shareable URL
+     */
+    buildUrl(document: SvgDocument): string {
+        const path = this.location.prepareExternalUrl(this.location.path().split('?')[0]);
+        const query = new URLSearchParams(this.encode(document)).toString();
+        return `${window.location.origin}${path}?${query}`;
+    }
+
+    dismissNotice(): void {
+        this.noticeSubject.next(null);
+    }
+}
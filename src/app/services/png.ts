@@ -0,0 +1,68 @@
+import { ByteWriter } from './byte-writer';
+
+export const PNG_SIGNATURE = new Uint8Array([137, 80, 78, 71, 13, 10, 26, 10]);
+
+const INCHES_PER_METER = 1 / 0.0254;
+
+let crcTable: Uint32Array | null = null;
+
+/**
+ * Append a chunk: length, type, data and the CRC of type and data
+ * @param writer Output of the PNG file
+ * @param type Four letter chunk type
+ * @param data Chunk content
+ */
+export function writePngChunk(writer: ByteWriter, type: string, data: Uint8Array): void {
+    const body = new ByteWriter().ascii(type).bytes(data).toUint8Array();
+    writer.u32be(data.length).bytes(body).u32be(crc32(body));
+}
+
+/**
+ * Record the resolution of a PNG in a pHYs chunk, replacing any the encoder wrote
+ * @param png Encoded PNG file
+ * @param dpi Dots per inch
+ * @returns PNG with the resolution, or the input untouched when it is not a PNG
+ */
+export function setPngResolution(
+    png: Uint8Array<ArrayBuffer>,
+    dpi: number
+): Uint8Array<ArrayBuffer> {
+    if (!PNG_SIGNATURE.every((byte, index) => png[index] === byte)) return png;
+
+    const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+    const writer = new ByteWriter().bytes(PNG_SIGNATURE);
+    const pixelsPerMeter = Math.round(dpi * INCHES_PER_METER);
+    let offset = PNG_SIGNATURE.length;
+    while (offset + 8 <= png.length) {
+        const length = view.getUint32(offset);
+        const end = offset + 12 + length;
+        const type = String.fromCharCode(...png.subarray(offset + 4, offset + 8));
+        if (type !== 'pHYs') {
+            writer.bytes(png.subarray(offset, end));
+        }
+        // pHYs has to come before the image data, right after the header is fine
+        if (type === 'IHDR') {
+            const data = new ByteWriter().u32be(pixelsPerMeter).u32be(pixelsPerMeter).u8(1);
+            writePngChunk(writer, 'pHYs', data.toUint8Array());
+        }
+        offset = end;
+    }
+    return writer.toUint8Array();
+}
+
+export function crc32(data: Uint8Array): number {
+    if (!crcTable) {
+        crcTable = new Uint32Array(256);
+        for (let n = 0; n < 256; n++) {
+            let c = n;
+            for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+            crcTable[n] = c >>> 0;
+        }
+    }
+
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) {
+        crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
@@ -0,0 +1,32 @@
+/**
+ * Points spread evenly on a circle, such as the tips of a star or the copies of a mandala ring
+ * @param count Number of points
+ * @param radius Distance from the center
+ * @param cx X of the center
+ * @param cy Y of the center
+ * @param initialAngle Angle of the first point in degrees, counted from the x axis towards
+ * negative y, following points turn the other way
+ * @returns Coordinates rounded to 2 decimals
+ */
+export function polarPoints(
+    count: number,
+    radius: number,
+    cx: number,
+    cy: number,
+    initialAngle: number
+): number[][] {
+    return [...Array(count)].map((_, i) => {
+        const angle = getPolarAngle(count, i, initialAngle);
+        const angleRad = (angle * Math.PI) / 180;
+        const x = Math.cos(angleRad) * radius + cx;
+        const y = Math.sin(angleRad) * radius + cy;
+        return [parseFloat(x.toFixed(2)), parseFloat(y.toFixed(2))];
+    });
+}
+
+/**
+ * Angle in degrees of a point returned by `polarPoints`, in the SVG rotation direction
+ */
+export function getPolarAngle(count: number, index: number, initialAngle: number): number {
+    return (360 / count) * index - initialAngle;
+}
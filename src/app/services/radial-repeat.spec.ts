@@ -0,0 +1,132 @@
+import {
+    clampRepeatValue,
+    defaultRadialRepeat,
+    getRepeatCopies,
+    RadialRepeat,
+    repeatFragment,
+    rotateHue,
+} from './radial-repeat';
+import { svgElement, SvgElementNode } from './svg-dom';
+import { SvgFragment } from './svg-fragment';
+
+function createRepeat(settings: Partial<RadialRepeat>): RadialRepeat {
+    return { ...defaultRadialRepeat, ...settings };
+}
+
+describe('getRepeatCopies', () => {
+    it('places the copies of a ring clockwise, facing the center', () => {
+        const copies = getRepeatCopies(createRepeat({ copies: 4, radius: 100 }), 0, 0);
+
+        expect(copies.map((copy) => copy.transform)).toEqual([
+            'translate(100 0)',
+            'translate(0 100) rotate(90)',
+            'translate(-100 0) rotate(180)',
+            'translate(0 -100) rotate(270)',
+        ]);
+    });
+
+    it('spaces, turns and shrinks the further rings', () => {
+        const repeat = createRepeat({
+            copies: 2,
+            rings: 2,
+            radius: 100,
+            ringSpacing: 50,
+            rotationOffset: 90,
+            scaleFalloff: 0.5,
+        });
+        const copies = getRepeatCopies(repeat, 0, 0);
+
+        expect(copies.map((copy) => copy.ring)).toEqual([0, 0, 1, 1]);
+        expect(copies.slice(2).map((copy) => copy.transform)).toEqual([
+            'translate(0 150) rotate(90) scale(0.5)',
+            'translate(0 -150) rotate(270) scale(0.5)',
+        ]);
+    });
+
+    it('turns the copies around the center of the shape', () => {
+        const copies = getRepeatCopies(createRepeat({ copies: 2 }), 10, 20);
+
+        expect(copies.map((copy) => copy.transform)).toEqual([
+            null,
+            'translate(10 20) rotate(180) translate(-10 -20)',
+        ]);
+    });
+});
+
+describe('clampRepeatValue', () => {
+    it('keeps the settings in their range', () => {
+        expect(clampRepeatValue('copies', 100)).toBe(72);
+        expect(clampRepeatValue('radius', -5)).toBe(0);
+        expect(clampRepeatValue('scaleFalloff', 1)).toBe(0.9);
+        expect(clampRepeatValue('rotationOffset', -12.5)).toBe(-12.5);
+    });
+
+    it('rounds copies and rings to whole numbers', () => {
+        expect(clampRepeatValue('copies', 2.6)).toBe(3);
+        expect(clampRepeatValue('rings', 0.2)).toBe(1);
+    });
+});
+
+describe('rotateHue', () => {
+    it('turns the hue of hex colors', () => {
+        expect(rotateHue('#ff0000', 120)).toBe('#00ff00');
+        expect(rotateHue('#ff0000', -120)).toBe('#0000ff');
+        expect(rotateHue('#ff8080', 360)).toBe('#ff8080');
+    });
+
+    it('keeps the alpha of the color', () => {
+        expect(rotateHue('#ff000080', 120)).toBe('#00ff0080');
+        expect(rotateHue('rgba(255, 0, 0, 0.5)', 240)).toBe('rgba(0, 0, 255, 0.5)');
+    });
+
+    it('leaves grays and values that are not colors alone', () => {
+        expect(rotateHue('#808080', 90)).toBe('#808080');
+        expect(rotateHue('none', 90)).toBe('none');
+        expect(rotateHue('url(#gradient)', 90)).toBe('url(#gradient)');
+    });
+});
+
+describe('repeatFragment', () => {
+    const fragment: SvgFragment = {
+        defs: [
+            svgElement('linearGradient', { id: 'shade' }, [
+                svgElement('stop', { offset: 0, 'stop-color': '#ff0000' }),
+            ]),
+        ],
+        content: [svgElement('path', { id: 'petal', d: 'M0 0L10 0', fill: 'url(#shade)' })],
+        viewBoxSize: 100,
+    };
+
+    it('returns the fragment itself when nothing is repeated', () => {
+        expect(repeatFragment(fragment, defaultRadialRepeat, 0, 0)).toBe(fragment);
+    });
+
+    it('wraps each copy in a group placing it, with ids unique across copies', () => {
+        const repeat = createRepeat({ copies: 3, radius: 100 });
+        const result = repeatFragment(fragment, repeat, 0, 0);
+        const groups = result.content as SvgElementNode[];
+
+        expect(groups.length).toBe(3);
+        expect(groups.map((group) => group.attrs['transform'])).toEqual(
+            getRepeatCopies(repeat, 0, 0).map((copy) => copy.transform)
+        );
+        expect(groups.map((group) => (group.children[0] as SvgElementNode).attrs['id'])).toEqual([
+            'copy1-petal',
+            'copy2-petal',
+            'copy3-petal',
+        ]);
+        expect(result.viewBoxSize).toBeGreaterThan(fragment.viewBoxSize);
+    });
+
+    it('gives rings with shifted colors their own definitions', () => {
+        const repeat = createRepeat({ copies: 2, rings: 2, hueStep: 120 });
+        const result = repeatFragment(fragment, repeat, 0, 0);
+        const [, shifted] = result.defs as SvgElementNode[];
+        const outerPetal = (result.content[2] as SvgElementNode).children[0] as SvgElementNode;
+
+        expect(result.defs.length).toBe(2);
+        expect(shifted.attrs['id']).toBe('ring2-shade');
+        expect((shifted.children[0] as SvgElementNode).attrs['stop-color']).toBe('#00ff00');
+        expect(outerPetal.attrs['fill']).toBe('url(#ring2-shade)');
+    });
+});
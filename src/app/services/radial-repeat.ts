@@ -0,0 +1,273 @@
+import { namespaceIds, SvgAttributes, svgElement, SvgNode } from './svg-dom';
+import { SvgFragment } from './svg-fragment';
+import { getPolarAngle, polarPoints } from './polar';
+import { parseColor, RgbColor } from './vector-document';
+
+/**
+ * Copies of a layer's shape arranged in rings around the shape's center, as in mandalas
+ */
+export interface RadialRepeat {
+    /** Copies on each ring */
+    copies: number;
+    rings: number;
+    /** Distance of the first ring from the center, 0 turns the copies in place */
+    radius: number;
+    /** Distance added by each further ring */
+    ringSpacing: number;
+    /** Degrees each ring turns relative to the previous one */
+    rotationOffset: number;
+    /** Fraction of the size each ring loses relative to the previous one */
+    scaleFalloff: number;
+    /** Degrees the hue of the colors turns from one ring to the next */
+    hueStep: number;
+}
+
+export const defaultRadialRepeat: RadialRepeat = {
+    copies: 1,
+    rings: 1,
+    radius: 0,
+    ringSpacing: 100,
+    rotationOffset: 0,
+    scaleFalloff: 0,
+    hueStep: 0,
+};
+
+/** Accepted values of each setting, copies and rings are whole numbers */
+export const RADIAL_REPEAT_RANGES: Record<keyof RadialRepeat, { min: number; max: number }> = {
+    copies: { min: 1, max: 72 },
+    rings: { min: 1, max: 12 },
+    radius: { min: 0, max: 2000 },
+    ringSpacing: { min: 0, max: 2000 },
+    rotationOffset: { min: -360, max: 360 },
+    scaleFalloff: { min: 0, max: 0.9 },
+    hueStep: { min: -360, max: 360 },
+};
+
+export interface RepeatCopy {
+    /** Ring index, 0 for the innermost */
+    ring: number;
+    /** Value of the `transform` attribute placing the copy, null for the shape as drawn */
+    transform: string | null;
+}
+
+/** Attributes holding paint colors */
+const COLOR_ATTRIBUTES = new Set([
+    'fill',
+    'stroke',
+    'stop-color',
+    'flood-color',
+    'lighting-color',
+    'color',
+]);
+
+/** Attributes of animation elements holding values of the animated attribute */
+const ANIMATION_VALUE_ATTRIBUTES = ['values', 'from', 'to', 'by'];
+
+/**
+ * Whether the settings draw more than the shape itself
+ */
+export function isRepeated(repeat: RadialRepeat): boolean {
+    return repeat.copies > 1 || repeat.rings > 1;
+}
+
+/**
+ * Bring a setting into its range, copies and rings are rounded to whole numbers
+ */
+export function clampRepeatValue(key: keyof RadialRepeat, value: number): number {
+    const { min, max } = RADIAL_REPEAT_RANGES[key];
+    const clamped = Math.min(Math.max(value, min), max);
+    return key === 'copies' || key === 'rings' ? Math.round(clamped) : clamped;
+}
+
+/**
+ * Placement of every copy, ring by ring from the center outwards. The first copy of each ring
+ * sits on the x axis, turned by the ring's rotation offset, the others follow clockwise and turn
+ * with their position so they all face the center the same way
+ * @param repeat Repeat settings
+ * @param cx X of the shape's center, which the rings turn around
+ * @param cy Y of the shape's center
+ */
+export function getRepeatCopies(repeat: RadialRepeat, cx: number, cy: number): RepeatCopy[] {
+    const copies: RepeatCopy[] = [];
+    for (let ring = 0; ring < repeat.rings; ring++) {
+        const radius = repeat.radius + ring * repeat.ringSpacing;
+        const scale = getRingScale(repeat, ring);
+        const initialAngle = -ring * repeat.rotationOffset;
+        polarPoints(repeat.copies, radius, cx, cy, initialAngle).forEach(([x, y], index) => {
+            const angle = getPolarAngle(repeat.copies, index, initialAngle);
+            copies.push({ ring, transform: formatCopyTransform(x, y, angle, scale, cx, cy) });
+        });
+    }
+    return copies;
+}
+
+/**
+ * Repeat the content of a fragment around the shape's center. Rings with shifted colors get
+ * their own copy of the definitions
+ * @param fragment Rendered shape
+ * @param repeat Repeat settings
+ * @param cx X of the shape's center
+ * @param cy Y of the shape's center
+ * @returns Fragment holding every copy, or the fragment itself when nothing is repeated
+ */
+export function repeatFragment(
+    fragment: SvgFragment,
+    repeat: RadialRepeat,
+    cx: number,
+    cy: number
+): SvgFragment {
+    if (!isRepeated(repeat)) return fragment;
+
+    const defs = [...fragment.defs];
+    const ringContents = [...Array(repeat.rings)].map((_, ring) => {
+        const hue = ring * repeat.hueStep;
+        if (hue % 360 === 0) return fragment.content;
+
+        const nodes = namespaceIds([...fragment.defs, ...fragment.content], `ring${ring + 1}-`).map(
+            (node) => rotateNodeHue(node, hue)
+        );
+        defs.push(...nodes.slice(0, fragment.defs.length));
+        return nodes.slice(fragment.defs.length);
+    });
+
+    // Ids defined by the drawing itself must stay unique across copies
+    const content = getRepeatCopies(repeat, cx, cy).map((copy, index) =>
+        svgElement(
+            'g',
+            { transform: copy.transform },
+            namespaceIds(ringContents[copy.ring], `copy${index + 1}-`)
+        )
+    );
+
+    const centerDistance = Math.hypot(cx, cy);
+    const halfSize = Math.max(
+        ...[...Array(repeat.rings)].map(
+            (_, ring) =>
+                centerDistance +
+                repeat.radius +
+                ring * repeat.ringSpacing +
+                getRingScale(repeat, ring) *
+                    ((fragment.viewBoxSize / 2) * Math.SQRT2 + centerDistance)
+        )
+    );
+    return {
+        ...fragment,
+        defs,
+        content,
+        viewBoxSize: Math.max(fragment.viewBoxSize, halfSize * 2),
+    };
+}
+
+/**
+ * Turn the hue of a color, keeping its lightness, saturation and alpha
+ * @returns Color as hex, or the value itself when it is not a color
+ */
+export function rotateHue(value: string, degrees: number): string {
+    const color = parseColor(value);
+    if (!color) return value;
+
+    const hex = toHex(rotateRgbHue(color, degrees));
+    const text = value.trim();
+    const hexAlpha = /^#[0-9a-f]{6}([0-9a-f]{2})$/i.exec(text);
+    if (hexAlpha) return `${hex}${hexAlpha[1]}`;
+    const alpha = /^rgba?\(([^)]*)\)$/i
+        .exec(text)?.[1]
+        .split(/[\s,/]+/)
+        .filter(Boolean)[3];
+    if (alpha !== undefined) {
+        const [r, g, b] = [1, 3, 5].map((start) => parseInt(hex.slice(start, start + 2), 16));
+        return `rgba(${r}, ${g}, ${b}, ${alpha})`;
+    }
+    return hex;
+}
+
+function getRingScale(repeat: RadialRepeat, ring: number): number {
+    return Math.pow(1 - repeat.scaleFalloff, ring);
+}
+
+/**
+ * Move the shape's center onto a ring position, turned and scaled around it
+ */
+function formatCopyTransform(
+    x: number,
+    y: number,
+    angle: number,
+    scale: number,
+    cx: number,
+    cy: number
+): string | null {
+    const round = (value: number) => parseFloat(value.toFixed(3));
+    const turns = [];
+    if (round(angle) % 360 !== 0) turns.push(`rotate(${round(angle)})`);
+    if (round(scale) !== 1) turns.push(`scale(${round(scale)})`);
+    if (turns.length === 0 && x === cx && y === cy) return null;
+
+    const transforms = [];
+    if (x || y) transforms.push(`translate(${x} ${y})`);
+    transforms.push(...turns);
+    if (cx || cy) transforms.push(`translate(${round(-cx)} ${round(-cy)})`);
+    return transforms.join(' ');
+}
+
+/**
+ * Turn the hue of the paint colors in a subtree, animated colors included
+ */
+function rotateNodeHue(node: SvgNode, degrees: number): SvgNode {
+    if (node.type === 'text') return node;
+
+    const animated = node.attrs['attributeName'];
+    const animatesColor = typeof animated === 'string' && COLOR_ATTRIBUTES.has(animated);
+    const attrs: SvgAttributes = { ...node.attrs };
+    Object.entries(node.attrs).forEach(([name, value]) => {
+        if (typeof value !== 'string') return;
+        if (animatesColor && ANIMATION_VALUE_ATTRIBUTES.includes(name)) {
+            attrs[name] = value
+                .split(';')
+                .map((item) => rotateHue(item, degrees))
+                .join(';');
+        } else if (COLOR_ATTRIBUTES.has(name) && !animated) {
+            attrs[name] = rotateHue(value, degrees);
+        }
+    });
+    return {
+        ...node,
+        attrs,
+        children: node.children.map((child) => rotateNodeHue(child, degrees)),
+    };
+}
+
+function rotateRgbHue({ r, g, b }: RgbColor, degrees: number): RgbColor {
+    const max = Math.max(r, g, b);
+    const min = Math.min(r, g, b);
+    const chroma = max - min;
+    if (chroma === 0) return { r, g, b };
+
+    let hue: number;
+    if (max === r) hue = ((g - b) / chroma + 6) % 6;
+    else if (max === g) hue = (b - r) / chroma + 2;
+    else hue = (r - g) / chroma + 4;
+    hue = ((((hue * 60 + degrees) % 360) + 360) % 360) / 60;
+
+    // Same chroma and lightness, so the smallest channel stays, only the sector changes
+    const second = chroma * (1 - Math.abs((hue % 2) - 1));
+    const sectors: [number, number, number][] = [
+        [chroma, second, 0],
+        [second, chroma, 0],
+        [0, chroma, second],
+        [0, second, chroma],
+        [second, 0, chroma],
+        [chroma, 0, second],
+    ];
+    const [red, green, blue] = sectors[Math.floor(hue) % 6];
+    return { r: red + min, g: green + min, b: blue + min };
+}
+
+function toHex({ r, g, b }: RgbColor): string {
+    return `#${[r, g, b]
+        .map((channel) =>
+            Math.round(Math.min(Math.max(channel, 0), 1) * 255)
+                .toString(16)
+                .padStart(2, '0')
+        )
+        .join('')}`;
+}
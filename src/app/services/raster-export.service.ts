@@ -0,0 +1,217 @@
+import { Injectable } from '@angular/core';
+import { SvgGeneratorService } from './svg-generator.service';
+import { SvgViewportService } from './svg-viewport.service';
+import { parseViewBox, SvgViewport } from './svg-fragment';
+import { loadSvgImage } from './svg-raster';
+import { setPngResolution } from './png';
+
+export type RasterFormat = 'png' | 'jpeg' | 'webp';
+
+export interface RasterFormatOption {
+    value: RasterFormat;
+    label: string;
+    mimeType: string;
+    extension: string;
+    /** Lossy formats take a quality setting */
+    lossy: boolean;
+    /** Formats that can keep a transparent background */
+    alpha: boolean;
+}
+
+export const RASTER_FORMATS: RasterFormatOption[] = [
+    {
+        value: 'png',
+        label: 'PNG',
+        mimeType: 'image/png',
+        extension: 'png',
+        lossy: false,
+        alpha: true,
+    },
+    {
+        value: 'jpeg',
+        label: 'JPEG',
+        mimeType: 'image/jpeg',
+        extension: 'jpg',
+        lossy: true,
+        alpha: false,
+    },
+    {
+        value: 'webp',
+        label: 'WebP',
+        mimeType: 'image/webp',
+        extension: 'webp',
+        lossy: true,
+        alpha: true,
+    },
+];
+
+export type PrintUnit = 'in' | 'cm' | 'mm';
+
+export const PRINT_UNITS: { value: PrintUnit; label: string; perInch: number }[] = [
+    { value: 'in', label: 'in', perInch: 1 },
+    { value: 'cm', label: 'cm', perInch: 2.54 },
+    { value: 'mm', label: 'mm', perInch: 25.4 },
+];
+
+/** Largest side browsers reliably allocate canvases for */
+export const MAX_RASTER_SIZE = 16384;
+/** Resolution assumed by CSS, used when no print size is asked for */
+export const SCREEN_DPI = 96;
+
+export interface RasterExportOptions {
+    format: RasterFormat;
+    /** Size in pixels */
+    width: number;
+    height: number;
+    /** Resolution written into the file metadata */
+    dpi: number;
+    /** CSS color painted behind the drawing, null keeps it transparent */
+    background: string | null;
+    /** Encoder quality between 0 and 1, for lossy formats */
+    quality: number;
+}
+
+/**
+ * Convert a physical length to pixels
+ */
+export function toPixels(length: number, unit: PrintUnit, dpi: number): number {
+    return Math.round((length / getUnitsPerInch(unit)) * dpi);
+}
+
+/**
+ * Convert pixels to a physical length
+ */
+export function fromPixels(pixels: number, unit: PrintUnit, dpi: number): number {
+    return (pixels / dpi) * getUnitsPerInch(unit);
+}
+
+function getUnitsPerInch(unit: PrintUnit): number {
+    return PRINT_UNITS.find((option) => option.value === unit)?.perInch ?? 1;
+}
+
+/**
+ * Renders the document into PNG, JPEG or WebP images at an explicit size
+ */
+@Injectable({
+    providedIn: 'root',
+})
+export class RasterExportService {
+    private supportedFormats = new Map<RasterFormat, boolean>();
+
+    constructor(
+        private svgGeneratorService: SvgGeneratorService,
+        private viewportService: SvgViewportService
+    ) {}
+
+    /**
+     * Whether the browser can encode a format, canvases fall back to PNG for unknown types
+     */
+    isFormatSupported(format: RasterFormat): boolean {
+        if (!this.supportedFormats.has(format)) {
+            const { mimeType } = getFormatOption(format);
+            const canvas = document.createElement('canvas');
+            canvas.width = canvas.height = 1;
+            this.supportedFormats.set(
+                format,
+                canvas.toDataURL(mimeType).startsWith(`data:${mimeType}`)
+            );
+        }
+        return this.supportedFormats.get(format) ?? false;
+    }
+
+    /**
+     * Region of the drawing that exports cover, the visible region or the whole drawing
+     */
+    async getExportRegion(): Promise<SvgViewport | null> {
+        const viewport = this.viewportService.getExportViewport();
+        if (viewport) return viewport;
+        return parseViewBox(
+            (await this.svgGeneratorService.generateSvgDocument()).attrs['viewBox']
+        );
+    }
+
+    /**
+     * Render and encode the document
+     * @param options Export settings
+     * @returns Encoded image
+     */
+    async exportImage(options: RasterExportOptions): Promise<Blob> {
+        const { format, dpi, background, quality } = options;
+        const width = Math.round(options.width);
+        const height = Math.round(options.height);
+        if (!(width >= 1 && height >= 1 && width <= MAX_RASTER_SIZE && height <= MAX_RASTER_SIZE)) {
+            throw new Error(`Image sides must be between 1 and ${MAX_RASTER_SIZE} pixels`);
+        }
+
+        const root = await this.svgGeneratorService.generateSvgDocument(
+            this.viewportService.getExportViewport()
+        );
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) throw new Error('Canvas rendering is not available');
+
+        const option = getFormatOption(format);
+        // Formats without alpha would turn transparency black
+        const fill = background ?? (option.alpha ? null : '#ffffff');
+        if (fill) {
+            ctx.fillStyle = fill;
+            ctx.fillRect(0, 0, width, height);
+        }
+        ctx.drawImage(await loadSvgImage(root, width, height), 0, 0, width, height);
+
+        const blob = await new Promise<Blob | null>((resolve) =>
+            canvas.toBlob(resolve, option.mimeType, option.lossy ? quality : undefined)
+        );
+        if (!blob) throw new Error('The image could not be encoded, try a smaller size');
+
+        const bytes = setResolution(new Uint8Array(await blob.arrayBuffer()), format, dpi);
+        return new Blob([bytes], { type: option.mimeType });
+    }
+}
+
+function getFormatOption(format: RasterFormat): RasterFormatOption {
+    return RASTER_FORMATS.find((option) => option.value === format) ?? RASTER_FORMATS[0];
+}
+
+/**
+ * Record the resolution in the file metadata, WebP has no standard field for it
+ */
+function setResolution(
+    bytes: Uint8Array<ArrayBuffer>,
+    format: RasterFormat,
+    dpi: number
+): Uint8Array<ArrayBuffer> {
+    switch (format) {
+        case 'png':
+            return setPngResolution(bytes, dpi);
+        case 'jpeg':
+            return setJpegResolution(bytes, dpi);
+        case 'webp':
+            return bytes;
+    }
+}
+
+/**
+ * Write the resolution into the JFIF header canvases put at the start of JPEG files
+ * @returns The image, untouched when it has no JFIF header
+ */
+function setJpegResolution(jpeg: Uint8Array<ArrayBuffer>, dpi: number): Uint8Array<ArrayBuffer> {
+    const isJfif =
+        jpeg[0] === 0xff &&
+        jpeg[1] === 0xd8 &&
+        jpeg[2] === 0xff &&
+        jpeg[3] === 0xe0 &&
+        String.fromCharCode(...jpeg.subarray(6, 11)) === 'JFIF\0';
+    if (!isJfif) return jpeg;
+
+    const output = jpeg.slice();
+    const view = new DataView(output.buffer);
+    const density = Math.min(Math.round(dpi), 0xffff);
+    // Density unit 1 is dots per inch
+    view.setUint8(13, 1);
+    view.setUint16(14, density);
+    view.setUint16(16, density);
+    return output;
+}
@@ -0,0 +1,61 @@
+import { Inject, Injectable, Optional } from '@angular/core';
+import { SHAPE_GENERATORS, ShapeGenerator } from '../generators/shape-generator';
+import { ShapeParameterDefinition } from '../generators/shape-parameters';
+
+@Injectable({
+    providedIn: 'root',
+})
+export class ShapeRegistryService {
+    private readonly generators = new Map<string, ShapeGenerator>();
+
+    constructor(@Optional() @Inject(SHAPE_GENERATORS) generators: ShapeGenerator[] | null) {
+        (generators || []).forEach((generator) => {
+            if (this.generators.has(generator.id)) {
+                // Later providers win so in-house shapes can replace built-in ones
+                console.warn(`Shape generator "${generator.id}" registered twice, using the last one`);
+            }
+            this.generators.set(generator.id, generator);
+        });
+    }
+
+    /**
+     * Get all registered generators in registration order
+     */
+    getAll(): ShapeGenerator[] {
+        return [...this.generators.values()];
+    }
+
+    /**
+     * Get a generator by shape id
+     */
+    get(id: string): ShapeGenerator | undefined {
+        return this.generators.get(id);
+    }
+
+    /**
+     * Get a generator by shape id, falling back to the first registered one
+     */
+    resolve(id: string): ShapeGenerator {
+        const generator = this.generators.get(id) || this.generators.values().next().value;
+        if (!generator) {
+            throw new Error('No shape generators registered, provide at least one SHAPE_GENERATORS');
+        }
+        return generator;
+    }
+
+    /**
+     * Find the schema definition of a parameter, preferring the given shape's schema
+     * @param key Parameter key
+     * @param shapeId Shape whose definition takes precedence
+     * @returns Definition, or undefined if no registered shape declares the parameter
+     */
+    findParameterDefinition(key: string, shapeId?: string): ShapeParameterDefinition | undefined {
+        const preferred = shapeId ? this.generators.get(shapeId) : undefined;
+        const generators = preferred ? [preferred, ...this.generators.values()] : this.getAll();
+        for (const generator of generators) {
+            const definition = generator.parameters.find((parameter) => parameter.key === key);
+            if (definition) return definition;
+        }
+        return undefined;
+    }
+}
@@ -0,0 +1,54 @@
+/**
+ * Advance widths of the printable ASCII characters, from space to tilde, in thousandths of
+ * an em. From the Adobe font metrics of the standard PDF fonts
+ */
+const HELVETICA_WIDTHS = [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556,
+    556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667,
+    611, 778, 722, 278, 500, 667, 556, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667,
+    667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500,
+    222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+    278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556,
+    556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667,
+    611, 778, 722, 278, 556, 722, 611, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667,
+    667, 611, 333, 278, 333, 584, 556, 333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556,
+    278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+/** Width assumed for characters outside printable ASCII */
+const DEFAULT_WIDTH = 556;
+
+/**
+ * Name of the built-in font standing in for a CSS font. Print exports do not embed fonts, so
+ * every family is set in Helvetica, which all PDF and PostScript readers provide
+ */
+export function getStandardFontName(bold: boolean): string {
+    return bold ? 'Helvetica-Bold' : 'Helvetica';
+}
+
+/**
+ * Width of a text set in the standard font
+ * @param text Text, as returned by `toLatin1`
+ * @param fontSize Font size
+ * @param bold Bold weight
+ * @returns Width in the units of the font size
+ */
+export function measureStandardText(text: string, fontSize: number, bold: boolean): number {
+    const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+    let total = 0;
+    for (let i = 0; i < text.length; i++) {
+        total += widths[text.charCodeAt(i) - 32] ?? DEFAULT_WIDTH;
+    }
+    return (total * fontSize) / 1000;
+}
+
+/**
+ * Restrict text to the characters the standard fonts can show without embedding, replacing
+ * others with a question mark
+ */
+export function toLatin1(text: string): string {
+    return text.replace(/[^\x20-\x7e\xa0-\xff]/g, '?');
+}
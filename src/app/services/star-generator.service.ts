@@ -1,4 +1,13 @@
 import { Injectable } from '@angular/core';
+import { SvgElementNode, svgElement } from './svg-dom';
+import {
+    createGlowFilter,
+    createLinearGradient,
+    createSpinAnimation,
+    SvgFragment,
+    wrapSvgFragment,
+} from './svg-fragment';
+import { polarPoints } from './polar';
 
 export interface StarGeneratorParameters {
     noids: number;
@@ -34,33 +43,34 @@ export const defaultStarParameters: StarGeneratorParameters = {
     viewBoxSize: 600,
 };
 
+/**
+ * Colors of nested stars, cycled in drawing order so the same parameters always give the same
+ * fills, e.g. on every frame of an animation
+ */
+const STAR_PALETTE = [
+    '#FF6B6B',
+    '#4ECDC4',
+    '#45B7D1',
+    '#96CEB4',
+    '#FFEAA7',
+    '#DDA0DD',
+    '#98D8C8',
+    '#F7DC6F',
+    '#BB8FCE',
+    '#85C1E9',
+    '#F8C471',
+    '#82E0AA',
+    '#F1948A',
+    '#85C1E9',
+    '#D2B4DE',
+];
+
 @Injectable({
     providedIn: 'root',
 })
 export class StarGeneratorService {
-    private readonly PI = Math.PI;
-
     constructor() {}
 
-    /**
-     * Generate star points coordinates
-     * @param noids Number of points
-     * @param r Radius
-     * @param dx X offset
-     * @param dy Y offset
-     * @param initialAngle Initial angle in degrees
-     * @returns Array of star points
-     */
-    starPoints(noids: number, r: number, dx: number, dy: number, initialAngle: number): number[][] {
-        return [...Array(noids)].map((_, i) => {
-            const angle = (360 / noids) * i - initialAngle;
-            const angleRad = (angle * this.PI) / 180;
-            const x = Math.cos(angleRad) * r + dx;
-            const y = Math.sin(angleRad) * r + dy;
-            return [parseFloat(x.toFixed(2)), parseFloat(y.toFixed(2))];
-        });
-    }
-
     /**
      * Calculate step for star point connection
      * @param noids Number of points
@@ -121,7 +131,7 @@ export class StarGeneratorService {
         dy: number,
         initial: number = 90
     ): number[][][] {
-        const points = this.starPoints(noids, r, dx, dy, initial);
+        const points = polarPoints(noids, r, dx, dy, initial);
 
         if (noids % 4 === 2) {
             const even = points.filter((_, i) => i % 2 === 0);
@@ -168,7 +178,7 @@ export class StarGeneratorService {
         initial: number,
         start: number = 0
     ): { x: number; y: number } {
-        const points = this.starPoints(noids, r, dx, dy, initial);
+        const points = polarPoints(noids, r, dx, dy, initial);
         const step = this.calculateStep(noids);
 
         const line1StartPoint = start % noids;
@@ -247,48 +257,25 @@ export class StarGeneratorService {
      * @returns Random hex color
      */
     private getRandomColor(): string {
-        const colors = [
-            '#FF6B6B',
-            '#4ECDC4',
-            '#45B7D1',
-            '#96CEB4',
-            '#FFEAA7',
-            '#DDA0DD',
-            '#98D8C8',
-            '#F7DC6F',
-            '#BB8FCE',
-            '#85C1E9',
-            '#F8C471',
-            '#82E0AA',
-            '#F1948A',
-            '#85C1E9',
-            '#D2B4DE',
-        ];
-        return colors[Math.floor(Math.random() * colors.length)];
+        return STAR_PALETTE[Math.floor(Math.random() * STAR_PALETTE.length)];
     }
 
     /**
-     * Create spin animation element
-     * @param duration Animation duration
-     * @returns Animation element string
+     * Generate complete star SVG
+     * @param params Star generation parameters
+     * @returns SVG string
      */
-    private createSpinAnimation(duration: string): string {
-        return `<animateTransform
-      attributeName="transform"
-      type="rotate"
-      values="0 0 0;360 0 0"
-      dur="${duration}"
-      repeatCount="indefinite"
-    />`;
+    generateStar(params: StarGeneratorParameters): string {
+        return wrapSvgFragment(this.generateStarFragment(params));
     }
 
     /**
-     * Generate complete star SVG
+     * Generate star markup that can be composed into another SVG
      * @param params Star generation parameters
-     * @returns SVG string
+     * @returns SVG fragment
      */
-    generateStar(params: StarGeneratorParameters): string {
-        const paths: string[] = [];
+    generateStarFragment(params: StarGeneratorParameters): SvgFragment {
+        const paths: SvgElementNode[] = [];
         let i = 0;
         let currentRadius = params.radius;
 
@@ -304,16 +291,19 @@ export class StarGeneratorService {
 
             starPaths.forEach((pathPoints) => {
                 const pathData = this.pointsToPathString(pathPoints);
-                const randomColor = params.nested ? this.getRandomColor() : params.fillColor;
-                paths.push(`
-          <path 
-            d="${pathData}" 
-            fill="${randomColor}" 
-            fill-rule="${params.fillRule}" 
-            stroke="${params.strokeColor}" 
-            stroke-width="${params.strokeWidth}"
-            opacity="${0.8 + i * 0.1}"
-          />`);
+                const fill = params.nested
+                    ? STAR_PALETTE[paths.length % STAR_PALETTE.length]
+                    : params.fillColor;
+                paths.push(
+                    svgElement('path', {
+                        d: pathData,
+                        fill,
+                        'fill-rule': params.fillRule,
+                        stroke: params.strokeColor,
+                        'stroke-width': params.strokeWidth,
+                        opacity: 0.8 + i * 0.1,
+                    })
+                );
             });
 
             if (params.nested) {
@@ -330,50 +320,30 @@ export class StarGeneratorService {
             i++;
         }
 
-        return this.createSvgElement(paths, params);
+        return this.createFragment(paths, params);
     }
 
     /**
-     * Create complete SVG element
+     * Create SVG fragment from path elements
      * @param paths Array of path elements
      * @param params Star parameters
-     * @returns Complete SVG string
+     * @returns SVG fragment
      */
-    private createSvgElement(paths: string[], params: StarGeneratorParameters): string {
-        const pathElements = paths.join('\n        ');
-        const spinAnimation = params.spinDuration
-            ? this.createSpinAnimation(params.spinDuration)
-            : '';
-
-        return `
-      <svg width="100%" height="100%" viewBox="${-params.viewBoxSize / 2} ${
-            -params.viewBoxSize / 2
-        } ${params.viewBoxSize} ${params.viewBoxSize}" xmlns="http://www.w3.org/2000/svg">
-        <defs>
-          <linearGradient id="starGradient" x1="0%" y1="0%" x2="100%" y2="100%">
-            <stop offset="0%" style="stop-color:${params.fillColor};stop-opacity:1" />
-            <stop offset="100%" style="stop-color:${this.lightenColor(
-                params.fillColor,
-                40
-            )};stop-opacity:0.8" />
-          </linearGradient>
-          <filter id="starGlow">
-            <feGaussianBlur stdDeviation="2" result="coloredBlur"/>
-            <feMerge> 
-              <feMergeNode in="coloredBlur"/>
-              <feMergeNode in="SourceGraphic"/>
-            </feMerge>
-          </filter>
-        </defs>
-        <rect width="${params.viewBoxSize}" height="${params.viewBoxSize}" 
-              x="${-params.viewBoxSize / 2}" y="${-params.viewBoxSize / 2}" 
-              stroke="rgba(0,0,0,0.1)" fill="none" stroke-width="1" stroke-dasharray="5,5"/>
-        <g>
-          ${pathElements}
-          ${spinAnimation}
-        </g>
-      </svg>
-    `;
+    private createFragment(paths: SvgElementNode[], params: StarGeneratorParameters): SvgFragment {
+        const spinAnimation = params.spinDuration ? [createSpinAnimation(params.spinDuration)] : [];
+
+        return {
+            defs: [
+                createLinearGradient('starGradient', [
+                    { offset: 0, color: params.fillColor, opacity: 1 },
+                    { offset: 100, color: this.lightenColor(params.fillColor, 40), opacity: 0.8 },
+                ]),
+                createGlowFilter('starGlow', 2),
+            ],
+            content: [svgElement('g', {}, [...paths, ...spinAnimation])],
+            viewBoxSize: params.viewBoxSize,
+            frame: true,
+        };
     }
 
     /**
@@ -0,0 +1,185 @@
+import { flattenPath, Point } from './path-boolean';
+import { svgElement, SvgElementNode } from './svg-dom';
+import { createFrame } from './svg-fragment';
+import { parsePathData, PathSegment } from './svg-path';
+import {
+    outlineStroke,
+    outlineSvgStrokes,
+    outlineVectorStrokes,
+    StrokeOutlineStyle,
+} from './stroke-outline';
+import { VectorPath, VectorStyle } from './vector-document';
+
+/**
+ * Area covered by an outline, holes wind the other way and count negatively
+ */
+function getArea(segments: PathSegment[]): number {
+    const signedArea = (ring: Point[]) =>
+        ring.reduce((sum, point, index) => {
+            const next = ring[(index + 1) % ring.length];
+            return sum + (point.x * next.y - next.x * point.y) / 2;
+        }, 0);
+    return Math.abs(flattenPath(segments).reduce((sum, ring) => sum + signedArea(ring), 0));
+}
+
+const style: StrokeOutlineStyle = {
+    strokeWidth: 2,
+    lineJoin: 'miter',
+    lineCap: 'butt',
+    miterLimit: 4,
+    dashArray: [],
+    dashOffset: 0,
+};
+
+describe('outlineStroke', () => {
+    const line = parsePathData('M0 0L10 0');
+    const square = parsePathData('M0 0h10v10h-10Z');
+
+    it('covers a line with butt, square and round caps', () => {
+        expect(getArea(outlineStroke(line, style))).toBeCloseTo(20, 6);
+        expect(getArea(outlineStroke(line, { ...style, lineCap: 'square' }))).toBeCloseTo(24, 6);
+        expect(getArea(outlineStroke(line, { ...style, lineCap: 'round' }, 0.001))).toBeCloseTo(
+            20 + Math.PI,
+            2
+        );
+    });
+
+    it('draws a closed outline as a ring with mitered or beveled corners', () => {
+        const mitered = outlineStroke(square, style);
+        const beveled = outlineStroke(square, { ...style, lineJoin: 'bevel' });
+
+        expect(flattenPath(mitered).length).toBe(2);
+        expect(getArea(mitered)).toBeCloseTo(12 * 12 - 8 * 8, 6);
+        // Each bevel cuts a right triangle with unit legs off an outer corner
+        expect(getArea(beveled)).toBeCloseTo(80 - 4 * 0.5, 6);
+    });
+
+    it('bevels joins sharper than the miter limit', () => {
+        const spike = parsePathData('M0 0L10 1L0 2');
+        const limited = getArea(outlineStroke(spike, { ...style, miterLimit: 1 }));
+        const beveled = getArea(outlineStroke(spike, { ...style, lineJoin: 'bevel' }));
+
+        expect(limited).toBeCloseTo(beveled, 6);
+        expect(getArea(outlineStroke(spike, { ...style, miterLimit: 100 }))).toBeGreaterThan(
+            beveled
+        );
+    });
+
+    it('outlines each dash on its own', () => {
+        const dashed = outlineStroke(line, { ...style, dashArray: [2, 2] });
+        const offset = outlineStroke(line, { ...style, dashArray: [2, 2], dashOffset: 1 });
+
+        expect(flattenPath(dashed).length).toBe(3);
+        expect(getArea(dashed)).toBeCloseTo(12, 6);
+        // Dashes start half-way into the first one, leaving 1 + 2 + 2 units of dashes
+        expect(getArea(offset)).toBeCloseTo(10, 6);
+    });
+
+    it('returns nothing for strokes without width', () => {
+        expect(outlineStroke(line, { ...style, strokeWidth: 0 })).toEqual([]);
+    });
+});
+
+describe('outlineSvgStrokes', () => {
+    function outline(...children: SvgElementNode[]): SvgElementNode[] {
+        const root = svgElement('svg', {}, children);
+        return outlineSvgStrokes(root).children as SvgElementNode[];
+    }
+
+    it('splits a stroked shape into its fill and a filled outline', () => {
+        const [fill, stroke] = outline(
+            svgElement('rect', { width: 10, height: 10, fill: 'blue', stroke: 'red' })
+        );
+
+        expect(fill.name).toBe('rect');
+        expect(fill.attrs['stroke']).toBe('none');
+        expect(stroke.name).toBe('path');
+        expect(stroke.attrs['fill']).toBe('red');
+        // The default stroke width of 1
+        expect(getArea(parsePathData(String(stroke.attrs['d'])))).toBeCloseTo(11 * 11 - 9 * 9, 6);
+    });
+
+    it('uses the stroke settings inherited from the groups', () => {
+        const [group] = outline(
+            svgElement('g', { stroke: 'red', 'stroke-width': 4, fill: 'none' }, [
+                svgElement('path', { d: 'M0 0L10 0' }),
+            ])
+        );
+        const [stroke] = group.children as SvgElementNode[];
+
+        expect(group.children.length).toBe(1);
+        expect(getArea(parsePathData(String(stroke.attrs['d'])))).toBeCloseTo(40, 6);
+    });
+
+    it('groups the fill and the outline under the attributes they share', () => {
+        const [group] = outline(
+            svgElement('circle', { r: 5, stroke: 'red', transform: 'rotate(45)', id: 'dot' })
+        );
+
+        expect(group.name).toBe('g');
+        expect(group.attrs['transform']).toBe('rotate(45)');
+        expect(group.attrs['id']).toBe('dot');
+        expect((group.children as SvgElementNode[]).map((child) => child.attrs['id'])).toEqual([
+            undefined,
+            undefined,
+        ]);
+    });
+
+    it('paints the outline first when the stroke is painted below the fill', () => {
+        const [stroke, fill] = outline(
+            svgElement('rect', { width: 10, height: 10, stroke: 'red', 'paint-order': 'stroke' })
+        );
+
+        expect(stroke.attrs['fill']).toBe('red');
+        expect(fill.name).toBe('rect');
+    });
+
+    it('keeps text, animated shapes and the helper frame as they are', () => {
+        const text = svgElement('text', { stroke: 'red' }, ['Label']);
+        const animated = svgElement('rect', { width: 10, height: 10, stroke: 'red' }, [
+            svgElement('animate', { attributeName: 'width', values: '10;20', dur: '1s' }),
+        ]);
+        const frame = createFrame(200);
+
+        expect(outline(text, animated, frame)).toEqual([text, animated, frame]);
+    });
+});
+
+describe('outlineVectorStrokes', () => {
+    const red = { type: 'color' as const, color: { r: 255, g: 0, b: 0 } };
+    const vectorStyle: VectorStyle = {
+        ...style,
+        fill: null,
+        fillRule: 'evenodd',
+        fillOpacity: 1,
+        stroke: red,
+        strokeOpacity: 0.5,
+        blendMode: 'normal',
+        strokeFirst: false,
+    };
+    const item: VectorPath = {
+        type: 'path',
+        matrix: [1, 0, 0, 1, 0, 0],
+        segments: parsePathData('M0 0L10 0'),
+        style: vectorStyle,
+    };
+
+    it('replaces a stroke by an outline filled with the stroke paint', () => {
+        const [fill, outline] = outlineVectorStrokes([item]) as VectorPath[];
+
+        expect(fill.style.stroke).toBeNull();
+        expect(outline.style.fill).toEqual(red);
+        expect(outline.style.fillOpacity).toBe(0.5);
+        expect(outline.style.fillRule).toBe('nonzero');
+        expect(getArea(outline.segments)).toBeCloseTo(20, 6);
+    });
+
+    it('keeps the painting order of the stroke and the fill', () => {
+        const [outline, fill] = outlineVectorStrokes([
+            { ...item, style: { ...vectorStyle, strokeFirst: true } },
+        ]) as VectorPath[];
+
+        expect(outline.style.fill).toEqual(red);
+        expect(fill.style.stroke).toBeNull();
+    });
+});
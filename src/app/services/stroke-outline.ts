@@ -0,0 +1,486 @@
+import {
+    INHERITED_PROPERTIES,
+    SvgAttributes,
+    SvgElementNode,
+    SvgNode,
+    svgElement,
+} from './svg-dom';
+import { isFrame } from './svg-fragment';
+import { formatPathData, getElementPath, PathSegment } from './svg-path';
+import {
+    combinePaths,
+    DEFAULT_FLATTEN_TOLERANCE,
+    flattenPolylines,
+    Point,
+    Polyline,
+} from './path-boolean';
+import {
+    getPresentationAttributes,
+    LineCap,
+    parseDashArray,
+    VectorItem,
+    VectorStyle,
+} from './vector-document';
+
+/**
+ * Stroke settings shaping the outline
+ */
+export type StrokeOutlineStyle = Pick<
+    VectorStyle,
+    'strokeWidth' | 'lineJoin' | 'lineCap' | 'miterLimit' | 'dashArray' | 'dashOffset'
+>;
+
+/** Properties a stroke outline replaces, dropped from the filled shape */
+const STROKE_PROPERTIES = [
+    'stroke',
+    'stroke-width',
+    'stroke-opacity',
+    'stroke-linejoin',
+    'stroke-linecap',
+    'stroke-miterlimit',
+    'stroke-dasharray',
+    'stroke-dashoffset',
+];
+
+/** Attributes applying to the shape and its outline alike, moved to a group holding both */
+const GROUP_ATTRIBUTES = ['id', 'class', 'transform', 'opacity', 'filter', 'clip-path', 'mask'];
+
+/** Elements whose content is not painted where it stands or cannot be outlined */
+const KEPT_ELEMENTS = new Set(['defs', 'clipPath', 'mask', 'pattern', 'marker', 'symbol', 'text']);
+
+const ANIMATION_ELEMENTS = new Set(['animate', 'animateTransform', 'animateMotion', 'set']);
+
+/**
+ * Area covered by the stroke of a path, as a filled outline
+ * @param segments Path segments
+ * @param style Width, joins, caps and dashes of the stroke
+ * @param tolerance Largest distance between curves, round joins and caps and their lines
+ * @returns Closed polygons to fill with the stroke paint, empty when the stroke paints nothing
+ */
+export function outlineStroke(
+    segments: readonly PathSegment[],
+    style: StrokeOutlineStyle,
+    tolerance = DEFAULT_FLATTEN_TOLERANCE
+): PathSegment[] {
+    const half = style.strokeWidth / 2;
+    if (!(half > 0)) return [];
+
+    let polylines = flattenPolylines(segments, tolerance).map((polyline) => ({
+        ...polyline,
+        points: polyline.points.filter(
+            (point, index) => index === 0 || !samePoint(point, polyline.points[index - 1])
+        ),
+    }));
+    if (style.dashArray.length > 0) {
+        polylines = polylines.flatMap((polyline) =>
+            dashPolyline(polyline, style.dashArray, style.dashOffset)
+        );
+    }
+
+    // Every piece winds the same way, so the nonzero union covers their overlaps once
+    const pieces = polylines
+        .flatMap((polyline) => getStrokePieces(polyline, half, style, tolerance))
+        .map((piece) => (getSignedArea(piece) < 0 ? [...piece].reverse() : piece));
+    if (pieces.length === 0) return [];
+
+    const region = pieces.flatMap((piece): PathSegment[] => [
+        { type: 'M', ...piece[0] },
+        ...piece.slice(1).map((point): PathSegment => ({ type: 'L', ...point })),
+        { type: 'Z' },
+    ]);
+    return combinePaths([{ segments: region, fillRule: 'nonzero' }], [], 'union', tolerance);
+}
+
+/**
+ * Replace the strokes of a document by filled outlines painted with the stroke paint, for
+ * plotters, cutters and icon fonts that ignore `stroke-width`. Text and shapes with animation
+ * elements keep their strokes, since their outlines could not follow the glyphs or the frames
+ * @param root Root svg element, left untouched
+ * @param tolerance Largest distance between curves and their lines, in user units
+ * @returns Document without strokes on shapes
+ */
+export function outlineSvgStrokes(
+    root: SvgElementNode,
+    tolerance = DEFAULT_FLATTEN_TOLERANCE
+): SvgElementNode {
+    const visit = (node: SvgElementNode, inherited: SvgAttributes): SvgElementNode[] => {
+        if (KEPT_ELEMENTS.has(node.name) || ANIMATION_ELEMENTS.has(node.name)) return [node];
+        // The helper frame is a guide rather than artwork
+        if (isFrame(node)) return [node];
+
+        const attrs = getPresentationAttributes(node);
+        const properties = { ...inherited };
+        INHERITED_PROPERTIES.forEach((name) => {
+            if (attrs[name] !== undefined && attrs[name] !== null && attrs[name] !== 'inherit') {
+                properties[name] = attrs[name];
+            }
+        });
+
+        const segments = getElementPath(node);
+        if (!segments) {
+            const children = node.children.flatMap((child): SvgNode[] =>
+                child.type === 'element' ? visit(child, properties) : [child]
+            );
+            return [{ ...node, children }];
+        }
+
+        const animated = node.children.some(
+            (child) => child.type === 'element' && ANIMATION_ELEMENTS.has(child.name)
+        );
+        const stroke = String(properties['stroke'] ?? 'none').trim();
+        if (animated || stroke === 'none' || properties['visibility'] === 'hidden') return [node];
+
+        const outline = outlineStroke(
+            segments,
+            {
+                strokeWidth: Math.max(0, toNumber(properties['stroke-width'], 1)),
+                lineJoin: oneOf(
+                    properties['stroke-linejoin'],
+                    ['miter', 'round', 'bevel'],
+                    'miter'
+                ),
+                lineCap: oneOf(properties['stroke-linecap'], ['butt', 'round', 'square'], 'butt'),
+                miterLimit: Math.max(1, toNumber(properties['stroke-miterlimit'], 4)),
+                dashArray: parseDashArray(properties['stroke-dasharray']),
+                dashOffset: toNumber(properties['stroke-dashoffset'], 0),
+            },
+            tolerance
+        );
+
+        const shared: SvgAttributes = {};
+        const own: SvgAttributes = {
+            ...node.attrs,
+            style: removeStrokeDeclarations(node.attrs['style']),
+        };
+        GROUP_ATTRIBUTES.forEach((name) => {
+            shared[name] = own[name];
+            delete own[name];
+        });
+        STROKE_PROPERTIES.forEach((name) => delete own[name]);
+
+        const painted: SvgElementNode[] = [];
+        const fill = String(properties['fill'] ?? 'black').trim();
+        if (fill !== 'none' && node.name !== 'line') {
+            painted.push({ ...node, attrs: { ...own, stroke: 'none' } });
+        }
+        if (outline.length > 0) {
+            const outlinePath = svgElement('path', {
+                d: formatPathData(outline),
+                fill: stroke,
+                // Do not inherit the fill opacity of the ancestors
+                'fill-opacity':
+                    properties['stroke-opacity'] ?? (properties['fill-opacity'] ? 1 : null),
+                stroke: 'none',
+            });
+            const strokeFirst = String(properties['paint-order'] ?? '')
+                .trim()
+                .startsWith('stroke');
+            if (strokeFirst) {
+                painted.unshift(outlinePath);
+            } else {
+                painted.push(outlinePath);
+            }
+        }
+
+        if (Object.values(shared).every((value) => value === undefined || value === null)) {
+            return painted;
+        }
+        if (painted.length === 1) {
+            return [{ ...painted[0], attrs: { ...shared, ...painted[0].attrs } }];
+        }
+        return [svgElement('g', shared, painted)];
+    };
+
+    const [outlined] = visit(root, { fill: 'black' });
+    return outlined;
+}
+
+/**
+ * Replace the strokes of flattened vector items by filled outlines painted with the stroke
+ * paint. Text keeps its stroke
+ * @param items Painted items in painting order
+ * @param tolerance Largest distance between curves and their lines, in user units
+ * @returns Items without stroked paths
+ */
+export function outlineVectorStrokes(
+    items: readonly VectorItem[],
+    tolerance = DEFAULT_FLATTEN_TOLERANCE
+): VectorItem[] {
+    return items.flatMap((item): VectorItem[] => {
+        const { style } = item;
+        if (item.type !== 'path' || !style.stroke || style.strokeOpacity <= 0) return [item];
+
+        const fill: VectorItem = { ...item, style: { ...style, stroke: null, strokeOpacity: 0 } };
+        const segments = outlineStroke(item.segments, style, tolerance);
+        if (segments.length === 0) return [fill];
+
+        const outline: VectorItem = {
+            ...item,
+            segments,
+            style: {
+                ...style,
+                fill: style.stroke,
+                fillOpacity: style.strokeOpacity,
+                fillRule: 'nonzero',
+                stroke: null,
+                strokeOpacity: 0,
+            },
+        };
+        return style.strokeFirst ? [outline, fill] : [fill, outline];
+    });
+}
+
+/**
+ * Polygons together covering the stroke of a polyline: a rectangle per segment, a wedge per
+ * join and a cap at each end of open polylines
+ */
+function getStrokePieces(
+    { points, closed }: Polyline,
+    half: number,
+    style: StrokeOutlineStyle,
+    tolerance: number
+): Point[][] {
+    if (points.length === 1 || (closed && points.length === 2 && samePoint(points[0], points[1]))) {
+        // Zero length subpaths only show their caps, facing along the x axis
+        const [point] = points;
+        if (style.lineCap === 'round') return [getArc(point, half, 0, 2 * Math.PI, tolerance)];
+        if (style.lineCap === 'square') {
+            return [
+                [
+                    { x: point.x - half, y: point.y - half },
+                    { x: point.x + half, y: point.y - half },
+                    { x: point.x + half, y: point.y + half },
+                    { x: point.x - half, y: point.y + half },
+                ],
+            ];
+        }
+        return [];
+    }
+
+    const pieces: Point[][] = [];
+    const count = closed ? points.length : points.length - 1;
+    const directions: Point[] = [];
+    for (let index = 0; index < count; index++) {
+        const a = points[index];
+        const b = points[(index + 1) % points.length];
+        const length = Math.hypot(b.x - a.x, b.y - a.y);
+        const direction = { x: (b.x - a.x) / length, y: (b.y - a.y) / length };
+        const normal = { x: -direction.y * half, y: direction.x * half };
+        directions.push(direction);
+        pieces.push([
+            { x: a.x + normal.x, y: a.y + normal.y },
+            { x: b.x + normal.x, y: b.y + normal.y },
+            { x: b.x - normal.x, y: b.y - normal.y },
+            { x: a.x - normal.x, y: a.y - normal.y },
+        ]);
+    }
+
+    // Joins between consecutive segments, and between the last and first of closed polylines
+    const joinCount = closed ? count : count - 1;
+    for (let index = 0; index < joinCount; index++) {
+        const incoming = directions[index];
+        const outgoing = directions[(index + 1) % count];
+        const join = getJoin(
+            points[(index + 1) % points.length],
+            incoming,
+            outgoing,
+            half,
+            style,
+            tolerance
+        );
+        if (join) pieces.push(join);
+    }
+
+    if (!closed) {
+        const start = getCap(points[0], directions[0], -1, half, style.lineCap, tolerance);
+        const end = getCap(
+            points[points.length - 1],
+            directions[count - 1],
+            1,
+            half,
+            style.lineCap,
+            tolerance
+        );
+        if (start) pieces.push(start);
+        if (end) pieces.push(end);
+    }
+    return pieces;
+}
+
+/**
+ * Polygon filling the gap on the outer side of a turn
+ */
+function getJoin(
+    vertex: Point,
+    incoming: Point,
+    outgoing: Point,
+    half: number,
+    style: StrokeOutlineStyle,
+    tolerance: number
+): Point[] | null {
+    const turn = incoming.x * outgoing.y - incoming.y * outgoing.x;
+    const along = incoming.x * outgoing.x + incoming.y * outgoing.y;
+    if (Math.abs(turn) < 1e-9 && along > 0) return null;
+
+    // The outer side is the one the path turns away from
+    const side = turn > 0 ? -1 : 1;
+    const from = { x: -incoming.y * half * side, y: incoming.x * half * side };
+    const to = { x: -outgoing.y * half * side, y: outgoing.x * half * side };
+    const a = { x: vertex.x + from.x, y: vertex.y + from.y };
+    const b = { x: vertex.x + to.x, y: vertex.y + to.y };
+
+    if (style.lineJoin === 'round') {
+        const start = Math.atan2(from.y, from.x);
+        let sweep = Math.atan2(to.y, to.x) - start;
+        // Go the short way round, on the outer side
+        if (sweep > Math.PI) sweep -= 2 * Math.PI;
+        if (sweep < -Math.PI) sweep += 2 * Math.PI;
+        return [vertex, ...getArc(vertex, half, start, sweep, tolerance)];
+    }
+
+    // Ratio of the miter length to the stroke width, 1 / sin of half the angle between segments
+    const ratio = 1 / Math.sqrt(Math.max((1 + along) / 2, 0));
+    if (style.lineJoin === 'miter' && ratio <= style.miterLimit) {
+        const bisector = { x: from.x + to.x, y: from.y + to.y };
+        const length = Math.hypot(bisector.x, bisector.y);
+        const tip = {
+            x: vertex.x + (bisector.x / length) * half * ratio,
+            y: vertex.y + (bisector.y / length) * half * ratio,
+        };
+        return [vertex, a, tip, b];
+    }
+    return [vertex, a, b];
+}
+
+/**
+ * Polygon extending an open end of a stroke
+ * @param direction Direction of the end segment
+ * @param facing -1 at the start of the polyline, 1 at its end
+ */
+function getCap(
+    point: Point,
+    direction: Point,
+    facing: number,
+    half: number,
+    cap: LineCap,
+    tolerance: number
+): Point[] | null {
+    const forward = { x: direction.x * facing * half, y: direction.y * facing * half };
+    const normal = { x: -forward.y, y: forward.x };
+    switch (cap) {
+        case 'butt':
+            return null;
+        case 'square':
+            return [
+                { x: point.x + normal.x, y: point.y + normal.y },
+                { x: point.x + normal.x + forward.x, y: point.y + normal.y + forward.y },
+                { x: point.x - normal.x + forward.x, y: point.y - normal.y + forward.y },
+                { x: point.x - normal.x, y: point.y - normal.y },
+            ];
+        case 'round':
+            return getArc(point, half, Math.atan2(normal.y, normal.x), -Math.PI, tolerance);
+    }
+}
+
+/**
+ * Points along a circular arc, close enough that the chords stay within the tolerance
+ */
+function getArc(
+    center: Point,
+    radius: number,
+    start: number,
+    sweep: number,
+    tolerance: number
+): Point[] {
+    const step = 2 * Math.acos(Math.max(1 - tolerance / radius, -1)) || Math.PI / 2;
+    const steps = Math.max(Math.ceil(Math.abs(sweep) / Math.min(step, Math.PI / 2)), 1);
+    return Array.from({ length: steps + 1 }, (_, index) => {
+        const angle = start + (sweep * index) / steps;
+        return { x: center.x + radius * Math.cos(angle), y: center.y + radius * Math.sin(angle) };
+    });
+}
+
+/**
+ * Cut a polyline into the dashes of a dash pattern. Closed polylines are followed back to
+ * their first point
+ * @param dashes Dash and gap lengths, an even count
+ * @param offset Distance into the pattern where the polyline starts
+ */
+function dashPolyline({ points, closed }: Polyline, dashes: number[], offset: number): Polyline[] {
+    const path = closed ? [...points, points[0]] : points;
+    const period = dashes.reduce((sum, dash) => sum + dash, 0);
+    let phase = ((offset % period) + period) % period;
+    let dashIndex = 0;
+    while (phase >= dashes[dashIndex]) {
+        phase -= dashes[dashIndex];
+        dashIndex = (dashIndex + 1) % dashes.length;
+    }
+    let remaining = dashes[dashIndex] - phase;
+
+    const result: Polyline[] = [];
+    let current: Point[] | null = dashIndex % 2 === 0 ? [path[0]] : null;
+    for (let index = 1; index < path.length; index++) {
+        let a = path[index - 1];
+        const b = path[index];
+        let length = Math.hypot(b.x - a.x, b.y - a.y);
+        while (length > remaining) {
+            const t = remaining / length;
+            const split = { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
+            if (current) {
+                current.push(split);
+                result.push({ points: current, closed: false });
+                current = null;
+            } else {
+                current = [split];
+            }
+            length -= remaining;
+            a = split;
+            dashIndex = (dashIndex + 1) % dashes.length;
+            remaining = dashes[dashIndex];
+        }
+        remaining -= length;
+        if (current) current.push(b);
+    }
+    if (current && current.length > 1) result.push({ points: current, closed: false });
+    return result.map((dash) => ({
+        ...dash,
+        points: dash.points.filter(
+            (point, index) => index === 0 || !samePoint(point, dash.points[index - 1])
+        ),
+    }));
+}
+
+/**
+ * Drop the stroke declarations of a `style` attribute, keeping the others
+ */
+function removeStrokeDeclarations(style: SvgAttributes[string]): SvgAttributes[string] {
+    if (typeof style !== 'string') return style;
+    const kept = style
+        .split(';')
+        .filter((declaration) => {
+            const property = declaration.split(':')[0].trim();
+            return property !== '' && !STROKE_PROPERTIES.includes(property);
+        })
+        .join(';');
+    return kept || null;
+}
+
+function getSignedArea(ring: Point[]): number {
+    return ring.reduce((total, point, index) => {
+        const next = ring[(index + 1) % ring.length];
+        return total + point.x * next.y - next.x * point.y;
+    }, 0);
+}
+
+function samePoint(a: Point, b: Point): boolean {
+    return a.x === b.x && a.y === b.y;
+}
+
+function toNumber(value: unknown, fallback: number): number {
+    const number = parseFloat(String(value ?? ''));
+    return Number.isFinite(number) ? number : fallback;
+}
+
+function oneOf<T extends string>(value: unknown, options: readonly T[], fallback: T): T {
+    return options.includes(value as T) ? (value as T) : fallback;
+}
@@ -0,0 +1,206 @@
+/**
+ * Attribute value, `null` and `undefined` attributes are left out of the output
+ */
+export type SvgAttributeValue = string | number | boolean | null | undefined;
+
+export type SvgAttributes = Record<string, SvgAttributeValue>;
+
+export interface SvgElementNode {
+    type: 'element';
+    name: string;
+    attrs: SvgAttributes;
+    children: SvgNode[];
+}
+
+export interface SvgTextNode {
+    type: 'text';
+    value: string;
+}
+
+export type SvgNode = SvgElementNode | SvgTextNode;
+
+export interface SvgSerializeOptions {
+    /** Indent nested elements on their own lines, otherwise emit minified markup (default true) */
+    pretty?: boolean;
+    /** Indentation unit used by pretty output */
+    indent?: string;
+    /** Prefix prepended to every id and to the references pointing at them */
+    idPrefix?: string;
+}
+
+/** Properties passed down to descendants, per the SVG specification */
+export const INHERITED_PROPERTIES = [
+    'fill',
+    'fill-rule',
+    'fill-opacity',
+    'stroke',
+    'stroke-width',
+    'stroke-opacity',
+    'stroke-linejoin',
+    'stroke-linecap',
+    'stroke-miterlimit',
+    'stroke-dasharray',
+    'stroke-dashoffset',
+    'font-size',
+    'font-family',
+    'font-weight',
+    'text-anchor',
+    'dominant-baseline',
+    'paint-order',
+    'visibility',
+];
+
+/** Attributes written before the alphabetically sorted rest */
+const LEADING_ATTRIBUTES = ['xmlns', 'xmlns:xlink', 'id'];
+
+/**
+ * Create an element node
+ * @param name Tag name
+ * @param attrs Attributes
+ * @param children Child nodes, strings become text nodes
+ * @returns Element node
+ */
+export function svgElement(
+    name: string,
+    attrs: SvgAttributes = {},
+    children: (SvgNode | string)[] = []
+): SvgElementNode {
+    return {
+        type: 'element',
+        name,
+        attrs,
+        children: children.map((child) => (typeof child === 'string' ? svgText(child) : child)),
+    };
+}
+
+/**
+ * Create a text node, its value is escaped on serialization
+ */
+export function svgText(value: string): SvgTextNode {
+    return { type: 'text', value };
+}
+
+/**
+ * Serialize nodes to markup with escaped values and a deterministic attribute order
+ * @param nodes Node or nodes to serialize
+ * @param options Serialization options
+ * @returns SVG markup
+ */
+export function serializeSvg(nodes: SvgNode | SvgNode[], options: SvgSerializeOptions = {}): string {
+    const pretty = options.pretty ?? true;
+    const indent = options.indent ?? '  ';
+    const list = Array.isArray(nodes) ? nodes : [nodes];
+    const namespaced = options.idPrefix ? namespaceIds(list, options.idPrefix) : list;
+    return namespaced
+        .map((node) => serializeNode(node, pretty ? indent : null, 0))
+        .join(pretty ? '\n' : '');
+}
+
+/**
+ * Prefix every id defined in the nodes and rewrite the `url(#id)` and `#id` references to them,
+ * so documents can be combined without their ids colliding
+ * @param nodes Nodes to namespace, left untouched
+ * @param prefix Prefix prepended to the ids
+ * @returns Namespaced copies of the nodes
+ */
+export function namespaceIds(nodes: SvgNode[], prefix: string): SvgNode[] {
+    const ids = new Set<string>();
+    nodes.forEach((node) => collectIds(node, ids));
+    if (ids.size === 0) return nodes;
+
+    const rename = (id: string) => (ids.has(id) ? `${prefix}${id}` : id);
+    const rewrite = (node: SvgNode): SvgNode => {
+        if (node.type === 'text') return node;
+
+        const attrs: SvgAttributes = {};
+        Object.entries(node.attrs).forEach(([key, value]) => {
+            if (typeof value !== 'string') {
+                attrs[key] = value;
+            } else if (key === 'id') {
+                attrs[key] = rename(value);
+            } else if ((key === 'href' || key === 'xlink:href') && value.startsWith('#')) {
+                attrs[key] = `#${rename(value.slice(1))}`;
+            } else {
+                attrs[key] = value.replace(/url\(\s*#([^)\s]+)\s*\)/g, (_match, id) => `url(#${rename(id)})`);
+            }
+        });
+        return { ...node, attrs, children: node.children.map(rewrite) };
+    };
+    return nodes.map(rewrite);
+}
+
+/**
+ * Collect the ids defined in a subtree
+ */
+export function collectIds(node: SvgNode, ids = new Set<string>()): Set<string> {
+    if (node.type === 'element') {
+        const id = node.attrs['id'];
+        if (typeof id === 'string' && id !== '') ids.add(id);
+        node.children.forEach((child) => collectIds(child, ids));
+    }
+    return ids;
+}
+
+export function escapeText(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+export function escapeAttribute(value: string): string {
+    return escapeText(value).replace(/"/g, '&quot;');
+}
+
+/**
+ * Format an attribute value, dropping missing and non-finite values
+ * @returns String value, or null when the attribute must be omitted
+ */
+function formatAttributeValue(value: SvgAttributeValue): string | null {
+    if (value === null || value === undefined) return null;
+    if (typeof value === 'number') {
+        if (!Number.isFinite(value)) return null;
+        return Object.is(value, -0) ? '0' : String(value);
+    }
+    return String(value);
+}
+
+function compareAttributeNames(a: string, b: string): number {
+    const rankA = LEADING_ATTRIBUTES.indexOf(a);
+    const rankB = LEADING_ATTRIBUTES.indexOf(b);
+    if (rankA !== -1 || rankB !== -1) {
+        return (rankA === -1 ? Infinity : rankA) - (rankB === -1 ? Infinity : rankB);
+    }
+    return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function serializeAttributes(attrs: SvgAttributes): string {
+    return Object.keys(attrs)
+        .sort(compareAttributeNames)
+        .map((key) => {
+            const value = formatAttributeValue(attrs[key]);
+            return value === null ? '' : ` ${key}="${escapeAttribute(value)}"`;
+        })
+        .join('');
+}
+
+function serializeNode(node: SvgNode, indent: string | null, depth: number): string {
+    const padding = indent === null ? '' : indent.repeat(depth);
+    if (node.type === 'text') {
+        return `${padding}${escapeText(node.value)}`;
+    }
+
+    const openTag = `<${node.name}${serializeAttributes(node.attrs)}`;
+    if (node.children.length === 0) {
+        return `${padding}${openTag}/>`;
+    }
+
+    // Keep text content inline so pretty printing does not add whitespace to it
+    const textOnly = node.children.every((child) => child.type === 'text');
+    if (indent === null || textOnly) {
+        const children = node.children.map((child) => serializeNode(child, null, 0)).join('');
+        return `${padding}${openTag}>${children}</${node.name}>`;
+    }
+
+    const children = node.children
+        .map((child) => serializeNode(child, indent, depth + 1))
+        .join('\n');
+    return `${padding}${openTag}>\n${children}\n${padding}</${node.name}>`;
+}
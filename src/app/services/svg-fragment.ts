@@ -0,0 +1,202 @@
+import { serializeSvg, SvgElementNode, svgElement, SvgNode, SvgSerializeOptions } from './svg-dom';
+
+/**
+ * Piece of an SVG document that can be composed with others into one document
+ */
+export interface SvgFragment {
+    /** Elements placed in the document `<defs>` */
+    defs: SvgNode[];
+    /** Drawing elements */
+    content: SvgNode[];
+    /** Side of the square viewBox, centred on the origin, that shows the whole fragment */
+    viewBoxSize: number;
+    /** Draw the dashed helper frame around the viewBox */
+    frame?: boolean;
+}
+
+/**
+ * Named part of a shape's outline, with the paint it is filled with
+ */
+export interface SvgSubPath {
+    /** Name of the part, such as `petal-1` or the name of a map feature */
+    name: string;
+    /** Path data */
+    d: string;
+    /** Fill color, `none` for open lines */
+    fill: string;
+    fillRule: 'nonzero' | 'evenodd';
+}
+
+/**
+ * Rectangle of the drawing shown by a document, in user units
+ */
+export interface SvgViewport {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/**
+ * Join sub-paths into the path data of the whole shape
+ */
+export function joinSubPaths(subPaths: readonly SvgSubPath[]): string {
+    return subPaths.map((subPath) => subPath.d).join(' ');
+}
+
+/**
+ * Create the dashed helper frame outlining a square viewBox centred on the origin
+ * @param viewBoxSize Side of the viewBox
+ * @returns Rect element
+ */
+export function createFrame(viewBoxSize: number): SvgElementNode {
+    return svgElement('rect', {
+        width: viewBoxSize,
+        height: viewBoxSize,
+        x: -viewBoxSize / 2,
+        y: -viewBoxSize / 2,
+        stroke: 'rgba(0,0,0,0.1)',
+        fill: 'none',
+        'stroke-width': 1,
+        'stroke-dasharray': '5,5',
+    });
+}
+
+/**
+ * Whether an element is the helper frame drawn by `createFrame`
+ */
+export function isFrame(node: SvgNode): boolean {
+    if (node.type !== 'element' || node.name !== 'rect') return false;
+    const frame = createFrame(Number(node.attrs['width']));
+    const keys = Object.keys(node.attrs);
+    return (
+        keys.length === Object.keys(frame.attrs).length &&
+        keys.every((key) => node.attrs[key] === frame.attrs[key])
+    );
+}
+
+/**
+ * Create the spin animation shared by the rotating shapes
+ * @param duration SMIL clock value such as `2s`
+ * @returns animateTransform element
+ */
+export function createSpinAnimation(duration: string): SvgElementNode {
+    return svgElement('animateTransform', {
+        attributeName: 'transform',
+        type: 'rotate',
+        values: '0 0 0;360 0 0',
+        dur: duration,
+        repeatCount: 'indefinite',
+    });
+}
+
+/**
+ * Create a diagonal linear gradient
+ * @param id Gradient id
+ * @param stops Offset (percent), color and opacity of each stop
+ * @returns linearGradient element
+ */
+export function createLinearGradient(
+    id: string,
+    stops: { offset: number; color: string; opacity: number }[]
+): SvgElementNode {
+    return svgElement(
+        'linearGradient',
+        { id, x1: '0%', y1: '0%', x2: '100%', y2: '100%' },
+        stops.map((stop) =>
+            svgElement('stop', {
+                offset: `${stop.offset}%`,
+                'stop-color': stop.color,
+                'stop-opacity': stop.opacity,
+            })
+        )
+    );
+}
+
+/**
+ * Create the soft glow filter used by the star shapes
+ * @param id Filter id
+ * @param deviation Blur standard deviation
+ * @returns filter element
+ */
+export function createGlowFilter(id: string, deviation: number): SvgElementNode {
+    return svgElement('filter', { id }, [
+        svgElement('feGaussianBlur', { stdDeviation: deviation, result: 'coloredBlur' }),
+        svgElement('feMerge', {}, [
+            svgElement('feMergeNode', { in: 'coloredBlur' }),
+            svgElement('feMergeNode', { in: 'SourceGraphic' }),
+        ]),
+    ]);
+}
+
+/**
+ * Wrap nodes into a root SVG element
+ * @param defs Elements placed in `<defs>`
+ * @param content Drawing elements
+ * @param viewBoxSize Side of the square viewBox centred on the origin
+ * @param frame Draw the dashed helper frame
+ * @param viewport Region to show instead of the whole viewBox
+ * @returns Root svg element
+ */
+export function createSvgDocument(
+    defs: SvgNode[],
+    content: SvgNode[],
+    viewBoxSize: number,
+    frame: boolean = false,
+    viewport?: SvgViewport | null
+): SvgElementNode {
+    const viewBox = viewport ?? {
+        x: -viewBoxSize / 2,
+        y: -viewBoxSize / 2,
+        width: viewBoxSize,
+        height: viewBoxSize,
+    };
+    return svgElement(
+        'svg',
+        {
+            xmlns: 'http://www.w3.org/2000/svg',
+            width: '100%',
+            height: '100%',
+            viewBox: formatViewBox(viewBox),
+        },
+        [
+            ...(defs.length > 0 ? [svgElement('defs', {}, defs)] : []),
+            ...(frame ? [createFrame(viewBoxSize)] : []),
+            ...content,
+        ]
+    );
+}
+
+/**
+ * Format a viewport as a `viewBox` attribute value
+ */
+export function formatViewBox({ x, y, width, height }: SvgViewport): string {
+    return [x, y, width, height].map((value) => parseFloat(value.toFixed(3))).join(' ');
+}
+
+/**
+ * Read a `viewBox` attribute value
+ * @returns The viewport, or null when the value is missing or malformed
+ */
+export function parseViewBox(value: unknown): SvgViewport | null {
+    const values = String(value ?? '')
+        .trim()
+        .split(/[\s,]+/)
+        .map(Number);
+    if (values.length !== 4 || values.some((entry) => !Number.isFinite(entry))) return null;
+    const [x, y, width, height] = values;
+    return { x, y, width, height };
+}
+
+/**
+ * Serialize a single fragment as a standalone SVG document
+ * @param fragment Fragment to wrap
+ * @param options Serialization options
+ * @returns Complete SVG string
+ */
+export function wrapSvgFragment(fragment: SvgFragment, options?: SvgSerializeOptions): string {
+    return serializeSvg(
+        createSvgDocument(fragment.defs, fragment.content, fragment.viewBoxSize, fragment.frame),
+        options
+    );
+}
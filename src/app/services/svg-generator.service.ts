@@ -1,9 +1,33 @@
 import { Injectable } from '@angular/core';
 import { BehaviorSubject } from 'rxjs';
-import { CurvedStarParameters, CurvedStarService } from './curved-star.service';
-import { StarGeneratorService, StarGeneratorParameters } from './star-generator.service';
-import { YinYangGeneratorService, YinYangParameters } from './yinyang-generator.service';
-import { GisRendererService, GisRendererParameters } from './gis-renderer.service';
+import { distinctUntilChanged, map } from 'rxjs/operators';
+import { ShapeRegistryService } from './shape-registry.service';
+import { PermalinkService } from './permalink.service';
+import {
+    namespaceIds,
+    serializeSvg,
+    SvgElementNode,
+    svgElement,
+    SvgNode,
+    SvgSerializeOptions,
+} from './svg-dom';
+import { createSvgDocument, SvgFragment, SvgSubPath, SvgViewport } from './svg-fragment';
+import { formatPathData, parsePathData, parseTransform, transformPath } from './svg-path';
+import { BOOLEAN_OPERATIONS, BooleanOperation, combinePaths, PathRegion } from './path-boolean';
+import { defaultRadialRepeat, getRepeatCopies, isRepeated, RadialRepeat, repeatFragment } from './radial-repeat';
+import { GisRendererService } from './gis-renderer.service';
+import { GeoDataImportService } from './geo-data-import.service';
+import {
+    animateFragments,
+    AnimationTimeline,
+    defaultAnimationTimeline,
+    freezeAnimations,
+    getFrameTimes,
+    getParametersAt,
+    getTimelineTime,
+    isAnimated,
+    ParameterTrack,
+} from './keyframe-animation';
 
 export interface SvgParameters {
     edgeCount: number;
@@ -18,7 +42,7 @@ export interface SvgParameters {
     // position
     centerX: number;
     centerY: number;
-    shape: 'polygon' | 'star' | 'circle' | 'spiral' | 'curved-star' | 'custom-star' | 'yinyang' | 'gis';
+    shape: string; // id of a registered shape generator
     innerRadius?: number; // for star shape
     spiralTurns?: number; // for spiral shape
     curvedNoids?: number; // for curved star points
@@ -29,13 +53,15 @@ export interface SvgParameters {
     nested?: boolean; // create nested stars
     // yinyang parameters
     useGradient?: boolean; // use gradient colors for yinyang
-    // gis parameters
-    gisSourceUrl?: string; // GeoJSON source URL
-    gisScalingFunction?: 'min' | 'max' | 'width' | 'height'; // scaling function
-    showBoundingBox?: boolean; // show bounding box
-    useRandomGisColors?: boolean; // use random colors for GIS features
+    // path parameters
+    pathData?: string; // outline drawn by the path shape
+    /** Parameters owned by a single shape generator, typed and defaulted in its module */
+    [key: string]: ShapeParameterValue | undefined;
 }
 
+/** Value of a shape parameter */
+export type ShapeParameterValue = string | number | boolean;
+
 export const defaultSvgParameters: SvgParameters = {
     edgeCount: 6,
     angle: 0,
@@ -58,365 +84,545 @@ export const defaultSvgParameters: SvgParameters = {
     nested: false,
     // yinyang defaults
     useGradient: true,
-    // gis defaults
-    gisSourceUrl: '',
-    gisScalingFunction: 'min',
-    showBoundingBox: true,
-    useRandomGisColors: true,
+    // path defaults
+    pathData: '',
+};
+
+export const BLEND_MODES = [
+    'normal',
+    'multiply',
+    'screen',
+    'overlay',
+    'darken',
+    'lighten',
+    'color-dodge',
+    'color-burn',
+    'hard-light',
+    'soft-light',
+    'difference',
+    'exclusion',
+    'hue',
+    'saturation',
+    'color',
+    'luminosity',
+] as const;
+
+export type BlendMode = (typeof BLEND_MODES)[number];
+
+export interface LayerTransform {
+    translateX: number;
+    translateY: number;
+    rotate: number; // degrees
+    scale: number;
+}
+
+export interface SvgLayer {
+    id: string;
+    name: string;
+    parameters: SvgParameters;
+    visible: boolean;
+    opacity: number; // 0 to 1
+    blendMode: BlendMode;
+    transform: LayerTransform;
+    /** Copies of the shape arranged in rings around its center */
+    repeat: RadialRepeat;
+    /** Keyframed parameters, applied over `parameters` */
+    tracks: ParameterTrack[];
+}
+
+/**
+ * Ordered stack of layers rendered bottom to top into one SVG
+ */
+export interface SvgDocument {
+    layers: SvgLayer[];
+    activeLayerId: string;
+    /** Timing of the layer tracks, defaults to `defaultAnimationTimeline` */
+    timeline?: AnimationTimeline;
+}
+
+export type SvgLayerSettings = Partial<Omit<SvgLayer, 'id' | 'parameters'>>;
+
+export const defaultLayerTransform: LayerTransform = {
+    translateX: 0,
+    translateY: 0,
+    rotate: 0,
+    scale: 1,
 };
 
+export interface ParameterUpdateOptions {
+    /**
+     * Merge into the previous history entry when it was made moments ago with the same key, e.g. the
+     * updates of one slider drag. The key names the source, layer and control of the change
+     */
+    coalesce?: string;
+    /** Apply the change without creating an undo entry, e.g. when restoring a permalink */
+    skipHistory?: boolean;
+}
+
+export interface HistoryState {
+    canUndo: boolean;
+    canRedo: boolean;
+}
+
 @Injectable({
     providedIn: 'root',
 })
 export class SvgGeneratorService {
-    private parametersSubject = new BehaviorSubject<SvgParameters>(defaultSvgParameters);
-    public parameters$ = this.parametersSubject.asObservable();
+    private readonly HISTORY_LIMIT = 100;
+    private readonly COALESCE_WINDOW = 1000;
+    private layerCounter = 0;
+    private documentSubject = new BehaviorSubject<SvgDocument>(
+        this.createDocument([this.createLayer(defaultSvgParameters)])
+    );
+    public document$ = this.documentSubject.asObservable();
+    public parameters$ = this.document$.pipe(
+        map((document) => this.getActiveLayer(document).parameters),
+        distinctUntilChanged()
+    );
+    private historySubject = new BehaviorSubject<HistoryState>({ canUndo: false, canRedo: false });
+    public history$ = this.historySubject.asObservable();
+    private undoStack: SvgDocument[] = [];
+    private redoStack: SvgDocument[] = [];
+    private lastCoalescedAt = 0;
+    private lastCoalesceKey: string | null = null;
 
     constructor(
-        private curvedStarService: CurvedStarService,
-        private starGeneratorService: StarGeneratorService,
-        private yinYangGeneratorService: YinYangGeneratorService,
-        private gisRendererService: GisRendererService
+        private shapeRegistry: ShapeRegistryService,
+        private permalinkService: PermalinkService,
+        private gisRendererService: GisRendererService,
+        private geoDataImportService: GeoDataImportService
     ) {}
 
-    updateParameters(parameters: Partial<SvgParameters>): void {
-        const currentParams = this.parametersSubject.value;
-        const newParams = { ...currentParams, ...parameters };
-        this.parametersSubject.next(newParams);
+    /**
+     * Update the parameters of the active layer
+     */
+    updateParameters(parameters: Partial<SvgParameters>, options: ParameterUpdateOptions = {}): void {
+        const activeLayer = this.getActiveLayer();
+        this.updateLayer(activeLayer.id, { ...activeLayer.parameters, ...parameters }, options);
     }
 
     getCurrentParameters(): SvgParameters {
-        return this.parametersSubject.value;
+        return this.getActiveLayer().parameters;
     }
 
-    generateSvgPath(): string {
-        const params = this.getCurrentParameters();
+    getCurrentDocument(): SvgDocument {
+        return this.documentSubject.value;
+    }
 
-        switch (params.shape) {
-            case 'polygon':
-                return this.generatePolygon(params);
-            case 'star':
-                return this.generateStar(params);
-            case 'circle':
-                return this.generateCircle(params);
-            case 'spiral':
-                return this.generateSpiral(params);
-            case 'curved-star':
-                return this.generateCurvedStar(params);
-            case 'custom-star':
-                return this.generateCustomStar(params);
-            case 'yinyang':
-                return this.generateYinYang(params);
-            case 'gis':
-                return this.generateGis(params);
-            default:
-                return this.generatePolygon(params);
-        }
+    /**
+     * Restore default parameters of the active layer while keeping its shape
+     */
+    resetParameters(): void {
+        const shape = this.getCurrentParameters().shape;
+        const generator = this.shapeRegistry.resolve(shape);
+        this.updateParameters({ ...defaultSvgParameters, ...generator.defaults, shape });
+    }
+
+    /**
+     * Replace the whole document, e.g. when restoring a permalink
+     */
+    setDocument(document: SvgDocument, options: ParameterUpdateOptions = {}): void {
+        this.commit(document, options);
     }
 
-    private generatePolygon(params: SvgParameters): string {
-        const points: string[] = [];
-        const angleStep = (2 * Math.PI) / params.edgeCount;
-        const startAngle = (params.angle * Math.PI) / 180;
+    /**
+     * Add a layer above the active one and select it
+     * @param parameters Parameters of the new layer, copies the active layer when omitted
+     * @param settings Name, visibility and other settings of the new layer
+     */
+    addLayer(parameters?: SvgParameters, settings: SvgLayerSettings = {}): void {
+        const document = this.getCurrentDocument();
+        const layer = this.createLayer(parameters || this.getCurrentParameters(), settings);
+        const index = document.layers.findIndex((item) => item.id === document.activeLayerId);
+        const layers = [...document.layers];
+        layers.splice(index + 1, 0, layer);
+        this.commit({ ...document, layers, activeLayerId: layer.id });
+    }
 
-        for (let i = 0; i < params.edgeCount; i++) {
-            const angle = startAngle + i * angleStep;
-            const x = params.centerX + params.size * Math.cos(angle);
-            const y = params.centerY + params.size * Math.sin(angle);
-            points.push(`${x.toFixed(2)},${y.toFixed(2)}`);
+    /**
+     * Combine the areas of two layers into one outline, added as a path layer above the active
+     * one. Layer transforms are applied to the outline, which is drawn untransformed
+     * @param subjectId Layer the operation starts from
+     * @param clipId Second layer, null to merge the overlapping parts of the subject alone
+     * @param operation How the areas combine
+     */
+    async combineLayers(subjectId: string, clipId: string | null, operation: BooleanOperation): Promise<void> {
+        const document = this.getCurrentDocument();
+        const subject = document.layers.find((layer) => layer.id === subjectId);
+        const clip = document.layers.find((layer) => layer.id === clipId);
+        if (!subject || (clipId !== null && !clip)) return;
+
+        const [subjectRegions, clipRegions] = await Promise.all([
+            this.getLayerRegions(subject),
+            clip ? this.getLayerRegions(clip) : [],
+        ]);
+        const segments = combinePaths(subjectRegions, clipRegions, operation);
+        if (segments.length === 0) {
+            throw new Error('The operation leaves nothing to draw');
         }
 
-        return `M ${points[0]} L ${points.slice(1).join(' L ')} Z`;
+        const label = BOOLEAN_OPERATIONS.find((option) => option.value === operation)?.label;
+        this.addLayer(
+            { ...subject.parameters, shape: 'path', pathData: formatPathData(segments), centerX: 0, centerY: 0 },
+            { name: clip ? `${label} of ${subject.name} and ${clip.name}` : `${subject.name} outline` }
+        );
     }
 
-    private generateStar(params: SvgParameters): string {
-        const points: string[] = [];
-        const outerRadius = params.size;
-        const innerRadius = params.innerRadius || params.size * 0.5;
-        const angleStep = Math.PI / params.edgeCount;
-        const startAngle = (params.angle * Math.PI) / 180;
+    removeLayer(id: string): void {
+        const document = this.getCurrentDocument();
+        if (document.layers.length <= 1) return;
 
-        for (let i = 0; i < params.edgeCount * 2; i++) {
-            const angle = startAngle + i * angleStep;
-            const radius = i % 2 === 0 ? outerRadius : innerRadius;
-            const x = params.centerX + radius * Math.cos(angle);
-            const y = params.centerY + radius * Math.sin(angle);
-            points.push(`${x.toFixed(2)},${y.toFixed(2)}`);
-        }
+        const index = document.layers.findIndex((layer) => layer.id === id);
+        const layers = document.layers.filter((layer) => layer.id !== id);
+        const activeLayerId =
+            document.activeLayerId === id ? layers[Math.max(0, index - 1)].id : document.activeLayerId;
+        this.commit({ ...document, layers, activeLayerId });
+    }
 
-        return `M ${points[0]} L ${points.slice(1).join(' L ')} Z`;
+    /**
+     * Move a layer up (towards the front) or down the stack
+     * @param id Layer id
+     * @param offset Positions to move, positive brings the layer forward
+     */
+    moveLayer(id: string, offset: number): void {
+        const document = this.getCurrentDocument();
+        const index = document.layers.findIndex((layer) => layer.id === id);
+        const target = Math.min(Math.max(index + offset, 0), document.layers.length - 1);
+        if (index < 0 || target === index) return;
+
+        const layers = [...document.layers];
+        const [layer] = layers.splice(index, 1);
+        layers.splice(target, 0, layer);
+        this.commit({ ...document, layers });
     }
 
-    private generateCircle(params: SvgParameters): string {
-        return `M ${params.centerX - params.size},${params.centerY} 
-            A ${params.size},${params.size} 0 1,1 ${params.centerX + params.size},${params.centerY} 
-            A ${params.size},${params.size} 0 1,1 ${params.centerX - params.size},${
-            params.centerY
-        } Z`;
+    selectLayer(id: string): void {
+        const document = this.getCurrentDocument();
+        if (document.activeLayerId === id || !document.layers.some((layer) => layer.id === id)) return;
+        // Selection is not an edit, keep it out of the undo history
+        this.commit({ ...document, activeLayerId: id }, { skipHistory: true });
     }
 
-    private generateSpiral(params: SvgParameters): string {
-        const points: string[] = [];
-        const turns = params.spiralTurns || 3;
-        const steps = turns * 20; // 20 points per turn
-        const maxRadius = params.size;
-        const startAngle = (params.angle * Math.PI) / 180;
+    /**
+     * Update visibility, opacity, blend mode, transform, repeat or name of a layer
+     */
+    updateLayerSettings(id: string, settings: SvgLayerSettings, options: ParameterUpdateOptions = {}): void {
+        const document = this.getCurrentDocument();
+        const layers = document.layers.map((layer) =>
+            layer.id === id
+                ? {
+                      ...layer,
+                      ...settings,
+                      transform: { ...layer.transform, ...settings.transform },
+                      repeat: { ...layer.repeat, ...settings.repeat },
+                  }
+                : layer
+        );
+        this.commit({ ...document, layers }, options);
+    }
 
-        for (let i = 0; i <= steps; i++) {
-            const progress = i / steps;
-            const angle = startAngle + progress * turns * 2 * Math.PI;
-            const radius = maxRadius * progress;
-            const x = params.centerX + radius * Math.cos(angle);
-            const y = params.centerY + radius * Math.sin(angle);
+    getTimeline(document: SvgDocument = this.getCurrentDocument()): AnimationTimeline {
+        return document.timeline || defaultAnimationTimeline;
+    }
 
-            if (i === 0) {
-                points.push(`M ${x.toFixed(2)},${y.toFixed(2)}`);
-            } else {
-                points.push(`L ${x.toFixed(2)},${y.toFixed(2)}`);
-            }
-        }
+    /**
+     * Update the duration, looping or frame count shared by the tracks of all layers
+     */
+    updateTimeline(settings: Partial<AnimationTimeline>, options: ParameterUpdateOptions = {}): void {
+        const document = this.getCurrentDocument();
+        this.commit({ ...document, timeline: { ...this.getTimeline(document), ...settings } }, options);
+    }
 
-        return points.join(' ');
-    }
-
-    private generateCurvedStar(params: SvgParameters): string {
-        const curvedParams = {
-            noids: params.curvedNoids || params.edgeCount || 8,
-            radius: params.size,
-            dx: params.centerX,
-            dy: params.centerY,
-            initialAngle: params.angle,
-            rayRatio: params.rayRatio || 1.5,
-            fillColor: params.fillColor,
-            strokeColor: params.strokeColor,
-            strokeWidth: params.strokeWidth,
-            fillRule: 'evenodd' as const,
-            viewBoxSize: 500,
+    /**
+     * Create a layer with a fresh id
+     */
+    createLayer(parameters: SvgParameters, settings: SvgLayerSettings = {}): SvgLayer {
+        this.layerCounter++;
+        return {
+            id: `layer-${this.layerCounter}`,
+            name: `Layer ${this.layerCounter}`,
+            parameters,
+            visible: true,
+            opacity: 1,
+            blendMode: 'normal',
+            tracks: [],
+            ...settings,
+            transform: { ...defaultLayerTransform, ...settings.transform },
+            repeat: { ...defaultRadialRepeat, ...settings.repeat },
         };
+    }
 
-        const points = this.curvedStarService.starPoints(
-            curvedParams.noids,
-            curvedParams.radius,
-            curvedParams.dx,
-            curvedParams.dy,
-            curvedParams.initialAngle
-        );
+    /**
+     * Go back to the document before the last change
+     */
+    undo(): void {
+        const previous = this.undoStack.pop();
+        if (!previous) return;
+
+        this.redoStack.push(this.getCurrentDocument());
+        this.lastCoalescedAt = 0;
+        this.setCurrentDocument(previous);
+        this.emitHistoryState();
+    }
 
-        return this.curvedStarService.drawCurvedStar(
-            points,
-            () => 1,
-            curvedParams.rayRatio,
-            curvedParams.fillRule,
-            curvedParams.fillColor
-        );
+    /**
+     * Re-apply the last undone change
+     */
+    redo(): void {
+        const next = this.redoStack.pop();
+        if (!next) return;
+
+        this.undoStack.push(this.getCurrentDocument());
+        this.lastCoalescedAt = 0;
+        this.setCurrentDocument(next);
+        this.emitHistoryState();
     }
 
-    private generateCustomStar(params: SvgParameters): string {
-        const starParams: StarGeneratorParameters = {
-            noids: params.edgeCount,
-            radius: params.size,
-            minRadius: params.minRadius || 50,
-            dx: params.centerX,
-            dy: params.centerY,
-            initialAngle: params.angle,
-            startVertex: params.startVertex || 0,
-            nested: params.nested || false,
-            spinDuration: params.spinDuration || false,
-            fillColor: params.fillColor,
-            strokeColor: params.strokeColor,
-            strokeWidth: params.strokeWidth,
-            fillRule: 'evenodd' as const,
-            viewBoxSize: Math.max(params.size * 2.5, 600),
-        };
+    private updateLayer(id: string, parameters: SvgParameters, options: ParameterUpdateOptions): void {
+        const document = this.getCurrentDocument();
+        const layers = document.layers.map((layer) => (layer.id === id ? { ...layer, parameters } : layer));
+        this.commit({ ...document, layers }, options);
+    }
 
-        const starPaths = this.starGeneratorService.generateStarPaths(
-            starParams.noids,
-            starParams.radius,
-            starParams.dx,
-            starParams.dy,
-            starParams.initialAngle
-        );
+    private commit(document: SvgDocument, options: ParameterUpdateOptions = {}): void {
+        if (!options.skipHistory) {
+            this.recordHistory(this.getCurrentDocument(), document, options.coalesce ?? null);
+        }
+        this.setCurrentDocument(document);
+    }
 
-        // Convert paths to SVG path string for basic shapes
-        if (starPaths.length === 1) {
-            return this.starGeneratorService.pointsToPathString(starPaths[0]);
-        } else {
-            // Handle multiple paths
-            return starPaths.map(pathArray => 
-                this.starGeneratorService.pointsToPathString(pathArray)
-            ).join(' ');
+    /**
+     * Push the current document on the undo stack unless the change is a no-op or coalesced with
+     * the previous change of the same control
+     */
+    private recordHistory(currentDocument: SvgDocument, newDocument: SvgDocument, coalesceKey: string | null): void {
+        if (JSON.stringify(currentDocument) === JSON.stringify(newDocument)) return;
+
+        const now = Date.now();
+        const merge =
+            coalesceKey !== null &&
+            coalesceKey === this.lastCoalesceKey &&
+            now - this.lastCoalescedAt < this.COALESCE_WINDOW;
+        this.lastCoalescedAt = coalesceKey !== null ? now : 0;
+        this.lastCoalesceKey = coalesceKey;
+        if (!merge) {
+            this.undoStack.push(currentDocument);
+            if (this.undoStack.length > this.HISTORY_LIMIT) {
+                this.undoStack.shift();
+            }
         }
+        this.redoStack = [];
+        this.emitHistoryState();
     }
 
-    private generateYinYang(params: SvgParameters): string {
-        const yinYangParams: YinYangParameters = {
-            noids: params.edgeCount,
-            radius: params.size,
-            dx: params.centerX,
-            dy: params.centerY,
-            initialAngle: params.angle,
-            spinDuration: params.spinDuration || false,
-            baseColor: params.fillColor,
-            strokeColor: params.strokeColor,
-            strokeWidth: params.strokeWidth,
-            useGradient: params.useGradient || true,
-            viewBoxSize: Math.max(params.size * 2.5, 600),
-        };
+    private emitHistoryState(): void {
+        this.historySubject.next({
+            canUndo: this.undoStack.length > 0,
+            canRedo: this.redoStack.length > 0,
+        });
+    }
 
-        // For path generation mode, return a simple circular path
-        return `M ${params.centerX - params.size},${params.centerY} 
-            A ${params.size},${params.size} 0 1,1 ${params.centerX + params.size},${params.centerY} 
-            A ${params.size},${params.size} 0 1,1 ${params.centerX - params.size},${params.centerY} Z`;
+    private setCurrentDocument(document: SvgDocument): void {
+        // Data of GIS sources that neither the document nor its history uses anymore is dropped
+        const sourceUrls = [...this.undoStack, document, ...this.redoStack]
+            .flatMap((state) => state.layers.map((layer) => layer.parameters['gisSourceUrl']))
+            .filter((url): url is string => typeof url === 'string');
+        this.gisRendererService.retainGeoJsonSources(sourceUrls);
+        this.geoDataImportService.retainDatasets(sourceUrls);
+        this.documentSubject.next(document);
+        this.permalinkService.write(document);
     }
 
-    private generateGis(params: SvgParameters): string {
-        // For path generation mode, return a simple placeholder rectangle
-        return `M ${params.centerX - params.size},${params.centerY - params.size} 
-            L ${params.centerX + params.size},${params.centerY - params.size} 
-            L ${params.centerX + params.size},${params.centerY + params.size} 
-            L ${params.centerX - params.size},${params.centerY + params.size} Z`;
+    private createDocument(layers: SvgLayer[]): SvgDocument {
+        return { layers, activeLayerId: layers[0].id };
     }
 
-    async generateSvgElement(): Promise<string> {
+    private getActiveLayer(document: SvgDocument = this.getCurrentDocument()): SvgLayer {
+        return document.layers.find((layer) => layer.id === document.activeLayerId) || document.layers[0];
+    }
+
+    /**
+     * Path data of the active layer's shape
+     * @returns Promise resolving to the path data of all its sub-paths
+     */
+    async generateSvgPath(): Promise<string> {
         const params = this.getCurrentParameters();
+        const generator = this.shapeRegistry.resolve(params.shape);
+        return generator.generatePath({ ...generator.defaults, ...params });
+    }
 
-        // Special handling for curved stars
-        if (params.shape === 'curved-star') {
-            const calculatedX = params.centerX + params.size + 15;
-            const calculatedY = params.centerY + params.size + 15;
-            const curvedParams: CurvedStarParameters = {
-                noids: params.curvedNoids || params.edgeCount || 8,
-                radius: params.radius,
-                rayRatio: params.rayRatio || 1.5,
-                viewBoxSize: params.size,
-                // adjustements
-                dx: params.centerX,
-                dy: params.centerY,
-                initialAngle: params.angle,
-                // styles
-                fillColor: params.fillColor,
-                strokeColor: params.strokeColor,
-                strokeWidth: params.strokeWidth,
-                fillRule: 'evenodd' as const,
-            };
-
-            return this.curvedStarService.generateCurvedStar(curvedParams);
-        }
+    /**
+     * Path data of the active layer's shape, split into named parts with their fill styles
+     * @returns Promise resolving to the sub-paths in painting order
+     */
+    async generateSvgSubPaths(): Promise<SvgSubPath[]> {
+        const params = this.getCurrentParameters();
+        const generator = this.shapeRegistry.resolve(params.shape);
+        return generator.generateSubPaths({ ...generator.defaults, ...params });
+    }
 
-        // Special handling for custom stars
-        if (params.shape === 'custom-star') {
-            const starParams: StarGeneratorParameters = {
-                noids: params.edgeCount,
-                radius: params.size,
-                minRadius: params.minRadius || 50,
-                dx: params.centerX,
-                dy: params.centerY,
-                initialAngle: params.angle,
-                startVertex: params.startVertex || 0,
-                nested: params.nested || false,
-                spinDuration: params.spinDuration || false,
-                fillColor: params.fillColor,
-                strokeColor: params.strokeColor,
-                strokeWidth: params.strokeWidth,
-                fillRule: 'evenodd' as const,
-                viewBoxSize: Math.max(params.size * 2.5, 600),
-            };
-
-            return this.starGeneratorService.generateStar(starParams);
-        }
+    /**
+     * Render all visible layers into one SVG sharing a single viewBox
+     * @param options Serialization options, pretty printed by default
+     * @param viewport Region to show, the whole drawing by default
+     * @returns SVG markup
+     */
+    async generateSvgElement(
+        options?: SvgSerializeOptions,
+        viewport?: SvgViewport | null
+    ): Promise<string> {
+        return serializeSvg(await this.generateSvgDocument(viewport), options);
+    }
 
-        // Special handling for YinYang
-        if (params.shape === 'yinyang') {
-            const yinYangParams: YinYangParameters = {
-                noids: params.edgeCount,
-                radius: params.size,
-                dx: params.centerX,
-                dy: params.centerY,
-                initialAngle: params.angle,
-                spinDuration: params.spinDuration || false,
-                baseColor: params.fillColor,
-                strokeColor: params.strokeColor,
-                strokeWidth: params.strokeWidth,
-                useGradient: params.useGradient || true,
-                viewBoxSize: Math.max(params.size * 2.5, 600),
-            };
-
-            return this.yinYangGeneratorService.generateYinYang(yinYangParams);
-        }
+    /**
+     * Build the element tree of all visible layers. Ids are namespaced per layer so
+     * gradients and filters of different layers do not collide
+     * @param viewport Region to show, the whole drawing by default
+     * @param time Render the still frame reached after playing this many seconds instead of an
+     * animated document, e.g. to encode video frames
+     * @returns Root svg element
+     */
+    async generateSvgDocument(viewport?: SvgViewport | null, time?: number): Promise<SvgElementNode> {
+        const document = this.getCurrentDocument();
+        const layers = document.layers.filter((layer) => layer.visible);
+        const timeline = this.getTimeline(document);
+        const fragments = await Promise.all(
+            layers.map((layer) =>
+                time === undefined
+                    ? this.generateLayerFragment(layer, timeline)
+                    : this.generateLayerFrame(layer, getTimelineTime(timeline, time))
+            )
+        );
 
-        // Special handling for GIS
-        if (params.shape === 'gis') {
-            const gisParams: GisRendererParameters = {
-                sourceUrl: params.gisSourceUrl || '',
-                scalingFunction: params.gisScalingFunction || 'min',
-                translateX: params.centerX,
-                translateY: params.centerY,
-                fillColor: params.fillColor,
-                scale: params.size / 200,
-                strokeColor: params.strokeColor,
-                strokeWidth: params.strokeWidth,
-                fillColors: [params.fillColor],
-                showBoundingBox: params.showBoundingBox || true,
-                boundingBoxColor: params.strokeColor,
-                viewBoxSize: Math.max(params.size * 2.5, 600),
-            };
-            if (!params.gisSourceUrl) {
-                // Return sample GIS data if no URL provided
-                const sampleData = this.gisRendererService.generateSampleGeoJson();
-                return this.gisRendererService.generateGisMapFromData(sampleData, gisParams);
-            }
+        const viewBoxSize = Math.max(
+            ...fragments.map((fragment, index) =>
+                this.getTransformedViewBoxSize(fragment.viewBoxSize, layers[index].transform)
+            ),
+            1
+        );
+        const defs: SvgNode[] = [];
+        const content: SvgNode[] = [];
+        fragments.forEach((fragment, index) => {
+            // Namespace defs and content together so references follow their renamed targets
+            const nodes = namespaceIds([...fragment.defs, ...fragment.content], `layer${index + 1}-`);
+            defs.push(...nodes.slice(0, fragment.defs.length));
+            content.push(this.createLayerGroup(layers[index], nodes.slice(fragment.defs.length)));
+        });
+        const frame = fragments.some((fragment) => fragment.frame);
+
+        const root = createSvgDocument(defs, content, viewBoxSize, frame, viewport);
+        // Shapes may carry their own SMIL animations, such as the spin
+        return time === undefined ? root : freezeAnimations(root, time);
+    }
 
-            // Return placeholder for async GIS loading
-            return await this.gisRendererService.generateGisMap(gisParams);
+    /**
+     * Render the active layer alone, with its transform, opacity and blend mode applied, e.g. to
+     * tile it into a pattern
+     * @returns Fragment of the layer, drawn where it sits in the document
+     */
+    async generateActiveLayerFragment(): Promise<SvgFragment> {
+        const document = this.getCurrentDocument();
+        const layer = this.getActiveLayer(document);
+        const fragment = await this.generateLayerFragment(layer, this.getTimeline(document));
+        return {
+            defs: fragment.defs,
+            content: [this.createLayerGroup(layer, fragment.content)],
+            viewBoxSize: this.getTransformedViewBoxSize(fragment.viewBoxSize, layer.transform),
+        };
+    }
+
+    /**
+     * Render one layer. Animated layers are sampled along the timeline and their frames merged
+     * into SMIL animations
+     */
+    private async generateLayerFragment(layer: SvgLayer, timeline: AnimationTimeline): Promise<SvgFragment> {
+        if (!isAnimated(layer.tracks)) {
+            return this.generateLayerFrame(layer, 0);
         }
 
-        // Regular shapes
-        const path = this.generateSvgPath();
-        const viewBoxSize =
-            Math.max(params.centerX + params.size + 50, params.centerY + params.size + 50) * 2;
-
-        return `
-      <svg width="100%" height="100%" viewBox="${-viewBoxSize / 2} ${
-            -viewBoxSize / 2
-        } ${viewBoxSize} ${viewBoxSize}" xmlns="http://www.w3.org/2000/svg">
-        <defs>
-          <linearGradient id="gradient" x1="0%" y1="0%" x2="100%" y2="100%">
-            <stop offset="0%" style="stop-color:${params.fillColor};stop-opacity:1" />
-            <stop offset="100%" style="stop-color:${this.lightenColor(
-                params.fillColor,
-                40
-            )};stop-opacity:1" />
-          </linearGradient>
-        </defs>
-        <path 
-          d="${path}" 
-          fill="url(#gradient)" 
-          stroke="${params.strokeColor}" 
-          stroke-width="${params.strokeWidth}"
-          stroke-linejoin="round"
-          stroke-linecap="round"
-        />
-      </svg>
-    `;
-    }
-
-    private lightenColor(color: string, percent: number): string {
-        // Simple color lightening function
-        const num = parseInt(color.replace('#', ''), 16);
-        const amt = Math.round(2.55 * percent);
-        const R = (num >> 16) + amt;
-        const G = ((num >> 8) & 0x00ff) + amt;
-        const B = (num & 0x0000ff) + amt;
-        return (
-            '#' +
-            (
-                0x1000000 +
-                (R < 255 ? (R < 1 ? 0 : R) : 255) * 0x10000 +
-                (G < 255 ? (G < 1 ? 0 : G) : 255) * 0x100 +
-                (B < 255 ? (B < 1 ? 0 : B) : 255)
-            )
-                .toString(16)
-                .slice(1)
+        const frames = await Promise.all(
+            getFrameTimes(timeline).map((time) => this.generateLayerFrame(layer, time))
+        );
+        return animateFragments(frames, timeline);
+    }
+
+    /**
+     * Render one layer with its tracks evaluated at a time of the timeline, repeated around the
+     * shape's center when the layer asks for it
+     */
+    private async generateLayerFrame(layer: SvgLayer, time: number): Promise<SvgFragment> {
+        const generator = this.shapeRegistry.resolve(layer.parameters.shape);
+        const params = getParametersAt(
+            { ...generator.defaults, ...layer.parameters },
+            layer.tracks,
+            generator.parameters,
+            time
+        );
+        const fragment = await generator.generateFragment(params);
+        return repeatFragment(fragment, layer.repeat, params.centerX, params.centerY);
+    }
+
+    /**
+     * Filled areas of a layer's shape and its repeated copies at the start of the timeline, in
+     * document coordinates
+     */
+    private async getLayerRegions(layer: SvgLayer): Promise<PathRegion[]> {
+        const generator = this.shapeRegistry.resolve(layer.parameters.shape);
+        const params = getParametersAt(
+            { ...generator.defaults, ...layer.parameters },
+            layer.tracks,
+            generator.parameters,
+            0
+        );
+        const subPaths = (await generator.generateSubPaths(params)).filter((subPath) => subPath.fill !== 'none');
+        const copies = isRepeated(layer.repeat)
+            ? getRepeatCopies(layer.repeat, params.centerX, params.centerY)
+            : [{ ring: 0, transform: null }];
+        return copies.flatMap((copy) => {
+            const transform = [this.getLayerTransform(layer.transform), copy.transform].filter(Boolean).join(' ');
+            const matrix = parseTransform(transform);
+            return subPaths.map((subPath) => ({
+                segments: transformPath(parsePathData(subPath.d), matrix),
+                fillRule: subPath.fillRule,
+            }));
+        });
+    }
+
+    /**
+     * Wrap layer content in a group applying its transform, opacity and blend mode
+     */
+    private createLayerGroup(layer: SvgLayer, content: SvgNode[]): SvgElementNode {
+        return svgElement(
+            'g',
+            {
+                'data-layer': layer.id,
+                transform: this.getLayerTransform(layer.transform),
+                opacity: layer.opacity < 1 ? layer.opacity : null,
+                style: layer.blendMode !== 'normal' ? `mix-blend-mode:${layer.blendMode}` : null,
+            },
+            content
         );
     }
+
+    /**
+     * Value of the `transform` attribute applying a layer transform, null when it changes nothing
+     */
+    private getLayerTransform({ translateX, translateY, rotate, scale }: LayerTransform): string | null {
+        const transforms = [];
+        if (translateX || translateY) transforms.push(`translate(${translateX} ${translateY})`);
+        if (rotate) transforms.push(`rotate(${rotate})`);
+        if (scale !== 1) transforms.push(`scale(${scale})`);
+        return transforms.length ? transforms.join(' ') : null;
+    }
+
+    /**
+     * Side of the origin centred square containing a fragment's viewBox once the layer transform is applied
+     */
+    private getTransformedViewBoxSize(viewBoxSize: number, transform: LayerTransform): number {
+        const angle = (transform.rotate * Math.PI) / 180;
+        const rotatedHalf =
+            (viewBoxSize / 2) * Math.abs(transform.scale) * (Math.abs(Math.cos(angle)) + Math.abs(Math.sin(angle)));
+        const offset = Math.max(Math.abs(transform.translateX), Math.abs(transform.translateY));
+        return (rotatedHalf + offset) * 2;
+    }
 }
@@ -0,0 +1,174 @@
+import { INHERITED_PROPERTIES, svgElement, SvgElementNode, SvgNode, svgText } from './svg-dom';
+import { createFrame } from './svg-fragment';
+import { DEFAULT_OPTIMIZE_OPTIONS, optimizeSvg, SvgOptimizeOptions } from './svg-optimizer';
+import { formatPathData, getElementPath } from './svg-path';
+
+/**
+ * Read markup back into nodes, dropping the whitespace between elements
+ */
+function parseMarkup(markup: string): SvgElementNode {
+    const toNode = (element: Element): SvgElementNode => {
+        const attrs: Record<string, string> = {};
+        Array.from(element.attributes).forEach(({ name, value }) => (attrs[name] = value));
+        const children = Array.from(element.childNodes).flatMap((child): SvgNode[] => {
+            if (child.nodeType === 1) return [toNode(child as Element)];
+            const text = child.nodeValue ?? '';
+            return child.nodeType === 3 && text.trim() !== '' ? [svgText(text)] : [];
+        });
+        return svgElement(element.nodeName, attrs, children);
+    };
+    return toNode(new DOMParser().parseFromString(markup, 'image/svg+xml').documentElement);
+}
+
+/** Numbers written the same way whatever their original form, `.5` and `0.50` alike */
+function normalize(value: unknown): string {
+    return String(value).replace(/-?\d*\.?\d+(?:e-?\d+)?/g, (number) => String(Number(number)));
+}
+
+/**
+ * What a document draws: each element outside the definitions with its geometry, its other
+ * attributes and the presentation attributes it ends up with, set on it or inherited
+ */
+function describeDrawing(node: SvgElementNode, inherited: Record<string, string> = {}): string[] {
+    if (node.name === 'defs') return [];
+
+    const own: Record<string, string> = {};
+    Object.entries(node.attrs).forEach(([name, value]) => (own[name] = normalize(value)));
+    const animation = node.name.startsWith('animate') || node.name === 'set';
+    const resolved = animation ? inherited : { ...inherited, ...pickInherited(own) };
+    const geometry = getElementPath(node);
+
+    const description: string[] = [];
+    if (node.name !== 'svg') {
+        const attrs = Object.keys(own)
+            .filter((name) => animation || !INHERITED_PROPERTIES.includes(name))
+            .filter((name) => !geometry || name !== 'd')
+            .sort()
+            .map((name) => `${name}=${own[name]}`);
+        // Groups only pass their presentation attributes down
+        const styles =
+            animation || node.name === 'g'
+                ? []
+                : Object.entries(resolved).map(([n, v]) => `${n}:${v}`);
+        const shape = geometry ? [formatPathData(geometry, 3)] : [];
+        description.push([node.name, ...shape, ...attrs, ...styles.sort()].join(' '));
+    }
+    node.children.forEach((child) => {
+        if (child.type === 'element') description.push(...describeDrawing(child, resolved));
+        else description.push(`text ${child.value.trim()}`);
+    });
+    return description;
+}
+
+function pickInherited(attrs: Record<string, string>): Record<string, string> {
+    return Object.fromEntries(
+        Object.entries(attrs).filter(([name]) => INHERITED_PROPERTIES.includes(name))
+    );
+}
+
+/**
+ * Document exercising every pass: the helper frame, used and unused definitions, groups whose
+ * children share attributes, redundant values, long decimals and an animation
+ */
+function createDocument(): SvgElementNode {
+    const stop = (offset: number, color: string) =>
+        svgElement('stop', { offset, 'stop-color': color });
+    const petal = (d: string, extra = {}) =>
+        svgElement('path', {
+            d,
+            fill: 'url(#used)',
+            stroke: '#123456',
+            'stroke-width': 1.5,
+            ...extra,
+        });
+    return svgElement(
+        'svg',
+        { xmlns: 'http://www.w3.org/2000/svg', viewBox: '-100 -100 200 200' },
+        [
+            createFrame(200),
+            svgElement('defs', {}, [
+                svgElement('linearGradient', { id: 'used' }, [stop(0, '#ff0000'), stop(1, 'blue')]),
+                svgElement('radialGradient', { id: 'unused' }, [stop(0.5, 'green')]),
+            ]),
+            svgElement('g', { transform: 'rotate(30.125)' }, [
+                petal('M 0.125 0 L 10.25 0 L 10.25 20.5 Z'),
+                petal('M 0 0 C 10 0 20.375 10 20.375 20 Z', { 'fill-opacity': 0.25 }),
+                petal('M -10 -10 L -20.5 -10 L -20.5 -30.75 L -10 -30.75 Z'),
+            ]),
+            svgElement('g', { fill: 'red', 'stroke-linejoin': 'round' }, [
+                svgElement('circle', { cx: 12.5, cy: -7.25, r: 5, fill: 'red' }),
+                svgElement('rect', { x: 1, y: 2, width: 30.5, height: 4, fill: 'blue' }),
+                svgElement('text', { x: 0, y: 40, 'font-size': 12 }, ['Label']),
+            ]),
+            svgElement('path', { d: 'M0 0L10 10', stroke: 'black' }, [
+                svgElement('animate', {
+                    attributeName: 'd',
+                    values: 'M0 0L10 10;M0 0L20.125 20.125',
+                    dur: '2s',
+                    fill: 'freeze',
+                }),
+            ]),
+        ]
+    );
+}
+
+describe('optimizeSvg', () => {
+    const options: SvgOptimizeOptions = { ...DEFAULT_OPTIMIZE_OPTIONS, precision: 3 };
+
+    it('draws the same as the regular markup once minified', () => {
+        const document = createDocument();
+        const { markup } = optimizeSvg(document, options);
+        const withoutFrame = { ...document, children: document.children.slice(1) };
+
+        expect(markup).not.toContain('\n');
+        expect(describeDrawing(parseMarkup(markup))).toEqual(describeDrawing(withoutFrame));
+    });
+
+    it('draws the same whether the markup is minified or indented', () => {
+        const document = createDocument();
+        const minified = optimizeSvg(document, options).markup;
+        const pretty = optimizeSvg(document, { ...options, minify: false }).markup;
+
+        expect(pretty).toContain('\n');
+        expect(describeDrawing(parseMarkup(pretty))).toEqual(
+            describeDrawing(parseMarkup(minified))
+        );
+    });
+
+    it('shrinks the markup', () => {
+        const result = optimizeSvg(createDocument(), options);
+
+        expect(result.optimizedSize).toBeLessThan(result.originalSize);
+        expect(result.optimizedSize).toBe(new TextEncoder().encode(result.markup).length);
+    });
+
+    it('drops the helper frame and the definitions nothing uses', () => {
+        const { markup } = optimizeSvg(createDocument(), options);
+
+        expect(markup).toContain('id="used"');
+        expect(markup).not.toContain('id="unused"');
+        expect(markup).not.toContain('stroke-dasharray');
+    });
+
+    it('moves the attributes shared by a group onto it', () => {
+        const { markup } = optimizeSvg(createDocument(), options);
+        const [, petals] = parseMarkup(markup).children as SvgElementNode[];
+        const children = petals.children as SvgElementNode[];
+
+        expect(petals.attrs['fill']).toBe('url(#used)');
+        expect(petals.attrs['stroke-width']).toBe('1.5');
+        expect(children.map((child) => child.attrs['fill'])).toEqual([
+            undefined,
+            undefined,
+            undefined,
+        ]);
+    });
+
+    it('keeps the regular document untouched', () => {
+        const document = createDocument();
+        const copy = JSON.parse(JSON.stringify(document));
+        optimizeSvg(document, options);
+
+        expect(document).toEqual(copy);
+    });
+});
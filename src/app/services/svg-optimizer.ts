@@ -0,0 +1,340 @@
+import {
+    collectIds,
+    INHERITED_PROPERTIES,
+    serializeSvg,
+    SvgAttributes,
+    SvgAttributeValue,
+    SvgElementNode,
+    SvgNode,
+} from './svg-dom';
+import { isFrame } from './svg-fragment';
+import { minifyPathData } from './svg-path';
+
+export interface SvgOptimizeOptions {
+    /** Decimal places kept in coordinates */
+    precision: number;
+    /** Drop definitions nothing references */
+    removeUnusedDefs: boolean;
+    /** Drop the dashed helper frame */
+    removeFrame: boolean;
+    /**
+     * Move attributes shared by every child of a group onto the group and drop attributes
+     * repeating the value they inherit
+     */
+    mergeAttributes: boolean;
+    /** Write path commands relative to the current point when that is shorter */
+    relativePaths: boolean;
+    /** Write the markup without indentation */
+    minify: boolean;
+}
+
+export const DEFAULT_OPTIMIZE_OPTIONS: SvgOptimizeOptions = {
+    precision: 2,
+    removeUnusedDefs: true,
+    removeFrame: true,
+    mergeAttributes: true,
+    relativePaths: true,
+    minify: true,
+};
+
+export const OPTIMIZE_PRECISIONS = [0, 1, 2, 3, 4];
+
+export interface SvgOptimizeResult {
+    markup: string;
+    /** Sizes in bytes of the regular and the optimized markup */
+    originalSize: number;
+    optimizedSize: number;
+}
+
+/**
+ * Decimal places kept at least in values that are not coordinates, such as opacities, offsets
+ * and transforms, where coarse rounding shows
+ */
+const DETAIL_PRECISION = 3;
+
+/** Attributes holding positions or lengths in user units */
+const COORDINATE_ATTRIBUTES = new Set([
+    'x',
+    'y',
+    'x1',
+    'y1',
+    'x2',
+    'y2',
+    'cx',
+    'cy',
+    'd',
+    'r',
+    'rx',
+    'ry',
+    'fx',
+    'fy',
+    'dx',
+    'dy',
+    'width',
+    'height',
+    'points',
+    'stroke-width',
+    'stroke-dasharray',
+    'stroke-dashoffset',
+    'font-size',
+]);
+
+/** Attributes holding names or references, left as they are */
+const NAME_ATTRIBUTES = new Set([
+    'id',
+    'class',
+    'href',
+    'xlink:href',
+    'xmlns',
+    'xmlns:xlink',
+    'font-family',
+    'attributeName',
+]);
+
+/** Attributes of animation elements holding values of the animated attribute */
+const ANIMATION_VALUE_ATTRIBUTES = new Set(['values', 'from', 'to', 'by']);
+
+/** Elements whose attributes describe timing rather than presentation, `fill` included */
+const ANIMATION_ELEMENTS = new Set(['animate', 'animateTransform', 'animateMotion', 'set']);
+
+/** Decimal numbers, not preceded by a letter so names such as `layer1` are left alone */
+const DECIMAL_PATTERN = /(?<![a-zA-Z_])[-+]?(?:\d*\.\d+|\d+\.?)(?:[eE][-+]?\d+)?/g;
+
+/** Values that depend on the element they are set on, such as `1.2em` font sizes */
+const RELATIVE_VALUE_PATTERN = /(?:em|ex|%)\s*$/;
+
+/**
+ * Shrink a document: drop the helper frame and unused definitions, merge presentation
+ * attributes into groups, round numbers, shorten path data and minify the markup
+ * @param root Root svg element, left untouched
+ * @param options Optimization settings
+ * @returns Optimized markup with the sizes before and after
+ */
+export function optimizeSvg(root: SvgElementNode, options: SvgOptimizeOptions): SvgOptimizeResult {
+    let optimized = root;
+    if (options.removeFrame) {
+        optimized = { ...optimized, children: optimized.children.filter((node) => !isFrame(node)) };
+    }
+    if (options.removeUnusedDefs) {
+        optimized = removeUnusedDefs(optimized);
+    }
+    if (options.mergeAttributes) {
+        optimized = dropInheritedAttributes(hoistSharedAttributes(optimized), new Map());
+    }
+    optimized = roundNumbers(optimized, options);
+
+    const markup = serializeSvg(optimized, { pretty: !options.minify });
+    return {
+        markup,
+        originalSize: getByteSize(serializeSvg(root)),
+        optimizedSize: getByteSize(markup),
+    };
+}
+
+/**
+ * Size of a text encoded as UTF-8
+ */
+export function getByteSize(text: string): number {
+    return new TextEncoder().encode(text).length;
+}
+
+/**
+ * Remove the entries of the root `<defs>` that neither the drawing nor another used
+ * definition references, and the `<defs>` left empty
+ */
+function removeUnusedDefs(root: SvgElementNode): SvgElementNode {
+    const isDefs = (node: SvgNode): node is SvgElementNode =>
+        node.type === 'element' && node.name === 'defs';
+    const definitions = root.children.filter(isDefs).flatMap((defs) => defs.children);
+
+    // Each id points at the top-level definition containing it
+    const owners = new Map<string, SvgNode>();
+    definitions.forEach((definition) =>
+        collectIds(definition).forEach((id) => owners.set(id, definition))
+    );
+
+    const used = new Set<SvgNode>();
+    const pending = root.children
+        .filter((node) => !isDefs(node))
+        .flatMap((node) => [...collectReferences(node)]);
+    while (pending.length > 0) {
+        const owner = owners.get(pending.pop() ?? '');
+        if (owner && !used.has(owner)) {
+            used.add(owner);
+            pending.push(...collectReferences(owner));
+        }
+    }
+
+    const children = root.children.flatMap((node): SvgNode[] => {
+        if (!isDefs(node)) return [node];
+        const kept = node.children.filter((definition) => used.has(definition));
+        return kept.length > 0 ? [{ ...node, children: kept }] : [];
+    });
+    return { ...root, children };
+}
+
+/**
+ * Ids referenced by `url(#id)` values and `#id` links in a subtree
+ */
+function collectReferences(node: SvgNode, references = new Set<string>()): Set<string> {
+    if (node.type === 'text') return references;
+
+    Object.entries(node.attrs).forEach(([name, value]) => {
+        if (typeof value !== 'string') return;
+        if ((name === 'href' || name === 'xlink:href') && value.startsWith('#')) {
+            references.add(value.slice(1));
+        }
+        for (const match of value.matchAll(/url\(\s*['"]?#([^)'"\s]+)/g)) {
+            references.add(match[1]);
+        }
+    });
+    node.children.forEach((child) => collectReferences(child, references));
+    return references;
+}
+
+/**
+ * Move inherited presentation attributes that every child of a group sets to the same value
+ * onto the group, children first so values travel up through nested groups
+ */
+function hoistSharedAttributes(node: SvgElementNode): SvgElementNode {
+    const children = node.children.map((child) =>
+        child.type === 'element' ? hoistSharedAttributes(child) : child
+    );
+    const elements = children.filter((child) => child.type === 'element');
+    const mergeable =
+        node.name === 'g' &&
+        elements.length > 1 &&
+        elements.length === children.length &&
+        !elements.some((child) => ANIMATION_ELEMENTS.has(child.name));
+    if (!mergeable) return { ...node, children };
+
+    // A style declaration on the group would override the hoisted attribute
+    const styled = getStyleProperties(node.attrs);
+    const shared = INHERITED_PROPERTIES.filter((name) => {
+        const value = elements[0].attrs[name];
+        return (
+            !isSet(node.attrs[name]) &&
+            !styled.has(name) &&
+            isSet(value) &&
+            elements.every((child) => String(child.attrs[name]) === String(value))
+        );
+    });
+    if (shared.length === 0) return { ...node, children };
+
+    const attrs = { ...node.attrs };
+    shared.forEach((name) => (attrs[name] = elements[0].attrs[name]));
+    return {
+        ...node,
+        attrs,
+        children: elements.map((child) => ({ ...child, attrs: omit(child.attrs, shared) })),
+    };
+}
+
+/**
+ * Remove inherited presentation attributes whose value the element already inherits
+ * @param inherited Values set by the ancestors
+ */
+function dropInheritedAttributes(
+    node: SvgElementNode,
+    inherited: Map<string, string>
+): SvgElementNode {
+    if (ANIMATION_ELEMENTS.has(node.name)) return node;
+
+    const redundant = INHERITED_PROPERTIES.filter((name) => {
+        const value = node.attrs[name];
+        return (
+            isSet(value) &&
+            inherited.get(name) === String(value) &&
+            !RELATIVE_VALUE_PATTERN.test(String(value))
+        );
+    });
+    const attrs = omit(node.attrs, redundant);
+
+    const passed = new Map(inherited);
+    const styled = getStyleProperties(attrs);
+    INHERITED_PROPERTIES.forEach((name) => {
+        const value = attrs[name];
+        if (styled.has(name) || value === 'inherit') {
+            // The value comes from elsewhere, descendants keep theirs
+            passed.delete(name);
+        } else if (isSet(value)) {
+            passed.set(name, String(value));
+        }
+    });
+
+    // Definitions inherit from where they are used, not from their ancestors
+    const scope = node.name === 'defs' ? new Map<string, string>() : passed;
+    const children = node.children.map((child) =>
+        child.type === 'element' ? dropInheritedAttributes(child, scope) : child
+    );
+    return { ...node, attrs, children };
+}
+
+/**
+ * Round numbers in attribute values, coordinates to the chosen precision and other values to
+ * at least `DETAIL_PRECISION` decimal places, and shorten path data
+ */
+function roundNumbers(node: SvgElementNode, options: SvgOptimizeOptions): SvgElementNode {
+    const animated = node.attrs['attributeName'];
+    const attrs: SvgAttributes = {};
+    Object.entries(node.attrs).forEach(([name, value]) => {
+        // Animation values are values of the animated attribute
+        attrs[name] =
+            ANIMATION_VALUE_ATTRIBUTES.has(name) && typeof animated === 'string'
+                ? roundAttribute(animated, value, options, true)
+                : roundAttribute(name, value, options, false);
+    });
+    const children = node.children.map((child) =>
+        child.type === 'element' ? roundNumbers(child, options) : child
+    );
+    return { ...node, attrs, children };
+}
+
+/**
+ * @param animation Value of an animation, path data then keeps its commands so the frames can
+ * still be interpolated
+ */
+function roundAttribute(
+    name: string,
+    value: SvgAttributeValue,
+    options: SvgOptimizeOptions,
+    animation: boolean
+): SvgAttributeValue {
+    const precision = COORDINATE_ATTRIBUTES.has(name)
+        ? options.precision
+        : Math.max(options.precision, DETAIL_PRECISION);
+    const round = (number: number) => parseFloat(number.toFixed(precision));
+
+    if (typeof value === 'number') return Number.isFinite(value) ? round(value) : value;
+    if (typeof value !== 'string' || NAME_ATTRIBUTES.has(name)) return value;
+    if (name === 'd' && !animation) {
+        return minifyPathData(value, options.precision, options.relativePaths);
+    }
+    // Hex colors and references are not numbers
+    if (value.includes('#')) return value;
+    return value.replace(DECIMAL_PATTERN, (match) =>
+        /[.eE]/.test(match) ? String(round(Number(match))) : match
+    );
+}
+
+/**
+ * Names of the properties declared in a `style` attribute
+ */
+function getStyleProperties(attrs: SvgAttributes): Set<string> {
+    return new Set(
+        String(attrs['style'] ?? '')
+            .split(';')
+            .map((declaration) => declaration.split(':')[0].trim())
+            .filter((property) => property !== '')
+    );
+}
+
+function isSet(value: SvgAttributeValue): boolean {
+    return value !== null && value !== undefined;
+}
+
+function omit(attrs: SvgAttributes, names: readonly string[]): SvgAttributes {
+    const result = { ...attrs };
+    names.forEach((name) => delete result[name]);
+    return result;
+}
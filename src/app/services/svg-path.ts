@@ -0,0 +1,637 @@
+import { SvgElementNode } from './svg-dom';
+
+/**
+ * Absolute path command. Every SVG path reduces to these: lines stay lines, quadratic curves
+ * and arcs become cubic curves
+ */
+export type PathSegment =
+    | { type: 'M'; x: number; y: number }
+    | { type: 'L'; x: number; y: number }
+    | { type: 'C'; x1: number; y1: number; x2: number; y2: number; x: number; y: number }
+    | { type: 'Z' };
+
+/**
+ * 2D affine transform `[a, b, c, d, e, f]`, mapping (x, y) to (ax + cy + e, bx + dy + f)
+ * like SVG and PDF matrices
+ */
+export type Matrix = [number, number, number, number, number, number];
+
+export interface Bounds {
+    minX: number;
+    minY: number;
+    maxX: number;
+    maxY: number;
+}
+
+export const IDENTITY_MATRIX: Matrix = [1, 0, 0, 1, 0, 0];
+
+/** Number of arguments taken by each command */
+const ARGUMENT_COUNTS: Record<string, number> = {
+    m: 2,
+    l: 2,
+    h: 1,
+    v: 1,
+    c: 6,
+    s: 4,
+    q: 4,
+    t: 2,
+    a: 7,
+    z: 0,
+};
+
+/**
+ * Path command with absolute coordinates, keeping the kind of command it was written as. `H`
+ * and `V` take a single coordinate, arcs keep their radii, rotation and flags before the end
+ * point
+ */
+export interface PathCommand {
+    type: 'M' | 'L' | 'H' | 'V' | 'C' | 'S' | 'Q' | 'T' | 'A' | 'Z';
+    args: number[];
+}
+
+/**
+ * Parse path data into commands, resolving relative coordinates and implicit repeats
+ * @param d Value of a `d` attribute
+ * @returns Commands, stopping at the first malformed command like browsers do
+ */
+export function parsePathCommands(d: string): PathCommand[] {
+    const tokens = d.match(/[a-zA-Z]|[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/g) ?? [];
+    const commands: PathCommand[] = [];
+    let x = 0;
+    let y = 0;
+    let startX = 0;
+    let startY = 0;
+    let index = 0;
+    let command = '';
+
+    while (index < tokens.length) {
+        if (/[a-zA-Z]/.test(tokens[index])) {
+            command = tokens[index++];
+        } else if (command === '' || /[zZ]/.test(command)) {
+            break;
+        }
+        const lower = command.toLowerCase();
+        const count = ARGUMENT_COUNTS[lower];
+        if (count === undefined) break;
+
+        const args = tokens.slice(index, index + count).map(Number);
+        if (args.length < count || args.some((value) => Number.isNaN(value))) break;
+        index += count;
+        const relative = command !== command.toUpperCase();
+        const dx = relative ? x : 0;
+        const dy = relative ? y : 0;
+
+        let absolute: number[];
+        switch (lower) {
+            case 'h':
+                absolute = [args[0] + dx];
+                x = absolute[0];
+                break;
+            case 'v':
+                absolute = [args[0] + dy];
+                y = absolute[0];
+                break;
+            case 'a':
+                absolute = [...args.slice(0, 5), args[5] + dx, args[6] + dy];
+                break;
+            default:
+                absolute = args.map((value, i) => value + (i % 2 === 0 ? dx : dy));
+        }
+        if (lower === 'z') {
+            x = startX;
+            y = startY;
+        } else if (lower !== 'h' && lower !== 'v') {
+            x = absolute[count - 2];
+            y = absolute[count - 1];
+        }
+        if (lower === 'm') {
+            startX = x;
+            startY = y;
+            // Coordinates following a move are implicit lines
+            command = relative ? 'l' : 'L';
+        }
+        commands.push({ type: lower.toUpperCase() as PathCommand['type'], args: absolute });
+    }
+    return commands;
+}
+
+/**
+ * Parse path data into absolute move, line, cubic and close commands
+ * @param d Value of a `d` attribute
+ * @returns Segments, stopping at the first malformed command like browsers do
+ */
+export function parsePathData(d: string): PathSegment[] {
+    const segments: PathSegment[] = [];
+    let x = 0;
+    let y = 0;
+    let startX = 0;
+    let startY = 0;
+    // Control point reflected by the smooth curve commands
+    let lastControl: { x: number; y: number; quadratic: boolean } | null = null;
+
+    parsePathCommands(d).forEach(({ type, args }) => {
+        switch (type) {
+            case 'M':
+                [x, y] = args;
+                startX = x;
+                startY = y;
+                segments.push({ type: 'M', x, y });
+                lastControl = null;
+                break;
+            case 'L':
+            case 'H':
+            case 'V':
+                x = type === 'V' ? x : args[0];
+                y = type === 'H' ? y : args[type === 'V' ? 0 : 1];
+                segments.push({ type: 'L', x, y });
+                lastControl = null;
+                break;
+            case 'C':
+            case 'S': {
+                const reflected =
+                    type === 'S' ? reflect(lastControl, x, y, false) : { x: args[0], y: args[1] };
+                const [x2, y2] = args.slice(-4);
+                [x, y] = args.slice(-2);
+                segments.push({ type: 'C', x1: reflected.x, y1: reflected.y, x2, y2, x, y });
+                lastControl = { x: x2, y: y2, quadratic: false };
+                break;
+            }
+            case 'Q':
+            case 'T': {
+                const control: { x: number; y: number } =
+                    type === 'T' ? reflect(lastControl, x, y, true) : { x: args[0], y: args[1] };
+                const [endX, endY] = args.slice(-2);
+                segments.push(quadraticToCubic(x, y, control.x, control.y, endX, endY));
+                x = endX;
+                y = endY;
+                lastControl = { ...control, quadratic: true };
+                break;
+            }
+            case 'A': {
+                const [rx, ry, rotation, largeArc, sweep, endX, endY] = args;
+                segments.push(
+                    ...arcToCubics(x, y, rx, ry, rotation, largeArc !== 0, sweep !== 0, endX, endY)
+                );
+                x = endX;
+                y = endY;
+                lastControl = null;
+                break;
+            }
+            case 'Z':
+                segments.push({ type: 'Z' });
+                x = startX;
+                y = startY;
+                lastControl = null;
+                break;
+        }
+    });
+    return segments;
+}
+
+/**
+ * Write segments back as compact path data
+ * @param segments Path segments
+ * @param precision Decimal places kept
+ * @returns Value for a `d` attribute
+ */
+export function formatPathData(segments: readonly PathSegment[], precision = 3): string {
+    const format = (value: number) => String(parseFloat(value.toFixed(precision)));
+    return segments
+        .map((segment) => {
+            switch (segment.type) {
+                case 'M':
+                case 'L':
+                    return `${segment.type}${format(segment.x)} ${format(segment.y)}`;
+                case 'C': {
+                    const { x1, y1, x2, y2, x, y } = segment;
+                    return `C${[x1, y1, x2, y2, x, y].map(format).join(' ')}`;
+                }
+                case 'Z':
+                    return 'Z';
+            }
+        })
+        .join('');
+}
+
+/**
+ * Shorten path data without changing the shape beyond the rounding: separators are dropped
+ * where the grammar allows, repeated command letters are left implicit, lines along an axis
+ * become `H` or `V` and each command is written relative to the current point when shorter
+ * @param d Value of a `d` attribute
+ * @param precision Decimal places kept
+ * @param relative Allow relative commands
+ * @returns Equivalent path data
+ */
+export function minifyPathData(d: string, precision: number, relative = true): string {
+    const round = (value: number) => parseFloat(value.toFixed(precision));
+    let x = 0;
+    let y = 0;
+    let startX = 0;
+    let startY = 0;
+    let output = '';
+    // Command repeated by numbers written without a letter, and the number they would follow
+    let implicit = '';
+    let lastNumber: string | null = null;
+
+    const encode = (letter: string, values: number[]) => {
+        let text = letter === implicit && letter.toUpperCase() !== 'Z' ? '' : letter;
+        let previous = text === '' ? lastNumber : null;
+        values.forEach((value) => {
+            const number = formatShortNumber(value);
+            text += previous !== null && needsSeparator(previous, number) ? ` ${number}` : number;
+            previous = number;
+        });
+        return { letter, text, lastNumber: previous };
+    };
+
+    parsePathCommands(d).forEach(({ type, args }) => {
+        let letter: string = type;
+        const values =
+            type === 'A' ? [...args.slice(0, 3).map(round), args[3] ? 1 : 0, args[4] ? 1 : 0] : [];
+        const point = type === 'A' ? args.slice(5).map(round) : args.map(round);
+        if (type === 'L' && point[1] === y) {
+            letter = 'H';
+            point.splice(1, 1);
+        } else if (type === 'L' && point[0] === x) {
+            letter = 'V';
+            point.splice(0, 1);
+        }
+
+        const absolute = encode(letter, [...values, ...point]);
+        let chosen = absolute;
+        if (relative && letter !== 'Z') {
+            const origin = (i: number) => (letter === 'V' || i % 2 === 1 ? y : x);
+            const offsets = point.map((value, i) => round(value - origin(i)));
+            const candidate = encode(letter.toLowerCase(), [...values, ...offsets]);
+            if (candidate.text.length < absolute.text.length) chosen = candidate;
+        }
+        output += chosen.text;
+        lastNumber = chosen.lastNumber;
+        implicit = ({ M: 'L', m: 'l' } as Record<string, string>)[chosen.letter] ?? chosen.letter;
+
+        if (letter === 'H') {
+            x = point[0];
+        } else if (letter === 'V') {
+            y = point[0];
+        } else if (letter === 'Z') {
+            x = startX;
+            y = startY;
+        } else {
+            [x, y] = point.slice(-2);
+        }
+        if (letter === 'M') {
+            startX = x;
+            startY = y;
+        }
+    });
+    return output;
+}
+
+/**
+ * Shortest form of a number, without a leading zero or a negative zero
+ */
+function formatShortNumber(value: number): string {
+    return String(value === 0 ? 0 : value).replace(/^(-?)0\./, '$1.');
+}
+
+/**
+ * Whether two numbers written in a row need a space between them to stay apart
+ */
+function needsSeparator(previous: string, next: string): boolean {
+    if (next.startsWith('-')) return false;
+    return !(next.startsWith('.') && /[.eE]/.test(previous));
+}
+
+/**
+ * Outline of a basic shape element as path segments
+ * @param node `path`, `rect`, `circle`, `ellipse`, `line`, `polyline` or `polygon` element
+ * @returns Segments, or null for elements that draw no geometry
+ */
+export function getElementPath(node: SvgElementNode): PathSegment[] | null {
+    const data = getElementPathData(node);
+    return data === null ? null : parsePathData(data);
+}
+
+/**
+ * Outline of a basic shape element as path data, arcs kept as arcs
+ * @param node `path`, `rect`, `circle`, `ellipse`, `line`, `polyline` or `polygon` element
+ * @returns Path data, or null for elements that draw no geometry
+ */
+export function getElementPathData(node: SvgElementNode): string | null {
+    const number = (name: string) => {
+        const value = parseFloat(String(node.attrs[name] ?? 0));
+        return Number.isFinite(value) ? value : 0;
+    };
+
+    switch (node.name) {
+        case 'path':
+            return String(node.attrs['d'] ?? '');
+        case 'rect': {
+            const x = number('x');
+            const y = number('y');
+            const width = number('width');
+            const height = number('height');
+            if (width <= 0 || height <= 0) return '';
+            const rx = Math.min(number('rx') || number('ry'), width / 2);
+            const ry = Math.min(number('ry') || number('rx'), height / 2);
+            if (rx <= 0 || ry <= 0) {
+                return `M${x} ${y}H${x + width}V${y + height}H${x}Z`;
+            }
+            return (
+                `M${x + rx} ${y}H${x + width - rx}A${rx} ${ry} 0 0 1 ${x + width} ${y + ry}` +
+                `V${y + height - ry}A${rx} ${ry} 0 0 1 ${x + width - rx} ${y + height}` +
+                `H${x + rx}A${rx} ${ry} 0 0 1 ${x} ${y + height - ry}V${y + ry}A${rx} ${ry} 0 0 1 ${x + rx} ${y}Z`
+            );
+        }
+        case 'circle':
+        case 'ellipse': {
+            const cx = number('cx');
+            const cy = number('cy');
+            const rx = node.name === 'circle' ? number('r') : number('rx');
+            const ry = node.name === 'circle' ? number('r') : number('ry');
+            if (rx <= 0 || ry <= 0) return '';
+            return `M${cx + rx} ${cy}A${rx} ${ry} 0 0 1 ${cx - rx} ${cy}A${rx} ${ry} 0 0 1 ${cx + rx} ${cy}Z`;
+        }
+        case 'line':
+            return `M${number('x1')} ${number('y1')}L${number('x2')} ${number('y2')}`;
+        case 'polyline':
+        case 'polygon': {
+            const points = String(node.attrs['points'] ?? '').trim();
+            if (!points) return '';
+            return `M${points}${node.name === 'polygon' ? 'Z' : ''}`;
+        }
+        default:
+            return null;
+    }
+}
+
+/**
+ * Parse a `transform` attribute
+ * @returns Combined matrix, identity when missing or malformed
+ */
+export function parseTransform(value: unknown): Matrix {
+    let matrix = IDENTITY_MATRIX;
+    const pattern = /(matrix|translate|scale|rotate|skewX|skewY)\s*\(([^)]*)\)/g;
+    for (const [, name, rawArgs] of String(value ?? '').matchAll(pattern)) {
+        const args = rawArgs
+            .trim()
+            .split(/[\s,]+/)
+            .filter(Boolean)
+            .map(Number);
+        if (args.some((arg) => !Number.isFinite(arg))) return IDENTITY_MATRIX;
+        matrix = multiplyMatrix(matrix, createTransform(name, args));
+    }
+    return matrix;
+}
+
+function createTransform(name: string, args: number[]): Matrix {
+    switch (name) {
+        case 'matrix':
+            return args.length === 6 ? (args as Matrix) : IDENTITY_MATRIX;
+        case 'translate':
+            return [1, 0, 0, 1, args[0] ?? 0, args[1] ?? 0];
+        case 'scale':
+            return [args[0] ?? 1, 0, 0, args[1] ?? args[0] ?? 1, 0, 0];
+        case 'rotate': {
+            const angle = ((args[0] ?? 0) * Math.PI) / 180;
+            const cos = Math.cos(angle);
+            const sin = Math.sin(angle);
+            const [cx, cy] = [args[1] ?? 0, args[2] ?? 0];
+            return [cos, sin, -sin, cos, cx - cos * cx + sin * cy, cy - sin * cx - cos * cy];
+        }
+        case 'skewX':
+            return [1, 0, Math.tan(((args[0] ?? 0) * Math.PI) / 180), 1, 0, 0];
+        case 'skewY':
+            return [1, Math.tan(((args[0] ?? 0) * Math.PI) / 180), 0, 1, 0, 0];
+        default:
+            return IDENTITY_MATRIX;
+    }
+}
+
+/**
+ * Compose two transforms, `inner` being applied first like a child element's transform
+ */
+export function multiplyMatrix(outer: Matrix, inner: Matrix): Matrix {
+    const [a, b, c, d, e, f] = outer;
+    const [a2, b2, c2, d2, e2, f2] = inner;
+    return [
+        a * a2 + c * b2,
+        b * a2 + d * b2,
+        a * c2 + c * d2,
+        b * c2 + d * d2,
+        a * e2 + c * f2 + e,
+        b * e2 + d * f2 + f,
+    ];
+}
+
+export function applyMatrix(matrix: Matrix, x: number, y: number): { x: number; y: number } {
+    const [a, b, c, d, e, f] = matrix;
+    return { x: a * x + c * y + e, y: b * x + d * y + f };
+}
+
+/**
+ * Transform every point of a path. Affine transforms keep lines straight and cubic curves cubic
+ */
+export function transformPath(segments: readonly PathSegment[], matrix: Matrix): PathSegment[] {
+    return segments.map((segment) => {
+        switch (segment.type) {
+            case 'M':
+            case 'L':
+                return { type: segment.type, ...applyMatrix(matrix, segment.x, segment.y) };
+            case 'C': {
+                const control1 = applyMatrix(matrix, segment.x1, segment.y1);
+                const control2 = applyMatrix(matrix, segment.x2, segment.y2);
+                const end = applyMatrix(matrix, segment.x, segment.y);
+                return {
+                    type: 'C',
+                    x1: control1.x,
+                    y1: control1.y,
+                    x2: control2.x,
+                    y2: control2.y,
+                    ...end,
+                };
+            }
+            case 'Z':
+                return segment;
+        }
+    });
+}
+
+/**
+ * Tight bounds of a path, including the extremes of its curves
+ * @returns Bounds, or null for a path without points
+ */
+export function getPathBounds(segments: readonly PathSegment[]): Bounds | null {
+    let bounds: Bounds | null = null;
+    const include = (x: number, y: number) => {
+        bounds = bounds
+            ? {
+                  minX: Math.min(bounds.minX, x),
+                  minY: Math.min(bounds.minY, y),
+                  maxX: Math.max(bounds.maxX, x),
+                  maxY: Math.max(bounds.maxY, y),
+              }
+            : { minX: x, minY: y, maxX: x, maxY: y };
+    };
+
+    let x = 0;
+    let y = 0;
+    segments.forEach((segment) => {
+        if (segment.type === 'Z') return;
+        if (segment.type === 'C') {
+            const xs = getCubicExtremes(x, segment.x1, segment.x2, segment.x);
+            const ys = getCubicExtremes(y, segment.y1, segment.y2, segment.y);
+            [...xs, ...ys].forEach((t) => {
+                include(
+                    cubicAt(x, segment.x1, segment.x2, segment.x, t),
+                    cubicAt(y, segment.y1, segment.y2, segment.y, t)
+                );
+            });
+        }
+        x = segment.x;
+        y = segment.y;
+        include(x, y);
+    });
+    return bounds;
+}
+
+function cubicAt(p0: number, p1: number, p2: number, p3: number, t: number): number {
+    const mt = 1 - t;
+    return mt * mt * mt * p0 + 3 * mt * mt * t * p1 + 3 * mt * t * t * p2 + t * t * t * p3;
+}
+
+/**
+ * Parameters in (0, 1) where a cubic's coordinate stops growing or shrinking
+ */
+function getCubicExtremes(p0: number, p1: number, p2: number, p3: number): number[] {
+    // Derivative coefficients, divided by 3
+    const a = -p0 + 3 * p1 - 3 * p2 + p3;
+    const b = 2 * (p0 - 2 * p1 + p2);
+    const c = p1 - p0;
+    const roots: number[] = [];
+    if (Math.abs(a) < 1e-12) {
+        if (Math.abs(b) > 1e-12) roots.push(-c / b);
+    } else {
+        const discriminant = b * b - 4 * a * c;
+        if (discriminant >= 0) {
+            const root = Math.sqrt(discriminant);
+            roots.push((-b + root) / (2 * a), (-b - root) / (2 * a));
+        }
+    }
+    return roots.filter((t) => t > 0 && t < 1);
+}
+
+function reflect(
+    control: { x: number; y: number; quadratic: boolean } | null,
+    x: number,
+    y: number,
+    quadratic: boolean
+): { x: number; y: number } {
+    // Smooth commands only mirror a control point of the same kind of curve
+    if (!control || control.quadratic !== quadratic) return { x, y };
+    return { x: 2 * x - control.x, y: 2 * y - control.y };
+}
+
+function quadraticToCubic(
+    x0: number,
+    y0: number,
+    qx: number,
+    qy: number,
+    x: number,
+    y: number
+): PathSegment {
+    return {
+        type: 'C',
+        x1: x0 + (2 / 3) * (qx - x0),
+        y1: y0 + (2 / 3) * (qy - y0),
+        x2: x + (2 / 3) * (qx - x),
+        y2: y + (2 / 3) * (qy - y),
+        x,
+        y,
+    };
+}
+
+/**
+ * Approximate an elliptical arc with cubic curves of at most a quarter turn each, following
+ * the endpoint to centre conversion of the SVG specification (appendix B.2.4)
+ */
+function arcToCubics(
+    x0: number,
+    y0: number,
+    radiusX: number,
+    radiusY: number,
+    rotation: number,
+    largeArc: boolean,
+    sweep: boolean,
+    x: number,
+    y: number
+): PathSegment[] {
+    let rx = Math.abs(radiusX);
+    let ry = Math.abs(radiusY);
+    if ((x0 === x && y0 === y) || rx === 0 || ry === 0) {
+        return x0 === x && y0 === y ? [] : [{ type: 'L', x, y }];
+    }
+
+    const phi = (rotation * Math.PI) / 180;
+    const cos = Math.cos(phi);
+    const sin = Math.sin(phi);
+    const halfX = (x0 - x) / 2;
+    const halfY = (y0 - y) / 2;
+    const x1p = cos * halfX + sin * halfY;
+    const y1p = -sin * halfX + cos * halfY;
+
+    // Scale up radii too small to reach the end point
+    const lambda = (x1p * x1p) / (rx * rx) + (y1p * y1p) / (ry * ry);
+    if (lambda > 1) {
+        rx *= Math.sqrt(lambda);
+        ry *= Math.sqrt(lambda);
+    }
+
+    const numerator = rx * rx * ry * ry - rx * rx * y1p * y1p - ry * ry * x1p * x1p;
+    const denominator = rx * rx * y1p * y1p + ry * ry * x1p * x1p;
+    const factor = (largeArc === sweep ? -1 : 1) * Math.sqrt(Math.max(0, numerator / denominator));
+    const cxp = (factor * rx * y1p) / ry;
+    const cyp = (-factor * ry * x1p) / rx;
+    const cx = cos * cxp - sin * cyp + (x0 + x) / 2;
+    const cy = sin * cxp + cos * cyp + (y0 + y) / 2;
+
+    const angle = (ux: number, uy: number, vx: number, vy: number) =>
+        Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+    const theta = angle(1, 0, (x1p - cxp) / rx, (y1p - cyp) / ry);
+    let delta = angle((x1p - cxp) / rx, (y1p - cyp) / ry, (-x1p - cxp) / rx, (-y1p - cyp) / ry);
+    if (!sweep && delta > 0) delta -= 2 * Math.PI;
+    if (sweep && delta < 0) delta += 2 * Math.PI;
+
+    const count = Math.max(1, Math.ceil(Math.abs(delta) / (Math.PI / 2) - 1e-9));
+    const step = delta / count;
+    // Length of the control arms of a cubic matching a circular arc of `step`
+    const arm = (4 / 3) * Math.tan(step / 4);
+    const point = (t: number) => ({
+        x: cx + rx * Math.cos(t) * cos - ry * Math.sin(t) * sin,
+        y: cy + rx * Math.cos(t) * sin + ry * Math.sin(t) * cos,
+    });
+    const derivative = (t: number) => ({
+        x: -rx * Math.sin(t) * cos - ry * Math.cos(t) * sin,
+        y: -rx * Math.sin(t) * sin + ry * Math.cos(t) * cos,
+    });
+
+    const segments: PathSegment[] = [];
+    for (let i = 0; i < count; i++) {
+        const start = theta + i * step;
+        const end = start + step;
+        const from = point(start);
+        const to = i === count - 1 ? { x, y } : point(end);
+        const d1 = derivative(start);
+        const d2 = derivative(end);
+        segments.push({
+            type: 'C',
+            x1: from.x + arm * d1.x,
+            y1: from.y + arm * d1.y,
+            x2: to.x - arm * d2.x,
+            y2: to.y - arm * d2.y,
+            x: to.x,
+            y: to.y,
+        });
+    }
+    return segments;
+}
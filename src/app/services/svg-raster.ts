@@ -0,0 +1,29 @@
+import { serializeSvg, SvgElementNode } from './svg-dom';
+
+/**
+ * Load an SVG document as an image at an explicit pixel size. Generated documents are sized
+ * `100%`, which has no intrinsic size and would rasterize at the browser's fallback size
+ * @param root Root svg element
+ * @param width Width in pixels
+ * @param height Height in pixels
+ * @returns Decoded image, ready to be drawn on a canvas
+ */
+export async function loadSvgImage(
+    root: SvgElementNode,
+    width: number,
+    height: number
+): Promise<HTMLImageElement> {
+    const markup = serializeSvg(
+        { ...root, attrs: { ...root.attrs, width, height } },
+        { pretty: false }
+    );
+    const url = URL.createObjectURL(new Blob([markup], { type: 'image/svg+xml;charset=utf-8' }));
+    try {
+        const image = new Image();
+        image.src = url;
+        await image.decode();
+        return image;
+    } finally {
+        URL.revokeObjectURL(url);
+    }
+}
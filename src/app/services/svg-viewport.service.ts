@@ -0,0 +1,120 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject } from 'rxjs';
+import { SvgViewport } from './svg-fragment';
+
+/**
+ * Region written by exports: the whole drawing, or what the preview currently shows
+ */
+export type ExportRegion = 'drawing' | 'visible';
+
+/** Zoom limits, relative to the whole drawing */
+const MIN_ZOOM = 0.1;
+const MAX_ZOOM = 50;
+
+/**
+ * Holds the region of the drawing shown by the preview. Pan and zoom only change this view, the
+ * document and its history are untouched
+ */
+@Injectable({
+    providedIn: 'root',
+})
+export class SvgViewportService {
+    /** Visible region, null shows the whole drawing */
+    private viewportSubject = new BehaviorSubject<SvgViewport | null>(null);
+    public viewport$ = this.viewportSubject.asObservable();
+
+    private exportRegionSubject = new BehaviorSubject<ExportRegion>('drawing');
+    public exportRegion$ = this.exportRegionSubject.asObservable();
+
+    /** viewBox of the last rendered drawing, zoom is measured against it */
+    private drawingViewport: SvgViewport | null = null;
+
+    getViewport(): SvgViewport | null {
+        return this.viewportSubject.value;
+    }
+
+    setViewport(viewport: SvgViewport): void {
+        this.viewportSubject.next(this.clampZoom(viewport));
+    }
+
+    /**
+     * Show the whole drawing again
+     */
+    resetViewport(): void {
+        this.viewportSubject.next(null);
+    }
+
+    setDrawingViewport(viewport: SvgViewport): void {
+        this.drawingViewport = viewport;
+    }
+
+    getDrawingViewport(): SvgViewport | null {
+        return this.drawingViewport;
+    }
+
+    setExportRegion(region: ExportRegion): void {
+        this.exportRegionSubject.next(region);
+    }
+
+    /**
+     * Viewport exports should use
+     * @returns The visible region when exporting it and the view is zoomed or panned, otherwise null
+     */
+    getExportViewport(): SvgViewport | null {
+        return this.exportRegionSubject.value === 'visible' ? this.getViewport() : null;
+    }
+
+    /**
+     * Current zoom relative to the whole drawing, 1 when showing all of it
+     */
+    getZoom(): number {
+        const viewport = this.getViewport();
+        if (!viewport || !this.drawingViewport) return 1;
+        return this.drawingViewport.width / viewport.width;
+    }
+
+    /**
+     * Scale a viewport around a fixed point
+     * @param viewport Viewport to scale
+     * @param factor Values above 1 zoom out, below 1 zoom in
+     * @param x Horizontal position of the fixed point, in drawing units
+     * @param y Vertical position of the fixed point, in drawing units
+     * @returns Scaled viewport
+     */
+    zoomAt(viewport: SvgViewport, factor: number, x: number, y: number): SvgViewport {
+        return {
+            x: x - (x - viewport.x) * factor,
+            y: y - (y - viewport.y) * factor,
+            width: viewport.width * factor,
+            height: viewport.height * factor,
+        };
+    }
+
+    /**
+     * Move a viewport
+     * @param viewport Viewport to move
+     * @param dx Horizontal offset, in drawing units
+     * @param dy Vertical offset, in drawing units
+     * @returns Moved viewport
+     */
+    panBy(viewport: SvgViewport, dx: number, dy: number): SvgViewport {
+        return { ...viewport, x: viewport.x + dx, y: viewport.y + dy };
+    }
+
+    /**
+     * Keep the zoom within limits, scaling around the viewport centre
+     */
+    private clampZoom(viewport: SvgViewport): SvgViewport {
+        if (!this.drawingViewport) return viewport;
+
+        const zoom = this.drawingViewport.width / viewport.width;
+        const clamped = Math.min(Math.max(zoom, MIN_ZOOM), MAX_ZOOM);
+        if (clamped === zoom) return viewport;
+        return this.zoomAt(
+            viewport,
+            zoom / clamped,
+            viewport.x + viewport.width / 2,
+            viewport.y + viewport.height / 2
+        );
+    }
+}
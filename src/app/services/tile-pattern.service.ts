@@ -0,0 +1,72 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject } from 'rxjs';
+import { SvgGeneratorService } from './svg-generator.service';
+import { SvgViewportService } from './svg-viewport.service';
+import { SvgElementNode } from './svg-dom';
+import {
+    createPatternDocument,
+    createTilePreview,
+    defaultTilePattern,
+    TilePattern,
+} from './tile-pattern';
+
+/**
+ * Holds the lattice the active layer is tiled on, and whether the preview shows the tiles
+ * instead of the drawing. The document and its history are untouched
+ */
+@Injectable({
+    providedIn: 'root',
+})
+export class TilePatternService {
+    private settingsSubject = new BehaviorSubject<TilePattern>(defaultTilePattern);
+    public settings$ = this.settingsSubject.asObservable();
+
+    private previewSubject = new BehaviorSubject<boolean>(false);
+    public preview$ = this.previewSubject.asObservable();
+
+    constructor(
+        private svgGeneratorService: SvgGeneratorService,
+        private viewportService: SvgViewportService
+    ) {}
+
+    getSettings(): TilePattern {
+        return this.settingsSubject.value;
+    }
+
+    updateSettings(settings: Partial<TilePattern>): void {
+        this.settingsSubject.next({ ...this.getSettings(), ...settings });
+    }
+
+    isPreviewing(): boolean {
+        return this.previewSubject.value;
+    }
+
+    setPreview(preview: boolean): void {
+        if (preview !== this.isPreviewing()) {
+            this.previewSubject.next(preview);
+        }
+    }
+
+    /**
+     * Build a document filled with a seamless `<pattern>` of the active layer, over the export
+     * region
+     * @returns Root svg element
+     */
+    async generatePatternDocument(): Promise<SvgElementNode> {
+        const fragment = await this.svgGeneratorService.generateActiveLayerFragment();
+        return createPatternDocument(
+            fragment,
+            this.getSettings(),
+            this.viewportService.getExportViewport()
+        );
+    }
+
+    /**
+     * Build the tile preview, plain copies of the active layer laid on the lattice
+     * @returns Root svg element
+     */
+    async generateTilePreview(): Promise<SvgElementNode> {
+        const fragment = await this.svgGeneratorService.generateActiveLayerFragment();
+        return createTilePreview(fragment, this.getSettings());
+    }
+}
@@ -0,0 +1,157 @@
+import { svgElement, SvgElementNode, SvgNode } from './svg-dom';
+import { SvgFragment } from './svg-fragment';
+import {
+    createPatternDocument,
+    createTilePreview,
+    defaultTilePattern,
+    getLatticeTile,
+    LatticeType,
+    TilePattern,
+} from './tile-pattern';
+
+/**
+ * Elements with a tag name anywhere in a subtree, in document order
+ */
+function findElements(node: SvgNode, name: string): SvgElementNode[] {
+    if (node.type === 'text') return [];
+    const matches = node.children.flatMap((child) => findElements(child, name));
+    return node.name === name ? [node, ...matches] : matches;
+}
+
+function createSettings(settings: Partial<TilePattern>): TilePattern {
+    return { ...defaultTilePattern, ...settings };
+}
+
+/**
+ * Shape drawn around the origin, reaching half its view box from it
+ */
+function createFragment(viewBoxSize: number): SvgFragment {
+    return {
+        defs: [svgElement('linearGradient', { id: 'shade' })],
+        content: [svgElement('circle', { id: 'dot', r: viewBoxSize / 2, fill: 'url(#shade)' })],
+        viewBoxSize,
+    };
+}
+
+describe('getLatticeTile', () => {
+    const rowHeight = (200 * Math.sqrt(3)) / 2;
+    const expectedTiles: [LatticeType, number, number, boolean[]][] = [
+        ['square', 200, 200, [false]],
+        ['hex', 200, rowHeight * 2, [false, false]],
+        ['triangle', 200, rowHeight * 2, [false, true, true, false]],
+        ['brick', 200, 200, [false, false]],
+    ];
+    expectedTiles.forEach(([lattice, width, height, flipped]) => {
+        it(`lays out the ${lattice} lattice`, () => {
+            const tile = getLatticeTile(createSettings({ lattice, spacing: 200 }));
+
+            expect(tile.width).toBeCloseTo(width, 9);
+            expect(tile.height).toBeCloseTo(height, 9);
+            expect(tile.instances.map((instance) => instance.flipped)).toEqual(flipped);
+        });
+    });
+
+    it('offsets every other row of the hex lattice by half the spacing', () => {
+        const tile = getLatticeTile(createSettings({ lattice: 'hex', spacing: 200 }));
+
+        expect(tile.instances[1].x).toBe(100);
+        expect(tile.instances[1].y).toBeCloseTo(rowHeight, 9);
+    });
+
+    it('keeps the spacing above its minimum', () => {
+        const tile = getLatticeTile(createSettings({ spacing: 2 }));
+
+        expect([tile.width, tile.height]).toEqual([10, 10]);
+    });
+
+    it('jitters the copies of a wider tile the same way for the same seed', () => {
+        const settings = createSettings({ lattice: 'hex', jitter: 0.5, seed: 7 });
+        const tile = getLatticeTile(settings);
+        const regular = getLatticeTile({ ...settings, jitter: 0 });
+
+        expect(tile.width).toBe(regular.width * 3);
+        expect(tile.height).toBeCloseTo(regular.height * 3, 9);
+        expect(tile.instances.length).toBe(regular.instances.length * 9);
+        expect(getLatticeTile(settings)).toEqual(tile);
+        expect(getLatticeTile({ ...settings, seed: 8 })).not.toEqual(tile);
+    });
+
+    it('moves jittered copies at most half the jitter times the spacing', () => {
+        const tile = getLatticeTile(createSettings({ spacing: 200, jitter: 0.5 }));
+
+        // Square cells hold one copy each, row by row
+        tile.instances.forEach((instance, index) => {
+            const column = index % 3;
+            const row = Math.floor(index / 3);
+            expect(Math.abs(instance.x - column * 200)).toBeLessThanOrEqual(50);
+            expect(Math.abs(instance.y - row * 200)).toBeLessThanOrEqual(50);
+        });
+    });
+});
+
+describe('createPatternDocument', () => {
+    it('fills the area with a pattern the size of the tile', () => {
+        const settings = createSettings({ lattice: 'brick', spacing: 150 });
+        const viewport = { x: -400, y: -300, width: 800, height: 600 };
+        const document = createPatternDocument(createFragment(100), settings, viewport);
+        const [pattern] = findElements(document, 'pattern');
+        const background = findElements(document, 'rect').pop()!;
+
+        expect(pattern.attrs['id']).toBe('tile-pattern');
+        expect(pattern.attrs['patternUnits']).toBe('userSpaceOnUse');
+        expect([pattern.attrs['width'], pattern.attrs['height']]).toEqual([150, 150]);
+        expect(background.attrs['fill']).toBe('url(#tile-pattern)');
+        expect([background.attrs['width'], background.attrs['height']]).toEqual([800, 600]);
+        expect(findElements(document, 'linearGradient').length).toBe(1);
+    });
+
+    it('draws copies reaching over the tile edges again on the opposite side', () => {
+        const document = createPatternDocument(createFragment(100), createSettings({}));
+        const [pattern] = findElements(document, 'pattern');
+        const copies = pattern.children as SvgElementNode[];
+
+        expect(copies.map((copy) => copy.attrs['transform'])).toEqual([
+            'translate(0 0)',
+            'translate(0 200)',
+            'translate(200 0)',
+            'translate(200 200)',
+        ]);
+        expect(findElements(pattern, 'circle').map((circle) => circle.attrs['id'])).toEqual([
+            'tile1-dot',
+            'tile2-dot',
+            'tile3-dot',
+            'tile4-dot',
+        ]);
+    });
+
+    it('moves and turns the lattice', () => {
+        const settings = createSettings({ offsetX: 20, offsetY: -10, rotation: 30 });
+        const [pattern] = findElements(
+            createPatternDocument(createFragment(100), settings),
+            'pattern'
+        );
+
+        expect(pattern.attrs['patternTransform']).toBe('translate(20 -10) rotate(30)');
+    });
+
+    it('refuses spacings too small for the size of the shape', () => {
+        const settings = createSettings({ spacing: 10 });
+
+        expect(() => createPatternDocument(createFragment(2000), settings)).toThrowError(
+            'The spacing is too small for the size of the shape'
+        );
+    });
+});
+
+describe('createTilePreview', () => {
+    it('outlines the tile at the origin among plain copies of the shape', () => {
+        const preview = createTilePreview(createFragment(100), createSettings({}));
+        const outline = findElements(preview, 'rect').find(
+            (rect) => rect.attrs['stroke'] === '#007bff'
+        );
+
+        expect(findElements(preview, 'pattern')).toEqual([]);
+        expect(findElements(preview, 'circle').length).toBeGreaterThanOrEqual(9);
+        expect([outline?.attrs['width'], outline?.attrs['height']]).toEqual([200, 200]);
+    });
+});
@@ -0,0 +1,342 @@
+import { namespaceIds, svgElement, SvgElementNode, SvgNode } from './svg-dom';
+import { createSvgDocument, SvgFragment, SvgViewport } from './svg-fragment';
+
+export type LatticeType = 'square' | 'hex' | 'triangle' | 'brick';
+
+export const LATTICE_TYPES: { value: LatticeType; label: string }[] = [
+    { value: 'square', label: 'Square' },
+    { value: 'hex', label: 'Hexagonal' },
+    { value: 'triangle', label: 'Triangular' },
+    { value: 'brick', label: 'Brick' },
+];
+
+/**
+ * Lattice a shape is repeated on to fill a background
+ */
+export interface TilePattern {
+    lattice: LatticeType;
+    /** Distance between neighbouring copies */
+    spacing: number;
+    /** Shift of the whole lattice */
+    offsetX: number;
+    offsetY: number;
+    /** Degrees the lattice is turned */
+    rotation: number;
+    /** Random shift of each copy as a fraction of the spacing, 0 for a regular lattice */
+    jitter: number;
+    /** Seed of the random shifts, the same seed gives the same pattern */
+    seed: number;
+}
+
+export const defaultTilePattern: TilePattern = {
+    lattice: 'square',
+    spacing: 200,
+    offsetX: 0,
+    offsetY: 0,
+    rotation: 0,
+    jitter: 0,
+    seed: 1,
+};
+
+export const MIN_TILE_SPACING = 10;
+export const MAX_TILE_JITTER = 1;
+
+/**
+ * Lattice cells in each direction of a jittered tile, so the random shifts repeat less visibly
+ */
+const JITTER_CELLS = 3;
+
+/** Most copies drawn in one tile or preview, small spacings under large shapes explode */
+const MAX_COPIES = 5000;
+
+/** Id of the `<pattern>` in exported documents */
+const PATTERN_ID = 'tile-pattern';
+
+/**
+ * Copy of the shape inside a tile
+ */
+interface TileInstance {
+    x: number;
+    y: number;
+    /** Upside down, for the alternating rows of triangular lattices */
+    flipped: boolean;
+}
+
+/**
+ * Smallest rectangle of a lattice that tiles the plane, with the copies whose centers it holds
+ */
+export interface LatticeTile {
+    width: number;
+    height: number;
+    instances: TileInstance[];
+}
+
+/**
+ * Lay out one tile of a lattice
+ * @param settings Pattern settings
+ * @returns Tile, several cells wide when the copies are jittered
+ */
+export function getLatticeTile(settings: TilePattern): LatticeTile {
+    const spacing = Math.max(settings.spacing, MIN_TILE_SPACING);
+    const rowHeight = (spacing * Math.sqrt(3)) / 2;
+    let cell: LatticeTile;
+    switch (settings.lattice) {
+        case 'square':
+            cell = { width: spacing, height: spacing, instances: [{ x: 0, y: 0, flipped: false }] };
+            break;
+        case 'hex':
+            cell = {
+                width: spacing,
+                height: rowHeight * 2,
+                instances: [
+                    { x: 0, y: 0, flipped: false },
+                    { x: spacing / 2, y: rowHeight, flipped: false },
+                ],
+            };
+            break;
+        case 'triangle':
+            // Upright and upside down copies alternate along each row and from row to row
+            cell = {
+                width: spacing,
+                height: rowHeight * 2,
+                instances: [
+                    { x: 0, y: 0, flipped: false },
+                    { x: spacing / 2, y: 0, flipped: true },
+                    { x: 0, y: rowHeight, flipped: true },
+                    { x: spacing / 2, y: rowHeight, flipped: false },
+                ],
+            };
+            break;
+        case 'brick':
+            // Rows half the spacing apart, every other row shifted by half a brick
+            cell = {
+                width: spacing,
+                height: spacing,
+                instances: [
+                    { x: 0, y: 0, flipped: false },
+                    { x: spacing / 2, y: spacing / 2, flipped: false },
+                ],
+            };
+            break;
+    }
+
+    const jitter = Math.min(Math.max(settings.jitter, 0), MAX_TILE_JITTER);
+    if (jitter === 0) return cell;
+
+    const random = createRandom(settings.seed);
+    const amplitude = (jitter * spacing) / 2;
+    const instances: TileInstance[] = [];
+    for (let row = 0; row < JITTER_CELLS; row++) {
+        for (let column = 0; column < JITTER_CELLS; column++) {
+            cell.instances.forEach((instance) =>
+                instances.push({
+                    x: instance.x + column * cell.width + (random() * 2 - 1) * amplitude,
+                    y: instance.y + row * cell.height + (random() * 2 - 1) * amplitude,
+                    flipped: instance.flipped,
+                })
+            );
+        }
+    }
+    return { width: cell.width * JITTER_CELLS, height: cell.height * JITTER_CELLS, instances };
+}
+
+/**
+ * Build a document filled with a seamless `<pattern>` of the shape
+ * @param fragment Rendered shape, drawn around the origin
+ * @param settings Pattern settings
+ * @param viewport Region to fill, a few tiles around the origin by default
+ * @returns Root svg element
+ */
+export function createPatternDocument(
+    fragment: SvgFragment,
+    settings: TilePattern,
+    viewport?: SvgViewport | null
+): SvgElementNode {
+    const tile = getLatticeTile(settings);
+    const area = viewport ?? getDefaultArea(fragment, tile);
+
+    // Copies reaching over the tile edges are drawn again on the opposite side
+    const extent = fragment.viewBoxSize / 2;
+    const copies = tile.instances.flatMap((instance) =>
+        getWrapOffsets(instance.x, tile.width, extent).flatMap((x) =>
+            getWrapOffsets(instance.y, tile.height, extent).map((y) => ({ ...instance, x, y }))
+        )
+    );
+    checkCopyCount(copies.length);
+
+    const pattern = svgElement(
+        'pattern',
+        {
+            id: PATTERN_ID,
+            patternUnits: 'userSpaceOnUse',
+            width: round(tile.width),
+            height: round(tile.height),
+            patternTransform: getLatticeTransform(settings),
+        },
+        createCopies(fragment.content, copies)
+    );
+    const background = svgElement('rect', {
+        x: round(area.x),
+        y: round(area.y),
+        width: round(area.width),
+        height: round(area.height),
+        fill: `url(#${PATTERN_ID})`,
+    });
+    return createSvgDocument([...fragment.defs, pattern], [background], area.width, false, area);
+}
+
+/**
+ * Build a document showing the repeat with plain copies of the shape instead of a `<pattern>`,
+ * and the outline of the tile at the origin
+ * @param fragment Rendered shape, drawn around the origin
+ * @param settings Pattern settings
+ * @returns Root svg element
+ */
+export function createTilePreview(fragment: SvgFragment, settings: TilePattern): SvgElementNode {
+    const tile = getLatticeTile(settings);
+    const area = getDefaultArea(fragment, tile);
+
+    // Tiles covering the area once it is brought back into the unturned lattice
+    const extent = fragment.viewBoxSize / 2;
+    const bounds = getLatticeBounds(area, settings, extent);
+    const copies: TileInstance[] = [];
+    for (let row = Math.floor(bounds.minY / tile.height); row * tile.height <= bounds.maxY; row++) {
+        for (
+            let column = Math.floor(bounds.minX / tile.width);
+            column * tile.width <= bounds.maxX;
+            column++
+        ) {
+            tile.instances.forEach((instance) =>
+                copies.push({
+                    ...instance,
+                    x: instance.x + column * tile.width,
+                    y: instance.y + row * tile.height,
+                })
+            );
+            checkCopyCount(copies.length);
+        }
+    }
+
+    const clipId = 'tile-preview-area';
+    const clip = svgElement('clipPath', { id: clipId }, [
+        svgElement('rect', { x: area.x, y: area.y, width: area.width, height: area.height }),
+    ]);
+    const outline = svgElement('rect', {
+        width: round(tile.width),
+        height: round(tile.height),
+        fill: 'none',
+        stroke: '#007bff',
+        'stroke-width': 1,
+        'stroke-dasharray': '5,5',
+        'vector-effect': 'non-scaling-stroke',
+    });
+    const lattice = svgElement('g', { transform: getLatticeTransform(settings) }, [
+        ...createCopies(fragment.content, copies),
+        outline,
+    ]);
+    return createSvgDocument(
+        [...fragment.defs, clip],
+        [svgElement('g', { 'clip-path': `url(#${clipId})` }, [lattice])],
+        area.width
+    );
+}
+
+/**
+ * Square centred on the origin holding the whole shape and at least three tiles across
+ */
+function getDefaultArea(fragment: SvgFragment, tile: LatticeTile): SvgViewport {
+    const size = Math.max(fragment.viewBoxSize, tile.width * 3, tile.height * 3);
+    return { x: -size / 2, y: -size / 2, width: size, height: size };
+}
+
+/**
+ * Positions at which a copy centred at `position` overlaps the tile span `[0, size]`
+ * @param extent Distance the copy reaches from its center
+ */
+function getWrapOffsets(position: number, size: number, extent: number): number[] {
+    const first = Math.ceil((-extent - position) / size);
+    const last = Math.floor((size + extent - position) / size);
+    const positions: number[] = [];
+    for (let index = first; index <= last; index++) {
+        positions.push(position + index * size);
+    }
+    return positions;
+}
+
+/**
+ * Region of the unturned lattice covering an area, grown by the reach of the copies
+ */
+function getLatticeBounds(area: SvgViewport, settings: TilePattern, extent: number) {
+    const angle = (-settings.rotation * Math.PI) / 180;
+    const corners = [
+        [area.x, area.y],
+        [area.x + area.width, area.y],
+        [area.x, area.y + area.height],
+        [area.x + area.width, area.y + area.height],
+    ].map(([x, y]) => {
+        const dx = x - settings.offsetX;
+        const dy = y - settings.offsetY;
+        return [
+            dx * Math.cos(angle) - dy * Math.sin(angle),
+            dx * Math.sin(angle) + dy * Math.cos(angle),
+        ];
+    });
+    const xs = corners.map(([x]) => x);
+    const ys = corners.map(([, y]) => y);
+    return {
+        minX: Math.min(...xs) - extent,
+        minY: Math.min(...ys) - extent,
+        maxX: Math.max(...xs) + extent,
+        maxY: Math.max(...ys) + extent,
+    };
+}
+
+/**
+ * Value of the `transform` attribute placing the lattice, null when it is not moved
+ */
+function getLatticeTransform({ offsetX, offsetY, rotation }: TilePattern): string | null {
+    const transforms = [];
+    if (offsetX || offsetY) transforms.push(`translate(${offsetX} ${offsetY})`);
+    if (rotation % 360 !== 0) transforms.push(`rotate(${rotation})`);
+    return transforms.length ? transforms.join(' ') : null;
+}
+
+/**
+ * Place a copy of the content on each instance. Ids defined by the content itself are made
+ * unique per copy
+ */
+function createCopies(content: SvgNode[], instances: TileInstance[]): SvgElementNode[] {
+    return instances.map((instance, index) => {
+        const transforms = [`translate(${round(instance.x)} ${round(instance.y)})`];
+        if (instance.flipped) transforms.push('rotate(180)');
+        return svgElement(
+            'g',
+            { transform: transforms.join(' ') },
+            namespaceIds(content, `tile${index + 1}-`)
+        );
+    });
+}
+
+function checkCopyCount(count: number): void {
+    if (count > MAX_COPIES) {
+        throw new Error('The spacing is too small for the size of the shape');
+    }
+}
+
+/**
+ * Seeded pseudo random numbers in [0, 1), mulberry32
+ */
+function createRandom(seed: number): () => number {
+    let state = Math.floor(seed) >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let value = state;
+        value = Math.imul(value ^ (value >>> 15), value | 1);
+        value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+        return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+function round(value: number): number {
+    return parseFloat(value.toFixed(3));
+}
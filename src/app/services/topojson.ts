@@ -0,0 +1,169 @@
+import type {
+    GeoJsonData,
+    GeoJsonFeature,
+    GeoJsonGeometry,
+    GeoJsonPosition,
+} from './gis-renderer.service';
+
+/**
+ * TopoJSON geometry, lines and rings reference shared arcs by index, negative indexes (`~i`)
+ * traverse arc `i` backwards
+ */
+export type TopoJsonGeometry = {
+    id?: string | number;
+    properties?: Record<string, unknown>;
+} & (
+    | { type: 'Point'; coordinates: GeoJsonPosition }
+    | { type: 'MultiPoint'; coordinates: GeoJsonPosition[] }
+    | { type: 'LineString'; arcs: number[] }
+    | { type: 'MultiLineString'; arcs: number[][] }
+    | { type: 'Polygon'; arcs: number[][] }
+    | { type: 'MultiPolygon'; arcs: number[][][] }
+    | { type: 'GeometryCollection'; geometries: TopoJsonGeometry[] }
+    | { type: null }
+);
+
+export interface TopoJsonTopology {
+    type: 'Topology';
+    /** Present when the topology is quantized, arcs are then delta encoded */
+    transform?: { scale: [number, number]; translate: [number, number] };
+    arcs: GeoJsonPosition[][];
+    objects: Record<string, TopoJsonGeometry>;
+}
+
+export function isTopoJson(data: any): data is TopoJsonTopology {
+    return (
+        !!data &&
+        data.type === 'Topology' &&
+        Array.isArray(data.arcs) &&
+        !!data.objects &&
+        typeof data.objects === 'object'
+    );
+}
+
+/**
+ * Convert a topology to one FeatureCollection. Top level GeometryCollections are split into
+ * one feature per member, like `topojson.feature` does
+ * @param topology Parsed TopoJSON
+ * @param objectNames Objects to convert, all of them by default
+ * @returns GeoJSON feature collection
+ */
+export function topoJsonToGeoJson(
+    topology: TopoJsonTopology,
+    objectNames: string[] = Object.keys(topology.objects)
+): GeoJsonData {
+    const arcs = decodeArcs(topology);
+    const decodePosition = createPositionDecoder(topology);
+
+    const toFeature = (geometry: TopoJsonGeometry): GeoJsonFeature => ({
+        type: 'Feature',
+        ...(geometry.id !== undefined ? { id: geometry.id } : {}),
+        properties: geometry.properties || {},
+        geometry: toGeometry(geometry, arcs, decodePosition),
+    });
+
+    const features = objectNames.flatMap((name) => {
+        const object = topology.objects[name];
+        if (!object) return [];
+        return object.type === 'GeometryCollection'
+            ? object.geometries.map(toFeature)
+            : [toFeature(object)];
+    });
+
+    return { type: 'FeatureCollection', features };
+}
+
+/**
+ * Decode every arc to absolute positions
+ */
+function decodeArcs(topology: TopoJsonTopology): GeoJsonPosition[][] {
+    const transform = topology.transform;
+    if (!transform) {
+        return topology.arcs;
+    }
+
+    const [scaleX, scaleY] = transform.scale;
+    const [translateX, translateY] = transform.translate;
+    return topology.arcs.map((arc) => {
+        let x = 0;
+        let y = 0;
+        return arc.map(([dx, dy]) => {
+            x += dx;
+            y += dy;
+            return [x * scaleX + translateX, y * scaleY + translateY];
+        });
+    });
+}
+
+/**
+ * Point coordinates are quantized but not delta encoded
+ */
+function createPositionDecoder(
+    topology: TopoJsonTopology
+): (position: GeoJsonPosition) => GeoJsonPosition {
+    const transform = topology.transform;
+    if (!transform) {
+        return (position) => position;
+    }
+    return ([x, y]) => [
+        x * transform.scale[0] + transform.translate[0],
+        y * transform.scale[1] + transform.translate[1],
+    ];
+}
+
+/**
+ * Join arcs into one line, consecutive arcs share their end and start position
+ */
+function stitchArcs(indexes: number[], arcs: GeoJsonPosition[][]): GeoJsonPosition[] {
+    const line: GeoJsonPosition[] = [];
+    indexes.forEach((index, i) => {
+        const source = arcs[index < 0 ? ~index : index];
+        if (!source) {
+            throw new Error(`TopoJSON references missing arc ${index}`);
+        }
+        const arc = index < 0 ? [...source].reverse() : source;
+        line.push(...(i === 0 ? arc : arc.slice(1)));
+    });
+    return line;
+}
+
+function toGeometry(
+    geometry: TopoJsonGeometry,
+    arcs: GeoJsonPosition[][],
+    decodePosition: (position: GeoJsonPosition) => GeoJsonPosition
+): GeoJsonGeometry | null {
+    switch (geometry.type) {
+        case 'Point':
+            return { type: 'Point', coordinates: decodePosition(geometry.coordinates) };
+        case 'MultiPoint':
+            return { type: 'MultiPoint', coordinates: geometry.coordinates.map(decodePosition) };
+        case 'LineString':
+            return { type: 'LineString', coordinates: stitchArcs(geometry.arcs, arcs) };
+        case 'MultiLineString':
+            return {
+                type: 'MultiLineString',
+                coordinates: geometry.arcs.map((line) => stitchArcs(line, arcs)),
+            };
+        case 'Polygon':
+            return {
+                type: 'Polygon',
+                coordinates: geometry.arcs.map((ring) => stitchArcs(ring, arcs)),
+            };
+        case 'MultiPolygon':
+            return {
+                type: 'MultiPolygon',
+                coordinates: geometry.arcs.map((polygon) =>
+                    polygon.map((ring) => stitchArcs(ring, arcs))
+                ),
+            };
+        case 'GeometryCollection':
+            return {
+                type: 'GeometryCollection',
+                geometries: geometry.geometries
+                    .map((child) => toGeometry(child, arcs, decodePosition))
+                    .filter((child): child is GeoJsonGeometry => child !== null),
+            };
+        default:
+            return null;
+    }
+}
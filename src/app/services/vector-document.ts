@@ -0,0 +1,522 @@
+import { INHERITED_PROPERTIES, SvgAttributes, SvgElementNode, SvgNode } from './svg-dom';
+import {
+    Bounds,
+    getElementPath,
+    getPathBounds,
+    IDENTITY_MATRIX,
+    Matrix,
+    multiplyMatrix,
+    parseTransform,
+    PathSegment,
+} from './svg-path';
+import { measureStandardText, toLatin1 } from './standard-fonts';
+
+/**
+ * Color with channels between 0 and 1
+ */
+export interface RgbColor {
+    r: number;
+    g: number;
+    b: number;
+}
+
+export interface GradientStop {
+    /** Position between 0 and 1 */
+    offset: number;
+    color: RgbColor;
+    opacity: number;
+}
+
+/**
+ * Paint of a fill or stroke. Gradient coordinates live in their own space, which `matrix`
+ * maps into the user space of the shape, e.g. the unit square onto its bounding box
+ */
+export type VectorPaint =
+    | { type: 'color'; color: RgbColor }
+    | {
+          type: 'linear-gradient';
+          x1: number;
+          y1: number;
+          x2: number;
+          y2: number;
+          matrix: Matrix;
+          stops: GradientStop[];
+      }
+    | {
+          type: 'radial-gradient';
+          cx: number;
+          cy: number;
+          r: number;
+          fx: number;
+          fy: number;
+          matrix: Matrix;
+          stops: GradientStop[];
+      };
+
+export type LineJoin = 'miter' | 'round' | 'bevel';
+export type LineCap = 'butt' | 'round' | 'square';
+
+/**
+ * Computed presentation of a shape, with inherited values resolved
+ */
+export interface VectorStyle {
+    fill: VectorPaint | null;
+    fillRule: 'nonzero' | 'evenodd';
+    /** Fill opacity multiplied by the opacity of the element and its ancestors */
+    fillOpacity: number;
+    stroke: VectorPaint | null;
+    strokeOpacity: number;
+    strokeWidth: number;
+    lineJoin: LineJoin;
+    lineCap: LineCap;
+    miterLimit: number;
+    dashArray: number[];
+    dashOffset: number;
+    /** CSS `mix-blend-mode` of the closest blended ancestor */
+    blendMode: string;
+    /** `paint-order: stroke`, the stroke is painted below the fill */
+    strokeFirst: boolean;
+}
+
+export interface VectorPath {
+    type: 'path';
+    /** Transform from the shape's user space to the document's */
+    matrix: Matrix;
+    segments: PathSegment[];
+    style: VectorStyle;
+}
+
+export interface VectorText {
+    type: 'text';
+    matrix: Matrix;
+    x: number;
+    y: number;
+    text: string;
+    fontSize: number;
+    fontFamily: string;
+    bold: boolean;
+    anchor: 'start' | 'middle' | 'end';
+    /** Shift of the baseline in em, positive downwards, for `dominant-baseline` */
+    baselineShift: number;
+    style: VectorStyle;
+}
+
+export type VectorItem = VectorPath | VectorText;
+
+/**
+ * Single page of a print export
+ */
+export interface VectorPage {
+    /** Media box in points, bleed included */
+    width: number;
+    height: number;
+    /** Bleed added on every side of the trimmed page, in points */
+    bleed: number;
+    /** Transform from document coordinates to page points, whose origin is the bottom left */
+    matrix: Matrix;
+    /** Area painted on, in page points, the drawing plus its share of the bleed */
+    clip: { x: number; y: number; width: number; height: number };
+    items: VectorItem[];
+}
+
+/** Elements that never paint, or only reference definitions */
+const SKIPPED_ELEMENTS = new Set([
+    'defs',
+    'title',
+    'desc',
+    'metadata',
+    'style',
+    'script',
+    'animate',
+    'animateTransform',
+    'set',
+    'filter',
+    'linearGradient',
+    'radialGradient',
+    'clipPath',
+    'mask',
+    'pattern',
+    'symbol',
+]);
+
+/** Approximate position of the alphabetic baseline below each `dominant-baseline`, in em */
+const BASELINE_SHIFTS: Record<string, number> = {
+    central: 0.35,
+    middle: 0.35,
+    hanging: 0.8,
+};
+
+const NAMED_COLORS: Record<string, string> = {
+    black: '#000000',
+    white: '#ffffff',
+    red: '#ff0000',
+    green: '#008000',
+    blue: '#0000ff',
+    yellow: '#ffff00',
+    orange: '#ffa500',
+    purple: '#800080',
+    gray: '#808080',
+    grey: '#808080',
+    silver: '#c0c0c0',
+    navy: '#000080',
+    teal: '#008080',
+    maroon: '#800000',
+    olive: '#808000',
+    lime: '#00ff00',
+    aqua: '#00ffff',
+    cyan: '#00ffff',
+    fuchsia: '#ff00ff',
+    magenta: '#ff00ff',
+};
+
+interface InheritedState {
+    properties: SvgAttributes;
+    matrix: Matrix;
+    opacity: number;
+    blendMode: string;
+}
+
+/**
+ * Flatten a rendered document into the shapes it paints, in painting order, with their
+ * transforms and computed styles. Gradients are resolved, while filters, masks and clip
+ * paths are left out since vector print formats have no equivalent
+ * @param root Root svg element, without animations
+ * @returns Painted items in the coordinates of the root viewBox
+ */
+export function flattenSvgDocument(root: SvgElementNode): VectorItem[] {
+    const definitions = new Map<string, SvgElementNode>();
+    collectDefinitions(root, definitions);
+
+    const items: VectorItem[] = [];
+    const visit = (node: SvgElementNode, parent: InheritedState) => {
+        const attrs = getPresentationAttributes(node);
+        if (attrs['display'] === 'none' || SKIPPED_ELEMENTS.has(node.name)) return;
+
+        const properties = { ...parent.properties };
+        INHERITED_PROPERTIES.forEach((name) => {
+            if (attrs[name] !== undefined && attrs[name] !== null && attrs[name] !== 'inherit') {
+                properties[name] = attrs[name];
+            }
+        });
+        const opacity = parent.opacity * clamp(toNumber(attrs['opacity'], 1), 0, 1);
+        const state: InheritedState = {
+            properties,
+            matrix:
+                node.name === 'svg'
+                    ? parent.matrix
+                    : multiplyMatrix(parent.matrix, parseTransform(attrs['transform'])),
+            opacity,
+            blendMode: String(attrs['mix-blend-mode'] ?? parent.blendMode),
+        };
+
+        if (node.name === 'text') {
+            const text = getTextContent(node).trim();
+            if (text) items.push(createText(node, text, state, definitions));
+            return;
+        }
+
+        const segments = getElementPath(node);
+        if (segments) {
+            if (segments.length > 0) {
+                items.push({
+                    type: 'path',
+                    matrix: state.matrix,
+                    segments,
+                    style: computeStyle(state, segments, definitions),
+                });
+            }
+            return;
+        }
+
+        node.children.forEach((child) => {
+            if (child.type === 'element') visit(child, state);
+        });
+    };
+
+    visit(root, {
+        properties: { fill: '#000000' },
+        matrix: IDENTITY_MATRIX,
+        opacity: 1,
+        blendMode: 'normal',
+    });
+    return items;
+}
+
+/**
+ * Place a text item as set in the standard font: the characters it can show and the start of
+ * its baseline, after anchoring and baseline shifting
+ */
+export function layoutStandardText(item: VectorText): { text: string; x: number; y: number } {
+    const text = toLatin1(item.text);
+    const width = measureStandardText(text, item.fontSize, item.bold);
+    const shift = { start: 0, middle: width / 2, end: width }[item.anchor];
+    return { text, x: item.x - shift, y: item.y + item.baselineShift * item.fontSize };
+}
+
+/**
+ * Parse a CSS color
+ * @returns Color, or null for `none`, `transparent` and unknown values
+ */
+export function parseColor(value: unknown): RgbColor | null {
+    const text = String(value ?? '')
+        .trim()
+        .toLowerCase();
+    const hex = NAMED_COLORS[text] ?? text;
+
+    const short = /^#([0-9a-f])([0-9a-f])([0-9a-f])$/.exec(hex);
+    if (short) {
+        return toRgb(short.slice(1).map((digit) => parseInt(digit + digit, 16)));
+    }
+    const long = /^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})(?:[0-9a-f]{2})?$/.exec(hex);
+    if (long) {
+        return toRgb(long.slice(1, 4).map((pair) => parseInt(pair, 16)));
+    }
+    const functional = /^rgba?\(([^)]*)\)$/.exec(text);
+    if (functional) {
+        const channels = functional[1].split(/[\s,/]+/).filter(Boolean);
+        const values = channels
+            .slice(0, 3)
+            .map((channel) =>
+                channel.endsWith('%') ? (parseFloat(channel) * 255) / 100 : parseFloat(channel)
+            );
+        if (values.length === 3 && values.every(Number.isFinite)) return toRgb(values);
+    }
+    return null;
+}
+
+function toRgb([r, g, b]: number[]): RgbColor {
+    return { r: clamp(r / 255, 0, 1), g: clamp(g / 255, 0, 1), b: clamp(b / 255, 0, 1) };
+}
+
+/**
+ * Alpha channel carried by `rgba()` and 8 digit hex colors, which multiplies the paint opacity
+ */
+function parseColorAlpha(value: unknown): number {
+    const text = String(value ?? '').trim();
+    const hex = /^#[0-9a-f]{6}([0-9a-f]{2})$/i.exec(text);
+    if (hex) return parseInt(hex[1], 16) / 255;
+    const rgba = /^rgba\(([^)]*)\)$/i.exec(text);
+    const alpha = rgba?.[1].split(/[\s,/]+/).filter(Boolean)[3];
+    if (alpha === undefined) return 1;
+    return clamp(alpha.endsWith('%') ? parseFloat(alpha) / 100 : parseFloat(alpha), 0, 1);
+}
+
+function collectDefinitions(node: SvgNode, definitions: Map<string, SvgElementNode>): void {
+    if (node.type === 'text') return;
+    if (typeof node.attrs['id'] === 'string') definitions.set(node.attrs['id'], node);
+    node.children.forEach((child) => collectDefinitions(child, definitions));
+}
+
+/**
+ * Attributes of an element with its `style` declarations applied on top
+ */
+export function getPresentationAttributes(node: SvgElementNode): SvgAttributes {
+    const style = node.attrs['style'];
+    if (typeof style !== 'string') return node.attrs;
+
+    const attrs: SvgAttributes = { ...node.attrs };
+    style.split(';').forEach((declaration) => {
+        const separator = declaration.indexOf(':');
+        if (separator === -1) return;
+        attrs[declaration.slice(0, separator).trim()] = declaration.slice(separator + 1).trim();
+    });
+    return attrs;
+}
+
+function computeStyle(
+    state: InheritedState,
+    segments: PathSegment[],
+    definitions: Map<string, SvgElementNode>
+): VectorStyle {
+    const { properties } = state;
+    let bounds: Bounds | null | undefined;
+    const getBounds = () => (bounds === undefined ? (bounds = getPathBounds(segments)) : bounds);
+    const strokeWidth = Math.max(0, toNumber(properties['stroke-width'], 1));
+    const visible = properties['visibility'] !== 'hidden';
+
+    return {
+        fill: visible ? resolvePaint(properties['fill'], getBounds, definitions) : null,
+        fillRule: properties['fill-rule'] === 'evenodd' ? 'evenodd' : 'nonzero',
+        fillOpacity:
+            state.opacity *
+            clamp(toNumber(properties['fill-opacity'], 1), 0, 1) *
+            parseColorAlpha(properties['fill']),
+        stroke:
+            visible && strokeWidth > 0
+                ? resolvePaint(properties['stroke'] ?? 'none', getBounds, definitions)
+                : null,
+        strokeOpacity:
+            state.opacity *
+            clamp(toNumber(properties['stroke-opacity'], 1), 0, 1) *
+            parseColorAlpha(properties['stroke']),
+        strokeWidth,
+        lineJoin: oneOf(properties['stroke-linejoin'], ['miter', 'round', 'bevel'], 'miter'),
+        lineCap: oneOf(properties['stroke-linecap'], ['butt', 'round', 'square'], 'butt'),
+        miterLimit: Math.max(1, toNumber(properties['stroke-miterlimit'], 4)),
+        dashArray: parseDashArray(properties['stroke-dasharray']),
+        dashOffset: toNumber(properties['stroke-dashoffset'], 0),
+        blendMode: state.blendMode,
+        strokeFirst: String(properties['paint-order'] ?? '')
+            .trim()
+            .startsWith('stroke'),
+    };
+}
+
+/**
+ * Resolve a fill or stroke value to a color or a gradient
+ * @param getBounds Bounding box of the painted shape, for gradients in bounding box units
+ */
+function resolvePaint(
+    value: unknown,
+    getBounds: () => Bounds | null,
+    definitions: Map<string, SvgElementNode>
+): VectorPaint | null {
+    const text = String(value ?? '').trim();
+    const reference = /^url\(\s*#([^)\s]+)\s*\)\s*(.*)$/.exec(text);
+    if (!reference) {
+        const color = parseColor(text);
+        return color ? { type: 'color', color } : null;
+    }
+
+    const gradient = definitions.get(reference[1]);
+    const fallback = () => {
+        const color = parseColor(reference[2]);
+        return color ? ({ type: 'color', color } as const) : null;
+    };
+    if (!gradient || (gradient.name !== 'linearGradient' && gradient.name !== 'radialGradient')) {
+        return fallback();
+    }
+
+    const stops = getGradientStops(gradient);
+    if (stops.length === 0) return null;
+    if (stops.length === 1) return { type: 'color', color: stops[0].color };
+
+    const userSpace = gradient.attrs['gradientUnits'] === 'userSpaceOnUse';
+    let matrix = parseTransform(gradient.attrs['gradientTransform']);
+    if (!userSpace) {
+        const bounds = getBounds();
+        const width = bounds ? bounds.maxX - bounds.minX : 0;
+        const height = bounds ? bounds.maxY - bounds.minY : 0;
+        // A flat box has no area to spread the gradient on
+        if (!bounds || width <= 0 || height <= 0) return fallback();
+        matrix = multiplyMatrix([width, 0, 0, height, bounds.minX, bounds.minY], matrix);
+    }
+    const coordinate = (name: string, fallbackValue: string) =>
+        toLength(gradient.attrs[name] ?? fallbackValue, !userSpace);
+
+    if (gradient.name === 'linearGradient') {
+        return {
+            type: 'linear-gradient',
+            x1: coordinate('x1', '0%'),
+            y1: coordinate('y1', '0%'),
+            x2: coordinate('x2', '100%'),
+            y2: coordinate('y2', '0%'),
+            matrix,
+            stops,
+        };
+    }
+    const cx = coordinate('cx', '50%');
+    const cy = coordinate('cy', '50%');
+    return {
+        type: 'radial-gradient',
+        cx,
+        cy,
+        r: coordinate('r', '50%'),
+        fx: gradient.attrs['fx'] !== undefined ? coordinate('fx', '50%') : cx,
+        fy: gradient.attrs['fy'] !== undefined ? coordinate('fy', '50%') : cy,
+        matrix,
+        stops,
+    };
+}
+
+/**
+ * Dash lengths, repeated when their count is odd, empty for solid lines
+ */
+export function parseDashArray(value: unknown): number[] {
+    const dashes = String(value ?? 'none')
+        .split(/[\s,]+/)
+        .map(Number)
+        .filter((dash) => Number.isFinite(dash) && dash >= 0);
+    if (dashes.reduce((sum, dash) => sum + dash, 0) <= 0) return [];
+    return dashes.length % 2 === 1 ? [...dashes, ...dashes] : dashes;
+}
+
+function getGradientStops(gradient: SvgElementNode): GradientStop[] {
+    let previous = 0;
+    return gradient.children.flatMap((child) => {
+        if (child.type === 'text' || child.name !== 'stop') return [];
+        const attrs = getPresentationAttributes(child);
+        const color = parseColor(attrs['stop-color'] ?? '#000000');
+        if (!color) return [];
+        // Offsets never go backwards
+        previous = Math.max(previous, clamp(toLength(attrs['offset'] ?? 0, true), 0, 1));
+        return [
+            {
+                offset: previous,
+                color,
+                opacity:
+                    clamp(toNumber(attrs['stop-opacity'], 1), 0, 1) *
+                    parseColorAlpha(attrs['stop-color']),
+            },
+        ];
+    });
+}
+
+function createText(
+    node: SvgElementNode,
+    text: string,
+    state: InheritedState,
+    definitions: Map<string, SvgElementNode>
+): VectorText {
+    const { properties } = state;
+    const weight = String(properties['font-weight'] ?? 'normal');
+    const baseline = String(properties['dominant-baseline'] ?? 'auto');
+    const fontSize = toNumber(properties['font-size'], 16);
+    // Text has no outline to measure before it is laid out, gradients use an em box
+    const segments: PathSegment[] = [
+        { type: 'M', x: 0, y: -fontSize },
+        { type: 'L', x: fontSize, y: 0 },
+    ];
+    return {
+        type: 'text',
+        matrix: state.matrix,
+        x: toNumber(node.attrs['x'], 0),
+        y: toNumber(node.attrs['y'], 0),
+        text,
+        fontSize,
+        fontFamily: String(properties['font-family'] ?? 'sans-serif'),
+        bold: weight === 'bold' || weight === 'bolder' || parseInt(weight, 10) >= 600,
+        anchor: oneOf(properties['text-anchor'], ['start', 'middle', 'end'], 'start'),
+        baselineShift: BASELINE_SHIFTS[baseline] ?? 0,
+        style: computeStyle(state, segments, definitions),
+    };
+}
+
+function getTextContent(node: SvgNode): string {
+    if (node.type === 'text') return node.value;
+    if (node.name === 'title' || node.name === 'desc') return '';
+    return node.children.map(getTextContent).join('');
+}
+
+/**
+ * Read a length, percentages are fractions of 1 when `relative` is set
+ */
+function toLength(value: unknown, relative: boolean): number {
+    const text = String(value).trim();
+    const number = parseFloat(text);
+    if (!Number.isFinite(number)) return 0;
+    return text.endsWith('%') ? (relative ? number / 100 : number) : number;
+}
+
+function toNumber(value: unknown, fallback: number): number {
+    const number = parseFloat(String(value ?? ''));
+    return Number.isFinite(number) ? number : fallback;
+}
+
+function clamp(value: number, min: number, max: number): number {
+    return Math.min(Math.max(value, min), max);
+}
+
+function oneOf<T extends string>(value: unknown, options: readonly T[], fallback: T): T {
+    return options.includes(value as T) ? (value as T) : fallback;
+}
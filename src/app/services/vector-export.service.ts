@@ -0,0 +1,166 @@
+import { Injectable } from '@angular/core';
+import { SvgGeneratorService } from './svg-generator.service';
+import { SvgViewportService } from './svg-viewport.service';
+import { parseViewBox, SvgViewport } from './svg-fragment';
+import { flattenSvgDocument, VectorItem, VectorPage } from './vector-document';
+import { writePdf } from './pdf-writer';
+import { writeEps } from './eps-writer';
+import { outlineVectorStrokes } from './stroke-outline';
+
+export type VectorFormat = 'pdf' | 'eps';
+
+export interface VectorFormatOption {
+    value: VectorFormat;
+    label: string;
+    mimeType: string;
+    extension: string;
+}
+
+export const VECTOR_FORMATS: VectorFormatOption[] = [
+    { value: 'pdf', label: 'PDF', mimeType: 'application/pdf', extension: 'pdf' },
+    { value: 'eps', label: 'EPS', mimeType: 'application/postscript', extension: 'eps' },
+];
+
+export type PageSize = 'fit' | 'a5' | 'a4' | 'a3' | 'letter' | 'legal' | 'tabloid';
+
+/** Trimmed page sizes in millimeters, portrait. Fit pages take the size of the drawing */
+export const PAGE_SIZES: { value: PageSize; label: string; width: number; height: number }[] = [
+    { value: 'fit', label: 'Fit to drawing', width: 0, height: 0 },
+    { value: 'a5', label: 'A5', width: 148, height: 210 },
+    { value: 'a4', label: 'A4', width: 210, height: 297 },
+    { value: 'a3', label: 'A3', width: 297, height: 420 },
+    { value: 'letter', label: 'Letter', width: 215.9, height: 279.4 },
+    { value: 'legal', label: 'Legal', width: 215.9, height: 355.6 },
+    { value: 'tabloid', label: 'Tabloid', width: 279.4, height: 431.8 },
+];
+
+export type PageOrientation = 'portrait' | 'landscape';
+
+export interface VectorExportOptions {
+    format: VectorFormat;
+    pageSize: PageSize;
+    orientation: PageOrientation;
+    /** Space kept free between the trimmed page edge and the drawing, in millimeters */
+    margin: number;
+    /** Extra paper around the trimmed page that is cut off after printing, in millimeters */
+    bleed: number;
+    /** Replace strokes by filled outlines, for plotters and cutters */
+    outlineStrokes: boolean;
+}
+
+/** Points per millimeter */
+const MM_TO_PT = 72 / 25.4;
+/** Points per CSS pixel, fit pages print the drawing at its screen size */
+const PX_TO_PT = 72 / 96;
+/** Largest page side PDF readers accept, in points */
+const MAX_PAGE_SIZE = 14400;
+
+/**
+ * Exports the document as print ready PDF or EPS vector files
+ */
+@Injectable({
+    providedIn: 'root',
+})
+export class VectorExportService {
+    constructor(
+        private svgGeneratorService: SvgGeneratorService,
+        private viewportService: SvgViewportService
+    ) {}
+
+    /**
+     * Render and write the document. Animations are exported at their first frame
+     * @param options Export settings
+     * @returns Encoded document
+     */
+    async exportDocument(options: VectorExportOptions): Promise<Blob> {
+        const viewport = this.viewportService.getExportViewport();
+        const root = await this.svgGeneratorService.generateSvgDocument(viewport, 0);
+        const region = viewport ?? parseViewBox(root.attrs['viewBox']);
+        if (!region || !(region.width > 0 && region.height > 0)) {
+            throw new Error('The drawing has no area to export');
+        }
+
+        const items = flattenSvgDocument(root);
+        const page = layoutPage(
+            region,
+            options,
+            options.outlineStrokes ? outlineVectorStrokes(items) : items
+        );
+        const title = `Generative SVG ${new Date().toLocaleString()}`;
+
+        switch (options.format) {
+            case 'pdf':
+                return writePdf(page, { title, creator: 'svg-playground' });
+            case 'eps':
+                return writeEps(page, title);
+        }
+    }
+}
+
+/**
+ * Place the drawing on the page, scaled to fit inside the margins and centered. Sides of the
+ * drawing that reach the trimmed page edge extend into the bleed
+ */
+function layoutPage(
+    region: SvgViewport,
+    options: VectorExportOptions,
+    items: VectorItem[]
+): VectorPage {
+    const margin = Math.max(options.margin, 0) * MM_TO_PT;
+    const bleed = Math.max(options.bleed, 0) * MM_TO_PT;
+
+    let trimWidth: number;
+    let trimHeight: number;
+    const size = PAGE_SIZES.find((option) => option.value === options.pageSize);
+    if (!size || size.value === 'fit') {
+        trimWidth = region.width * PX_TO_PT + 2 * margin;
+        trimHeight = region.height * PX_TO_PT + 2 * margin;
+    } else {
+        const landscape = options.orientation === 'landscape';
+        trimWidth = (landscape ? size.height : size.width) * MM_TO_PT;
+        trimHeight = (landscape ? size.width : size.height) * MM_TO_PT;
+    }
+
+    const width = trimWidth + 2 * bleed;
+    const height = trimHeight + 2 * bleed;
+    if (width > MAX_PAGE_SIZE || height > MAX_PAGE_SIZE) {
+        throw new Error('The page is too large, zoom in or choose a page size');
+    }
+    const available = { width: trimWidth - 2 * margin, height: trimHeight - 2 * margin };
+    if (available.width <= 0 || available.height <= 0) {
+        throw new Error('The margins leave no room for the drawing');
+    }
+
+    const scale = Math.min(available.width / region.width, available.height / region.height);
+    const drawing = {
+        x: bleed + margin + (available.width - region.width * scale) / 2,
+        y: bleed + margin + (available.height - region.height * scale) / 2,
+        width: region.width * scale,
+        height: region.height * scale,
+    };
+
+    // Document y points down, page y points up
+    const matrix: VectorPage['matrix'] = [
+        scale,
+        0,
+        0,
+        -scale,
+        drawing.x - region.x * scale,
+        drawing.y + drawing.height + region.y * scale,
+    ];
+
+    const reaches = (gap: number) => gap - bleed < 0.01;
+    const left = reaches(drawing.x) ? 0 : drawing.x;
+    const bottom = reaches(drawing.y) ? 0 : drawing.y;
+    const right = reaches(width - drawing.x - drawing.width) ? width : drawing.x + drawing.width;
+    const top = reaches(height - drawing.y - drawing.height) ? height : drawing.y + drawing.height;
+
+    return {
+        width,
+        height,
+        bleed,
+        matrix,
+        clip: { x: left, y: bottom, width: right - left, height: top - bottom },
+        items,
+    };
+}
@@ -0,0 +1,135 @@
+import { EncodedFrame, muxWebm, WebmTrack } from './webm-encoder';
+
+interface EbmlElement {
+    id: number;
+    data: Uint8Array;
+    children: EbmlElement[];
+}
+
+/** Elements holding other elements rather than a value */
+const MASTER_IDS = new Set([
+    0x1a45dfa3, // EBML
+    0x18538067, // Segment
+    0x1549a966, // Info
+    0x1654ae6b, // Tracks
+    0xae, // TrackEntry
+    0xe0, // Video
+    0x1f43b675, // Cluster
+]);
+
+/**
+ * Parse EBML elements, ids keep their length marker as the muxer writes them
+ */
+function readElements(bytes: Uint8Array): EbmlElement[] {
+    const readVint = (offset: number, keepMarker: boolean) => {
+        const length = Math.clz32(bytes[offset]) - 23;
+        let value = keepMarker ? bytes[offset] : bytes[offset] & (0xff >> length);
+        for (let i = 1; i < length; i++) value = value * 256 + bytes[offset + i];
+        return { value, end: offset + length };
+    };
+
+    const elements: EbmlElement[] = [];
+    let offset = 0;
+    while (offset < bytes.length) {
+        const id = readVint(offset, true);
+        const size = readVint(id.end, false);
+        const data = bytes.subarray(size.end, size.end + size.value);
+        elements.push({
+            id: id.value,
+            data,
+            children: MASTER_IDS.has(id.value) ? readElements(data) : [],
+        });
+        offset = size.end + size.value;
+    }
+    return elements;
+}
+
+function find(elements: EbmlElement[], ...path: number[]): EbmlElement[] {
+    const [id, ...rest] = path;
+    const matches = elements.filter((element) => element.id === id);
+    return rest.length === 0 ? matches : matches.flatMap((match) => find(match.children, ...rest));
+}
+
+function readUint(data: Uint8Array): number {
+    return data.reduce((value, byte) => value * 256 + byte, 0);
+}
+
+function readString(data: Uint8Array): string {
+    return String.fromCharCode(...data);
+}
+
+/**
+ * Frames 100 ms apart with a key frame every `keyInterval` frames
+ */
+function createFrames(count: number, keyInterval: number): EncodedFrame[] {
+    return [...Array(count)].map((_, index) => ({
+        data: new Uint8Array([index, index + 1, index + 2]),
+        time: index * 100,
+        key: index % keyInterval === 0,
+    }));
+}
+
+describe('muxWebm', () => {
+    const track: WebmTrack = { codecId: 'V_VP9', width: 320, height: 240 };
+
+    it('writes a WebM header and the video track', () => {
+        const elements = readElements(muxWebm(createFrames(3, 10), track, 300));
+
+        expect(readString(find(elements, 0x1a45dfa3, 0x4282)[0].data)).toBe('webm');
+        expect(find(elements, 0x18538067).length).toBe(1);
+        const trackEntry = [0x18538067, 0x1654ae6b, 0xae];
+        expect(readString(find(elements, ...trackEntry, 0x86)[0].data)).toBe('V_VP9');
+        expect(readUint(find(elements, ...trackEntry, 0xe0, 0xb0)[0].data)).toBe(320);
+        expect(readUint(find(elements, ...trackEntry, 0xe0, 0xba)[0].data)).toBe(240);
+    });
+
+    it('stores the duration as a float in milliseconds', () => {
+        const elements = readElements(muxWebm(createFrames(3, 10), track, 1234.5));
+        const [duration] = find(elements, 0x18538067, 0x1549a966, 0x4489);
+
+        expect(new DataView(duration.data.slice().buffer).getFloat64(0)).toBe(1234.5);
+    });
+
+    it('writes one block per frame with its data', () => {
+        const frames = createFrames(12, 5);
+        const elements = readElements(muxWebm(frames, track, 1200));
+        const blocks = find(elements, 0x18538067, 0x1f43b675, 0xa3);
+
+        expect(blocks.length).toBe(12);
+        blocks.forEach((block, index) => {
+            expect(block.data[0]).toBe(0x81);
+            expect(block.data[3]).toBe(frames[index].key ? 0x80 : 0);
+            expect([...block.data.subarray(4)]).toEqual([...frames[index].data]);
+        });
+    });
+
+    it('starts a cluster on every key frame and times blocks from it', () => {
+        const elements = readElements(muxWebm(createFrames(12, 5), track, 1200));
+        const clusters = find(elements, 0x18538067, 0x1f43b675);
+
+        expect(clusters.map((cluster) => readUint(find(cluster.children, 0xe7)[0].data))).toEqual([
+            0, 500, 1000,
+        ]);
+        clusters.forEach((cluster) => {
+            const blocks = find(cluster.children, 0xa3);
+            expect(blocks[0].data[3]).toBe(0x80);
+            expect(blocks.map((block) => (block.data[1] << 8) | block.data[2])).toEqual(
+                blocks.map((_, index) => index * 100)
+            );
+        });
+    });
+
+    it('splits clusters that would outgrow the block timestamps', () => {
+        const frames: EncodedFrame[] = [0, 20000, 40000, 60000].map((time, index) => ({
+            data: new Uint8Array([1]),
+            time,
+            key: index === 0,
+        }));
+        const elements = readElements(muxWebm(frames, track, 70000));
+        const clusters = find(elements, 0x18538067, 0x1f43b675);
+
+        expect(clusters.map((cluster) => readUint(find(cluster.children, 0xe7)[0].data))).toEqual([
+            0, 40000,
+        ]);
+    });
+});
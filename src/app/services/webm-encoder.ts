@@ -0,0 +1,305 @@
+import { ByteWriter } from './byte-writer';
+import { FrameEncoder, FrameEncoderOptions } from './frame-encoder';
+
+/** Codecs tried in order, WebM only carries VP8, VP9 and AV1 */
+const VIDEO_CODECS: { config: string; codecId: string }[] = [
+    { config: 'vp09.00.10.08', codecId: 'V_VP9' },
+    { config: 'vp8', codecId: 'V_VP8' },
+];
+
+/** Seconds between key frames, lets players seek without decoding from the start */
+const KEY_FRAME_INTERVAL = 2;
+/** Block timestamps are 16-bit offsets from their cluster, start a new cluster well before */
+const MAX_CLUSTER_SPAN_MS = 30000;
+
+/** Matroska element ids used by the muxer */
+const EBML_ID = {
+    ebml: 0x1a45dfa3,
+    ebmlVersion: 0x4286,
+    ebmlReadVersion: 0x42f7,
+    ebmlMaxIdLength: 0x42f2,
+    ebmlMaxSizeLength: 0x42f3,
+    docType: 0x4282,
+    docTypeVersion: 0x4287,
+    docTypeReadVersion: 0x4285,
+    segment: 0x18538067,
+    info: 0x1549a966,
+    timecodeScale: 0x2ad7b1,
+    duration: 0x4489,
+    muxingApp: 0x4d80,
+    writingApp: 0x5741,
+    tracks: 0x1654ae6b,
+    trackEntry: 0xae,
+    trackNumber: 0xd7,
+    trackUid: 0x73c5,
+    codecId: 0x86,
+    trackType: 0x83,
+    video: 0xe0,
+    pixelWidth: 0xb0,
+    pixelHeight: 0xba,
+    cluster: 0x1f43b675,
+    timecode: 0xe7,
+    simpleBlock: 0xa3,
+};
+
+/**
+ * Encoded frame waiting to be muxed
+ */
+export interface EncodedFrame {
+    data: Uint8Array;
+    /** Milliseconds from the start */
+    time: number;
+    key: boolean;
+}
+
+/**
+ * Video track of a WebM file
+ */
+export interface WebmTrack {
+    /** Matroska codec id, e.g. `V_VP9` */
+    codecId: string;
+    width: number;
+    height: number;
+}
+
+/**
+ * Whether the browser offers the WebCodecs API the WebM export relies on
+ */
+export function isWebmSupported(): boolean {
+    return typeof VideoEncoder !== 'undefined' && typeof VideoFrame !== 'undefined';
+}
+
+/**
+ * WebM video encoder. Frames are compressed with WebCodecs at exact timestamps, so the result
+ * does not depend on how fast they are rendered, then muxed into a single-track WebM file.
+ * Video has no alpha here, transparent areas should be filled before adding frames
+ */
+export class WebmEncoder implements FrameEncoder {
+    private frames: EncodedFrame[] = [];
+    private encoder: VideoEncoder | null = null;
+    private codecId = '';
+    private failure: unknown = null;
+    private frameIndex = 0;
+
+    constructor(private options: FrameEncoderOptions) {}
+
+    async addFrame(frame: ImageData): Promise<void> {
+        const encoder = this.encoder ?? (await this.createEncoder());
+        if (this.failure) throw this.failure;
+
+        const { fps } = this.options;
+        const videoFrame = new VideoFrame(frame.data, {
+            format: 'RGBA',
+            codedWidth: frame.width,
+            codedHeight: frame.height,
+            timestamp: Math.round((this.frameIndex * 1e6) / fps),
+            duration: Math.round(1e6 / fps),
+        });
+        encoder.encode(videoFrame, {
+            keyFrame: this.frameIndex % Math.max(1, Math.round(fps * KEY_FRAME_INTERVAL)) === 0,
+        });
+        videoFrame.close();
+        this.frameIndex++;
+
+        // Let the encoder drain instead of queueing every frame
+        while (encoder.encodeQueueSize > 2) {
+            await new Promise((resolve) => setTimeout(resolve, 5));
+        }
+    }
+
+    async finish(): Promise<Blob> {
+        if (this.encoder) {
+            await this.encoder.flush();
+            this.encoder.close();
+        }
+        if (this.failure) throw this.failure;
+        const { width, height, fps } = this.options;
+        const track: WebmTrack = { codecId: this.codecId, width, height };
+        const durationMs = (this.frameIndex * 1000) / fps;
+        return new Blob([muxWebm(this.frames, track, durationMs)], { type: 'video/webm' });
+    }
+
+    private async createEncoder(): Promise<VideoEncoder> {
+        if (!isWebmSupported()) {
+            throw new Error('This browser cannot encode video, try GIF or APNG');
+        }
+
+        const { width, height, fps } = this.options;
+        for (const codec of VIDEO_CODECS) {
+            const config: VideoEncoderConfig = {
+                codec: codec.config,
+                width,
+                height,
+                framerate: fps,
+                bitrate: Math.max(width * height * fps * 0.2, 500_000),
+            };
+            const support = await VideoEncoder.isConfigSupported(config);
+            if (!support.supported) continue;
+
+            this.codecId = codec.codecId;
+            this.encoder = new VideoEncoder({
+                output: (chunk) => {
+                    const data = new Uint8Array(chunk.byteLength);
+                    chunk.copyTo(data);
+                    this.frames.push({
+                        data,
+                        time: chunk.timestamp / 1000,
+                        key: chunk.type === 'key',
+                    });
+                },
+                error: (error) => {
+                    this.failure = error;
+                },
+            });
+            this.encoder.configure(config);
+            return this.encoder;
+        }
+        throw new Error('This browser cannot encode VP8 or VP9 video, try GIF or APNG');
+    }
+}
+
+/**
+ * Mux encoded frames into a single-track WebM file: the EBML header and a segment holding the
+ * track description and the frames
+ * @param frames Encoded frames in decoding order
+ * @param track Codec and size of the video
+ * @param durationMs Length of the video
+ * @returns WebM file
+ */
+export function muxWebm(
+    frames: readonly EncodedFrame[],
+    track: WebmTrack,
+    durationMs: number
+): Uint8Array<ArrayBuffer> {
+    const header = element(EBML_ID.ebml, [
+        uintElement(EBML_ID.ebmlVersion, 1),
+        uintElement(EBML_ID.ebmlReadVersion, 1),
+        uintElement(EBML_ID.ebmlMaxIdLength, 4),
+        uintElement(EBML_ID.ebmlMaxSizeLength, 8),
+        stringElement(EBML_ID.docType, 'webm'),
+        uintElement(EBML_ID.docTypeVersion, 2),
+        uintElement(EBML_ID.docTypeReadVersion, 2),
+    ]);
+
+    const info = element(EBML_ID.info, [
+        uintElement(EBML_ID.timecodeScale, 1_000_000),
+        floatElement(EBML_ID.duration, durationMs),
+        stringElement(EBML_ID.muxingApp, 'svg-playground'),
+        stringElement(EBML_ID.writingApp, 'svg-playground'),
+    ]);
+    const tracks = element(EBML_ID.tracks, [
+        element(EBML_ID.trackEntry, [
+            uintElement(EBML_ID.trackNumber, 1),
+            uintElement(EBML_ID.trackUid, 1),
+            stringElement(EBML_ID.codecId, track.codecId),
+            uintElement(EBML_ID.trackType, 1),
+            element(EBML_ID.video, [
+                uintElement(EBML_ID.pixelWidth, track.width),
+                uintElement(EBML_ID.pixelHeight, track.height),
+            ]),
+        ]),
+    ]);
+
+    return concat([header, element(EBML_ID.segment, [info, tracks, ...createClusters(frames)])]);
+}
+
+/**
+ * Group frames into clusters, each starting on a key frame when possible
+ */
+function createClusters(frames: readonly EncodedFrame[]): Uint8Array[] {
+    const clusters: Uint8Array[] = [];
+    let start = 0;
+    let blocks: Uint8Array[] = [];
+    const flush = () => {
+        if (blocks.length > 0) {
+            clusters.push(
+                element(EBML_ID.cluster, [uintElement(EBML_ID.timecode, start), ...blocks])
+            );
+        }
+        blocks = [];
+    };
+
+    frames.forEach((frame) => {
+        const time = Math.round(frame.time);
+        if (
+            blocks.length === 0 ||
+            (frame.key && time > start) ||
+            time - start > MAX_CLUSTER_SPAN_MS
+        ) {
+            flush();
+            start = time;
+        }
+        const block = new ByteWriter()
+            .u8(0x81)
+            .u16be(time - start)
+            .u8(frame.key ? 0x80 : 0)
+            .bytes(frame.data)
+            .toUint8Array();
+        blocks.push(bytesElement(EBML_ID.simpleBlock, block));
+    });
+    flush();
+    return clusters;
+}
+
+function element(id: number, children: Uint8Array[]): Uint8Array {
+    return bytesElement(id, concat(children));
+}
+
+function bytesElement(id: number, data: Uint8Array): Uint8Array {
+    return concat([encodeId(id), encodeSize(data.length), data]);
+}
+
+function uintElement(id: number, value: number): Uint8Array {
+    const bytes: number[] = [];
+    let remaining = value;
+    do {
+        bytes.unshift(remaining % 256);
+        remaining = Math.floor(remaining / 256);
+    } while (remaining > 0);
+    return bytesElement(id, new Uint8Array(bytes));
+}
+
+function floatElement(id: number, value: number): Uint8Array {
+    const data = new Uint8Array(8);
+    new DataView(data.buffer).setFloat64(0, value);
+    return bytesElement(id, data);
+}
+
+function stringElement(id: number, value: string): Uint8Array {
+    return bytesElement(id, new ByteWriter().ascii(value).toUint8Array());
+}
+
+/**
+ * Element ids already carry their length marker, write their bytes as they are
+ */
+function encodeId(id: number): Uint8Array {
+    const bytes: number[] = [];
+    for (let remaining = id; remaining > 0; remaining = Math.floor(remaining / 256)) {
+        bytes.unshift(remaining % 256);
+    }
+    return new Uint8Array(bytes);
+}
+
+/**
+ * Encode an element size as an EBML variable length integer
+ */
+function encodeSize(size: number): Uint8Array {
+    let length = 1;
+    // All ones is reserved for unknown sizes
+    while (size >= 2 ** (7 * length) - 1) length++;
+
+    const bytes = new Uint8Array(length);
+    let remaining = size;
+    for (let i = length - 1; i >= 0; i--) {
+        bytes[i] = remaining % 256;
+        remaining = Math.floor(remaining / 256);
+    }
+    bytes[0] |= 1 << (8 - length);
+    return bytes;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+    const writer = new ByteWriter();
+    parts.forEach((part) => writer.bytes(part));
+    return writer.toUint8Array();
+}
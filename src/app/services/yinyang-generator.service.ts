@@ -1,4 +1,15 @@
 import { Injectable } from '@angular/core';
+import { SvgElementNode, svgElement } from './svg-dom';
+import {
+  createGlowFilter,
+  createLinearGradient,
+  createSpinAnimation,
+  SvgFragment,
+  SvgSubPath,
+  wrapSvgFragment,
+} from './svg-fragment';
+import { getElementPathData } from './svg-path';
+import { polarPoints } from './polar';
 
 export interface YinYangParameters {
   noids: number;
@@ -32,29 +43,9 @@ export const defaultYinYangParameters: YinYangParameters = {
   providedIn: 'root'
 })
 export class YinYangGeneratorService {
-  private readonly PI = Math.PI;
 
   constructor() {}
 
-  /**
-   * Generate star points coordinates
-   * @param noids Number of points
-   * @param r Radius
-   * @param dx X offset
-   * @param dy Y offset
-   * @param initialAngle Initial angle in degrees
-   * @returns Array of star points
-   */
-  private starPoints(noids: number, r: number, dx: number, dy: number, initialAngle: number): number[][] {
-    return [...Array(noids)].map((_, i) => {
-      const angle = (360 / noids) * i - initialAngle;
-      const angleRad = (angle * this.PI) / 180;
-      const x = Math.cos(angleRad) * r + dx;
-      const y = Math.sin(angleRad) * r + dy;
-      return [parseFloat(x.toFixed(2)), parseFloat(y.toFixed(2))];
-    });
-  }
-
   /**
    * Generate gradient colors between two colors
    * @param n Number of colors to generate
@@ -130,30 +121,15 @@ export class YinYangGeneratorService {
     return colors[Math.floor(Math.random() * colors.length)];
   }
 
-  /**
-   * Create spin animation element
-   * @param duration Animation duration
-   * @returns Animation element string
-   */
-  private createSpinAnimation(duration: string): string {
-    return `<animateTransform
-      attributeName="transform"
-      type="rotate"
-      values="0 0 0;360 0 0"
-      dur="${duration}"
-      repeatCount="indefinite"
-    />`;
-  }
-
   /**
    * Generate YinYang pattern paths
    * @param params YinYang parameters
    * @returns Array of path elements
    */
-  private generateYinYangPaths(params: YinYangParameters): string[] {
-    const paths: string[] = [];
-    const points = this.starPoints(params.noids, params.radius, params.dx, params.dy, params.initialAngle);
-    const rotatedPoints = this.starPoints(params.noids, 0, params.dx, params.dy, 45);
+  private generateYinYangPaths(params: YinYangParameters): SvgElementNode[] {
+    const paths: SvgElementNode[] = [];
+    const points = polarPoints(params.noids, params.radius, params.dx, params.dy, params.initialAngle);
+    const rotatedPoints = polarPoints(params.noids, 0, params.dx, params.dy, 45);
     
     // Use fillColor as the base yin color instead of random color
     const yinColor = params.baseColor;
@@ -161,15 +137,16 @@ export class YinYangGeneratorService {
     const gradientColors = this.gradientColors(params.noids, yinColor, yangColor);
 
     // Main circle
-    paths.push(`
-      <circle 
-        cx="${params.dx}" 
-        cy="${params.dy}" 
-        r="${params.radius}" 
-        fill="orange" 
-        stroke="${params.strokeColor}" 
-        stroke-width="${params.strokeWidth}"
-      />`);
+    paths.push(
+      svgElement('circle', {
+        cx: params.dx,
+        cy: params.dy,
+        r: params.radius,
+        fill: 'orange',
+        stroke: params.strokeColor,
+        'stroke-width': params.strokeWidth,
+      })
+    );
 
     // YinYang pattern paths
     points.forEach((point, index) => {
@@ -182,27 +159,24 @@ export class YinYangGeneratorService {
       d += `A${rj} ${rj} 0 0 0 ${points[nextIndex].join(' ')}`;
       d += `A${-1 * params.radius} ${-1 * params.radius} 0 0 0 ${point.join(' ')}`;
       
-      paths.push(`
-        <path 
-          d="${d}" 
-          fill="${color}" 
-          stroke="${color}" 
-          stroke-width="${params.strokeWidth}"
-        />`);
+      paths.push(
+        svgElement('path', { d, fill: color, stroke: color, 'stroke-width': params.strokeWidth })
+      );
     });
 
     // Small circles at star points
     points.forEach((point, index) => {
       const color = gradientColors[index];
-      paths.push(`
-        <circle 
-          cx="${point[0] / 2}" 
-          cy="${point[1] / 2}" 
-          r="${params.radius * 0.25}" 
-          fill="${color}" 
-          stroke="${params.strokeColor}" 
-          stroke-width="${params.strokeWidth}"
-        />`);
+      paths.push(
+        svgElement('circle', {
+          cx: point[0] / 2,
+          cy: point[1] / 2,
+          r: params.radius * 0.25,
+          fill: color,
+          stroke: params.strokeColor,
+          'stroke-width': params.strokeWidth,
+        })
+      );
     });
 
     return paths;
@@ -214,53 +188,62 @@ export class YinYangGeneratorService {
    * @returns SVG string
    */
   generateYinYang(params: YinYangParameters): string {
+    return wrapSvgFragment(this.generateYinYangFragment(params));
+  }
+
+  /**
+   * Generate YinYang markup that can be composed into another SVG
+   * @param params YinYang generation parameters
+   * @returns SVG fragment
+   */
+  generateYinYangFragment(params: YinYangParameters): SvgFragment {
     const paths = this.generateYinYangPaths(params);
-    return this.createSvgElement(paths, params);
+    return this.createFragment(paths, params);
   }
 
   /**
-   * Create complete SVG element
+   * Generate the YinYang shapes as path data: the disc, one petal per point and one dot per point
+   * @param params YinYang generation parameters
+   * @returns Named sub-paths in painting order
+   */
+  generateYinYangSubPaths(params: YinYangParameters): SvgSubPath[] {
+    const paths = this.generateYinYangPaths(params);
+    const numbered = (name: string) => Array.from({ length: params.noids }, (_, index) => `${name}-${index + 1}`);
+    const names = ['disc', ...numbered('petal'), ...numbered('dot')];
+
+    return paths.map((path, index) => ({
+      name: names[index],
+      d: getElementPathData(path) ?? '',
+      fill: String(path.attrs['fill']),
+      fillRule: 'nonzero',
+    }));
+  }
+
+  /**
+   * Create SVG fragment from path elements
    * @param paths Array of path elements
    * @param params YinYang parameters
-   * @returns Complete SVG string
+   * @returns SVG fragment
    */
-  private createSvgElement(paths: string[], params: YinYangParameters): string {
-    const pathElements = paths.join('\n        ');
-    const spinAnimation = params.spinDuration ? this.createSpinAnimation(params.spinDuration) : '';
+  private createFragment(paths: SvgElementNode[], params: YinYangParameters): SvgFragment {
+    const spinAnimation = params.spinDuration ? [createSpinAnimation(params.spinDuration)] : [];
 
-    return `
-      <svg width="100%" height="100%" viewBox="${-params.viewBoxSize / 2} ${
-        -params.viewBoxSize / 2
-      } ${params.viewBoxSize} ${params.viewBoxSize}" xmlns="http://www.w3.org/2000/svg">
-        <defs>
-          <linearGradient id="yinyangGradient" x1="0%" y1="0%" x2="100%" y2="100%">
-            <stop offset="0%" style="stop-color:${params.baseColor};stop-opacity:1" />
-            <stop offset="50%" style="stop-color:${this.reverseColor(params.baseColor)};stop-opacity:0.8" />
-            <stop offset="100%" style="stop-color:${this.lightenColor(
-              params.baseColor,
-              40
-            )};stop-opacity:0.6" />
-          </linearGradient>
-          <filter id="yinyangGlow">
-            <feGaussianBlur stdDeviation="3" result="coloredBlur"/>
-            <feMerge> 
-              <feMergeNode in="coloredBlur"/>
-              <feMergeNode in="SourceGraphic"/>
-            </feMerge>
-          </filter>
-          <filter id="yinyangShadow" x="-50%" y="-50%" width="200%" height="200%">
-            <feDropShadow dx="2" dy="2" stdDeviation="3" flood-color="rgba(0,0,0,0.3)"/>
-          </filter>
-        </defs>
-        <rect width="${params.viewBoxSize}" height="${params.viewBoxSize}" 
-              x="${-params.viewBoxSize / 2}" y="${-params.viewBoxSize / 2}" 
-              stroke="rgba(0,0,0,0.1)" fill="none" stroke-width="1" stroke-dasharray="5,5"/>
-        <g filter="url(#yinyangShadow)">
-          ${pathElements}
-          ${spinAnimation}
-        </g>
-      </svg>
-    `;
+    return {
+      defs: [
+        createLinearGradient('yinyangGradient', [
+          { offset: 0, color: params.baseColor, opacity: 1 },
+          { offset: 50, color: this.reverseColor(params.baseColor), opacity: 0.8 },
+          { offset: 100, color: this.lightenColor(params.baseColor, 40), opacity: 0.6 },
+        ]),
+        createGlowFilter('yinyangGlow', 3),
+        svgElement('filter', { id: 'yinyangShadow', x: '-50%', y: '-50%', width: '200%', height: '200%' }, [
+          svgElement('feDropShadow', { dx: 2, dy: 2, stdDeviation: 3, 'flood-color': 'rgba(0,0,0,0.3)' }),
+        ]),
+      ],
+      content: [svgElement('g', { filter: 'url(#yinyangShadow)' }, [...paths, ...spinAnimation])],
+      viewBoxSize: params.viewBoxSize,
+      frame: true,
+    };
   }
 
   /**